@@ -1,254 +1,874 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
-import { Product, TryOnState } from './types';
-import { MOCK_PRODUCTS, AVAILABLE_SIZES } from './constants';
-import { performVirtualTryOn, fileToBase64, urlToBase64, estimateSizeFromImage } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { BodyMeasurements, ConsentRecord, OutfitItem, Product, SavedLook, StoreSettings, TryOnState, WidgetConfig, WidgetEvent } from './types';
+import { ANALYTICS_CONFIG, SHARE_CONFIG } from './constants';
+import { findProduct, findVariant, getDefaultProviders, loadCatalog } from './services/catalogService';
+import { buildVariantUrl } from './services/cartService';
+import { WIDGET_PROTOCOL_VERSION, buildThemeCss, emitToHost, listenToHost, mergeWidgetConfig, readWidgetConfig, resolveTheme } from './services/embedService';
+import { estimateSizeFromImage } from './services/geminiService';
+import { renderOutfit } from './services/tryOnService';
+import { ErrorCode, errorCode, isCancelled } from './services/errors';
+import { I18nContext, LANGUAGES, createI18n, saveLocalePreference } from './services/i18n';
+import { dataUrlToBlob, preprocessImage } from './services/imagePreprocessing';
+import { CartLine, cartLines, describeOutfit, groupOutfit, outfitFromProduct, primaryOutfitProduct } from './services/outfitService';
+import { preloadProductImages } from './services/productImageService';
+import { focusStepHeading, handleRadioGroupKeyDown, rovingTabIndex } from './services/a11y';
 import ProductCard from './components/ProductCard';
 import StepIndicator from './components/StepIndicator';
+import MeasurementsForm from './components/MeasurementsForm';
+import CartPanel from './components/CartPanel';
+import CameraCapture from './components/CameraCapture';
+import PhotoChecklist from './components/PhotoChecklist';
+import OutfitBuilder from './components/OutfitBuilder';
+import ComparisonView from './components/ComparisonView';
+import SizeRecommendationPanel from './components/SizeRecommendationPanel';
+import FitPreview from './components/FitPreview';
+import PhotoDropZone from './components/PhotoDropZone';
+import QualityNotice from './components/QualityNotice';
+import ConsentGate from './components/ConsentGate';
+import PrivacyControls from './components/PrivacyControls';
+import LooksGallery from './components/LooksGallery';
+import ShareDialog from './components/ShareDialog';
+import { PhotoCheckReport, checkPhoto } from './services/photoChecks';
+import { MessageKey } from './locales/de';
+import { NewLook, clearLooks, deleteLooks, getLookImages, listLooks, saveLook, setFavourite } from './services/lookStore';
+import { dataUrlMimeType, downloadBlob, extensionFor } from './services/shareService';
+import { anonymizeFaces, declineConsent, deleteUserData, exportConsentLog, getConsent, grantConsent, revokeConsent, setAnalyticsConsent } from './services/privacyService';
+import { AnalyticsConsent, createAnalytics, createSinks } from './services/analytics';
+import { Route, StepGuard, allowedStep, currentRoute, listenToRoute, navigateToPath, pathForStep, stepForRoute } from './services/router';
+import { loadSessionPhoto, loadWizardSnapshot, saveSessionPhoto, saveWizardSnapshot } from './services/session';
+import { loadSettings } from './services/settingsService';
+import { DEFAULT_SETTINGS } from './services/settingsSchema';
 
 const App: React.FC = () => {
   const [state, setState] = useState<TryOnState>({
     userImage: null,
     selectedProduct: null,
+    outfit: [],
     resultImage: null,
+    resultQuality: null,
     recommendedSize: null,
     isLoading: false,
     error: null,
   });
 
-  const [hasKey, setHasKey] = useState<boolean | null>(null);
-  const [loadingStep, setLoadingStep] = useState<string>('');
+  const [loadingStep, setLoadingStep] = useState<MessageKey | null>(null);
   const [step, setStep] = useState(1);
+  const [outfitMode, setOutfitMode] = useState<'set' | 'combine'>('set');
+  const [measurements, setMeasurements] = useState<BodyMeasurements>({});
+  const [products, setProducts] = useState<Product[]>([]);
+  const [catalogError, setCatalogError] = useState<ErrorCode | null>(null);
+  const [widget, setWidget] = useState<WidgetConfig>(() => readWidgetConfig());
+  // Einstellungen aus dem Admin-Bereich; bis sie da sind, wartet der Katalog
+  const [settings, setSettings] = useState<StoreSettings | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [photoReport, setPhotoReport] = useState<PhotoCheckReport | null>(null);
+  const [isCheckingPhoto, setIsCheckingPhoto] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [consent, setConsent] = useState<ConsentRecord | null>(() => getConsent());
+  const [privacyNotice, setPrivacyNotice] = useState<MessageKey | null>(null);
+  const [hideFace, setHideFace] = useState(false);
+  const [anonymizedImage, setAnonymizedImage] = useState<string | null>(null);
+  const [isAnonymizing, setIsAnonymizing] = useState(false);
+  const [anonymizeError, setAnonymizeError] = useState<ErrorCode | null>(null);
+  const [looks, setLooks] = useState<SavedLook[]>([]);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [lookNotice, setLookNotice] = useState<MessageKey | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+  // Look in "Meine Looks" zum aktuellen Ergebnis – damit lässt sich der Ergebnis-Schritt nach dem Neuladen wiederherstellen
+  const [lookId, setLookId] = useState<string | null>(null);
+  // Frisches Ergebnis, das erst auf Wunsch in "Meine Looks" landet – samt Foto, deshalb nie automatisch
+  const [unsavedLook, setUnsavedLook] = useState<NewLook | null>(null);
+  const [isSavingLook, setIsSavingLook] = useState(false);
+  // Bis URL und Sitzungsstand übernommen sind, schreibt die App weder History noch sessionStorage
+  const [isRestored, setIsRestored] = useState(false);
+  const restoreStartedRef = useRef(false);
+  const tryOnAbortRef = useRef<AbortController | null>(null);
+  const activeSettings = settings || DEFAULT_SETTINGS;
+  const i18n = useMemo(() => createI18n(widget.locale, activeSettings.copy), [widget.locale, activeSettings.copy]);
+  const { t } = i18n;
+  // Farben des Widget-Aufrufs gehen vor, damit eine einzelne Shop-Seite abweichen kann
+  const theme = useMemo(() => resolveTheme(activeSettings.theme, widget.theme), [activeSettings.theme, widget.theme]);
+
+  // Sinks lesen die aktuelle Konfiguration über die Ref, damit die Warteschlange nicht neu entsteht
+  const widgetRef = useRef(widget);
+  widgetRef.current = widget;
+  const analytics = useMemo(() => createAnalytics({
+    sinks: createSinks(ANALYTICS_CONFIG.SINKS, { endpoint: ANALYTICS_CONFIG.ENDPOINT, getWidget: () => widgetRef.current }),
+    getLocale: () => widgetRef.current.locale,
+  }), []);
+  const track = analytics.track;
+
+  // Entscheidet der Shop über sein Cookie-Banner, gilt das – sonst die optionale Einwilligung im Widget
+  const analyticsConsent: AnalyticsConsent = widget.analyticsConsent !== null
+    ? (widget.analyticsConsent ? 'granted' : 'denied')
+    : consent ? (consent.analytics ? 'granted' : 'denied') : 'pending';
 
-  // Initialer Check ob ein API Key vorhanden ist (Voraussetzung für Pro Modelle)
   useEffect(() => {
-    const checkKey = async () => {
-      const selected = await window.aistudio.hasSelectedApiKey();
-      setHasKey(selected);
-    };
-    checkKey();
+    analytics.setConsent(analyticsConsent);
+  }, [analytics, analyticsConsent]);
+
+  useEffect(() => {
+    const handlePageHide = () => void analytics.flush();
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [analytics]);
+
+  const previousStepRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!isRestored) return;
+    track({ name: 'step-viewed', props: { step, previousStep: previousStepRef.current } });
+    previousStepRef.current = step;
+  }, [step, isRestored, track]);
+
+  // Nach einem Wechsel von Schritt oder Ansicht springt der Fokus auf deren Überschrift – nicht beim ersten Laden,
+  // damit die einbettende Seite ihren Fokus behält
+  const mainRef = useRef<HTMLElement>(null);
+  const viewKey = `${step}:${isGalleryOpen}:${isComparing}:${state.isLoading}:${!!state.error}`;
+  const focusedViewRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!isRestored) return;
+    if (focusedViewRef.current !== null && focusedViewRef.current !== viewKey) focusStepHeading(mainRef.current);
+    focusedViewRef.current = viewKey;
+  }, [viewKey, isRestored]);
+
+  // Jeder Schrittwechsel bekommt einen History-Eintrag, damit Zurück/Vorwärts im Assistenten bleibt
+  useEffect(() => {
+    if (isRestored) navigateToPath(pathForStep(step));
+  }, [step, isRestored]);
+
+  useEffect(() => {
+    loadSettings().then(setSettings);
   }, []);
 
-  const handleSelectKey = async () => {
-    await window.aistudio.openSelectKey();
-    // Nach dem Dialog nehmen wir an, dass ein Key gewählt wurde (Race-Condition Handling laut Rules)
-    setHasKey(true);
+  useEffect(() => {
+    if (!settings) return;
+    loadCatalog(getDefaultProviders(settings.products))
+      .then(catalog => setProducts(catalog.products))
+      .catch(err => {
+        const code = errorCode(err);
+        setCatalogError(code);
+        track({ name: 'error-shown', props: { code, context: 'catalog' } });
+      });
+  }, [settings, track]);
+
+  // Befehle der Shop-Seite (postMessage) entgegennehmen und Bereitschaft melden
+  useEffect(() => {
+    const unsubscribe = listenToHost(widget, command => {
+      if (command.type === 'configure') {
+        setWidget(prev => mergeWidgetConfig(prev, command.payload));
+      } else if (command.type === 'select-product') {
+        setWidget(prev => ({ ...prev, productRef: command.payload.productRef }));
+      }
+    });
+    emitToHost(widget, { type: 'ready', payload: { version: WIDGET_PROTOCOL_VERSION } });
+    return unsubscribe;
+  }, [widget.hostOrigin]);
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.language;
+  }, [i18n.language]);
+
+  // Vorausgewähltes Produkt (Produktdetailseite) übernehmen und ggf. direkt zum Foto springen
+  useEffect(() => {
+    if (!widget.productRef || products.length === 0) return;
+    const product = findProduct(products, widget.productRef);
+    if (!product) return;
+    setState(prev => ({ ...prev, selectedProduct: product, outfit: outfitFromProduct(product) }));
+    track({ name: 'product-selected', props: { productId: product.id, category: product.category, source: 'host' } });
+    if (widget.skipCatalog) setStep(current => (current === 1 ? 2 : current));
+  }, [products, widget.productRef, widget.skipCatalog, track]);
+
+  const notifyHost = useCallback((event: WidgetEvent) => emitToHost(widget, event), [widget]);
+
+  const stepGuard: StepGuard = {
+    hasOutfit: state.outfit.length > 0,
+    hasImage: !!state.userImage,
+    hasResult: !!state.resultImage || state.isLoading || !!state.error,
+    skipCatalog: widget.skipCatalog,
   };
 
+  // Ohne IndexedDB bleibt die Galerie einfach leer
+  const refreshLooks = useCallback(async () => {
+    try {
+      setLooks(await listLooks());
+    } catch {
+      setLooks([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshLooks();
+  }, [refreshLooks]);
+
+  // Ein neues Ergebnis wird wieder unverändert angezeigt
+  useEffect(() => {
+    setHideFace(false);
+    setAnonymizedImage(null);
+    setAnonymizeError(null);
+    setIsSharing(false);
+  }, [state.resultImage]);
+
+  // Produktbilder laden und normalisieren, während der Kunde noch sein Foto auswählt
+  useEffect(() => {
+    if (step === 2) preloadProductImages(groupOutfit(state.outfit).map(garment => garment.product));
+  }, [step, state.outfit]);
+
   const handleProductSelect = useCallback((product: Product) => {
-    setState(prev => ({ ...prev, selectedProduct: product }));
+    setState(prev => ({ ...prev, selectedProduct: product, outfit: outfitFromProduct(product) }));
+    track({ name: 'product-selected', props: { productId: product.id, category: product.category, source: 'catalog' } });
+  }, [track]);
+
+  // Im kombinierten Outfit bestimmt das Hauptteil Größenempfehlung und Widget-Events
+  const handleOutfitChange = useCallback((outfit: OutfitItem[]) => {
+    setState(prev => ({ ...prev, outfit, selectedProduct: primaryOutfitProduct(outfit) }));
   }, []);
 
-  const handleFileUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      try {
-        const base64 = await fileToBase64(file);
-        setState(prev => ({ ...prev, userImage: base64, error: null }));
-      } catch (err) {
-        setState(prev => ({ ...prev, error: "Fehler beim Lesen der Bilddatei." }));
-      }
+  const handleModeChange = (mode: 'set' | 'combine') => {
+    setOutfitMode(mode);
+    // Ein gemischtes Outfit lässt sich nicht als einzelnes Set darstellen
+    if (mode === 'set' && groupOutfit(state.outfit).length > 1) {
+      setState(prev => ({ ...prev, outfit: [], selectedProduct: null }));
     }
-  }, []);
+  };
+
+  // Jedes neue Foto wird lokal geprüft, bevor es an das Modell gehen darf
+  const applyUserImage = useCallback(async (dataUrl: string, source: 'file' | 'camera') => {
+    setState(prev => ({ ...prev, userImage: dataUrl, error: null }));
+    setPrivacyNotice(null);
+    setPhotoReport(null);
+    setIsCheckingPhoto(true);
+    let report: PhotoCheckReport;
+    try {
+      report = await checkPhoto(dataUrl);
+    } catch (err) {
+      report = { checks: [{ id: 'resolution', status: 'fail', message: { key: `error.${errorCode(err)}` } }], passed: false };
+    } finally {
+      setIsCheckingPhoto(false);
+    }
+    setPhotoReport(report);
+    track({ name: 'photo-uploaded', props: { source, checksPassed: report.passed } });
+  }, [track]);
+
+  // Orientierung, EXIF-Entfernung, Zuschnitt und Kompression passieren vor Prüfung und Upload
+  const processAndApply = useCallback(async (blob: Blob, source: 'file' | 'camera') => {
+    setIsCheckingPhoto(true);
+    try {
+      const processed = await preprocessImage(blob);
+      await applyUserImage(processed.dataUrl, source);
+    } catch (err) {
+      const code = errorCode(err);
+      setIsCheckingPhoto(false);
+      setPhotoReport({ checks: [{ id: 'resolution', status: 'fail', message: { key: `error.${code}` } }], passed: false });
+      track({ name: 'error-shown', props: { code, context: 'photo' } });
+    }
+  }, [applyUserImage, track]);
 
+  const clearUserImage = () => {
+    setState(prev => ({ ...prev, userImage: null }));
+    setPhotoReport(null);
+  };
+
+  const handlePhotoFile = useCallback(async (file: File) => {
+    await processAndApply(file, 'file');
+  }, [processAndApply]);
+
+  const handleCameraCapture = useCallback(async (dataUrl: string) => {
+    setIsCameraOpen(false);
+    await processAndApply(await dataUrlToBlob(dataUrl), 'camera');
+  }, [processAndApply]);
+
+  const displayedResult = hideFace && anonymizedImage ? anonymizedImage : state.resultImage;
+
+  // Die Share-Karte zeigt das Outfit mit Gesamtpreis, Größe und Link auf das Hauptprodukt
+  const shareContent = useMemo(() => {
+    if (!displayedResult || !state.selectedProduct) return null;
+    const garments = groupOutfit(state.outfit);
+    const total = garments.reduce((sum, garment) => sum + garment.product.price, 0);
+    const size = state.recommendedSize?.size || null;
+    const details = [i18n.formatPrice(total, state.selectedProduct.currency)];
+    if (size) details.push(i18n.t('share.size', { size }));
+    return {
+      image: displayedResult,
+      title: describeOutfit(state.outfit),
+      details,
+      url: buildVariantUrl(state.selectedProduct, findVariant(state.selectedProduct, size)),
+    };
+  }, [displayedResult, state.outfit, state.selectedProduct, state.recommendedSize, i18n]);
+
+  // Dateiendung passend zum tatsächlichen Bildformat des Modells
   const handleDownload = () => {
-    if (!state.resultImage) return;
+    if (!displayedResult) return;
     const link = document.createElement('a');
-    link.href = state.resultImage;
-    link.download = `my-better-future-look.jpg`;
+    link.href = displayedResult;
+    link.download = `${SHARE_CONFIG.FILE_PREFIX}.${extensionFor(dataUrlMimeType(displayedResult))}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
   const handleTryOn = async () => {
-    if (!state.userImage || !state.selectedProduct) return;
+    if (!consent || !state.userImage || !state.selectedProduct || state.outfit.length === 0) return;
     setState(prev => ({ ...prev, isLoading: true, error: null }));
     setStep(3);
+    setLookNotice(null);
+    setLookId(null);
+    setUnsavedLook(null);
+    const product = state.selectedProduct;
+    const userImage = state.userImage;
+    const outfit = state.outfit;
+    const controller = new AbortController();
+    tryOnAbortRef.current = controller;
+    notifyHost({ type: 'tryon-started', payload: { productId: product.id } });
+    track({ name: 'tryon-started', props: { productIds: groupOutfit(outfit).map(garment => garment.product.id) } });
+    const startedAt = performance.now();
 
     try {
-      setLoadingStep('Lade High-End-Modell...');
-      const productBase64 = await urlToBase64(state.selectedProduct.imageUrl);
-      
-      setLoadingStep('Analysiere Proportionen...');
-      const aiRecommendedSize = await estimateSizeFromImage(state.userImage, state.selectedProduct.name);
+      setLoadingStep('loading.size');
+      const aiRecommendedSize = await estimateSizeFromImage(state.userImage, product, measurements, controller.signal);
 
       await new Promise(r => setTimeout(r, 1000));
 
-      setLoadingStep('Generiere Foto-Realismus...');
-      const result = await performVirtualTryOn(state.userImage, productBase64, state.selectedProduct);
+      setLoadingStep('loading.render');
+      const { image: result, variant, quality, cached } = await renderOutfit(state.userImage, state.outfit, controller.signal);
       
       setState(prev => ({ 
         ...prev, 
         resultImage: result, 
+        resultQuality: quality,
         recommendedSize: aiRecommendedSize,
         isLoading: false 
       }));
-    } catch (err: any) {
+      notifyHost({
+        type: 'size-recommended',
+        payload: {
+          productId: product.id,
+          size: aiRecommendedSize.size,
+          confidence: aiRecommendedSize.confidence,
+          variantId: findVariant(product, aiRecommendedSize.size)?.id || null,
+        },
+      });
+      notifyHost({ type: 'result-ready', payload: { productId: product.id, variant } });
+      track({ name: 'size-recommended', props: { productId: product.id, size: aiRecommendedSize.size, confidence: aiRecommendedSize.confidence } });
+      track({ name: 'tryon-completed', props: { durationMs: Math.round(performance.now() - startedAt), cached, qualityPassed: quality.passed, variant } });
+
+      setUnsavedLook({ userImage, resultImage: result, outfit, recommendedSize: aiRecommendedSize, variant });
+    } catch (err) {
+      track({ name: 'tryon-failed', props: { durationMs: Math.round(performance.now() - startedAt), errorCode: errorCode(err) } });
+      // Abbruch durch den Nutzer ist kein Fehler – zurück zum Foto, außer er hat den Schritt schon verlassen
+      if (isCancelled(err)) {
+        setState(prev => ({ ...prev, isLoading: false }));
+        setStep(current => (current === 3 ? 2 : current));
+        return;
+      }
       console.error(err);
-      if (err.message === "KEY_NOT_FOUND") {
-        setHasKey(false);
-        setState(prev => ({ ...prev, isLoading: false, error: "Bitte wähle deinen API Key erneut aus." }));
-      } else {
-        let msg = err.message || "Ein technischer Fehler ist aufgetreten.";
-        if (msg.includes("429")) msg = "Die KI ist gerade ausgelastet. Bitte warte einen Moment.";
-        setState(prev => ({ ...prev, isLoading: false, error: msg }));
+      setState(prev => ({ ...prev, isLoading: false, error: errorCode(err) }));
+    } finally {
+      if (tryOnAbortRef.current === controller) tryOnAbortRef.current = null;
+    }
+  };
+
+  const cancelTryOn = () => tryOnAbortRef.current?.abort();
+
+  // Ein Speicherfehler blockiert das Ergebnis nicht – der Button bleibt für einen neuen Versuch
+  const handleSaveLook = async () => {
+    if (!unsavedLook) return;
+    setIsSavingLook(true);
+    try {
+      const look = await saveLook(unsavedLook);
+      setLookId(look.id);
+      setUnsavedLook(null);
+      setLookNotice('gallery.saved');
+      await refreshLooks();
+    } catch (err) {
+      setLookNotice(`error.${errorCode(err)}`);
+    } finally {
+      setIsSavingLook(false);
+    }
+  };
+
+  // Verlässt der Kunde das Ergebnis während der Anprobe, wird sie abgebrochen
+  const goToStep = (next: number) => {
+    if (next !== 3 && state.isLoading) cancelTryOn();
+    setStep(next);
+  };
+
+  // Zurück/Vorwärts: gesperrte Schritte werden auf den nächsten erlaubten korrigiert und der Eintrag ersetzt.
+  // Ein Produktlink gibt wie beim ersten Laden das Produkt vor.
+  const handleRouteChange = (route: Route) => {
+    const linked = route.productRef ? findProduct(products, route.productRef) : null;
+    if (linked) {
+      setState(prev => ({ ...prev, selectedProduct: linked, outfit: outfitFromProduct(linked) }));
+      track({ name: 'product-selected', props: { productId: linked.id, category: linked.category, source: 'link' } });
+    }
+    const requested = stepForRoute(route);
+    const next = allowedStep(requested, linked ? { ...stepGuard, hasOutfit: true } : stepGuard);
+    if (next !== requested || route.name === 'try') navigateToPath(pathForStep(next), { replace: true });
+    setIsGalleryOpen(false);
+    goToStep(next);
+  };
+  const routeHandlerRef = useRef(handleRouteChange);
+  routeHandlerRef.current = handleRouteChange;
+
+  useEffect(() => {
+    if (!isRestored) return;
+    return listenToRoute(route => routeHandlerRef.current(route));
+  }, [isRestored]);
+
+  // Die Verpixelung läuft lokal und nur einmal pro Ergebnis
+  const handleHideFaceChange = async (checked: boolean) => {
+    setHideFace(checked);
+    setAnonymizeError(null);
+    if (!checked || anonymizedImage || !state.resultImage) return;
+    setIsAnonymizing(true);
+    try {
+      setAnonymizedImage(await anonymizeFaces(state.resultImage));
+    } catch (err) {
+      setHideFace(false);
+      setAnonymizeError(errorCode(err));
+    } finally {
+      setIsAnonymizing(false);
+    }
+  };
+
+  const handleConsentAccept = (allowAnalytics: boolean) => {
+    const { record, event } = grantConsent(widget.locale, allowAnalytics);
+    setConsent(record);
+    setPrivacyNotice(null);
+    notifyHost({ type: 'consent', payload: event });
+  };
+
+  const handleAnalyticsChange = (allowed: boolean) => {
+    if (!consent) return;
+    const { record, event } = setAnalyticsConsent(consent, allowed);
+    setConsent(record);
+    notifyHost({ type: 'consent', payload: event });
+  };
+
+  const handleConsentDecline = () => {
+    notifyHost({ type: 'consent', payload: declineConsent(widget.locale) });
+    if (!widget.skipCatalog) setStep(1);
+  };
+
+  // Entfernt Foto, Maße und Ergebnisse aus dem State – Produktauswahl und Sprache bleiben
+  const clearPersonalData = () => {
+    cancelTryOn();
+    setState(prev => ({ ...prev, userImage: null, resultImage: null, resultQuality: null, recommendedSize: null, isLoading: false, error: null }));
+    setMeasurements({});
+    setPhotoReport(null);
+    setIsCameraOpen(false);
+    setIsComparing(false);
+    setLookId(null);
+    setUnsavedLook(null);
+    setStep(current => Math.min(current, 2));
+  };
+
+  const handleDeleteData = async () => {
+    clearPersonalData();
+    notifyHost({ type: 'consent', payload: await deleteUserData(widget.locale) });
+    setLooks([]);
+    setPrivacyNotice('privacy.deleted');
+  };
+
+  const handleRevokeConsent = async () => {
+    clearPersonalData();
+    notifyHost({ type: 'consent', payload: await revokeConsent(widget.locale) });
+    setConsent(null);
+    setLooks([]);
+    setPrivacyNotice('privacy.revoked');
+  };
+
+  // Gespeicherte Produkte werden gegen den aktuellen Katalog getauscht, damit Preise und Bestand stimmen
+  const restoreLook = async (look: SavedLook): Promise<Product | null> => {
+    const { resultImage, userImage } = await getLookImages(look.id);
+    const outfit = look.outfit.map(item => ({ ...item, product: findProduct(products, item.product.id) || item.product }));
+    const primary = primaryOutfitProduct(outfit);
+    cancelTryOn();
+    setOutfitMode(groupOutfit(outfit).length > 1 ? 'combine' : 'set');
+    setState(prev => ({
+      ...prev,
+      userImage,
+      resultImage,
+      resultQuality: null,
+      outfit,
+      selectedProduct: primary,
+      recommendedSize: look.recommendedSize,
+      isLoading: false,
+      error: null,
+    }));
+    setPhotoReport(null);
+    setLookId(look.id);
+    setUnsavedLook(null);
+    return primary;
+  };
+
+  const handleOpenLook = async (look: SavedLook) => {
+    try {
+      const primary = await restoreLook(look);
+      setIsComparing(false);
+      setLookNotice(null);
+      setIsGalleryOpen(false);
+      if (primary) track({ name: 'product-selected', props: { productId: primary.id, category: primary.category, source: 'gallery' } });
+      setStep(3);
+    } catch (err) {
+      setLookNotice(`error.${errorCode(err)}`);
+    }
+  };
+
+  /**
+   * Übernimmt nach dem Laden des Katalogs den Stand aus URL und sessionStorage: Produktlink
+   * (/try/:productId), Outfit, Maße, Foto und das letzte Ergebnis aus "Meine Looks". Der Schritt
+   * aus der URL gilt nur, soweit die Guards ihn erlauben.
+   */
+  useEffect(() => {
+    if (restoreStartedRef.current || (products.length === 0 && !catalogError)) return;
+    restoreStartedRef.current = true;
+
+    const restore = async () => {
+      const route = currentRoute();
+      const snapshot = loadWizardSnapshot();
+      const hasConsent = !!getConsent();
+      const linked = route.productRef ? findProduct(products, route.productRef) : null;
+      // Produktlink und Produktseite des Shops geben das Produkt vor, sonst gilt der Sitzungsstand
+      const dictated = linked || (widget.productRef ? findProduct(products, widget.productRef) : null);
+      let outfit = dictated
+        ? outfitFromProduct(dictated)
+        : (snapshot?.outfit || []).flatMap(item => {
+            const product = findProduct(products, item.productId);
+            return product ? [{ slot: item.slot, product }] : [];
+          });
+      const userImage = hasConsent ? loadSessionPhoto() : null;
+      let hasResult = false;
+
+      if (hasConsent && snapshot?.lookId) {
+        try {
+          const look = (await listLooks()).find(saved => saved.id === snapshot.lookId);
+          if (look && (!dictated || look.outfit.some(item => item.product.id === dictated.id))) {
+            await restoreLook(look);
+            outfit = look.outfit;
+            hasResult = true;
+          }
+        } catch {
+          // Look gelöscht oder IndexedDB nicht verfügbar – dann eben ab dem Foto
+        }
       }
+
+      if (!hasResult) {
+        if (snapshot && !dictated) setOutfitMode(snapshot.outfitMode);
+        setState(prev => ({ ...prev, outfit, selectedProduct: primaryOutfitProduct(outfit), userImage }));
+      }
+      if (hasConsent && snapshot) setMeasurements(snapshot.measurements);
+      if (linked) track({ name: 'product-selected', props: { productId: linked.id, category: linked.category, source: 'link' } });
+
+      const next = allowedStep(stepForRoute(route), { hasOutfit: outfit.length > 0, hasImage: hasResult || !!userImage, hasResult, skipCatalog: widget.skipCatalog });
+      navigateToPath(pathForStep(next), { replace: true });
+      setStep(next);
+      setIsRestored(true);
+    };
+    restore();
+  }, [products, catalogError]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    saveWizardSnapshot({
+      outfit: state.outfit.map(item => ({ slot: item.slot, productId: item.product.id })),
+      outfitMode,
+      measurements: consent ? measurements : {},
+      lookId,
+    });
+  }, [isRestored, state.outfit, outfitMode, measurements, lookId, consent]);
+
+  // Nur geprüfte Fotos überstehen ein Neuladen; ein abgelehntes Foto muss neu gewählt werden
+  useEffect(() => {
+    if (!isRestored || isCheckingPhoto) return;
+    saveSessionPhoto(consent && photoReport?.passed !== false ? state.userImage : null);
+  }, [isRestored, state.userImage, photoReport, isCheckingPhoto, consent]);
+
+  const updateLooks = async (change: Promise<void>) => {
+    try {
+      await change;
+    } catch (err) {
+      setLookNotice(`error.${errorCode(err)}`);
     }
+    await refreshLooks();
   };
 
+  const handleExportConsentLog = () => downloadBlob(exportConsentLog(), 'better-future-consent-log.json');
+
+  const handleAddToCartClick = useCallback((product: Product, size: string | null, variantId: string | null) => {
+    notifyHost({ type: 'add-to-cart-clicked', payload: { productId: product.id, size, variantId } });
+    track({ name: 'shop-clicked', props: { productId: product.id, size, via: widget.cartMode } });
+  }, [notifyHost, track, widget.cartMode]);
+
   const reset = () => {
-    setState({ userImage: null, selectedProduct: null, resultImage: null, recommendedSize: null, isLoading: false, error: null });
-    setLoadingStep('');
-    setStep(1);
+    cancelTryOn();
+    // Im Widget auf der Produktseite bleibt das vorausgewählte Produkt erhalten
+    const keepProduct = widget.skipCatalog ? state.selectedProduct : null;
+    setState({ userImage: null, selectedProduct: keepProduct, outfit: keepProduct ? outfitFromProduct(keepProduct) : [], resultImage: null, resultQuality: null, recommendedSize: null, isLoading: false, error: null });
+    setLoadingStep(null);
+    setPhotoReport(null);
+    setIsCameraOpen(false);
+    setIsComparing(false);
+    setIsGalleryOpen(false);
+    setLookNotice(null);
+    setLookId(null);
+    setUnsavedLook(null);
+    setStep(keepProduct ? 2 : 1);
   };
 
-  // Falls kein Key ausgewählt wurde, Setup-Screen anzeigen
-  if (hasKey === false) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-slate-50 p-6">
-        <div className="max-w-md w-full bg-white rounded-[40px] p-10 shadow-2xl text-center border border-indigo-50">
-          <div className="w-20 h-20 bg-indigo-600 rounded-3xl flex items-center justify-center mx-auto mb-6 shadow-xl rotate-3">
-            <span className="text-white font-black text-3xl">B</span>
-          </div>
-          <h1 className="text-2xl font-black mb-4 uppercase tracking-tighter italic">Willkommen bei Better Future AI</h1>
-          <p className="text-slate-500 mb-8 text-sm leading-relaxed">
-            Um unseren hochauflösenden <b>Virtual Try-On</b> zu nutzen, musst du einmalig deinen API Key autorisieren. Dies stellt sicher, dass die Bildqualität perfekt ist.
-          </p>
-          <button 
-            onClick={handleSelectKey}
-            className="w-full bg-indigo-600 text-white py-4 rounded-2xl font-black text-lg hover:bg-indigo-700 transition-all shadow-lg active:scale-95"
-          >
-            START KONFIGURIEREN
-          </button>
-          <p className="mt-6 text-[10px] text-slate-400 uppercase tracking-widest font-bold">
-            Erfordert einen Key von <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" className="underline">ai.google.dev</a>
-          </p>
-        </div>
-      </div>
-    );
-  }
+  const handleLocaleChange = (locale: string) => {
+    saveLocalePreference(locale);
+    setWidget(prev => ({ ...prev, locale }));
+  };
+
+  const isMixedOutfit = groupOutfit(state.outfit).length > 1;
+  // Bei kombinierten Outfits nur die gewählten Teile, nicht die ganzen Sets
+  const cartItems = cartLines(state.outfit, products);
+  const canStartTryOn = !!state.userImage && !isCheckingPhoto && (!photoReport || photoReport.passed);
 
   return (
+    <I18nContext.Provider value={i18n}>
     <div className="min-h-screen pb-10 bg-slate-50 font-sans text-slate-900">
       <header className="bg-white border-b border-gray-200 py-4 mb-6 sticky top-0 z-50 shadow-sm">
         <div className="container mx-auto px-4 flex justify-between items-center">
           <div className="flex items-center space-x-2">
             <div className="w-8 h-8 bg-indigo-600 rounded flex items-center justify-center">
-              <span className="text-white font-bold text-lg">B</span>
+              <span className="text-white font-bold text-lg">{activeSettings.brand.name.charAt(0)}</span>
             </div>
-            <span className="font-bold text-xl tracking-tight uppercase">Better Future <span className="font-light text-gray-500">PRO</span></span>
+            <span className="font-bold text-xl tracking-tight uppercase">{activeSettings.brand.name} <span className="font-light text-gray-500">{activeSettings.brand.suffix}</span></span>
+          </div>
+          <div className="flex items-center space-x-4">
+            <select
+              value={LANGUAGES.find(language => language.code === i18n.language)?.locale}
+              onChange={e => handleLocaleChange(e.target.value)}
+              aria-label={t('header.language')}
+              className="text-xs font-black text-gray-500 uppercase tracking-widest bg-transparent cursor-pointer"
+            >
+              {LANGUAGES.map(language => (
+                <option key={language.code} value={language.locale}>{language.label}</option>
+              ))}
+            </select>
+            <button onClick={() => setIsGalleryOpen(true)} className="text-xs font-black text-gray-400 hover:text-indigo-600 uppercase tracking-widest transition-colors">{t('gallery.open', { count: looks.length })}</button>
+            <button onClick={reset} className="text-xs font-black text-gray-400 hover:text-indigo-600 uppercase tracking-widest transition-colors">{t('header.reset')}</button>
           </div>
-          <button onClick={reset} className="text-xs font-black text-gray-400 hover:text-indigo-600 uppercase tracking-widest transition-colors">Reset</button>
         </div>
       </header>
 
-      <main className="container mx-auto px-4 max-w-5xl">
-        <StepIndicator currentStep={step} />
+      <main ref={mainRef} className="container mx-auto px-4 max-w-5xl">
+        {isGalleryOpen ? (
+          <>
+            <LooksGallery
+              looks={looks}
+              onOpen={handleOpenLook}
+              onToggleFavourite={look => updateLooks(setFavourite(look.id, !look.favourite))}
+              onDelete={look => updateLooks(deleteLooks([look.id]))}
+              onClear={keepFavourites => updateLooks(clearLooks({ keepFavourites }))}
+              onClose={() => setIsGalleryOpen(false)}
+            />
+            {lookNotice && <p role="status" className="text-center text-xs font-bold text-amber-700 mt-6">{t(lookNotice)}</p>}
+          </>
+        ) : (
+          <StepIndicator currentStep={step} canNavigate={target => allowedStep(target, stepGuard) === target} onNavigate={goToStep} />
+        )}
 
-        {step === 1 && (
+        {!isGalleryOpen && step === 1 && (
           <div className="animate-fadeIn">
             <div className="text-center mb-10">
-              <h1 className="text-4xl font-black mb-3 tracking-tighter italic">SELECT OUTFIT</h1>
-              <p className="text-slate-500">Wähle dein Set für das High-Resolution Rendering.</p>
+              <h1 data-step-heading className="text-4xl font-black mb-3 tracking-tighter italic focus:outline-none">{t('select.title')}</h1>
+              <p className="text-slate-500">{outfitMode === 'set' ? t('select.subtitleSet') : t('select.subtitleCombine')}</p>
             </div>
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-6 mb-12 max-w-4xl mx-auto">
-              {MOCK_PRODUCTS.map(product => (
-                <ProductCard key={product.id} product={product} isSelected={state.selectedProduct?.id === product.id} onSelect={handleProductSelect} />
-              ))}
+            <div className="flex justify-center mb-8">
+              <div className="inline-flex bg-white border border-slate-200 rounded-full p-1 shadow-sm">
+                {([['set', 'select.modeSet'], ['combine', 'select.modeCombine']] as const).map(([mode, labelKey]) => (
+                  <button
+                    key={mode}
+                    onClick={() => handleModeChange(mode)}
+                    aria-pressed={outfitMode === mode}
+                    className={`px-6 py-2 rounded-full text-xs font-black uppercase tracking-widest transition-all ${outfitMode === mode ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-indigo-600'}`}
+                  >
+                    {t(labelKey)}
+                  </button>
+                ))}
+              </div>
             </div>
+            {catalogError ? (
+              <p role="alert" className="text-center text-red-700 font-bold italic mb-12">{t(`error.${catalogError}`)}</p>
+            ) : products.length === 0 ? (
+              <div role="status" className="flex justify-center mb-12">
+                <div aria-hidden="true" className="w-12 h-12 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin"></div>
+                <span className="sr-only">{t('select.loading')}</span>
+              </div>
+            ) : outfitMode === 'combine' ? (
+              <OutfitBuilder products={products} outfit={state.outfit} onChange={handleOutfitChange} />
+            ) : (
+              <div role="radiogroup" aria-label={t('select.pickerLabel')} onKeyDown={handleRadioGroupKeyDown} className="grid grid-cols-1 sm:grid-cols-3 gap-6 mb-12 max-w-4xl mx-auto">
+                {products.map((product, index) => (
+                  <ProductCard
+                    key={product.id}
+                    product={product}
+                    isSelected={state.selectedProduct?.id === product.id}
+                    tabIndex={rovingTabIndex(state.selectedProduct?.id === product.id, index, products.some(p => p.id === state.selectedProduct?.id))}
+                    onSelect={handleProductSelect}
+                  />
+                ))}
+              </div>
+            )}
             <div className="flex justify-center">
-              <button disabled={!state.selectedProduct} onClick={() => setStep(2)} className={`px-12 py-5 rounded-full font-black text-xl transition-all shadow-2xl ${state.selectedProduct ? 'bg-indigo-600 text-white hover:bg-indigo-700 hover:-translate-y-1' : 'bg-slate-200 text-slate-400 cursor-not-allowed'}`}>NÄCHSTER SCHRITT</button>
+              <button disabled={state.outfit.length === 0} onClick={() => setStep(2)} className={`px-12 py-5 rounded-full font-black text-xl transition-all shadow-2xl ${state.outfit.length > 0 ? 'bg-indigo-600 text-white hover:bg-indigo-700 hover:-translate-y-1' : 'bg-slate-200 text-slate-400 cursor-not-allowed'}`}>{t('select.next')}</button>
             </div>
           </div>
         )}
 
-        {step === 2 && (
+        {!isGalleryOpen && step === 2 && (
           <div className="animate-fadeIn max-w-2xl mx-auto">
             <div className="text-center mb-10">
-              <h1 className="text-4xl font-black mb-3 italic">DEIN FOTO</h1>
-              <p className="text-slate-500 italic">Für das Pro-Modell ist ein Ganzkörperfoto optimal.</p>
+              <h1 data-step-heading className="text-4xl font-black mb-3 italic focus:outline-none">{t('photo.title')}</h1>
+              <p className="text-slate-500 italic">{t('photo.subtitle')}</p>
             </div>
-            <div className="bg-white p-8 rounded-[40px] border-2 border-dashed border-slate-200 flex flex-col items-center justify-center min-h-[400px] shadow-inner">
-              {state.userImage ? (
-                <div className="relative w-full max-w-xs animate-scaleIn">
-                  <img src={state.userImage} alt="Vorschau" className="rounded-3xl shadow-2xl w-full h-[400px] object-cover border-4 border-white" />
-                  <button onClick={() => setState(prev => ({ ...prev, userImage: null }))} className="absolute -top-3 -right-3 bg-red-500 text-white p-2 rounded-full shadow-lg hover:bg-red-600 transition-colors">
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
-                  </button>
+            {!consent ? (
+              <ConsentGate onAccept={handleConsentAccept} onDecline={handleConsentDecline} />
+            ) : (
+              <>
+                <div className="bg-white p-8 rounded-[40px] border-2 border-dashed border-slate-200 flex flex-col items-center justify-center min-h-[400px] shadow-inner">
+                  {state.userImage ? (
+                    <div className="relative w-full max-w-xs animate-scaleIn">
+                      <img src={state.userImage} alt={t('photo.preview')} className="rounded-3xl shadow-2xl w-full h-[400px] object-cover border-4 border-white" />
+                      <button onClick={clearUserImage} aria-label={t('photo.remove')} className="absolute -top-3 -right-3 bg-red-500 text-white p-2 rounded-full shadow-lg hover:bg-red-600 transition-colors">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                      </button>
+                    </div>
+                  ) : isCameraOpen ? (
+                    <CameraCapture onCapture={handleCameraCapture} onCancel={() => setIsCameraOpen(false)} />
+                  ) : (
+                    <PhotoDropZone
+                      onFile={handlePhotoFile}
+                      onOpenCamera={navigator.mediaDevices?.getUserMedia ? () => setIsCameraOpen(true) : undefined}
+                    />
+                  )}
                 </div>
-              ) : (
-                <label className="w-full h-full flex flex-col items-center justify-center cursor-pointer group py-10">
-                  <div className="w-20 h-20 bg-indigo-50 rounded-full flex items-center justify-center mb-4 transition-all group-hover:scale-110">
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-indigo-600" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
-                  </div>
-                  <p className="text-slate-600 font-black uppercase tracking-widest text-sm">Foto wählen</p>
-                  <input type="file" className="hidden" accept="image/*" onChange={handleFileUpload} />
-                </label>
-              )}
-            </div>
-            <div className="flex flex-col sm:flex-row gap-4 mt-10 justify-center">
-              <button onClick={() => setStep(1)} className="px-10 py-4 rounded-full font-black text-slate-400 bg-white border border-slate-200">Zurück</button>
-              <button disabled={!state.userImage} onClick={handleTryOn} className={`px-12 py-4 rounded-full font-black text-lg transition-all shadow-xl ${state.userImage ? 'bg-indigo-600 text-white hover:bg-indigo-700 hover:-translate-y-1' : 'bg-slate-200 text-slate-400 cursor-not-allowed'}`}>ANPROBE STARTEN ✨</button>
-            </div>
+                <PhotoChecklist report={photoReport} isChecking={isCheckingPhoto} />
+                <MeasurementsForm value={measurements} onChange={setMeasurements} />
+                <div className="flex flex-col sm:flex-row gap-4 mt-10 justify-center">
+                  <button onClick={() => setStep(1)} className="px-10 py-4 rounded-full font-black text-slate-400 bg-white border border-slate-200">{t('common.back')}</button>
+                  <button disabled={!canStartTryOn} onClick={handleTryOn} className={`px-12 py-4 rounded-full font-black text-lg transition-all shadow-xl ${canStartTryOn ? 'bg-indigo-600 text-white hover:bg-indigo-700 hover:-translate-y-1' : 'bg-slate-200 text-slate-400 cursor-not-allowed'}`}>{t('photo.start')}</button>
+                </div>
+              </>
+            )}
           </div>
         )}
 
-        {step === 3 && (
+        {!isGalleryOpen && step === 3 && (
           <div className="animate-fadeIn max-w-5xl mx-auto">
             {state.isLoading ? (
               <div className="flex flex-col items-center justify-center py-24 text-center">
-                <div className="w-20 h-20 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin mb-8 shadow-xl"></div>
-                <h2 className="text-3xl font-black text-slate-900 mb-2 italic uppercase tracking-tighter">{loadingStep}</h2>
-                <p className="text-slate-400 text-sm">Pro-Engine berechnet jeden Pixel...</p>
+                <div aria-hidden="true" className="w-20 h-20 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin mb-8 shadow-xl"></div>
+                {/* Jeder Wechsel von loadingStep wird angesagt */}
+                <div role="status" aria-live="polite">
+                  <h2 data-step-heading className="text-3xl font-black text-slate-900 mb-2 italic uppercase tracking-tighter focus:outline-none">{loadingStep && t(loadingStep)}</h2>
+                  <p className="text-slate-400 text-sm">{t('loading.hint')}</p>
+                </div>
+                <button onClick={cancelTryOn} className="mt-10 px-8 py-3 rounded-full font-black text-slate-500 bg-white border border-slate-200 hover:text-red-600 transition-colors uppercase tracking-widest text-xs">{t('common.cancel')}</button>
               </div>
             ) : state.error ? (
               <div className="bg-white border-2 border-red-100 rounded-[40px] p-12 text-center shadow-2xl">
                 <div className="w-16 h-16 bg-red-50 text-red-500 rounded-full flex items-center justify-center mx-auto mb-6"><svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg></div>
-                <h2 className="text-2xl font-black mb-4">FEHLER BEI DER VERARBEITUNG</h2>
-                <p className="text-red-700 font-bold mb-8 italic">{state.error}</p>
+                <h2 data-step-heading className="text-2xl font-black mb-4 focus:outline-none">{t('result.errorTitle')}</h2>
+                <p role="alert" className="text-red-700 font-bold mb-8 italic">{t(`error.${state.error}`)}</p>
                 <div className="flex gap-4 justify-center">
-                  <button onClick={handleTryOn} className="px-8 py-3 bg-indigo-600 text-white rounded-full font-black shadow-xl hover:bg-indigo-700">Nochmal</button>
-                  <button onClick={reset} className="px-8 py-3 bg-slate-100 text-slate-600 rounded-full font-black">Zurück</button>
+                  <button onClick={handleTryOn} className="px-8 py-3 bg-indigo-600 text-white rounded-full font-black shadow-xl hover:bg-indigo-700">{t('common.retry')}</button>
+                  <button onClick={reset} className="px-8 py-3 bg-slate-100 text-slate-600 rounded-full font-black">{t('common.back')}</button>
                 </div>
               </div>
+            ) : isComparing && state.userImage ? (
+              <ComparisonView
+                userImage={state.userImage}
+                products={products}
+                initialProductIds={state.selectedProduct && !isMixedOutfit ? [state.selectedProduct.id] : []}
+                onClose={() => setIsComparing(false)}
+              />
             ) : (
               <div className="grid lg:grid-cols-2 gap-10 items-start">
                 <div className="space-y-6">
                   <div className="relative group overflow-hidden rounded-[40px] bg-white p-1 shadow-2xl border border-slate-100">
-                    <img src={state.resultImage!} alt="Ergebnis" className="w-full rounded-[38px]" />
+                    <img src={displayedResult!} alt={t('result.alt', { outfit: describeOutfit(state.outfit) })} className="w-full rounded-[38px]" />
                     <div className="absolute top-6 left-6">
-                      <div className="bg-indigo-600 text-white px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-[0.2em] shadow-xl">High-Res Render</div>
+                      <div className={`${state.resultQuality && !state.resultQuality.passed ? 'bg-amber-500' : 'bg-indigo-600'} text-white px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-[0.2em] shadow-xl`}>
+                        {state.resultQuality && !state.resultQuality.passed ? t('result.badgeWarning') : t('result.badge')}
+                      </div>
                     </div>
                   </div>
+                  <QualityNotice report={state.resultQuality} />
+                  <label className="flex items-center justify-center gap-3 text-xs font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+                    <input type="checkbox" checked={hideFace} disabled={isAnonymizing} onChange={e => handleHideFaceChange(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                    <span>{isAnonymizing ? t('result.anonymizing') : t('result.anonymize')}</span>
+                  </label>
+                  {anonymizeError && <p role="alert" className="text-xs font-bold text-amber-700 text-center">{t(`error.${anonymizeError}`)}</p>}
                   <button onClick={handleDownload} className="w-full bg-white text-slate-900 border border-slate-200 py-4 rounded-3xl font-black text-sm hover:bg-slate-50 transition-all flex items-center justify-center space-x-2 shadow-sm uppercase tracking-widest">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
-                    <span>LOOK SPEICHERN</span>
+                    <span>{t('result.save')}</span>
                   </button>
+                  {isSharing && shareContent ? (
+                    <ShareDialog
+                      content={shareContent}
+                      shareText={t('share.text', { product: shareContent.title })}
+                      accentColor={theme.primary}
+                      brandName={activeSettings.brand.name}
+                      onClose={() => setIsSharing(false)}
+                    />
+                  ) : (
+                    <button onClick={() => setIsSharing(true)} className="w-full bg-white text-indigo-600 border border-indigo-100 py-4 rounded-3xl font-black text-sm hover:bg-indigo-50 transition-all uppercase tracking-widest">
+                      {t('share.open')}
+                    </button>
+                  )}
+                  {unsavedLook && (
+                    <button onClick={handleSaveLook} disabled={isSavingLook} className="w-full bg-white text-slate-900 border border-slate-200 py-4 rounded-3xl font-black text-sm hover:bg-slate-50 transition-all uppercase tracking-widest disabled:opacity-60">
+                      {isSavingLook ? t('gallery.saving') : t('gallery.save')}
+                    </button>
+                  )}
+                  {lookNotice && <p role="status" className="text-xs font-bold text-slate-500 text-center">{t(lookNotice)}</p>}
+                  {consent && products.length >= 2 && (
+                    <button onClick={() => setIsComparing(true)} className="w-full bg-indigo-50 text-indigo-600 py-4 rounded-3xl font-black text-sm hover:bg-indigo-100 transition-all uppercase tracking-widest">
+                      {t('result.compare')}
+                    </button>
+                  )}
                 </div>
 
                 <div className="bg-white p-8 rounded-[40px] shadow-2xl border border-slate-100 flex flex-col">
                   <div className="mb-6 pb-6 border-b border-slate-100">
-                    <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">DEIN NEUES SET</span>
-                    <h2 className="text-4xl font-black mt-1 tracking-tighter italic uppercase">{state.selectedProduct?.name}</h2>
+                    <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">{isMixedOutfit ? t('result.newOutfit') : t('result.newSet')}</span>
+                    <h2 data-step-heading className="text-4xl font-black mt-1 tracking-tighter italic uppercase focus:outline-none">{describeOutfit(state.outfit)}</h2>
                   </div>
 
-                  <div className="bg-emerald-50 border border-emerald-100 rounded-3xl p-6 mb-8 flex items-center space-x-5">
-                    <div className="bg-emerald-600 text-white w-16 h-16 rounded-2xl flex items-center justify-center text-3xl font-black shadow-lg">{state.recommendedSize}</div>
-                    <div>
-                      <p className="font-black text-emerald-900 text-lg uppercase tracking-tight">Deine Empfehlung</p>
-                      <p className="text-xs font-bold text-emerald-700/70 italic uppercase tracking-widest">Perfekte Passform garantiert</p>
-                    </div>
-                  </div>
+                  {state.recommendedSize && <SizeRecommendationPanel recommendation={state.recommendedSize} />}
+                  {state.recommendedSize && state.userImage && state.resultImage && state.selectedProduct && (
+                    <FitPreview
+                      userImage={state.userImage}
+                      outfit={state.outfit}
+                      product={state.selectedProduct}
+                      recommendation={state.recommendedSize}
+                      resultImage={state.resultImage}
+                      onError={code => track({ name: 'error-shown', props: { code, context: 'fit-preview' } })}
+                    />
+                  )}
 
-                  <p className="text-slate-500 mb-8 leading-relaxed font-medium italic">{state.selectedProduct?.description}</p>
+                  {!isMixedOutfit && (
+                    <p className="text-slate-500 mb-8 leading-relaxed font-medium italic">{state.selectedProduct?.description}</p>
+                  )}
 
                   <div className="mt-auto space-y-4">
-                    <button onClick={() => window.open('https://superbeautiful.de', '_blank')} className="w-full bg-indigo-600 text-white py-6 rounded-3xl font-black text-xl hover:bg-indigo-700 transition-all shadow-xl uppercase tracking-widest flex items-center justify-center space-x-3">
-                      <span>ZUM SHOP</span>
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
-                    </button>
-                    <button onClick={reset} className="w-full text-slate-400 py-2 font-black hover:text-indigo-600 transition-colors uppercase tracking-[0.3em] text-[10px]">Anderes Set wählen</button>
+                    {cartItems.map((line: CartLine) => (
+                      <div key={line.product.id}>
+                        {isMixedOutfit && <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">{line.product.name}</p>}
+                        {line.setOnly && <p className="text-xs text-slate-500 mb-2">{t('cart.setOnly', { product: line.product.name })}</p>}
+                        <CartPanel
+                          product={line.product}
+                          recommendedSize={state.recommendedSize?.size || null}
+                          widget={widget}
+                          onAddClick={(size, variantId) => handleAddToCartClick(line.product, size, variantId)}
+                        />
+                      </div>
+                    ))}
+                    <button onClick={reset} className="w-full text-slate-400 py-2 font-black hover:text-indigo-600 transition-colors uppercase tracking-[0.3em] text-[10px]">{t('result.otherSet')}</button>
                   </div>
                 </div>
               </div>
@@ -258,7 +878,16 @@ const App: React.FC = () => {
       </main>
 
       <footer className="mt-20 border-t border-slate-100 pt-10 text-center">
-        <p className="text-slate-300 text-[10px] uppercase tracking-[0.4em] font-black">Better Future AI Engine v3.0 • High Fidelity Release</p>
+        <PrivacyControls
+          consent={consent}
+          notice={privacyNotice}
+          onDeleteData={handleDeleteData}
+          onRevoke={handleRevokeConsent}
+          onExportLog={handleExportConsentLog}
+          analyticsEnabled={widget.analyticsConsent === null ? !!consent?.analytics : null}
+          onAnalyticsChange={handleAnalyticsChange}
+        />
+        <p className="text-slate-300 text-[10px] uppercase tracking-[0.4em] font-black">{t('footer.tagline')}</p>
       </footer>
 
       <style>{`
@@ -266,8 +895,15 @@ const App: React.FC = () => {
         @keyframes scaleIn { from { opacity: 0; transform: scale(0.95); } to { opacity: 1; transform: scale(1); } }
         .animate-fadeIn { animation: fadeIn 0.6s ease-out forwards; }
         @keyframes fadeIn { from { opacity: 0; transform: translateY(15px); } to { opacity: 1; transform: translateY(0); } }
+        @media (prefers-reduced-motion: reduce) {
+          .animate-scaleIn, .animate-fadeIn { animation: none; }
+          *, *::before, *::after { transition-duration: 0.01ms !important; scroll-behavior: auto !important; }
+          .animate-spin { animation-duration: 3s; }
+        }
+        ${buildThemeCss(theme)}
       `}</style>
     </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1 @@
+export { handleAdminSettings as default } from '../../server/routes';
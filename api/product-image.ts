@@ -0,0 +1 @@
+export { handleProductImage as default } from '../server/routes';
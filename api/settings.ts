@@ -0,0 +1 @@
+export { handleSettings as default } from '../server/routes';
@@ -0,0 +1 @@
+export { handleSizeEstimate as default } from '../server/routes';
@@ -0,0 +1 @@
+export { handleTryOn as default } from '../server/routes';
@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import { MessageKey, de } from '../locales/de';
+import { StoreSettings } from '../types';
+import { I18n, Language, LANGUAGES, createI18n, useI18n } from '../services/i18n';
+import { COPY_LANGUAGES } from '../services/settingsSchema';
+
+interface AdminCopyEditorProps {
+  copy: StoreSettings['copy'];
+  onChange: (copy: StoreSettings['copy']) => void;
+}
+
+const MESSAGE_KEYS = Object.keys(de) as MessageKey[];
+
+const inputClass = 'w-full border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold text-slate-900 outline-none focus:border-indigo-600 bg-white';
+
+const AdminCopyEditor: React.FC<AdminCopyEditorProps> = ({ copy, onChange }) => {
+  const { t } = useI18n();
+  const [language, setLanguage] = useState<Language>('de');
+  const [key, setKey] = useState('');
+  // Originaltexte je Sprache ohne Überschreibungen – als Vorlage und zum Vergleich
+  const originals = useMemo(() => Object.fromEntries(COPY_LANGUAGES.map(code => [code, createI18n(code)])) as Record<Language, I18n>, []);
+  const isKnownKey = MESSAGE_KEYS.includes(key as MessageKey);
+
+  const setText = (code: Language, messageKey: MessageKey, text: string | null) => {
+    const overrides = { ...copy[code] };
+    if (text === null) {
+      delete overrides[messageKey];
+    } else {
+      overrides[messageKey] = text;
+    }
+    onChange({ ...copy, [code]: overrides });
+  };
+
+  const handleAdd = () => {
+    if (!isKnownKey) return;
+    const messageKey = key as MessageKey;
+    setText(language, messageKey, copy[language]?.[messageKey] ?? originals[language].t(messageKey));
+    setKey('');
+  };
+
+  const entries = COPY_LANGUAGES.flatMap(code =>
+    Object.entries(copy[code] || {}).map(([messageKey, text]) => ({ code, messageKey: messageKey as MessageKey, text: text as string }))
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3 items-end">
+        <label className="flex flex-col gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400">
+          {t('admin.copy.language')}
+          <select value={language} onChange={e => setLanguage(e.target.value as Language)} className={inputClass}>
+            {LANGUAGES.map(option => (
+              <option key={option.code} value={option.code}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400 flex-1 min-w-[200px]">
+          {t('admin.copy.key')}
+          <input list="admin-copy-keys" value={key} onChange={e => setKey(e.target.value)} placeholder="header.reset" className={inputClass} />
+          <datalist id="admin-copy-keys">
+            {MESSAGE_KEYS.map(messageKey => <option key={messageKey} value={messageKey} />)}
+          </datalist>
+        </label>
+        <button onClick={handleAdd} disabled={!isKnownKey} className="px-6 py-3 rounded-full bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-40">
+          {t('admin.copy.add')}
+        </button>
+      </div>
+      {isKnownKey && <p className="text-xs text-slate-500 italic">{t('admin.copy.original', { text: originals[language].t(key as MessageKey) })}</p>}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">{t('admin.copy.empty')}</p>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map(entry => (
+            <li key={`${entry.code}-${entry.messageKey}`} className="border border-slate-100 rounded-2xl p-3 space-y-2">
+              <div className="flex justify-between items-center gap-3">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{entry.code} · {entry.messageKey}</span>
+                <button onClick={() => setText(entry.code, entry.messageKey, null)} className="text-[10px] font-black uppercase tracking-widest text-red-600">{t('admin.copy.remove')}</button>
+              </div>
+              <textarea value={entry.text} rows={2} onChange={e => setText(entry.code, entry.messageKey, e.target.value)} className={inputClass} />
+              <p className="text-[10px] text-slate-400">{t('admin.copy.original', { text: originals[entry.code].t(entry.messageKey) })}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AdminCopyEditor;
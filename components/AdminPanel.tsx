@@ -0,0 +1,242 @@
+import React, { useMemo, useState } from 'react';
+import { SETTINGS_CONFIG } from '../constants';
+import { MessageKey } from '../locales/de';
+import { SettingsIssue, StoreSettings, TryOnLimits } from '../types';
+import { ErrorCode, errorCode } from '../services/errors';
+import { I18nContext, createI18n, detectLocale } from '../services/i18n';
+import { THEME_KEYS, validateSettings } from '../services/settingsSchema';
+import { fetchAdminSettings, saveAdminSettings } from '../services/settingsService';
+import { downloadBlob } from '../services/shareService';
+import AdminProductEditor from './AdminProductEditor';
+import AdminCopyEditor from './AdminCopyEditor';
+import BatchStudio from './BatchStudio';
+
+const inputClass = 'w-full border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold text-slate-900 outline-none focus:border-indigo-600 bg-white';
+const labelClass = 'flex flex-col gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400';
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="bg-white rounded-[32px] border border-slate-100 shadow-sm p-6 space-y-4">
+    <h2 className="font-black uppercase tracking-tight">{title}</h2>
+    {children}
+  </section>
+);
+
+// Eigene Oberfläche unter /admin – das Passwort bleibt nur im Speicher dieses Tabs
+const AdminPanel: React.FC = () => {
+  const i18n = useMemo(() => createI18n(detectLocale()), []);
+  const { t } = i18n;
+  const [password, setPassword] = useState('');
+  const [token, setToken] = useState<string | null>(null);
+  const [draft, setDraft] = useState<StoreSettings | null>(null);
+  const [usageToday, setUsageToday] = useState<number | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<ErrorCode | null>(null);
+  const [notice, setNotice] = useState<MessageKey | null>(null);
+  const [importIssues, setImportIssues] = useState<SettingsIssue[]>([]);
+  const [view, setView] = useState<'settings' | 'studio'>('settings');
+  // Dieselbe Prüfung wie auf dem Server – Speichern erst ohne Befunde
+  const issues = useMemo(() => (draft ? validateSettings(draft).issues : []), [draft]);
+
+  const update = (patch: Partial<StoreSettings>) => {
+    setDraft(current => (current ? { ...current, ...patch } : current));
+    setNotice(null);
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      const data = await fetchAdminSettings(password);
+      setToken(password);
+      setDraft(data.settings);
+      setUsageToday(data.usage.today);
+    } catch (err) {
+      setError(errorCode(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!token || !draft || issues.length > 0) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const data = await saveAdminSettings(token, draft);
+      setDraft(data.settings);
+      setUsageToday(data.usage.today);
+      setImportIssues([]);
+      setNotice('admin.saved');
+    } catch (err) {
+      setError(errorCode(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!draft) return;
+    downloadBlob(new Blob([JSON.stringify(draft, null, 2)], { type: 'application/json' }), 'settings.json');
+  };
+
+  // Ungültige Teile einer importierten Datei werden verworfen und einmal aufgelistet
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setError('INVALID_SETTINGS');
+      return;
+    }
+    const { settings, issues: found } = validateSettings(parsed);
+    setDraft(settings);
+    setImportIssues(found);
+    setError(null);
+    setNotice('admin.imported');
+  };
+
+  const handleLogout = () => {
+    setToken(null);
+    setPassword('');
+    setDraft(null);
+    setUsageToday(null);
+    setNotice(null);
+    setImportIssues([]);
+    setView('settings');
+  };
+
+  const setLimit = (key: keyof TryOnLimits, raw: string) => {
+    if (!draft) return;
+    const value = parseInt(raw, 10);
+    update({ limits: { ...draft.limits, [key]: Number.isFinite(value) ? value : null } });
+  };
+
+  const renderIssues = (list: SettingsIssue[], title: MessageKey, tone: string) => (
+    <div role="alert" className={`rounded-3xl border p-5 ${tone}`}>
+      <p className="text-xs font-black uppercase tracking-widest mb-2">{t(title, { count: list.length })}</p>
+      <ul className="space-y-1 text-xs">
+        {list.map((issue, index) => (
+          <li key={index}><span className="font-mono">{issue.path || '/'}</span> – {i18n.message(issue.message)}</li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  return (
+    <I18nContext.Provider value={i18n}>
+    <div className="min-h-screen pb-10 bg-slate-50 font-sans text-slate-900">
+      <header className="bg-white border-b border-gray-200 py-4 mb-6 shadow-sm">
+        <div className="container mx-auto px-4 max-w-4xl flex justify-between items-center">
+          <span className="font-bold text-xl tracking-tight uppercase">{t('admin.title')}</span>
+          {token && (
+            <div className="flex items-center gap-4">
+              {usageToday !== null && <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{t('admin.usageToday', { count: usageToday })}</span>}
+              <button onClick={handleLogout} className="text-xs font-black text-gray-400 hover:text-indigo-600 uppercase tracking-widest">{t('admin.logout')}</button>
+            </div>
+          )}
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 max-w-4xl space-y-6">
+        {!token || !draft ? (
+          <form onSubmit={handleLogin} className="bg-white rounded-[32px] border border-slate-100 shadow-sm p-8 max-w-sm mx-auto space-y-4">
+            <h1 className="text-2xl font-black italic uppercase tracking-tighter">{t('admin.login')}</h1>
+            <label className={labelClass}>
+              {t('admin.password')}
+              <input type="password" autoComplete="current-password" value={password} onChange={e => setPassword(e.target.value)} className={inputClass} />
+            </label>
+            <button type="submit" disabled={isBusy || !password} className="w-full bg-indigo-600 text-white py-3 rounded-2xl font-black text-xs uppercase tracking-widest disabled:opacity-60">{t('admin.signIn')}</button>
+            {error && <p role="alert" className="text-xs font-bold text-red-700 text-center">{t(`error.${error}`)}</p>}
+          </form>
+        ) : (
+          <>
+            <nav aria-label={t('admin.views')} className="inline-flex bg-white border border-slate-200 rounded-full p-1 shadow-sm">
+              {(['settings', 'studio'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  aria-current={view === option ? 'page' : undefined}
+                  className={`px-6 py-2 rounded-full text-xs font-black uppercase tracking-widest transition-all ${view === option ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-indigo-600'}`}
+                >
+                  {t(`admin.view.${option}`)}
+                </button>
+              ))}
+            </nav>
+
+            {view === 'studio' ? (
+              <BatchStudio adminToken={token} settingsProducts={draft.products} />
+            ) : (
+            <>
+            <Section title={t('admin.brand')}>
+              <div className="grid sm:grid-cols-2 gap-3">
+                <label className={labelClass}>
+                  {t('admin.brandName')}
+                  <input value={draft.brand.name} onChange={e => update({ brand: { ...draft.brand, name: e.target.value } })} className={inputClass} />
+                </label>
+                <label className={labelClass}>
+                  {t('admin.brandSuffix')}
+                  <input value={draft.brand.suffix} onChange={e => update({ brand: { ...draft.brand, suffix: e.target.value } })} className={inputClass} />
+                </label>
+              </div>
+              <div className="grid sm:grid-cols-3 gap-3">
+                {THEME_KEYS.map(key => (
+                  <label key={key} className={labelClass}>
+                    {t(`admin.theme.${key}`)}
+                    <div className="flex items-center gap-2">
+                      <span className="w-8 h-8 rounded-lg border border-slate-200 shrink-0" style={{ background: draft.theme[key] || 'transparent' }} />
+                      <input value={draft.theme[key] || ''} placeholder="#4f46e5" onChange={e => update({ theme: { ...draft.theme, [key]: e.target.value || undefined } })} className={inputClass} />
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </Section>
+
+            <Section title={t('admin.limits')}>
+              <p className="text-xs text-slate-500">{t('admin.limitsHint')}</p>
+              <div className="grid sm:grid-cols-2 gap-3">
+                {(['perDay', 'perClientPerDay'] as const).map(key => (
+                  <label key={key} className={labelClass}>
+                    {t(`admin.limits.${key}`)}
+                    <input type="number" min={1} max={SETTINGS_CONFIG.MAX_DAILY_LIMIT} value={draft.limits[key] ?? ''} placeholder={t('admin.unlimited')} onChange={e => setLimit(key, e.target.value)} className={inputClass} />
+                  </label>
+                ))}
+              </div>
+            </Section>
+
+            <Section title={t('admin.products')}>
+              <AdminProductEditor products={draft.products} onChange={products => update({ products })} />
+            </Section>
+
+            <Section title={t('admin.copy')}>
+              <AdminCopyEditor copy={draft.copy} onChange={copy => update({ copy })} />
+            </Section>
+
+            {importIssues.length > 0 && renderIssues(importIssues, 'admin.importIssues', 'border-amber-200 bg-amber-50 text-amber-800')}
+            {issues.length > 0 && renderIssues(issues, 'admin.issues', 'border-red-200 bg-red-50 text-red-800')}
+
+            <div className="flex flex-wrap gap-3 items-center">
+              <button onClick={handleSave} disabled={isBusy || issues.length > 0} className="px-10 py-4 rounded-full bg-indigo-600 text-white font-black text-xs uppercase tracking-widest disabled:opacity-60">{t('admin.save')}</button>
+              <button onClick={handleExport} className="px-6 py-4 rounded-full bg-white border border-slate-200 font-black text-xs uppercase tracking-widest">{t('admin.export')}</button>
+              <label className="px-6 py-4 rounded-full bg-white border border-slate-200 font-black text-xs uppercase tracking-widest cursor-pointer">
+                {t('admin.import')}
+                <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+              </label>
+              {draft.updatedAt && <span className="text-[10px] text-slate-400">{t('admin.updatedAt', { date: i18n.formatDate(draft.updatedAt) })}</span>}
+            </div>
+            {notice && <p role="status" className="text-xs font-bold text-emerald-700">{t(notice)}</p>}
+            {error && <p role="alert" className="text-xs font-bold text-red-700">{t(`error.${error}`)}</p>}
+            </>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+    </I18nContext.Provider>
+  );
+};
+
+export default AdminPanel;
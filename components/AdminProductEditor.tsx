@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { CATALOG_CONFIG, DEFAULT_SET_SLOTS, DEFAULT_SIZE_CHART, GARMENT_SLOTS } from '../constants';
+import { GarmentCategory, MeasurementDimension, Product, ProductCategory, SizeChartEntry } from '../types';
+import { createStaticProvider } from '../services/catalogService';
+import { useI18n } from '../services/i18n';
+import { PRODUCT_CATEGORIES } from '../services/settingsSchema';
+
+interface AdminProductEditorProps {
+  products: Product[] | null;
+  onChange: (products: Product[] | null) => void;
+}
+
+const DIMENSIONS: MeasurementDimension[] = ['waist', 'hip', 'inseam'];
+
+const inputClass = 'w-full border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold text-slate-900 outline-none focus:border-indigo-600 bg-white';
+const labelClass = 'flex flex-col gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400';
+
+function parseNumber(raw: string): number {
+  return parseFloat(raw.replace(',', '.'));
+}
+
+function emptyProduct(index: number): Product {
+  return {
+    id: `product-${index + 1}`,
+    category: 'set',
+    setSlots: DEFAULT_SET_SLOTS,
+    name: '',
+    price: 0,
+    currency: CATALOG_CONFIG.DEFAULT_CURRENCY,
+    imageUrl: '',
+    images: [],
+    description: '',
+    sizeChart: DEFAULT_SIZE_CHART,
+    variants: [],
+  };
+}
+
+const AdminProductEditor: React.FC<AdminProductEditorProps> = ({ products, onChange }) => {
+  const { t } = useI18n();
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Startpunkt für eine eigene Liste ist der statische Katalog; ohne ihn ein leeres Produkt
+  const handleCreateList = async () => {
+    setIsImporting(true);
+    try {
+      onChange(await createStaticProvider().listProducts());
+    } catch {
+      onChange([emptyProduct(0)]);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!products) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-slate-500">{t('admin.products.fromCatalog')}</p>
+        <button onClick={handleCreateList} disabled={isImporting} className="px-6 py-3 rounded-full bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-60">
+          {t('admin.products.create')}
+        </button>
+      </div>
+    );
+  }
+
+  const update = (index: number, patch: Partial<Product>) => {
+    onChange(products.map((product, i) => (i === index ? { ...product, ...patch } : product)));
+  };
+
+  const updateChart = (index: number, chart: SizeChartEntry[]) => update(index, { sizeChart: chart });
+
+  const updateRow = (index: number, row: number, patch: Partial<SizeChartEntry>) => {
+    updateChart(index, products[index].sizeChart.map((entry, i) => (i === row ? { ...entry, ...patch } : entry)));
+  };
+
+  const toggleSlot = (index: number, slot: GarmentCategory) => {
+    const current = products[index].setSlots || DEFAULT_SET_SLOTS;
+    const next = current.includes(slot) ? current.filter(item => item !== slot) : GARMENT_SLOTS.filter(item => item === slot || current.includes(item));
+    update(index, { setSlots: next });
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= products.length) return;
+    const next = [...products];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-slate-500">{t('admin.products.replacesCatalog')}</p>
+      <div className="flex flex-wrap gap-3">
+        <button onClick={() => onChange([...products, emptyProduct(products.length)])} className="px-6 py-3 rounded-full bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest">
+          {t('admin.products.add')}
+        </button>
+        <button onClick={() => onChange(null)} className="px-6 py-3 rounded-full bg-white border border-slate-200 text-slate-500 text-[10px] font-black uppercase tracking-widest">
+          {t('admin.products.useCatalog')}
+        </button>
+      </div>
+
+      {products.map((product, index) => (
+        <div key={index} className="border border-slate-100 rounded-3xl p-5 space-y-4">
+          <div className="flex items-start gap-4">
+            <div className="w-20 h-24 rounded-2xl bg-slate-50 overflow-hidden shrink-0">
+              {product.imageUrl && <img src={product.imageUrl} alt={product.name} className="w-full h-full object-cover" />}
+            </div>
+            <div className="grid sm:grid-cols-2 gap-3 flex-1">
+              <label className={labelClass}>
+                {t('admin.products.name')}
+                <input value={product.name} onChange={e => update(index, { name: e.target.value })} className={inputClass} />
+              </label>
+              <label className={labelClass}>
+                {t('admin.products.id')}
+                <input value={product.id} onChange={e => update(index, { id: e.target.value })} className={inputClass} />
+              </label>
+              <label className={labelClass}>
+                {t('admin.products.category')}
+                <select value={product.category} onChange={e => update(index, { category: e.target.value as ProductCategory })} className={inputClass}>
+                  {PRODUCT_CATEGORIES.map(category => (
+                    <option key={category} value={category}>{t(`admin.category.${category}`)}</option>
+                  ))}
+                </select>
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                <label className={labelClass}>
+                  {t('admin.products.price')}
+                  <input type="number" min={0} step="0.01" value={Number.isFinite(product.price) ? product.price : ''} onChange={e => update(index, { price: parseNumber(e.target.value) })} className={inputClass} />
+                </label>
+                <label className={labelClass}>
+                  {t('admin.products.currency')}
+                  <input value={product.currency} maxLength={3} onChange={e => update(index, { currency: e.target.value.toUpperCase() })} className={inputClass} />
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {product.category === 'set' && (
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{t('admin.products.setSlots')}</span>
+              {GARMENT_SLOTS.map(slot => (
+                <label key={slot} className="flex items-center gap-2 text-xs font-bold text-slate-600">
+                  <input type="checkbox" checked={(product.setSlots || DEFAULT_SET_SLOTS).includes(slot)} onChange={() => toggleSlot(index, slot)} className="accent-indigo-600" />
+                  {t(`admin.category.${slot}`)}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <label className={labelClass}>
+            {t('admin.products.imageUrl')}
+            {/* Weitere Ansichten folgen dem Hauptbild, damit kein altes Foto hängen bleibt */}
+            <input value={product.imageUrl} onChange={e => update(index, { imageUrl: e.target.value, images: [e.target.value] })} className={inputClass} />
+          </label>
+          <label className={labelClass}>
+            {t('admin.products.description')}
+            <textarea value={product.description} rows={3} onChange={e => update(index, { description: e.target.value })} className={inputClass} />
+          </label>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <caption className="text-left text-[10px] font-black uppercase tracking-widest text-slate-400 pb-2">{t('admin.products.sizeChart')}</caption>
+              <thead>
+                <tr className="text-[10px] uppercase tracking-widest text-slate-400">
+                  <th className="text-left font-black pb-1">{t('admin.products.size')}</th>
+                  {DIMENSIONS.map(dimension => (
+                    <th key={dimension} colSpan={2} className="text-left font-black pb-1">{t(`size.dimension.${dimension}`)} (cm)</th>
+                  ))}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {product.sizeChart.map((entry, row) => (
+                  <tr key={row}>
+                    <td className="pr-2 py-1"><input value={entry.size} onChange={e => updateRow(index, row, { size: e.target.value })} className={`${inputClass} w-16`} aria-label={t('admin.products.size')} /></td>
+                    {DIMENSIONS.map(dimension => (['min', 'max'] as const).map(bound => (
+                      <td key={`${dimension}-${bound}`} className="pr-2 py-1">
+                        <input
+                          type="number"
+                          value={Number.isFinite(entry[dimension][bound]) ? entry[dimension][bound] : ''}
+                          onChange={e => updateRow(index, row, { [dimension]: { ...entry[dimension], [bound]: parseNumber(e.target.value) } })}
+                          aria-label={`${t(`size.dimension.${dimension}`)} ${bound}`}
+                          className={`${inputClass} w-20`}
+                        />
+                      </td>
+                    )))}
+                    <td className="py-1">
+                      <button onClick={() => updateChart(index, product.sizeChart.filter((_, i) => i !== row))} aria-label={t('admin.products.removeSize')} className="text-slate-300 hover:text-red-600 font-black">×</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button
+              onClick={() => updateChart(index, [...product.sizeChart, { ...(product.sizeChart[product.sizeChart.length - 1] || DEFAULT_SIZE_CHART[0]), size: '' }])}
+              className="mt-2 text-[10px] font-black uppercase tracking-widest text-indigo-600"
+            >
+              {t('admin.products.addSize')}
+            </button>
+          </div>
+
+          <div className="flex justify-end gap-4 pt-2 border-t border-slate-100">
+            <button onClick={() => move(index, -1)} disabled={index === 0} className="text-[10px] font-black uppercase tracking-widest text-slate-400 disabled:opacity-40">{t('admin.products.up')}</button>
+            <button onClick={() => move(index, 1)} disabled={index === products.length - 1} className="text-[10px] font-black uppercase tracking-widest text-slate-400 disabled:opacity-40">{t('admin.products.down')}</button>
+            <button onClick={() => onChange(products.filter((_, i) => i !== index))} className="text-[10px] font-black uppercase tracking-widest text-red-600">{t('admin.products.remove')}</button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AdminProductEditor;
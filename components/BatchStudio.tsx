@@ -0,0 +1,338 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { STUDIO_CONFIG } from '../constants';
+import { MessageKey } from '../locales/de';
+import { MessageParams, Product, StudioItem, StudioModel, StudioReview } from '../types';
+import { getDefaultProviders, loadCatalog } from '../services/catalogService';
+import { ErrorCode, errorCode, isCancelled } from '../services/errors';
+import { useI18n } from '../services/i18n';
+import { preprocessImage } from '../services/imagePreprocessing';
+import { downloadBlob } from '../services/shareService';
+import { exportStudioZip, planStudioBatch, requeueFailed, runStudioQueue } from '../services/studioService';
+import { clearStudio, deleteStudioModel, getStudioResult, loadStudio, saveStudioItems, saveStudioModel } from '../services/studioStore';
+
+interface BatchStudioProps {
+  adminToken: string;
+  // Eigene Produktliste aus den Einstellungen, sonst Shop bzw. statischer Katalog
+  settingsProducts: Product[] | null;
+}
+
+type ReviewFilter = 'all' | StudioReview;
+
+const FILTERS: ReviewFilter[] = ['all', 'pending', 'approved', 'rejected'];
+
+function revokeAll(urls: Record<string, string>) {
+  Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+}
+
+const sectionClass = 'bg-white rounded-[32px] border border-slate-100 shadow-sm p-6 space-y-4';
+const buttonClass = 'px-6 py-3 rounded-full text-[10px] font-black uppercase tracking-widest disabled:opacity-40';
+
+const BatchStudio: React.FC<BatchStudioProps> = ({ adminToken, settingsProducts }) => {
+  const { t, formatNumber } = useI18n();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [models, setModels] = useState<StudioModel[]>([]);
+  const [items, setItems] = useState<StudioItem[]>([]);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+  const [isRunning, setIsRunning] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<ErrorCode | null>(null);
+  const errorText = (code: ErrorCode | null) => t(`error.${code || 'UNKNOWN'}`);
+  const [notice, setNotice] = useState<{ key: MessageKey; params?: MessageParams } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const previewsRef = useRef(previews);
+  previewsRef.current = previews;
+  const requestedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    loadCatalog(getDefaultProviders(settingsProducts))
+      .then(catalog => {
+        setProducts(catalog.products);
+        setSelected(new Set(catalog.products.map(product => product.id)));
+      })
+      .catch(err => setError(errorCode(err)));
+  }, [settingsProducts]);
+
+  // Stand aus IndexedDB – ein unterbrochener Lauf macht beim nächsten Start weiter
+  useEffect(() => {
+    loadStudio()
+      .then(stored => {
+        setModels(stored.models);
+        setItems(stored.items);
+      })
+      .catch(err => setError(errorCode(err)));
+    return () => {
+      abortRef.current?.abort();
+      revokeAll(previewsRef.current);
+    };
+  }, []);
+
+  // Vorschaubilder erst bei Bedarf aus IndexedDB holen
+  useEffect(() => {
+    const missing = items.filter(item => item.status === 'done' && !previews[item.id] && !requestedRef.current.has(item.id));
+    for (const item of missing) {
+      requestedRef.current.add(item.id);
+      getStudioResult(item.id)
+        .then(blob => setPreviews(prev => (prev[item.id] ? prev : { ...prev, [item.id]: URL.createObjectURL(blob) })))
+        .catch(err => console.warn('Studio result unavailable:', item.id, err));
+    }
+  }, [items, previews]);
+
+  const updateItem = (item: StudioItem) => {
+    setItems(prev => prev.map(entry => (entry.id === item.id ? item : entry)));
+  };
+
+  const counts = useMemo(() => ({
+    total: items.length,
+    done: items.filter(item => item.status === 'done').length,
+    failed: items.filter(item => item.status === 'error').length,
+    queued: items.filter(item => item.status === 'queued' || item.status === 'rendering').length,
+    approved: items.filter(item => item.status === 'done' && item.review === 'approved').length,
+  }), [items]);
+
+  const handleModelUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []).slice(0, Math.max(0, STUDIO_CONFIG.MAX_MODELS - models.length));
+    e.target.value = '';
+    setIsBusy(true);
+    setError(null);
+    try {
+      for (const file of files) {
+        const { dataUrl } = await preprocessImage(file);
+        const model: StudioModel = { id: crypto.randomUUID(), name: file.name.replace(/\.[^.]+$/, ''), image: dataUrl };
+        await saveStudioModel(model);
+        setModels(prev => [...prev, model]);
+      }
+    } catch (err) {
+      setError(errorCode(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRenameModel = (model: StudioModel, name: string) => {
+    const renamed = { ...model, name };
+    setModels(prev => prev.map(entry => (entry.id === model.id ? renamed : entry)));
+    saveStudioModel(renamed).catch(err => setError(errorCode(err)));
+  };
+
+  const handleRemoveModel = async (model: StudioModel) => {
+    const itemIds = items.filter(item => item.modelId === model.id).map(item => item.id);
+    try {
+      await deleteStudioModel(model.id, itemIds);
+      setModels(prev => prev.filter(entry => entry.id !== model.id));
+      setItems(prev => prev.filter(item => item.modelId !== model.id));
+    } catch (err) {
+      setError(errorCode(err));
+    }
+  };
+
+  const toggleProduct = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const planned = useMemo(
+    () => planStudioBatch(models, products.filter(product => selected.has(product.id)), items),
+    [models, products, selected, items]
+  );
+
+  const handleQueue = async () => {
+    if (items.length + planned.length > STUDIO_CONFIG.MAX_ITEMS) {
+      setNotice({ key: 'studio.tooMany', params: { max: STUDIO_CONFIG.MAX_ITEMS } });
+      return;
+    }
+    try {
+      await saveStudioItems(planned);
+      setItems(prev => [...prev, ...planned]);
+      setNotice(null);
+    } catch (err) {
+      setError(errorCode(err));
+    }
+  };
+
+  const handleStart = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    try {
+      await runStudioQueue(items, { models, products, adminToken, signal: controller.signal, onUpdate: updateItem });
+    } catch (err) {
+      if (!isCancelled(err)) setError(errorCode(err));
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleRequeue = async (list: StudioItem[]) => {
+    const requeued = requeueFailed(list);
+    try {
+      await saveStudioItems(requeued);
+      requeued.forEach(updateItem);
+    } catch (err) {
+      setError(errorCode(err));
+    }
+  };
+
+  const handleReview = (item: StudioItem, review: StudioReview) => {
+    const reviewed = { ...item, review: item.review === review ? 'pending' as const : review };
+    updateItem(reviewed);
+    saveStudioItems([reviewed]).catch(err => setError(errorCode(err)));
+  };
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      const zip = await exportStudioZip(items, models, products);
+      downloadBlob(zip, `studio-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (err) {
+      setError(errorCode(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(t('studio.confirmClear'))) return;
+    try {
+      await clearStudio();
+      revokeAll(previews);
+      setModels([]);
+      setItems([]);
+      setPreviews({});
+      requestedRef.current.clear();
+    } catch (err) {
+      setError(errorCode(err));
+    }
+  };
+
+  const reviewable: StudioItem[] = items.filter(item => (item.status === 'done' || item.status === 'error') && (filter === 'all' || (item.status === 'done' && item.review === filter)));
+  const nameOf = (id: string) => products.find(product => product.id === id)?.name || id;
+  const modelName = (id: string) => models.find(model => model.id === id)?.name || id;
+
+  return (
+    <div className="space-y-6">
+      <p className="text-xs text-slate-500">{t('studio.storageHint')}</p>
+
+      <section className={sectionClass}>
+        <h2 className="font-black uppercase tracking-tight">{t('studio.models')}</h2>
+        <p className="text-xs text-slate-500">{t('studio.modelsHint', { max: STUDIO_CONFIG.MAX_MODELS })}</p>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          {models.map(model => (
+            <div key={model.id} className="space-y-2">
+              <img src={model.image} alt={model.name} className="w-full aspect-[3/4] object-cover rounded-2xl bg-slate-50" />
+              <input value={model.name} onChange={e => handleRenameModel(model, e.target.value)} aria-label={t('studio.modelName')} className="w-full border border-slate-200 rounded-xl px-2 py-1 text-xs font-bold" />
+              <button onClick={() => handleRemoveModel(model)} disabled={isRunning} className="text-[10px] font-black uppercase tracking-widest text-red-600 disabled:opacity-40">{t('studio.removeModel')}</button>
+            </div>
+          ))}
+        </div>
+        {models.length < STUDIO_CONFIG.MAX_MODELS && (
+          <label className={`${buttonClass} inline-block bg-indigo-600 text-white cursor-pointer ${isBusy ? 'opacity-40 pointer-events-none' : ''}`}>
+            {t('studio.addModels')}
+            <input type="file" accept="image/*" multiple className="hidden" onChange={handleModelUpload} />
+          </label>
+        )}
+      </section>
+
+      <section className={sectionClass}>
+        <div className="flex justify-between items-center gap-4">
+          <h2 className="font-black uppercase tracking-tight">{t('studio.products')}</h2>
+          <div className="flex gap-4">
+            <button onClick={() => setSelected(new Set(products.map(product => product.id)))} className="text-[10px] font-black uppercase tracking-widest text-indigo-600">{t('studio.selectAll')}</button>
+            <button onClick={() => setSelected(new Set())} className="text-[10px] font-black uppercase tracking-widest text-slate-400">{t('studio.selectNone')}</button>
+          </div>
+        </div>
+        <div className="grid sm:grid-cols-2 gap-2 max-h-64 overflow-y-auto">
+          {products.map(product => (
+            <label key={product.id} className="flex items-center gap-3 text-sm font-bold text-slate-700">
+              <input type="checkbox" checked={selected.has(product.id)} onChange={() => toggleProduct(product.id)} className="accent-indigo-600" />
+              <span className="truncate">{product.name}</span>
+            </label>
+          ))}
+        </div>
+        <button onClick={handleQueue} disabled={isRunning || planned.length === 0} className={`${buttonClass} bg-indigo-600 text-white`}>
+          {t('studio.queue', { count: planned.length })}
+        </button>
+      </section>
+
+      <section className={sectionClass}>
+        <h2 className="font-black uppercase tracking-tight">{t('studio.progressTitle')}</h2>
+        <div role="status" aria-live="polite" className="space-y-2">
+          <p className="text-sm font-bold text-slate-700">{t('studio.progress', { done: counts.done, total: counts.total, failed: counts.failed, queued: counts.queued })}</p>
+          {counts.queued > 0 && <p className="text-xs text-slate-500">{t('studio.eta', { minutes: formatNumber(Math.ceil(counts.queued * STUDIO_CONFIG.INTERVAL_MS / 60_000)) })}</p>}
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-600 transition-all" style={{ width: `${counts.total ? Math.round((counts.done + counts.failed) / counts.total * 100) : 0}%` }} />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          {isRunning ? (
+            <button onClick={() => abortRef.current?.abort()} className={`${buttonClass} bg-slate-900 text-white`}>{t('studio.pause')}</button>
+          ) : (
+            <button onClick={handleStart} disabled={counts.queued === 0} className={`${buttonClass} bg-indigo-600 text-white`}>{t('studio.start')}</button>
+          )}
+          <button onClick={() => handleRequeue(items)} disabled={isRunning || counts.failed === 0} className={`${buttonClass} bg-white border border-slate-200 text-slate-600`}>{t('studio.retryFailed')}</button>
+          <button onClick={handleClear} disabled={isRunning || items.length + models.length === 0} className={`${buttonClass} bg-white border border-slate-200 text-red-600`}>{t('studio.clear')}</button>
+        </div>
+      </section>
+
+      <section className={sectionClass}>
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <h2 className="font-black uppercase tracking-tight">{t('studio.review')}</h2>
+          <div className="inline-flex bg-slate-50 border border-slate-200 rounded-full p-1">
+            {FILTERS.map(option => (
+              <button
+                key={option}
+                onClick={() => setFilter(option)}
+                aria-pressed={filter === option}
+                className={`px-4 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${filter === option ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}
+              >
+                {t(`studio.filter.${option}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+        {reviewable.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">{t('studio.empty')}</p>
+        ) : (
+          <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+            {reviewable.map(item => (
+              <li key={item.id} className={`rounded-2xl border p-2 space-y-2 ${item.review === 'approved' ? 'border-emerald-400' : item.review === 'rejected' ? 'border-red-300 opacity-60' : 'border-slate-100'}`}>
+                {item.status === 'done' ? (
+                  previews[item.id]
+                    ? <img src={previews[item.id]} alt={`${nameOf(item.productId)} – ${modelName(item.modelId)}`} className="w-full aspect-[3/4] object-cover rounded-xl bg-slate-50" />
+                    : <div className="w-full aspect-[3/4] rounded-xl bg-slate-50 animate-pulse" />
+                ) : (
+                  <div className="w-full aspect-[3/4] rounded-xl bg-red-50 flex flex-col items-center justify-center p-3 text-center gap-3">
+                    <p className="text-xs font-bold text-red-700">{errorText(item.error)}</p>
+                    <button onClick={() => handleRequeue([item])} disabled={isRunning} className="text-[10px] font-black uppercase tracking-widest text-indigo-600 disabled:opacity-40">{t('studio.retry')}</button>
+                  </div>
+                )}
+                <p className="text-xs font-black truncate">{nameOf(item.productId)}</p>
+                <p className="text-[10px] text-slate-400 truncate">{modelName(item.modelId)}</p>
+                {item.status === 'done' && (
+                  <div className="flex gap-2">
+                    <button onClick={() => handleReview(item, 'approved')} aria-pressed={item.review === 'approved'} className={`flex-1 py-1 rounded-full text-[10px] font-black uppercase ${item.review === 'approved' ? 'bg-emerald-600 text-white' : 'bg-slate-50 text-slate-500'}`}>{t('studio.approve')}</button>
+                    <button onClick={() => handleReview(item, 'rejected')} aria-pressed={item.review === 'rejected'} className={`flex-1 py-1 rounded-full text-[10px] font-black uppercase ${item.review === 'rejected' ? 'bg-red-600 text-white' : 'bg-slate-50 text-slate-500'}`}>{t('studio.reject')}</button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <button onClick={handleExport} disabled={isBusy || counts.approved === 0} className={`${buttonClass} bg-indigo-600 text-white`}>
+          {t('studio.export', { count: counts.approved })}
+        </button>
+      </section>
+
+      {notice && <p role="status" className="text-xs font-bold text-amber-700">{t(notice.key, notice.params)}</p>}
+      {error && <p role="alert" className="text-xs font-bold text-red-700">{errorText(error)}</p>}
+    </div>
+  );
+};
+
+export default BatchStudio;
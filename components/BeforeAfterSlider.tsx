@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { useI18n } from '../services/i18n';
+
+interface BeforeAfterSliderProps {
+  before: string;
+  after: string;
+  alt: string;
+}
+
+const BeforeAfterSlider: React.FC<BeforeAfterSliderProps> = ({ before, after, alt }) => {
+  const { t } = useI18n();
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className="relative w-full overflow-hidden rounded-3xl bg-slate-100 select-none">
+      <img src={after} alt={alt} className="w-full block" />
+      {/* Vorher-Bild liegt darüber und wird bis zur Reglerposition angezeigt */}
+      <img
+        src={before}
+        alt={t('slider.before')}
+        className="absolute inset-0 w-full h-full object-cover"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+      />
+      <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-lg pointer-events-none" style={{ left: `${position}%` }} />
+      <span className="absolute top-3 left-3 bg-black/50 text-white text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-full">{t('slider.before')}</span>
+      <span className="absolute top-3 right-3 bg-indigo-600 text-white text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-full">{t('slider.after')}</span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={e => setPosition(Number(e.target.value))}
+        aria-label={t('slider.label')}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+      />
+    </div>
+  );
+};
+
+export default BeforeAfterSlider;
@@ -0,0 +1,175 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { PhotoCheckReport, checkVideoFrame } from '../services/photoChecks';
+import { useI18n } from '../services/i18n';
+import { MessageKey } from '../locales/de';
+
+interface CameraCaptureProps {
+  onCapture: (dataUrl: string) => void;
+  onCancel: () => void;
+}
+
+const COUNTDOWN_OPTIONS = [3, 5, 10];
+const LIVE_CHECK_INTERVAL_MS = 500;
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
+  const { t, message } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [countdownSeconds, setCountdownSeconds] = useState(5);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [liveReport, setLiveReport] = useState<PhotoCheckReport | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const start = async () => {
+      setError(null);
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode, width: { ideal: 1080 }, height: { ideal: 1920 } },
+          audio: false,
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play().catch(() => undefined);
+        }
+      } catch (err: any) {
+        setError(err?.name === 'NotAllowedError' ? 'camera.denied' : 'camera.failed');
+      }
+    };
+    start();
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    };
+  }, [facingMode]);
+
+  // Live-Hinweise zur Pose, solange die Kamera läuft
+  useEffect(() => {
+    if (error) return;
+    let busy = false;
+    const timer = setInterval(async () => {
+      if (busy || !videoRef.current) return;
+      busy = true;
+      try {
+        const report = await checkVideoFrame(videoRef.current, performance.now());
+        if (report) setLiveReport(report);
+      } finally {
+        busy = false;
+      }
+    }, LIVE_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [error]);
+
+  const capture = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    // Frontkamera wird gespiegelt angezeigt – das Foto soll genauso aussehen wie die Vorschau
+    if (facingMode === 'user') {
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(video, 0, 0);
+    onCapture(canvas.toDataURL('image/jpeg', 0.92));
+  }, [facingMode, onCapture]);
+
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      setCountdown(null);
+      capture();
+      return;
+    }
+    const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown, capture]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center text-center py-10">
+        <p className="text-red-700 font-bold italic mb-6">{t(error)}</p>
+        <button onClick={onCancel} className="px-8 py-3 bg-slate-100 text-slate-600 rounded-full font-black">{t('common.back')}</button>
+      </div>
+    );
+  }
+
+  const hint = liveReport?.checks.find(check => check.status === 'fail') || liveReport?.checks.find(check => check.status === 'warn');
+  const isReady = !!liveReport && liveReport.passed;
+
+  return (
+    <div className="w-full flex flex-col items-center">
+      <div className="relative w-full max-w-xs aspect-[9/16] rounded-3xl overflow-hidden bg-black shadow-2xl">
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          className={`w-full h-full object-cover ${facingMode === 'user' ? '-scale-x-100' : ''}`}
+        />
+        {/* Silhouette als Orientierung für Abstand und Position */}
+        <svg viewBox="0 0 100 180" className="absolute inset-0 w-full h-full pointer-events-none" preserveAspectRatio="xMidYMid meet">
+          <path
+            d="M50 14 a9 10 0 1 1 0.1 0 M41 34 h18 q8 1 10 9 l6 36 q1 5 -4 5 l-5 -30 l-1 36 l3 60 q0 5 -6 5 h-3 l-4 -58 h-4 l-4 58 h-3 q-6 0 -6 -5 l3 -60 l-1 -36 l-5 30 q-5 0 -4 -5 l6 -36 q2 -8 10 -9 z"
+            fill="none"
+            stroke={isReady ? '#10b981' : 'rgba(255,255,255,0.8)'}
+            strokeWidth="1"
+            strokeDasharray={isReady ? undefined : '3 2'}
+          />
+        </svg>
+        {countdown !== null && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/20">
+            <span className="text-white text-8xl font-black drop-shadow-xl">{countdown}</span>
+          </div>
+        )}
+        <div className={`absolute bottom-3 left-3 right-3 rounded-2xl px-3 py-2 text-[11px] font-bold text-center ${
+          isReady ? 'bg-emerald-500 text-white' : 'bg-black/60 text-white'
+        }`}>
+          {isReady ? t('camera.ready') : hint ? message(hint.message) : t('camera.hint')}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mt-6">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{t('camera.timer')}</span>
+        {COUNTDOWN_OPTIONS.map(seconds => (
+          <button
+            key={seconds}
+            onClick={() => setCountdownSeconds(seconds)}
+            className={`px-3 py-1 rounded-full text-xs font-black ${countdownSeconds === seconds ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'}`}
+          >
+            {seconds}s
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-3 mt-6">
+        <button onClick={onCancel} className="px-6 py-3 rounded-full font-black text-slate-400 bg-white border border-slate-200">{t('common.cancel')}</button>
+        <button
+          onClick={() => setFacingMode(mode => (mode === 'user' ? 'environment' : 'user'))}
+          className="px-6 py-3 rounded-full font-black text-slate-600 bg-white border border-slate-200"
+        >
+          {t('camera.switch')}
+        </button>
+        <button
+          onClick={() => setCountdown(countdownSeconds)}
+          disabled={countdown !== null}
+          className="px-8 py-3 rounded-full font-black text-white bg-indigo-600 hover:bg-indigo-700 shadow-xl disabled:opacity-60"
+        >
+          {t('camera.capture')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { CartResult, Product, WidgetConfig } from '../types';
+import { addToCart, resolveCartLocally } from '../services/cartService';
+import { useI18n } from '../services/i18n';
+
+interface CartPanelProps {
+  product: Product;
+  recommendedSize: string | null;
+  widget: WidgetConfig;
+  onAddClick: (size: string | null, variantId: string | null) => void;
+}
+
+const CartPanel: React.FC<CartPanelProps> = ({ product, recommendedSize, widget, onAddClick }) => {
+  const { t, message } = useI18n();
+  const sizes = product.variants.length > 0
+    ? product.sizeChart.map(entry => entry.size).filter(size => product.variants.some(v => v.size === size))
+    : product.sizeChart.map(entry => entry.size);
+  const [size, setSize] = useState<string | null>(recommendedSize);
+  const [isAdding, setIsAdding] = useState(false);
+  const [result, setResult] = useState<CartResult | null>(null);
+
+  useEffect(() => {
+    setSize(recommendedSize);
+    setResult(null);
+  }, [product.id, recommendedSize]);
+
+  const isAvailable = (s: string) => {
+    const variant = product.variants.find(v => v.size === s);
+    return !variant || variant.available;
+  };
+
+  const handleAdd = async () => {
+    const variant = product.variants.find(v => v.size === size) || null;
+    onAddClick(size, variant?.id || null);
+    // Steht fest, dass es in den Shop geht, öffnen wir ihn noch im Klick – sonst greift der Popup-Blocker.
+    // Scheitert erst der Warenkorb-Aufruf, bleibt der Link im Hinweis.
+    const local = resolveCartLocally(product, size, widget);
+    if (local) {
+      setResult(local);
+      window.open(local.url, '_blank', 'noopener');
+      return;
+    }
+    setIsAdding(true);
+    setResult(null);
+    try {
+      setResult(await addToCart(product, size, widget));
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 justify-center">
+        {sizes.map(s => (
+          <button
+            key={s}
+            onClick={() => setSize(s)}
+            disabled={!isAvailable(s)}
+            className={`min-w-[3rem] px-3 py-2 rounded-2xl text-sm font-black border-2 transition-all ${
+              size === s
+                ? 'border-indigo-600 bg-indigo-600 text-white'
+                : isAvailable(s)
+                  ? 'border-slate-200 text-slate-600 hover:border-indigo-600'
+                  : 'border-slate-100 text-slate-300 line-through cursor-not-allowed'
+            }`}
+          >
+            {s}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={handleAdd}
+        disabled={isAdding}
+        className="w-full bg-indigo-600 text-white py-6 rounded-3xl font-black text-xl hover:bg-indigo-700 transition-all shadow-xl uppercase tracking-widest flex items-center justify-center space-x-3 disabled:opacity-60"
+      >
+        <span>{isAdding ? t('cart.adding') : size ? t('cart.addWithSize', { size }) : t('cart.add')}</span>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" /></svg>
+      </button>
+
+      {result && (
+        <div className={`rounded-2xl px-4 py-3 text-sm font-bold flex items-center justify-between gap-3 ${
+          result.status === 'added' ? 'bg-emerald-50 text-emerald-800 border border-emerald-100' : 'bg-amber-50 text-amber-800 border border-amber-100'
+        }`}>
+          <span>{typeof result.message === 'string' ? result.message : message(result.message)}</span>
+          <a href={result.url} target="_blank" rel="noopener noreferrer" className="underline whitespace-nowrap">
+            {result.status === 'added' ? t('cart.openCart') : t('cart.openShop')}
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CartPanel;
@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ComparisonItem, Product } from '../types';
+import { COMPARE_CONFIG } from '../constants';
+import { renderComparison } from '../services/tryOnService';
+import { useI18n } from '../services/i18n';
+import ProductCard from './ProductCard';
+import BeforeAfterSlider from './BeforeAfterSlider';
+
+interface ComparisonViewProps {
+  userImage: string;
+  products: Product[];
+  initialProductIds: string[];
+  onClose: () => void;
+}
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ userImage, products, initialProductIds, onClose }) => {
+  const { t } = useI18n();
+  const [selectedIds, setSelectedIds] = useState<string[]>(initialProductIds.slice(0, COMPARE_CONFIG.MAX_PRODUCTS));
+  const [items, setItems] = useState<Record<string, ComparisonItem>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [layout, setLayout] = useState<'grid' | 'swipe'>('grid');
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Laufende Renderings beim Verlassen des Vergleichs abbrechen
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const selectedProducts = selectedIds.map(id => products.find(p => p.id === id)).filter((p): p is Product => !!p);
+  const hasStarted = Object.keys(items).length > 0;
+  const doneCount = selectedProducts.filter(p => items[p.id]?.status === 'done' || items[p.id]?.status === 'error').length;
+  const canStart = selectedProducts.length >= COMPARE_CONFIG.MIN_PRODUCTS && !isRunning;
+
+  const toggleProduct = (product: Product) => {
+    setSelectedIds(prev => prev.includes(product.id)
+      ? prev.filter(id => id !== product.id)
+      : prev.length < COMPARE_CONFIG.MAX_PRODUCTS ? [...prev, product.id] : prev);
+  };
+
+  const run = async (targets: Product[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    try {
+      await renderComparison(userImage, targets, item => setItems(prev => ({ ...prev, [item.productId]: item })), { signal: controller.signal });
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  if (!hasStarted) {
+    return (
+      <div className="animate-fadeIn">
+        <div className="text-center mb-8">
+          <h2 data-step-heading className="text-3xl font-black mb-2 italic uppercase tracking-tighter focus:outline-none">{t('compare.title')}</h2>
+          <p className="text-slate-500">{t('compare.subtitle', { min: COMPARE_CONFIG.MIN_PRODUCTS, max: COMPARE_CONFIG.MAX_PRODUCTS })}</p>
+        </div>
+        <div role="group" aria-label={t('compare.pickerLabel')} className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-10">
+          {products.map(product => (
+            <ProductCard key={product.id} product={product} role="checkbox" isSelected={selectedIds.includes(product.id)} onSelect={toggleProduct} />
+          ))}
+        </div>
+        <div className="flex gap-4 justify-center">
+          <button onClick={onClose} className="px-8 py-3 rounded-full font-black text-slate-400 bg-white border border-slate-200">{t('common.back')}</button>
+          <button
+            disabled={!canStart}
+            onClick={() => run(selectedProducts)}
+            className={`px-10 py-3 rounded-full font-black transition-all shadow-xl ${canStart ? 'bg-indigo-600 text-white hover:bg-indigo-700' : 'bg-slate-200 text-slate-400 cursor-not-allowed'}`}
+          >
+            {t('compare.start', { count: selectedProducts.length })}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-fadeIn">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mb-8">
+        <div>
+          <h2 data-step-heading className="text-3xl font-black italic uppercase tracking-tighter focus:outline-none">{t('compare.title')}</h2>
+          <p role="status" className="text-xs font-black uppercase tracking-widest text-slate-400">{t('compare.progress', { done: doneCount, total: selectedProducts.length })}</p>
+        </div>
+        <div className="inline-flex bg-white border border-slate-200 rounded-full p-1 shadow-sm">
+          {(['grid', 'swipe'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setLayout(mode)}
+              className={`px-5 py-2 rounded-full text-xs font-black uppercase tracking-widest ${layout === mode ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}
+            >
+              {t(`compare.${mode}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={layout === 'grid'
+        ? 'grid grid-cols-1 sm:grid-cols-2 gap-6'
+        : 'flex gap-6 overflow-x-auto snap-x snap-mandatory pb-4'}
+      >
+        {selectedProducts.map(product => {
+          const item: ComparisonItem | undefined = items[product.id];
+          return (
+            <div key={product.id} className={`bg-white rounded-[32px] p-3 shadow-xl border border-slate-100 ${layout === 'swipe' ? 'snap-center shrink-0 w-[85%] sm:w-[60%]' : ''}`}>
+              {item?.status === 'done' && item.image ? (
+                <BeforeAfterSlider before={userImage} after={item.image} alt={t('compare.lookAlt', { product: product.name })} />
+              ) : item?.status === 'error' ? (
+                <div className="aspect-[3/4] flex flex-col items-center justify-center text-center px-6">
+                  <p role="alert" className="text-red-700 font-bold italic text-sm mb-4">{item.error && t(`error.${item.error}`)}</p>
+                  <button onClick={() => run([product])} disabled={isRunning} className="px-6 py-2 bg-indigo-600 text-white rounded-full font-black text-xs disabled:opacity-60">{t('common.retry')}</button>
+                </div>
+              ) : (
+                <div className="aspect-[3/4] flex flex-col items-center justify-center">
+                  <div className={`w-12 h-12 border-4 border-indigo-100 rounded-full mb-4 ${item?.status === 'rendering' ? 'border-t-indigo-600 animate-spin' : ''}`}></div>
+                  <p className="text-xs font-black uppercase tracking-widest text-slate-400">{item?.status === 'rendering' ? t('compare.rendering') : t('compare.queued')}</p>
+                </div>
+              )}
+              <div className="flex items-center justify-between px-3 pt-3">
+                <span className="font-black text-sm uppercase tracking-tight truncate">{product.name}</span>
+                {item?.cached && <span className="text-[9px] font-black uppercase tracking-widest text-emerald-600">{t('compare.cached')}</span>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-4 justify-center mt-10">
+        {isRunning && (
+          <button onClick={() => abortRef.current?.abort()} className="px-8 py-3 rounded-full font-black text-red-600 bg-white border border-red-100">{t('common.cancel')}</button>
+        )}
+        <button onClick={() => setItems({})} disabled={isRunning} className="px-8 py-3 rounded-full font-black text-slate-600 bg-white border border-slate-200 disabled:opacity-60">{t('compare.changeSelection')}</button>
+        <button onClick={onClose} className="px-8 py-3 rounded-full font-black text-white bg-indigo-600 hover:bg-indigo-700 shadow-xl">{t('compare.toResult')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonView;
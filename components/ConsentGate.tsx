@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { PRIVACY_CONFIG } from '../constants';
+import { useI18n } from '../services/i18n';
+
+interface ConsentGateProps {
+  onAccept: (analytics: boolean) => void;
+  onDecline: () => void;
+}
+
+const ConsentGate: React.FC<ConsentGateProps> = ({ onAccept, onDecline }) => {
+  const { t } = useI18n();
+  const [isChecked, setIsChecked] = useState(false);
+  const [allowAnalytics, setAllowAnalytics] = useState(false);
+
+  return (
+    <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-xl animate-scaleIn">
+      <h2 className="text-2xl font-black mb-3 italic uppercase tracking-tighter">{t('consent.title')}</h2>
+      <p className="text-slate-600 font-medium mb-6">{t('consent.intro')}</p>
+      <ul className="space-y-3 mb-6 text-sm text-slate-600 leading-relaxed list-disc pl-5">
+        <li>{t('consent.processing')}</li>
+        <li>{t('consent.provider')}</li>
+        <li>{t('consent.retention')}</li>
+        <li>{t('consent.rights')}</li>
+      </ul>
+      <a href={PRIVACY_CONFIG.PRIVACY_URL} target="_blank" rel="noopener noreferrer" className="text-xs font-black uppercase tracking-widest text-indigo-600 underline">
+        {t('consent.privacyPolicy')}
+      </a>
+      <label className="flex items-start gap-3 mt-6 p-4 rounded-2xl bg-slate-50 border border-slate-100 cursor-pointer">
+        <input type="checkbox" checked={isChecked} onChange={e => setIsChecked(e.target.checked)} className="mt-1 w-4 h-4 accent-indigo-600" />
+        <span className="text-sm font-bold text-slate-700">{t('consent.checkbox')}</span>
+      </label>
+      <label className="flex items-start gap-3 mt-3 p-4 rounded-2xl border border-slate-100 cursor-pointer">
+        <input type="checkbox" checked={allowAnalytics} onChange={e => setAllowAnalytics(e.target.checked)} className="mt-1 w-4 h-4 accent-indigo-600" />
+        <span className="text-sm font-medium text-slate-600">{t('consent.analytics')}</span>
+      </label>
+      <p className="text-[10px] font-black uppercase tracking-widest text-slate-300 mt-3">{t('consent.version', { version: PRIVACY_CONFIG.CONSENT_VERSION })}</p>
+      <div className="flex flex-col sm:flex-row gap-4 mt-8 justify-center">
+        <button onClick={onDecline} className="px-10 py-4 rounded-full font-black text-slate-400 bg-white border border-slate-200">{t('consent.decline')}</button>
+        <button
+          disabled={!isChecked}
+          onClick={() => onAccept(allowAnalytics)}
+          className={`px-12 py-4 rounded-full font-black transition-all shadow-xl ${isChecked ? 'bg-indigo-600 text-white hover:bg-indigo-700' : 'bg-slate-200 text-slate-400 cursor-not-allowed'}`}
+        >
+          {t('consent.accept')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentGate;
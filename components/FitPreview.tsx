@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FitHint, FitPreviewItem, FitSpec, OutfitItem, Product, SizeRecommendation } from '../types';
+import { ErrorCode, errorCode, isCancelled } from '../services/errors';
+import { describeOutfit } from '../services/outfitService';
+import { useI18n } from '../services/i18n';
+import { fitPreviewSizes } from '../services/sizeEngine';
+import { renderOutfit } from '../services/tryOnService';
+
+interface FitPreviewProps {
+  userImage: string;
+  outfit: OutfitItem[];
+  product: Product;
+  recommendation: SizeRecommendation;
+  // Hauptergebnis – zeigt bereits die empfohlene Größe und wird dafür nicht erneut gerendert
+  resultImage: string;
+  onError: (code: ErrorCode) => void;
+}
+
+const LEVEL_STYLES: Record<FitHint['level'], string> = {
+  tight: 'bg-red-50 text-red-700 border-red-100',
+  snug: 'bg-amber-50 text-amber-700 border-amber-100',
+  regular: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  relaxed: 'bg-sky-50 text-sky-700 border-sky-100',
+  loose: 'bg-indigo-50 text-indigo-700 border-indigo-100',
+};
+
+const recommendedItem = (size: string, image: string): Record<string, FitPreviewItem> => ({
+  [size]: { size, status: 'done', image, error: null },
+});
+
+/**
+ * Empfohlene Größe und ihre Nachbarn im selben Foto. Die empfohlene Größe zeigt das Hauptergebnis,
+ * Nachbargrößen werden erst gerendert, wenn sie gewählt sind – jede kostet einen Modell-Aufruf.
+ * Die Größe gilt nur für das Produkt, dessen Größentabelle die Empfehlung liefert.
+ */
+const FitPreview: React.FC<FitPreviewProps> = ({ userImage, outfit, product, recommendation, resultImage, onError }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedSize, setSelectedSize] = useState(recommendation.size);
+  const [items, setItems] = useState<Record<string, FitPreviewItem>>(() => recommendedItem(recommendation.size, resultImage));
+  const abortRef = useRef<AbortController | null>(null);
+
+  const specs: FitSpec[] = useMemo(() => fitPreviewSizes(product.sizeChart, recommendation), [product, recommendation]);
+  const selected: FitSpec | undefined = specs.find(spec => spec.size === selectedSize) || specs[0];
+  const item: FitPreviewItem | undefined = selected && items[selected.size];
+  const errorText = (code: ErrorCode | null) => t(`error.${code || 'UNKNOWN'}`);
+
+  // Laufende Renderings beim Verlassen des Ergebnisses abbrechen
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Neues Ergebnis (anderes Foto oder Outfit): alte Vorschauen verwerfen
+  useEffect(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setSelectedSize(recommendation.size);
+    setItems(recommendedItem(recommendation.size, resultImage));
+  }, [resultImage, recommendation.size]);
+
+  const render = async (spec: FitSpec) => {
+    if (!abortRef.current) abortRef.current = new AbortController();
+    const update = (next: Partial<FitPreviewItem>) =>
+      setItems(prev => ({ ...prev, [spec.size]: { size: spec.size, status: 'idle', image: null, error: null, ...next } }));
+    update({ status: 'rendering' });
+    try {
+      const { image } = await renderOutfit(userImage, outfit, abortRef.current.signal, { ...spec, productName: product.name });
+      update({ status: 'done', image });
+    } catch (error) {
+      if (isCancelled(error)) return;
+      const code = errorCode(error);
+      onError(code);
+      update({ status: 'error', error: code });
+    }
+  };
+
+  const select = (spec: FitSpec) => {
+    setSelectedSize(spec.size);
+    const current: FitPreviewItem | undefined = items[spec.size];
+    if (!current || current.status === 'idle') render(spec);
+  };
+
+  if (!selected) return null;
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => {
+          setIsOpen(true);
+          select(selected);
+        }}
+        className="w-full bg-emerald-50 text-emerald-700 border border-emerald-100 py-4 rounded-3xl font-black text-sm hover:bg-emerald-100 transition-all uppercase tracking-widest mb-8"
+      >
+        {t('fit.open')}
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-slate-100 rounded-3xl p-6 mb-8 shadow-sm">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <p className="font-black text-lg uppercase tracking-tight">{t('fit.title')}</p>
+          <p className="text-xs text-slate-500">{t('fit.subtitle', { product: product.name, size: recommendation.size })}</p>
+        </div>
+        <button onClick={() => setIsOpen(false)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600">{t('fit.close')}</button>
+      </div>
+
+      <div role="group" aria-label={t('fit.sizes')} className="inline-flex bg-slate-50 border border-slate-100 rounded-full p-1 mb-4">
+        {specs.map(spec => (
+          <button
+            key={spec.size}
+            aria-pressed={spec.size === selected.size}
+            onClick={() => select(spec)}
+            className={`px-5 py-2 rounded-full text-xs font-black uppercase tracking-widest ${spec.size === selected.size ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}
+          >
+            {spec.size}
+            {spec.size === recommendation.size && <span className="sr-only"> ({t('fit.recommended')})</span>}
+            {spec.size === recommendation.size && <span aria-hidden="true" className="ml-1">★</span>}
+          </button>
+        ))}
+      </div>
+
+      <div className="rounded-2xl overflow-hidden bg-slate-50 mb-4">
+        {item?.status === 'done' && item.image ? (
+          <img src={item.image} alt={t('fit.imageAlt', { outfit: describeOutfit(outfit), size: selected.size })} className="w-full aspect-[3/4] object-cover" />
+        ) : item?.status === 'error' ? (
+          <div className="aspect-[3/4] flex flex-col items-center justify-center text-center px-6">
+            <p className="text-red-700 font-bold italic text-sm mb-4">{errorText(item.error)}</p>
+            <button onClick={() => render(selected)} className="px-6 py-2 bg-indigo-600 text-white rounded-full font-black text-xs">{t('common.retry')}</button>
+          </div>
+        ) : (
+          <div className="aspect-[3/4] flex flex-col items-center justify-center" role="status">
+            <div className="w-12 h-12 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin mb-4"></div>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400">{t('fit.rendering', { size: selected.size })}</p>
+          </div>
+        )}
+      </div>
+
+      {selected.hints.length === 0 ? (
+        <p className="text-xs text-slate-500">{t('fit.noHints')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {selected.hints.map((hint: FitHint) => (
+            <li key={hint.dimension} className="flex items-center gap-3 text-xs">
+              <span className="w-16 shrink-0 font-black uppercase tracking-widest text-slate-400">{t(`fit.area.${hint.dimension}`)}</span>
+              <span className={`px-2 py-0.5 rounded-full border font-black uppercase tracking-widest text-[10px] ${LEVEL_STYLES[hint.level]}`}>{t(`fit.level.${hint.level}`)}</span>
+              <span className="text-slate-600">{t(`fit.hint.${hint.dimension}.${hint.level}`)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-[10px] text-slate-400 mt-4 italic">{t('fit.disclaimer')}</p>
+    </div>
+  );
+};
+
+export default FitPreview;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { SavedLook } from '../types';
+import { useI18n } from '../services/i18n';
+import { describeOutfit } from '../services/outfitService';
+
+interface LooksGalleryProps {
+  looks: SavedLook[];
+  onOpen: (look: SavedLook) => void;
+  onToggleFavourite: (look: SavedLook) => void;
+  onDelete: (look: SavedLook) => void;
+  onClear: (keepFavourites: boolean) => void;
+  onClose: () => void;
+}
+
+const LooksGallery: React.FC<LooksGalleryProps> = ({ looks, onOpen, onToggleFavourite, onDelete, onClear, onClose }) => {
+  const { t, formatDate } = useI18n();
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+  const visible = favouritesOnly ? looks.filter(look => look.favourite) : looks;
+
+  const handleClearAll = () => {
+    if (window.confirm(t('gallery.confirmClear'))) onClear(false);
+  };
+
+  return (
+    <div className="animate-fadeIn">
+      <div className="text-center mb-8">
+        <h1 data-step-heading className="text-4xl font-black mb-3 italic uppercase tracking-tighter focus:outline-none">{t('gallery.title')}</h1>
+        <p className="text-slate-500 text-sm">{t('gallery.notice')}</p>
+      </div>
+
+      {looks.length === 0 ? (
+        <p className="text-center text-slate-400 font-bold italic mb-12">{t('gallery.empty')}</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-3 justify-center mb-8">
+            <label className="flex items-center gap-2 px-4 py-2 rounded-full bg-white border border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+              <input type="checkbox" checked={favouritesOnly} onChange={e => setFavouritesOnly(e.target.checked)} className="accent-indigo-600" />
+              <span>{t('gallery.favouritesOnly')}</span>
+            </label>
+            <button onClick={() => onClear(true)} className="px-4 py-2 rounded-full bg-white border border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-red-600">
+              {t('gallery.clearNonFavourites')}
+            </button>
+            <button onClick={handleClearAll} className="px-4 py-2 rounded-full bg-white border border-red-100 text-[10px] font-black uppercase tracking-widest text-red-600 hover:bg-red-50">
+              {t('gallery.clearAll')}
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-12">
+            {visible.map(look => (
+              <div key={look.id} className="bg-white rounded-3xl overflow-hidden shadow-sm border border-slate-100 flex flex-col">
+                <button onClick={() => onOpen(look)} className="relative aspect-[3/4] bg-slate-50" aria-label={t('gallery.reopen')}>
+                  <img src={look.thumbnail} alt={describeOutfit(look.outfit)} className="w-full h-full object-cover" />
+                </button>
+                <div className="p-3 flex-1 flex flex-col">
+                  <p className="text-xs font-black uppercase tracking-tight truncate">{describeOutfit(look.outfit)}</p>
+                  <p className="text-[10px] text-slate-400 mt-1">{formatDate(look.createdAt)}</p>
+                  {look.recommendedSize && (
+                    <p className="text-[10px] font-black text-emerald-700 uppercase tracking-widest mt-1">{t('gallery.size', { size: look.recommendedSize.size })}</p>
+                  )}
+                  <div className="flex items-center justify-between mt-auto pt-3">
+                    <button
+                      onClick={() => onToggleFavourite(look)}
+                      aria-pressed={look.favourite}
+                      aria-label={look.favourite ? t('gallery.unfavourite') : t('gallery.favourite')}
+                      className={`text-lg leading-none ${look.favourite ? 'text-amber-500' : 'text-slate-300 hover:text-amber-500'}`}
+                    >
+                      {look.favourite ? '★' : '☆'}
+                    </button>
+                    <button onClick={() => onOpen(look)} className="text-[10px] font-black uppercase tracking-widest text-indigo-600">{t('gallery.reopen')}</button>
+                    <button onClick={() => onDelete(look)} aria-label={t('gallery.delete')} className="text-slate-300 hover:text-red-600">
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" /></svg>
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="flex justify-center">
+        <button onClick={onClose} className="px-10 py-4 rounded-full font-black text-slate-400 bg-white border border-slate-200">{t('gallery.close')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default LooksGallery;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { BodyMeasurements } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface MeasurementsFormProps {
+  value: BodyMeasurements;
+  onChange: (value: BodyMeasurements) => void;
+}
+
+const FIELDS: { key: keyof BodyMeasurements; unit: string }[] = [
+  { key: 'heightCm', unit: 'cm' },
+  { key: 'weightKg', unit: 'kg' },
+  { key: 'waistCm', unit: 'cm' },
+  { key: 'hipCm', unit: 'cm' },
+  { key: 'inseamCm', unit: 'cm' },
+];
+
+// Das Formular gibt es nur einmal pro Seite
+const PANEL_ID = 'measurements-panel';
+
+const MeasurementsForm: React.FC<MeasurementsFormProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleChange = (key: keyof BodyMeasurements, raw: string) => {
+    const parsed = parseFloat(raw.replace(',', '.'));
+    onChange({ ...value, [key]: Number.isFinite(parsed) && parsed > 0 ? parsed : undefined });
+  };
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-100 shadow-sm mt-6">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        aria-controls={PANEL_ID}
+        className="w-full flex justify-between items-center px-6 py-4 text-xs font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 transition-colors"
+      >
+        <span>{t('measurements.toggle')}</span>
+        <span aria-hidden="true">{isOpen ? '−' : '+'}</span>
+      </button>
+      {/* Bleibt im DOM, damit aria-controls auch zugeklappt auf ein Element zeigt */}
+      <div id={PANEL_ID} hidden={!isOpen} className={`${isOpen ? 'grid' : 'hidden'} grid-cols-2 sm:grid-cols-5 gap-3 px-6 pb-6`}>
+        {FIELDS.map(field => (
+          <label key={field.key} className="flex flex-col text-[10px] font-bold uppercase tracking-widest text-slate-400">
+            {t(`measurements.${field.key}`)}
+            <div className="flex items-center mt-1 border border-slate-200 rounded-xl px-3 py-2 focus-within:border-indigo-600">
+              <input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                value={value[field.key] ?? ''}
+                onChange={e => handleChange(field.key, e.target.value)}
+                className="w-full text-sm font-bold text-slate-900 outline-none bg-transparent"
+              />
+              <span className="text-slate-400 ml-1">{field.unit}</span>
+            </div>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MeasurementsForm;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { OutfitItem, Product } from '../types';
+import { GARMENT_SLOTS } from '../constants';
+import { useI18n } from '../services/i18n';
+import { handleRadioGroupKeyDown } from '../services/a11y';
+import { productsForSlot, setOutfitSlot } from '../services/outfitService';
+
+interface OutfitBuilderProps {
+  products: Product[];
+  outfit: OutfitItem[];
+  onChange: (outfit: OutfitItem[]) => void;
+}
+
+const OutfitBuilder: React.FC<OutfitBuilderProps> = ({ products, outfit, onChange }) => {
+  const { t, formatPrice } = useI18n();
+  const slots = GARMENT_SLOTS.filter(slot => productsForSlot(products, slot).length > 0);
+
+  return (
+    <div className="space-y-6 mb-12 max-w-4xl mx-auto">
+      {slots.map(slot => {
+        const label = t(`garment.${slot}`);
+        const selectedId = outfit.find(item => item.slot === slot)?.product.id || null;
+        return (
+          <div key={slot} className="bg-white rounded-3xl border border-slate-100 shadow-sm p-5">
+            <span id={`outfit-slot-${slot}`} className="block text-xs font-black uppercase tracking-widest text-slate-500 mb-4">{label}</span>
+            {/* Pro Slot höchstens ein Teil – „Keins“ ist die erste Option der Gruppe */}
+            <div role="radiogroup" aria-labelledby={`outfit-slot-${slot}`} onKeyDown={handleRadioGroupKeyDown} className="flex gap-3 overflow-x-auto pb-1">
+              <button
+                role="radio"
+                aria-checked={!selectedId}
+                tabIndex={selectedId ? -1 : 0}
+                onClick={() => onChange(setOutfitSlot(outfit, slot, null))}
+                className={`shrink-0 w-28 rounded-2xl border-2 text-[10px] font-black uppercase tracking-widest transition-all focus:outline-none focus-visible:ring-4 focus-visible:ring-indigo-300 ${
+                  selectedId ? 'border-slate-100 text-slate-400 hover:border-indigo-200 hover:text-indigo-600' : 'border-indigo-600 ring-2 ring-indigo-100 text-indigo-600'
+                }`}
+              >
+                {t('outfit.none')}
+              </button>
+              {productsForSlot(products, slot).map(product => (
+                <button
+                  key={product.id}
+                  role="radio"
+                  aria-checked={selectedId === product.id}
+                  tabIndex={selectedId === product.id ? 0 : -1}
+                  onClick={() => onChange(setOutfitSlot(outfit, slot, product))}
+                  className={`shrink-0 w-28 rounded-2xl border-2 overflow-hidden text-left transition-all focus:outline-none focus-visible:ring-4 focus-visible:ring-indigo-300 ${
+                    selectedId === product.id ? 'border-indigo-600 ring-2 ring-indigo-100' : 'border-slate-100 hover:border-indigo-200'
+                  }`}
+                >
+                  <div className="aspect-[3/4] bg-gray-50">
+                    <img src={product.imageUrl} alt="" className="w-full h-full object-contain p-1" />
+                  </div>
+                  <div className="p-2">
+                    <p className="text-[11px] font-bold truncate">{product.name}</p>
+                    <p className="text-[10px] text-slate-400">
+                      {product.category === 'set' ? t('outfit.fromSet', { garment: label }) : formatPrice(product.price, product.currency)}
+                    </p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default OutfitBuilder;
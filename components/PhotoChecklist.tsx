@@ -0,0 +1,37 @@
+import React from 'react';
+import { PhotoCheck, PhotoCheckReport } from '../services/photoChecks';
+import { useI18n } from '../services/i18n';
+
+interface PhotoChecklistProps {
+  report: PhotoCheckReport | null;
+  isChecking: boolean;
+}
+
+const STATUS_STYLES = {
+  pass: { icon: '✓', className: 'text-emerald-700' },
+  warn: { icon: '!', className: 'text-amber-700' },
+  fail: { icon: '✕', className: 'text-red-700' },
+};
+
+const PhotoChecklist: React.FC<PhotoChecklistProps> = ({ report, isChecking }) => {
+  const { t, message } = useI18n();
+  // Die Live-Region bleibt stehen, damit Screenreader Prüfung und Ergebnis ansagen
+  return (
+    <div role="status" aria-live="polite">
+      {isChecking ? (
+        <p className="text-center text-xs font-black uppercase tracking-widest text-slate-400 mt-6">{t('photo.checking')}</p>
+      ) : report && (
+        <ul className="mt-6 space-y-2 max-w-md mx-auto">
+          {report.checks.map((check: PhotoCheck) => (
+            <li key={check.id} className={`flex items-start gap-3 text-sm font-medium ${STATUS_STYLES[check.status].className}`}>
+              <span aria-hidden="true" className="font-black w-4 text-center">{STATUS_STYLES[check.status].icon}</span>
+              <span><span className="sr-only">{t(`photo.status.${check.status}`)}: </span>{message(check.message)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PhotoChecklist;
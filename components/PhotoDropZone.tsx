@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useI18n } from '../services/i18n';
+import { pickImageFile } from '../services/a11y';
+
+interface PhotoDropZoneProps {
+  onFile: (file: File) => void;
+  // Fehlt der Callback, gibt es keine Kamera (z.B. ohne getUserMedia)
+  onOpenCamera?: () => void;
+}
+
+// Foto per Dateiauswahl, Drag & Drop oder Einfügen (Strg/Cmd+V) – die Dateiauswahl ist das Tastatur-Pendant zum Ziehen
+const PhotoDropZone: React.FC<PhotoDropZoneProps> = ({ onFile, onOpenCamera }) => {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Einfügen wirkt auf der ganzen Seite, solange die Upload-Fläche sichtbar ist; Text landet weiter in Eingabefeldern
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const file = pickImageFile(event.clipboardData?.files, true);
+      if (!file) return;
+      event.preventDefault();
+      onFile(file);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [onFile]);
+
+  return (
+    <div
+      onDragOver={(e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={(e: React.DragEvent) => {
+        // Beim Wechsel auf ein Kindelement feuert dragleave ebenfalls – nur das Verlassen der Fläche zählt
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false);
+      }}
+      onDrop={(e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const file = pickImageFile(e.dataTransfer?.files, false);
+        if (file) onFile(file);
+      }}
+      className={`w-full flex flex-col items-center rounded-[32px] transition-colors ${isDragging ? 'bg-indigo-50 ring-4 ring-indigo-200' : ''}`}
+    >
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        aria-describedby="photo-drop-hint"
+        className="w-full h-full flex flex-col items-center justify-center cursor-pointer group py-10 rounded-[32px] focus:outline-none focus-visible:ring-4 focus-visible:ring-indigo-300"
+      >
+        <div aria-hidden="true" className="w-20 h-20 bg-indigo-50 rounded-full flex items-center justify-center mb-4 transition-all group-hover:scale-110">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-indigo-600" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+        </div>
+        <span className="text-slate-600 font-black uppercase tracking-widest text-sm">{isDragging ? t('photo.dropActive') : t('photo.choose')}</span>
+      </button>
+      <p id="photo-drop-hint" className="text-xs text-slate-400 mb-6 -mt-6">{t('photo.dropHint')}</p>
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        accept="image/*"
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+          const file = e.target.files?.[0];
+          if (file) onFile(file);
+          // Dieselbe Datei soll sich nach dem Entfernen erneut wählen lassen
+          e.target.value = '';
+        }}
+      />
+      {onOpenCamera && (
+        <button onClick={onOpenCamera} className="px-8 py-3 rounded-full font-black text-indigo-600 bg-indigo-50 hover:bg-indigo-100 transition-colors uppercase tracking-widest text-xs focus:outline-none focus-visible:ring-4 focus-visible:ring-indigo-300">
+          {t('photo.camera')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PhotoDropZone;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { ConsentRecord } from '../types';
+import { MessageKey } from '../locales/de';
+import { useI18n } from '../services/i18n';
+
+interface PrivacyControlsProps {
+  consent: ConsentRecord | null;
+  notice: MessageKey | null;
+  onDeleteData: () => void;
+  onRevoke: () => void;
+  onExportLog: () => void;
+  // null blendet den Schalter aus, z.B. wenn der Shop über die Statistik entscheidet
+  analyticsEnabled: boolean | null;
+  onAnalyticsChange: (allowed: boolean) => void;
+}
+
+const PrivacyControls: React.FC<PrivacyControlsProps> = ({ consent, notice, onDeleteData, onRevoke, onExportLog, analyticsEnabled, onAnalyticsChange }) => {
+  const { t, formatDate } = useI18n();
+
+  return (
+    <div className="max-w-2xl mx-auto mb-8 px-4">
+      <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1">{t('privacy.title')}</p>
+      <p className="text-xs text-slate-400 mb-3">
+        {consent ? t('privacy.consentedAt', { date: formatDate(consent.grantedAt), version: consent.version }) : t('privacy.noConsent')}
+      </p>
+      {consent && analyticsEnabled !== null && (
+        <label className="flex items-center justify-center gap-2 mb-3 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+          <input type="checkbox" checked={analyticsEnabled} onChange={e => onAnalyticsChange(e.target.checked)} className="accent-indigo-600" />
+          <span>{t('privacy.analytics')}</span>
+        </label>
+      )}
+      <div className="flex flex-wrap gap-3 justify-center">
+        <button onClick={onDeleteData} className="px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest text-red-600 bg-white border border-red-100 hover:bg-red-50">
+          {t('privacy.deleteData')}
+        </button>
+        {consent && (
+          <button onClick={onRevoke} className="px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest text-slate-500 bg-white border border-slate-200 hover:text-indigo-600">
+            {t('privacy.revoke')}
+          </button>
+        )}
+        <button onClick={onExportLog} className="px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest text-slate-500 bg-white border border-slate-200 hover:text-indigo-600">
+          {t('privacy.exportLog')}
+        </button>
+      </div>
+      {notice && <p role="status" className="text-xs font-bold text-emerald-700 mt-3">{t(notice)}</p>}
+    </div>
+  );
+};
+
+export default PrivacyControls;
@@ -1,41 +1,56 @@
 
 import React, { useState } from 'react';
 import { Product } from '../types';
+import { useI18n } from '../services/i18n';
+import { isActivationKey } from '../services/a11y';
 
 interface ProductCardProps {
   product: Product;
   isSelected: boolean;
   onSelect: (product: Product) => void;
+  // radio in der Einzelauswahl (Pfeiltasten übernimmt die Gruppe), checkbox in der Mehrfachauswahl
+  role?: 'radio' | 'checkbox';
+  tabIndex?: 0 | -1;
 }
 
-const ProductCard: React.FC<ProductCardProps> = ({ product, isSelected, onSelect }) => {
+const ProductCard: React.FC<ProductCardProps> = ({ product, isSelected, onSelect, role = 'radio', tabIndex = 0 }) => {
+  const { t, formatPrice } = useI18n();
   const [imageError, setImageError] = useState(false);
+  const isSoldOut = product.variants.length > 0 && product.variants.every(variant => !variant.available);
 
   return (
-    <div 
+    <div
+      role={role}
+      aria-checked={isSelected}
+      tabIndex={tabIndex}
       onClick={() => onSelect(product)}
-      className={`cursor-pointer transition-all duration-300 border-2 rounded-xl overflow-hidden bg-white shadow-sm hover:shadow-md ${
+      onKeyDown={(e: React.KeyboardEvent) => {
+        if (!isActivationKey(e.key)) return;
+        e.preventDefault();
+        onSelect(product);
+      }}
+      className={`cursor-pointer transition-all duration-300 border-2 rounded-xl overflow-hidden bg-white shadow-sm hover:shadow-md focus:outline-none focus-visible:ring-4 focus-visible:ring-indigo-300 ${
         isSelected ? 'border-indigo-600 ring-2 ring-indigo-100' : 'border-gray-100'
       }`}
     >
       <div className="relative aspect-[3/4] overflow-hidden bg-gray-50 flex items-center justify-center">
         {!imageError ? (
           <img 
-            src={product.imageUrl} 
-            alt={product.name} 
+            src={product.imageUrl}
+            alt=""
             onError={() => setImageError(true)}
             className="w-full h-full object-contain p-2 transform transition-transform duration-500 hover:scale-105"
           />
         ) : (
-          <div className="flex flex-col items-center justify-center p-4 text-center">
+          <div aria-hidden="true" className="flex flex-col items-center justify-center p-4 text-center">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-gray-300 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
             </svg>
-            <span className="text-[10px] text-gray-400 font-medium">Bild nicht gefunden<br/>({product.imageUrl})</span>
+            <span className="text-[10px] text-gray-400 font-medium">{t('product.imageMissing')}<br/>({product.imageUrl})</span>
           </div>
         )}
         {isSelected && (
-          <div className="absolute top-2 right-2 bg-indigo-600 text-white p-1 rounded-full shadow-lg z-10">
+          <div aria-hidden="true" className="absolute top-2 right-2 bg-indigo-600 text-white p-1 rounded-full shadow-lg z-10">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
               <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
             </svg>
@@ -44,6 +59,9 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, isSelected, onSelect
       </div>
       <div className="p-3">
         <h3 className="font-semibold text-sm truncate text-center">{product.name}</h3>
+        <p className="text-xs text-center text-gray-500 mt-1">
+          {isSoldOut ? <span className="text-red-500 font-medium">{t('product.soldOut')}</span> : formatPrice(product.price, product.currency)}
+        </p>
       </div>
     </div>
   );
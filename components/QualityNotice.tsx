@@ -0,0 +1,31 @@
+import React from 'react';
+import { QualityReport } from '../services/resultChecks';
+import { useI18n } from '../services/i18n';
+
+interface QualityNoticeProps {
+  report: QualityReport | null;
+}
+
+// Zeigt nur Auffälligkeiten – bestandene Prüfungen interessieren hier niemanden
+const QualityNotice: React.FC<QualityNoticeProps> = ({ report }) => {
+  const { t, message } = useI18n();
+  const issues = report?.checks.filter(check => check.status !== 'pass') || [];
+  if (issues.length === 0) return null;
+
+  return (
+    <div role="status" className={`rounded-3xl border p-5 ${report!.passed ? 'bg-amber-50 border-amber-100 text-amber-800' : 'bg-red-50 border-red-100 text-red-800'}`}>
+      <p className="text-[10px] font-black uppercase tracking-widest mb-2">{t('quality.title')}</p>
+      <ul className="space-y-1 text-sm font-medium">
+        {issues.map(check => (
+          <li key={check.id} className="flex items-start gap-2">
+            <span className="font-black">{check.status === 'fail' ? '✕' : '!'}</span>
+            <span>{message(check.message)}</span>
+          </li>
+        ))}
+      </ul>
+      {!report!.passed && <p className="text-xs mt-3">{t('quality.retried')}</p>}
+    </div>
+  );
+};
+
+export default QualityNotice;
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { SHARE_CONFIG } from '../constants';
+import { MessageKey } from '../locales/de';
+import { errorCode } from '../services/errors';
+import { useI18n } from '../services/i18n';
+import { ShareCard, ShareCardContent, ShareFormat, ShareLayout, canShareFiles, downloadBlob, renderShareCard, shareOrDownload } from '../services/shareService';
+
+interface ShareDialogProps {
+  content: ShareCardContent;
+  shareText: string;
+  accentColor?: string;
+  brandName?: string;
+  onClose: () => void;
+}
+
+const FORMATS: { type: ShareFormat; label: string }[] = [
+  { type: 'image/jpeg', label: 'JPEG' },
+  { type: 'image/webp', label: 'WebP' },
+  { type: 'image/png', label: 'PNG' },
+];
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ content, shareText, accentColor, brandName, onClose }) => {
+  const { t } = useI18n();
+  const [layout, setLayout] = useState<ShareLayout>('story');
+  const [format, setFormat] = useState<ShareFormat>('image/jpeg');
+  const [width, setWidth] = useState(SHARE_CONFIG.DEFAULT_WIDTH);
+  const [includeQr, setIncludeQr] = useState(!!content.url);
+  const [card, setCard] = useState<ShareCard | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [notice, setNotice] = useState<MessageKey | null>(null);
+  const canShare = canShareFiles();
+
+  // Karte bei jeder Option neu rendern; veraltete Ergebnisse werden verworfen
+  useEffect(() => {
+    let isCurrent = true;
+    setCard(null);
+    setNotice(null);
+    renderShareCard(content, { layout, format, width, includeQr, accentColor, brandName })
+      .then(next => {
+        if (isCurrent) setCard(next);
+      })
+      .catch(err => {
+        if (isCurrent) setNotice(`error.${errorCode(err)}`);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [content, layout, format, width, includeQr, accentColor, brandName]);
+
+  useEffect(() => {
+    if (!card) return;
+    const url = URL.createObjectURL(card.blob);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [card]);
+
+  const handleShare = async () => {
+    if (!card) return;
+    const outcome = await shareOrDownload(card, { title: content.title, text: shareText, url: content.url || undefined });
+    if (outcome !== 'cancelled') setNotice(outcome === 'shared' ? 'share.shared' : 'share.downloaded');
+  };
+
+  const handleDownload = () => {
+    if (!card) return;
+    downloadBlob(card.blob, card.filename);
+    setNotice('share.downloaded');
+  };
+
+  const optionClass = (isActive: boolean) =>
+    `px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest ${isActive ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-400'}`;
+
+  return (
+    <div className="bg-white rounded-[32px] border border-slate-100 shadow-xl p-6 space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="font-black uppercase tracking-tight">{t('share.title')}</h3>
+        <button onClick={onClose} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600">{t('share.close')}</button>
+      </div>
+
+      <div className="flex justify-center bg-slate-50 rounded-2xl p-3 min-h-[200px] items-center">
+        {card && previewUrl ? (
+          <img src={previewUrl} alt={t('share.preview')} className="max-h-80 rounded-xl shadow" />
+        ) : (
+          <p className="text-xs font-black uppercase tracking-widest text-slate-400">{t('share.rendering')}</p>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 w-20">{t('share.layout')}</span>
+          {(['story', 'square'] as const).map(option => (
+            <button key={option} onClick={() => setLayout(option)} className={optionClass(layout === option)}>{t(`share.${option}`)}</button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 w-20">{t('share.fileType')}</span>
+          {FORMATS.map(option => (
+            <button key={option.type} onClick={() => setFormat(option.type)} className={optionClass(format === option.type)}>{option.label}</button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 w-20">{t('share.width')}</span>
+          {SHARE_CONFIG.WIDTHS.map(option => (
+            <button key={option} onClick={() => setWidth(option)} className={optionClass(width === option)}>{option} px</button>
+          ))}
+        </div>
+        {content.url && (
+          <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={includeQr} onChange={e => setIncludeQr(e.target.checked)} className="accent-indigo-600" />
+            <span>{t('share.qr')}</span>
+          </label>
+        )}
+      </div>
+
+      <div className="flex gap-3">
+        {canShare && (
+          <button onClick={handleShare} disabled={!card} className="flex-1 bg-indigo-600 text-white py-3 rounded-2xl font-black text-xs uppercase tracking-widest disabled:opacity-60">{t('share.share')}</button>
+        )}
+        <button onClick={handleDownload} disabled={!card} className="flex-1 bg-white border border-slate-200 py-3 rounded-2xl font-black text-xs uppercase tracking-widest disabled:opacity-60">{t('share.download')}</button>
+      </div>
+      {notice && <p role="status" className="text-xs font-bold text-slate-500 text-center">{t(notice)}</p>}
+    </div>
+  );
+};
+
+export default ShareDialog;
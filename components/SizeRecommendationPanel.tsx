@@ -0,0 +1,48 @@
+import React from 'react';
+import { SizeBasisEntry, SizeRecommendation } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface SizeRecommendationPanelProps {
+  recommendation: SizeRecommendation;
+}
+
+const SizeRecommendationPanel: React.FC<SizeRecommendationPanelProps> = ({ recommendation }) => {
+  const { t, formatPercent } = useI18n();
+  const { size, confidence, basis, outOfChart, betweenSizes } = recommendation;
+
+  // Die Begründung wird aus den Messwerten in der aktiven Sprache zusammengesetzt
+  const reasoning = basis.length === 0
+    ? t('size.noData')
+    : [
+        t('size.bestFit', {
+          details: basis
+            .map((entry: SizeBasisEntry) => t('size.measurement', {
+              dimension: t(`size.dimension.${entry.dimension}`),
+              value: Math.round(entry.valueCm),
+              source: t(`size.source.${entry.source}`),
+            }))
+            .join(', '),
+          size,
+        }),
+        outOfChart ? t('size.outOfChart', { size }) : '',
+        basis.some(entry => entry.source === 'user') ? '' : t('size.addMeasurements'),
+      ].filter(Boolean).join(' ');
+
+  return (
+    <div className="bg-emerald-50 border border-emerald-100 rounded-3xl p-6 mb-8">
+      <div className="flex items-center space-x-5">
+        <div className="bg-emerald-600 text-white w-16 h-16 rounded-2xl flex items-center justify-center text-3xl font-black shadow-lg">{size}</div>
+        <div>
+          <p className="font-black text-emerald-900 text-lg uppercase tracking-tight">{t('size.title')}</p>
+          <p className="text-xs font-bold text-emerald-700/70 italic uppercase tracking-widest">{t('size.confidence', { percent: formatPercent(confidence) })}</p>
+        </div>
+      </div>
+      <p className="text-xs text-emerald-800 mt-4 leading-relaxed">{reasoning}</p>
+      {betweenSizes && (
+        <p className="text-xs font-bold text-amber-700 bg-amber-50 border border-amber-100 rounded-2xl px-4 py-3 mt-3">{t('size.between', betweenSizes)}</p>
+      )}
+    </div>
+  );
+};
+
+export default SizeRecommendationPanel;
@@ -1,41 +1,56 @@
-
 import React from 'react';
+import { useI18n } from '../services/i18n';
 
 interface StepIndicatorProps {
   currentStep: number;
+  // Guard des Routers – gesperrte Schritte sind sichtbar, aber nicht anklickbar
+  canNavigate: (step: number) => boolean;
+  onNavigate: (step: number) => void;
 }
 
-const StepIndicator: React.FC<StepIndicatorProps> = ({ currentStep }) => {
-  const steps = ['Set wählen', 'Foto hochladen', 'Ergebnis'];
+const StepIndicator: React.FC<StepIndicatorProps> = ({ currentStep, canNavigate, onNavigate }) => {
+  const { t } = useI18n();
+  const steps = [t('step.select'), t('step.photo'), t('step.result')];
 
   return (
-    <div className="flex items-center justify-center w-full max-w-2xl mx-auto mb-10 px-4">
-      {steps.map((step, index) => (
-        <React.Fragment key={step}>
-          <div className="flex flex-col items-center">
-            <div 
-              className={`w-10 h-10 rounded-full flex items-center justify-center font-bold text-sm transition-colors duration-300 ${
-                index + 1 <= currentStep 
-                  ? 'bg-indigo-600 text-white' 
-                  : 'bg-gray-200 text-gray-500'
-              }`}
+    <nav aria-label={t('step.navigation')} className="flex items-center justify-center w-full max-w-2xl mx-auto mb-10 px-4">
+      {steps.map((step, index) => {
+        const number = index + 1;
+        const isCurrent = number === currentStep;
+        const isEnabled = !isCurrent && canNavigate(number);
+        return (
+          <React.Fragment key={index}>
+            <button
+              type="button"
+              onClick={() => onNavigate(number)}
+              disabled={!isEnabled}
+              aria-current={isCurrent ? 'step' : undefined}
+              className={`flex flex-col items-center group ${isEnabled ? 'cursor-pointer' : 'cursor-default'}`}
             >
-              {index + 1}
-            </div>
-            <span className={`text-[10px] sm:text-xs mt-2 font-medium uppercase tracking-wider ${
-              index + 1 <= currentStep ? 'text-indigo-600' : 'text-gray-400'
-            }`}>
-              {step}
-            </span>
-          </div>
-          {index < steps.length - 1 && (
-            <div className={`h-1 flex-1 mx-2 sm:mx-4 rounded ${
-              index + 1 < currentStep ? 'bg-indigo-600' : 'bg-gray-200'
-            }`} />
-          )}
-        </React.Fragment>
-      ))}
-    </div>
+              <div 
+                className={`w-10 h-10 rounded-full flex items-center justify-center font-bold text-sm transition-colors duration-300 ${
+                  number <= currentStep 
+                    ? 'bg-indigo-600 text-white' 
+                    : 'bg-gray-200 text-gray-500'
+                } ${isEnabled ? 'group-hover:ring-4 group-hover:ring-indigo-100' : ''}`}
+              >
+                {number}
+              </div>
+              <span className={`text-[10px] sm:text-xs mt-2 font-medium uppercase tracking-wider ${
+                number <= currentStep ? 'text-indigo-600' : isEnabled ? 'text-gray-500' : 'text-gray-400'
+              }`}>
+                {step}
+              </span>
+            </button>
+            {index < steps.length - 1 && (
+              <div className={`h-1 flex-1 mx-2 sm:mx-4 rounded ${
+                number < currentStep ? 'bg-indigo-600' : 'bg-gray-200'
+              }`} />
+            )}
+          </React.Fragment>
+        );
+      })}
+    </nav>
   );
 };
 
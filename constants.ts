@@ -1,32 +1,198 @@
 
-import { Product } from './types';
-
-export const MOCK_PRODUCTS: Product[] = [
-  {
-    id: 'set-sky-blue',
-    name: 'Sky Blue Yoga Set',
-    price: '59,99 €',
-    imageUrl: 'https://superbeautiful.de/thumbnail/39/d5/84/1688393421/produktfotoskyblue5_800x800.png',
-    description: 'Dein sky-blue Set mit High-Neck Crop Top und perfekt sitzenden Leggings für maximale Bewegungsfreiheit.'
-  },
-  {
-    id: 'set-maroon',
-    name: 'Maroon Performance Set',
-    price: '64,95 €',
-    imageUrl: 'https://superbeautiful.de/thumbnail/d1/a6/9f/1688394345/produktfotored1_800x800.png',
-    description: 'Das exklusive Maroon Set kombiniert Style mit Performance. Atmungsaktiv und blickdicht.'
-  },
-  {
-    id: 'set-black',
-    name: 'Midnight Black Set',
-    price: '62,00 €',
-    imageUrl: 'https://superbeautiful.de/thumbnail/b2/e7/77/1688394134/produktfotoblack6_800x800.png',
-    description: 'Der Klassiker in Midnight Black. Zeitloses Design für jedes Workout und den Alltag.'
-  }
+import { GarmentCategory, SizeChartEntry } from './types';
+
+// Größentabelle der Better Future Sets (Körpermaße in cm)
+export const DEFAULT_SIZE_CHART: SizeChartEntry[] = [
+  { size: 'XS', waist: { min: 58, max: 63 }, hip: { min: 84, max: 89 }, inseam: { min: 67, max: 69 } },
+  { size: 'S', waist: { min: 63, max: 68 }, hip: { min: 89, max: 94 }, inseam: { min: 68, max: 70 } },
+  { size: 'M', waist: { min: 68, max: 74 }, hip: { min: 94, max: 100 }, inseam: { min: 69, max: 71 } },
+  { size: 'L', waist: { min: 74, max: 80 }, hip: { min: 100, max: 106 }, inseam: { min: 70, max: 72 } },
+  { size: 'XL', waist: { min: 80, max: 87 }, hip: { min: 106, max: 112 }, inseam: { min: 71, max: 73 } },
+  { size: 'XXL', waist: { min: 87, max: 94 }, hip: { min: 112, max: 118 }, inseam: { min: 71, max: 73 } },
 ];
 
+// Reihenfolge von innen nach außen – bestimmt auch die Lagen im Prompt
+export const GARMENT_SLOTS: GarmentCategory[] = ['bra', 'top', 'bottom', 'jacket'];
+
+// Teile eines Sets, wenn Katalog oder Shop nichts anderes angeben
+export const DEFAULT_SET_SLOTS: GarmentCategory[] = ['top', 'bottom'];
+
 export const AVAILABLE_SIZES = ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
 
 export const APP_CONFIG = {
-  MODEL_NAME: 'gemini-2.5-flash-image',
+  API_BASE_URL: '/api',
+  // Sitzungs-ID für die A/B-Zuordnung der Prompt-Varianten (sessionStorage)
+  SESSION_KEY: 'bf-session',
+  // Stand des Assistenten für Neuladen und Zurück-Navigation (sessionStorage, endet mit dem Tab)
+  WIZARD_KEY: 'bf-wizard',
+  PHOTO_KEY: 'bf-wizard-photo',
+};
+
+// Zeitlimits und Wiederholungen für Aufrufe der eigenen API (Backoff mit Jitter bei 429/5xx)
+export const REQUEST_CONFIG = {
+  TRY_ON_TIMEOUT_MS: 100_000,
+  SIZE_TIMEOUT_MS: 30_000,
+  MAX_RETRIES: 2,
+  RETRY_BASE_DELAY_MS: 1000,
+  RETRY_MAX_DELAY_MS: 10_000,
+  // Vercel nimmt höchstens 4,5 MB pro Request an – Foto und alle Produktbilder (Base64) zusammen
+  // bleiben darunter, der Rest ist Luft für JSON und Prompt-Angaben
+  MAX_TRY_ON_BYTES: 4_000_000,
+};
+
+// Shopware Store API – der Access Key ist der öffentliche Sales-Channel-Key, kein Geheimnis.
+// SHOPWARE_URL=fake nutzt die Fixture-basierte Fake-API (offline).
+export const CATALOG_CONFIG = {
+  SHOPWARE_URL: process.env.SHOPWARE_URL || '',
+  SHOPWARE_ACCESS_KEY: process.env.SHOPWARE_ACCESS_KEY || '',
+  SHOPWARE_CATEGORY_ID: process.env.SHOPWARE_CATEGORY_ID || '',
+  STATIC_CATALOG_URL: '/catalog.json',
+  CACHE_KEY: 'bf-catalog-cache-v1',
+  CACHE_TTL_MS: 15 * 60 * 1000,
+  DEFAULT_CURRENCY: 'EUR',
+};
+
+// Sprache: Widget-Parameter > gespeicherte Auswahl > Browser > Standard
+export const I18N_CONFIG = {
+  DEFAULT_LOCALE: 'de-DE',
+  STORAGE_KEY: 'bf-locale',
+};
+
+// Bei inhaltlicher Änderung des Einwilligungstexts CONSENT_VERSION erhöhen – dann wird erneut gefragt
+export const PRIVACY_CONFIG = {
+  CONSENT_VERSION: '2026-10-3',
+  CONSENT_KEY: 'bf-consent',
+  LOG_KEY: 'bf-consent-log',
+  MAX_LOG_ENTRIES: 500,
+  PRIVACY_URL: process.env.PRIVACY_URL || 'https://superbeautiful.de/datenschutz',
+  // Gesichtsbereich relativ zur Schulterbreite, Verpixelung in Blöcken über die Gesichtsbreite
+  FACE_BOX_SCALE: 0.9,
+  FACE_PIXEL_BLOCKS: 8,
+};
+
+export const CART_CONFIG = {
+  SHOP_URL: process.env.SHOP_URL || 'https://superbeautiful.de',
+  HOST_RESPONSE_TIMEOUT_MS: 8000,
+};
+
+// Lokale Foto-Prüfung vor dem (kostenpflichtigen) Modell-Aufruf
+export const PHOTO_CHECK_CONFIG = {
+  POSE_WASM_URL: 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.35/wasm',
+  POSE_MODEL_URL: 'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task',
+  MIN_SHORT_EDGE: 600,
+  MIN_BRIGHTNESS: 60,
+  LOW_BRIGHTNESS: 85,
+  MAX_BRIGHTNESS: 215,
+  MIN_VISIBILITY: 0.5,
+};
+
+// Nutzungsstatistik: Sinks kommagetrennt aus console, http, host, ga4
+export const ANALYTICS_CONFIG = {
+  SINKS: (process.env.ANALYTICS_SINKS || 'host').split(',').map(name => name.trim()).filter(Boolean),
+  ENDPOINT: process.env.ANALYTICS_ENDPOINT || '',
+  BATCH_SIZE: 10,
+  FLUSH_INTERVAL_MS: 5000,
+  // Vor der Einwilligung bleiben Events nur im Speicher, höchstens so viele
+  MAX_PENDING: 100,
+  // Nur Shop-Seiten dieser Origins dürfen die Einwilligung per `analytics`/`analyticsConsent` vorgeben (Standard: SHOP_URL)
+  TRUSTED_HOST_ORIGINS: (process.env.ANALYTICS_TRUSTED_ORIGINS || process.env.SHOP_URL || 'https://superbeautiful.de')
+    .split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean),
+};
+
+// Prüfung des Modell-Ergebnisses: Abweichung 0–1 (Hintergrund, Gesicht), Farbabstand als ΔE zur Produktpalette
+export const QUALITY_CONFIG = {
+  WORK_WIDTH: 256,
+  PALETTE_WIDTH: 96,
+  PALETTE_SIZE: 5,
+  MAX_ASPECT_DEVIATION: 0.03,
+  MIN_SHORT_EDGE: 512,
+  // Enger als beim Verpixeln: verglichen wird nur das Gesicht, nicht die Haare
+  FACE_BOX_SCALE: 0.5,
+  BACKGROUND_WARN: 0.08,
+  BACKGROUND_FAIL: 0.16,
+  FACE_WARN: 0.07,
+  FACE_FAIL: 0.14,
+  COLOUR_WARN: 20,
+  COLOUR_FAIL: 35,
+  // Inklusive erstem Versuch; danach wird das beste Ergebnis mit Hinweis gezeigt
+  MAX_ATTEMPTS: 2,
+};
+
+// Vorverarbeitung vor dem Upload: Kantenlänge und Byte-Budget pro Bild
+export const IMAGE_CONFIG = {
+  USER_MAX_EDGE: 1536,
+  USER_MAX_BYTES: 1_500_000,
+  PRODUCT_MAX_EDGE: 1024,
+  PRODUCT_MAX_BYTES: 600_000,
+  // Untergrenze beim Aufteilen von REQUEST_CONFIG.MAX_TRY_ON_BYTES – darunter leidet die Detailtreue zu sehr
+  PRODUCT_MIN_BYTES: 80_000,
+  MIN_QUALITY: 0.5,
+  MAX_QUALITY: 0.92,
+};
+
+// Produktbilder: gleiches Format für jedes Modell-Input, Cache im Browser je Produkt
+export const PRODUCT_IMAGE_CONFIG = {
+  WIDTH: 768,
+  HEIGHT: 1024,
+  // Rand um das freigestellte Produkt, relativ zur Zielgröße
+  PADDING: 0.05,
+  // Max. Abweichung pro Farbkanal, bis zu der ein Pixel als Hintergrund gilt
+  TRIM_TOLERANCE: 24,
+  CACHE_NAME: 'bf-product-images',
+  // Erhöhen, sobald sich die Normalisierung ändert – ältere Einträge werden dann ignoriert
+  CACHE_VERSION: 1,
+  MAX_CACHE_ENTRIES: 60,
+  MEMORY_ENTRIES: 12,
+};
+
+// Studio-Modus: Stapelverarbeitung für Katalogbilder
+export const STUDIO_CONFIG = {
+  DB_NAME: 'bf-studio',
+  DB_VERSION: 1,
+  // Abstand zwischen zwei Aufträgen – bleibt unter TRY_ON_RATE_LIMIT (10 pro Minute) des Servers
+  INTERVAL_MS: 12_000,
+  // Pause, wenn das Modell trotz Backoff ausgelastet meldet
+  QUOTA_PAUSE_MS: 60_000,
+  MAX_ATTEMPTS: 3,
+  MAX_MODELS: 12,
+  MAX_ITEMS: 600,
+};
+
+// Farbvergleich: mehrere Produkte auf demselben Foto
+export const COMPARE_CONFIG = {
+  MIN_PRODUCTS: 2,
+  MAX_PRODUCTS: 4,
+  CONCURRENCY: 2,
+  CACHE_SIZE: 12,
+};
+
+// Share-Karten: Breiten in px, die Höhe ergibt sich aus dem Layout (Story 9:16 oder quadratisch)
+export const SHARE_CONFIG = {
+  WIDTHS: [720, 1080, 1440],
+  DEFAULT_WIDTH: 1080,
+  QUALITY: 0.9,
+  BRAND_NAME: 'Better Future',
+  ACCENT_COLOR: '#4f46e5',
+  FILE_PREFIX: 'better-future-look',
+};
+
+// Händler-Einstellungen aus dem Admin-Bereich: Grenzen des Schemas und Laden beim Start
+export const SETTINGS_CONFIG = {
+  SCHEMA_VERSION: 1,
+  // Danach startet die App mit den Standardwerten, statt auf die API zu warten
+  LOAD_TIMEOUT_MS: 5000,
+  MAX_PRODUCTS: 100,
+  MAX_NAME_LENGTH: 120,
+  MAX_TEXT_LENGTH: 1000,
+  MAX_DAILY_LIMIT: 1_000_000,
+};
+
+// "Meine Looks": lokale Galerie in IndexedDB – bei Überschreitung fliegen die ältesten Nicht-Favoriten zuerst raus
+export const GALLERY_CONFIG = {
+  DB_NAME: 'bf-looks',
+  DB_VERSION: 1,
+  MAX_LOOKS: 40,
+  MAX_BYTES: 60 * 1024 * 1024,
+  THUMBNAIL_WIDTH: 240,
+  THUMBNAIL_QUALITY: 0.8,
 };
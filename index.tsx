@@ -2,6 +2,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { currentRoute } from './services/router';
+
+// Admin-Bereich samt Studio und Editor nur unter /admin nachladen – nicht im Widget-Bundle der Kunden
+const AdminPanel = React.lazy(() => import('./components/AdminPanel'));
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,6 +15,10 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {currentRoute().name === 'admin' ? (
+      <React.Suspense fallback={null}>
+        <AdminPanel />
+      </React.Suspense>
+    ) : <App />}
   </React.StrictMode>
 );
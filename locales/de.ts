@@ -0,0 +1,396 @@
+// Deutsch ist die Ausgangssprache – neue Texte immer zuerst hier eintragen, en/fr müssen dieselben Schlüssel haben.
+export const de = {
+  'header.reset': 'Reset',
+  'header.language': 'Sprache',
+  'footer.tagline': 'Better Future KI-Engine v3.0 • High-Fidelity-Release',
+
+  'step.select': 'Set wählen',
+  'step.photo': 'Foto hochladen',
+  'step.result': 'Ergebnis',
+  'step.navigation': 'Schritte',
+
+  'common.back': 'Zurück',
+  'common.cancel': 'Abbrechen',
+  'common.retry': 'Nochmal',
+
+  'select.title': 'SELECT OUTFIT',
+  'select.subtitleSet': 'Wähle dein Set für das High-Resolution Rendering.',
+  'select.subtitleCombine': 'Kombiniere Teile aus verschiedenen Sets zu deinem Outfit.',
+  'select.modeSet': 'Komplettes Set',
+  'select.modeCombine': 'Outfit kombinieren',
+  'select.next': 'NÄCHSTER SCHRITT',
+  'select.pickerLabel': 'Produkt auswählen',
+  'select.loading': 'Produkte werden geladen...',
+
+  'product.imageMissing': 'Bild nicht gefunden',
+  'product.soldOut': 'Ausverkauft',
+
+  'garment.bra': 'Sport-BH',
+  'garment.top': 'Top',
+  'garment.bottom': 'Leggings',
+  'garment.jacket': 'Jacke',
+  'outfit.none': 'Ohne',
+  'outfit.fromSet': '{garment} aus dem Set',
+
+  'photo.title': 'DEIN FOTO',
+  'photo.subtitle': 'Für das Pro-Modell ist ein Ganzkörperfoto optimal.',
+  'photo.preview': 'Vorschau',
+  'photo.remove': 'Foto entfernen',
+  'photo.choose': 'Foto wählen',
+  'photo.camera': 'Mit Kamera aufnehmen',
+  'photo.dropHint': 'Oder Foto hierher ziehen bzw. mit Strg+V (Cmd+V) einfügen.',
+  'photo.dropActive': 'Zum Hochladen loslassen',
+  'photo.checking': 'Prüfe dein Foto...',
+  'photo.status.pass': 'In Ordnung',
+  'photo.status.warn': 'Hinweis',
+  'photo.status.fail': 'Problem',
+  'photo.start': 'ANPROBE STARTEN ✨',
+
+  'check.singlePerson.none': 'Keine Person erkannt. Stell dich mittig und gut sichtbar ins Bild.',
+  'check.singlePerson.multiple': 'Mehrere Personen erkannt. Bitte nur eine Person im Bild.',
+  'check.singlePerson.pass': 'Eine Person erkannt.',
+  'check.fullBody.pass': 'Ganzer Körper sichtbar.',
+  'check.fullBody.fail': 'Dein Körper ist nicht vollständig sichtbar. Geh etwas weiter weg von der Kamera.',
+  'check.feet.pass': 'Füße im Bild.',
+  'check.feet.fail': 'Deine Füße sind nicht im Bild. Für Leggings brauchen wir die ganze Beinlänge.',
+  'check.resolution.pass': 'Auflösung {width}×{height} px.',
+  'check.resolution.fail': 'Das Foto ist zu klein ({width}×{height} px). Bitte mindestens {min} px an der kurzen Seite.',
+  'check.brightness.dark': 'Das Foto ist zu dunkel. Bitte sorge für mehr Licht.',
+  'check.brightness.dim': 'Das Foto ist recht dunkel – mit mehr Licht wird das Ergebnis besser.',
+  'check.brightness.bright': 'Das Foto ist sehr hell. Vermeide direktes Gegenlicht.',
+  'check.brightness.pass': 'Gute Belichtung.',
+  'check.poseUnavailable': 'Die Posen-Prüfung ist gerade nicht verfügbar. Achte auf ein Ganzkörperfoto mit Füßen im Bild.',
+  'quality.title': 'Hinweis zum Ergebnis',
+  'quality.retried': 'Wir haben das Bild automatisch neu generiert, die Abweichung bleibt. Ein Foto mit ruhigem Hintergrund und guter Beleuchtung hilft.',
+  'quality.aspect.pass': 'Bildausschnitt wie im Foto.',
+  'quality.aspect.fail': 'Das Ergebnis hat einen anderen Bildausschnitt als dein Foto.',
+  'quality.resolution.pass': 'Auflösung {width}×{height} px.',
+  'quality.resolution.warn': 'Das Ergebnis ist mit {width}×{height} px recht klein.',
+  'quality.background.pass': 'Hintergrund unverändert.',
+  'quality.background.warn': 'Der Hintergrund wurde leicht verändert.',
+  'quality.background.fail': 'Der Hintergrund wurde deutlich verändert.',
+  'quality.face.pass': 'Gesicht unverändert.',
+  'quality.face.warn': 'Dein Gesicht sieht im Ergebnis etwas anders aus.',
+  'quality.face.fail': 'Dein Gesicht wurde im Ergebnis verändert.',
+  'quality.colour.pass': 'Farben wie im Produktfoto.',
+  'quality.colour.warn': 'Die Farbe von „{product}“ weicht leicht vom Produktfoto ab.',
+  'quality.colour.fail': 'Die Farbe von „{product}“ weicht deutlich vom Produktfoto ab.',
+
+  'consent.title': 'Bevor du dein Foto hochlädst',
+  'consent.intro': 'Für die virtuelle Anprobe verarbeiten wir ein Ganzkörperfoto von dir. Bitte lies kurz, was damit passiert.',
+  'consent.processing': 'Dein Foto wird zuerst nur in deinem Browser geprüft und zugeschnitten. Erst wenn du die Anprobe startest, geht es verschlüsselt an unseren Server und von dort an Google Gemini, das das Ergebnisbild erzeugt und deine Körpermaße schätzt.',
+  'consent.provider': 'Google verarbeitet die Bilder ausschließlich zur Erzeugung der Antwort. Dabei kann eine Übermittlung in die USA stattfinden.',
+  'consent.retention': 'Wir speichern dein Foto, deine Maße und die Ergebnisse nicht auf unseren Servern. Ergebnisse, die du unter „Meine Looks“ speicherst, bleiben samt zugehörigem Foto auf diesem Gerät, bis du sie löschst; alles andere nur, bis du die Anprobe zurücksetzt oder die Seite schließt.',
+  'consent.rights': 'Du kannst deine Einwilligung jederzeit widerrufen und deine Daten über „Meine Daten löschen“ entfernen.',
+  'consent.version': 'Einwilligungstext Version {version}',
+  'consent.checkbox': 'Ich willige ein, dass mein Foto wie beschrieben für die virtuelle Anprobe verarbeitet wird.',
+  'consent.analytics': 'Optional: Ich erlaube eine anonyme Nutzungsstatistik (welche Schritte genutzt werden und ob die Anprobe gelingt) – ohne Fotos, Maße oder Namen.',
+  'consent.accept': 'Einwilligen und fortfahren',
+  'consent.decline': 'Ablehnen',
+  'consent.privacyPolicy': 'Datenschutzerklärung',
+
+  'privacy.title': 'Datenschutz',
+  'privacy.consentedAt': 'Eingewilligt am {date} (Version {version})',
+  'privacy.noConsent': 'Keine Einwilligung erteilt',
+  'privacy.deleteData': 'Meine Daten löschen',
+  'privacy.deleted': 'Deine Fotos, Maße und Ergebnisse wurden gelöscht.',
+  'privacy.revoke': 'Einwilligung widerrufen',
+  'privacy.revoked': 'Deine Einwilligung wurde widerrufen und deine Daten wurden gelöscht.',
+  'privacy.exportLog': 'Einwilligungsprotokoll exportieren',
+  'privacy.analytics': 'Anonyme Nutzungsstatistik erlauben',
+
+  'camera.denied': 'Kein Kamerazugriff. Bitte erlaube die Kamera in deinem Browser oder lade ein Foto hoch.',
+  'camera.failed': 'Die Kamera konnte nicht gestartet werden. Bitte lade stattdessen ein Foto hoch.',
+  'camera.ready': 'Perfekt – so passt es!',
+  'camera.hint': 'Stell dich so hin, dass du in die Silhouette passt.',
+  'camera.timer': 'Timer',
+  'camera.switch': 'Kamera wechseln',
+  'camera.capture': 'Aufnahme',
+
+  'measurements.toggle': 'Maße angeben (optional) – für eine genauere Größe',
+  'measurements.heightCm': 'Größe',
+  'measurements.weightKg': 'Gewicht',
+  'measurements.waistCm': 'Taille',
+  'measurements.hipCm': 'Hüfte',
+  'measurements.inseamCm': 'Innenbein',
+
+  'loading.size': 'Analysiere Proportionen...',
+  'loading.render': 'Generiere Foto-Realismus...',
+  'loading.hint': 'Pro-Engine berechnet jeden Pixel...',
+
+  'result.errorTitle': 'FEHLER BEI DER VERARBEITUNG',
+  'result.alt': 'Generiertes Anprobe-Bild: du trägst {outfit}',
+  'result.badge': 'High-Res Render',
+  'result.badgeWarning': 'Mit Abweichungen',
+  'result.save': 'BILD HERUNTERLADEN',
+  'result.compare': 'Farben vergleichen',
+  'result.anonymize': 'Gesicht unkenntlich machen',
+  'result.anonymizing': 'Gesicht wird verpixelt...',
+  'result.newSet': 'DEIN NEUES SET',
+  'result.newOutfit': 'DEIN NEUES OUTFIT',
+  'result.otherSet': 'Anderes Set wählen',
+
+  'share.open': 'Teilen & exportieren',
+  'share.title': 'Look teilen',
+  'share.layout': 'Layout',
+  'share.story': 'Story 9:16',
+  'share.square': 'Quadratisch',
+  'share.fileType': 'Dateityp',
+  'share.width': 'Breite',
+  'share.qr': 'QR-Code zum Produkt',
+  'share.preview': 'Vorschau der Share-Karte',
+  'share.rendering': 'Karte wird erstellt...',
+  'share.share': 'Teilen',
+  'share.download': 'Herunterladen',
+  'share.shared': 'Geteilt!',
+  'share.downloaded': 'Heruntergeladen.',
+  'share.close': 'Schließen',
+  'share.size': 'Empfohlene Größe {size}',
+  'share.text': 'Mein Look mit {product} von Better Future',
+
+  'size.title': 'Deine Empfehlung',
+  'size.confidence': '{percent} Sicherheit',
+  'size.noData': 'Keine Körpermaße erkannt – wir empfehlen die mittlere Größe. Gib deine Maße an für eine genauere Empfehlung.',
+  'size.measurement': '{dimension} ca. {value} cm ({source})',
+  'size.dimension.waist': 'Taille',
+  'size.dimension.hip': 'Hüfte',
+  'size.dimension.inseam': 'Innenbeinlänge',
+  'size.source.user': 'deine Angabe',
+  'size.source.photo': 'Foto-Schätzung',
+  'size.bestFit': '{details} – das passt laut Größentabelle am besten zu {size}.',
+  'size.outOfChart': 'Deine Maße liegen außerhalb der Tabelle, {size} ist die nächstliegende Größe.',
+  'size.addMeasurements': 'Mit eigenen Maßen wird die Empfehlung genauer.',
+  'size.between': 'Du liegst zwischen {lower} und {upper}: {lower} für mehr Kompression, {upper} für einen bequemeren Sitz.',
+
+  'fit.title': 'Passform-Vorschau',
+  'fit.subtitle': 'Sieh, wie {product} in {size} und den Nachbargrößen an dir sitzen würde.',
+  'fit.open': 'Nachbargrößen ansehen',
+  'fit.close': 'Vorschau schließen',
+  'fit.sizes': 'Größe für die Vorschau',
+  'fit.recommended': 'Empfohlen',
+  'fit.rendering': 'Größe {size} wird gerendert...',
+  'fit.imageAlt': 'Generierte Vorschau: du trägst {outfit} in Größe {size}',
+  'fit.noHints': 'Ohne Körpermaße können wir keinen Sitz abschätzen.',
+  'fit.disclaimer': 'Simulation auf Basis der Größentabelle und deiner Maße – Stoff und Schnitt können im Original abweichen.',
+  'fit.area.waist': 'Bund',
+  'fit.area.hip': 'Hüfte',
+  'fit.area.inseam': 'Länge',
+  'fit.level.tight': 'Eng',
+  'fit.level.snug': 'Anliegend',
+  'fit.level.regular': 'Passend',
+  'fit.level.relaxed': 'Locker',
+  'fit.level.loose': 'Weit',
+  'fit.hint.waist.tight': 'Der Bund schneidet etwas ein.',
+  'fit.hint.waist.snug': 'Der Bund sitzt fest und stützt.',
+  'fit.hint.waist.regular': 'Der Bund liegt glatt an.',
+  'fit.hint.waist.relaxed': 'Der Bund sitzt etwas locker.',
+  'fit.hint.waist.loose': 'Der Bund steht ab und kann rutschen.',
+  'fit.hint.hip.tight': 'Der Stoff ist an Hüfte und Po stark gedehnt.',
+  'fit.hint.hip.snug': 'Spürbare Kompression an Hüfte und Po.',
+  'fit.hint.hip.regular': 'Sitzt wie eine zweite Haut.',
+  'fit.hint.hip.relaxed': 'Etwas Spielraum, leichte Falten.',
+  'fit.hint.hip.loose': 'Überschüssiger Stoff wirft Falten an Hüfte und Po.',
+  'fit.hint.inseam.tight': 'Endet deutlich über dem Knöchel.',
+  'fit.hint.inseam.snug': 'Endet knapp am Knöchel.',
+  'fit.hint.inseam.regular': 'Die Länge passt.',
+  'fit.hint.inseam.relaxed': 'Etwas lang, staut sich leicht am Knöchel.',
+  'fit.hint.inseam.loose': 'Zu lang, der Stoff staut sich am Knöchel.',
+
+  'cart.setOnly': '{product} gibt es nur als Set – in den Warenkorb kommt das ganze Set.',
+  'cart.add': 'In den Warenkorb',
+  'cart.addWithSize': 'In den Warenkorb · {size}',
+  'cart.adding': 'Wird hinzugefügt...',
+  'cart.openCart': 'Zum Warenkorb',
+  'cart.openShop': 'Im Shop öffnen',
+  'cart.added': '{product} in {size} liegt im Warenkorb.',
+  'cart.chooseInShop': 'Wähle deine Größe direkt im Shop.',
+  'cart.soldOut': 'Größe {size} ist gerade ausverkauft – schau im Shop nach Alternativen.',
+  'cart.hostFailed': 'Der Shop konnte den Artikel nicht hinzufügen.',
+  'cart.unavailable': 'Der Warenkorb ist gerade nicht erreichbar – du kannst den Artikel direkt im Shop bestellen.',
+  'cart.preselected': 'Größe {size} ist im Shop schon vorausgewählt.',
+
+  'compare.title': 'Farben vergleichen',
+  'compare.subtitle': 'Wähle {min} bis {max} Produkte – dein Foto bleibt erhalten.',
+  'compare.pickerLabel': 'Produkte für den Vergleich',
+  'compare.start': '{count} Looks rendern',
+  'compare.progress': '{done} von {total} fertig',
+  'compare.grid': 'Raster',
+  'compare.swipe': 'Swipe',
+  'compare.rendering': 'Wird gerendert...',
+  'compare.queued': 'In der Warteschlange',
+  'compare.cached': 'Aus dem Cache',
+  'compare.changeSelection': 'Auswahl ändern',
+  'compare.toResult': 'Zum Ergebnis',
+  'compare.lookAlt': 'Look in {product}',
+
+  'gallery.title': 'Meine Looks',
+  'gallery.open': 'Meine Looks ({count})',
+  'gallery.notice': 'Looks werden nur auf diesem Gerät gespeichert. Wird der Speicher knapp, werden die ältesten zuerst entfernt, Favoriten zuletzt.',
+  'gallery.empty': 'Noch keine Looks gespeichert. Nach einer Anprobe kannst du dein Ergebnis hier ablegen.',
+  'gallery.favouritesOnly': 'Nur Favoriten',
+  'gallery.favourite': 'Als Favorit markieren',
+  'gallery.unfavourite': 'Favorit entfernen',
+  'gallery.delete': 'Look löschen',
+  'gallery.clearAll': 'Alle löschen',
+  'gallery.clearNonFavourites': 'Alle außer Favoriten löschen',
+  'gallery.confirmClear': 'Wirklich alle Looks löschen?',
+  'gallery.reopen': 'Öffnen',
+  'gallery.size': 'Größe {size}',
+  'gallery.close': 'Zurück zur Anprobe',
+  'gallery.saved': 'In „Meine Looks“ gespeichert.',
+  'gallery.save': 'In „Meine Looks“ speichern',
+  'gallery.saving': 'Wird gespeichert...',
+
+  'slider.before': 'Vorher',
+  'slider.after': 'Nachher',
+  'slider.label': 'Vorher/Nachher vergleichen',
+
+  'admin.title': 'Shop-Einstellungen',
+  'admin.login': 'Anmelden',
+  'admin.password': 'Admin-Passwort',
+  'admin.signIn': 'Einloggen',
+  'admin.logout': 'Abmelden',
+  'admin.usageToday': 'Heute {count} Anproben',
+  'admin.brand': 'Marke & Farben',
+  'admin.brandName': 'Markenname',
+  'admin.brandSuffix': 'Zusatz',
+  'admin.theme.primary': 'Hauptfarbe',
+  'admin.theme.primaryHover': 'Hauptfarbe (Hover)',
+  'admin.theme.background': 'Hintergrund',
+  'admin.limits': 'Tageslimits',
+  'admin.limitsHint': 'Leer lassen für unbegrenzt. Die Zähler beginnen täglich um 0 Uhr UTC neu und gelten je Server-Instanz.',
+  'admin.limits.perDay': 'Anproben pro Tag (gesamt)',
+  'admin.limits.perClientPerDay': 'Anproben pro Tag und Besucher',
+  'admin.unlimited': 'unbegrenzt',
+  'admin.products': 'Produkte',
+  'admin.products.fromCatalog': 'Die Produkte kommen aus dem Shop bzw. dem mitgelieferten Katalog. Lege eine eigene Liste an, um sie hier zu pflegen.',
+  'admin.products.replacesCatalog': 'Diese Liste ersetzt den Katalog im Widget – auch die Produkte aus Shopware.',
+  'admin.products.create': 'Eigene Produktliste anlegen',
+  'admin.products.add': 'Produkt hinzufügen',
+  'admin.products.useCatalog': 'Wieder den Katalog verwenden',
+  'admin.products.name': 'Name',
+  'admin.products.id': 'Produkt-ID',
+  'admin.products.category': 'Kategorie',
+  'admin.products.price': 'Preis',
+  'admin.products.currency': 'Währung',
+  'admin.products.setSlots': 'Set besteht aus',
+  'admin.products.imageUrl': 'Bild-URL',
+  'admin.products.description': 'Beschreibung',
+  'admin.products.sizeChart': 'Größentabelle',
+  'admin.products.size': 'Größe',
+  'admin.products.removeSize': 'Größe entfernen',
+  'admin.products.addSize': '+ Größe',
+  'admin.products.up': 'Nach oben',
+  'admin.products.down': 'Nach unten',
+  'admin.products.remove': 'Produkt entfernen',
+  'admin.category.set': 'Set',
+  'admin.category.bra': 'BH',
+  'admin.category.top': 'Oberteil',
+  'admin.category.bottom': 'Unterteil',
+  'admin.category.jacket': 'Jacke',
+  'admin.copy': 'Texte',
+  'admin.copy.language': 'Sprache',
+  'admin.copy.key': 'Text-Schlüssel',
+  'admin.copy.add': 'Text überschreiben',
+  'admin.copy.original': 'Original: {text}',
+  'admin.copy.empty': 'Noch keine eigenen Texte – es gelten die Standardtexte.',
+  'admin.copy.remove': 'Zurücksetzen',
+  'admin.issues': '{count} Einträge prüfen, bevor gespeichert werden kann',
+  'admin.importIssues': '{count} ungültige Einträge wurden beim Import verworfen',
+  'admin.save': 'Speichern',
+  'admin.saved': 'Einstellungen gespeichert. Neue Besucher sehen sie sofort.',
+  'admin.export': 'Als JSON exportieren',
+  'admin.import': 'JSON importieren',
+  'admin.imported': 'Datei übernommen – bitte prüfen und speichern.',
+  'admin.updatedAt': 'Zuletzt gespeichert: {date}',
+
+  'admin.views': 'Bereiche',
+  'admin.view.settings': 'Einstellungen',
+  'admin.view.studio': 'Studio',
+
+  'studio.storageHint': 'Studio: erzeugt Katalogbilder für jede Kombination aus Modelfoto und Produkt. Fotos und Ergebnisse bleiben in diesem Browser gespeichert; ein unterbrochener Lauf lässt sich fortsetzen.',
+  'studio.models': 'Models',
+  'studio.modelsHint': 'Ganzkörperfotos hochladen, höchstens {max}. Der Name erscheint im Dateinamen des Exports.',
+  'studio.modelName': 'Name des Models',
+  'studio.removeModel': 'Entfernen',
+  'studio.addModels': 'Fotos hinzufügen',
+  'studio.products': 'Produkte',
+  'studio.selectAll': 'Alle',
+  'studio.selectNone': 'Keine',
+  'studio.queue': '{count} Kombinationen einplanen',
+  'studio.tooMany': 'Höchstens {max} Bilder pro Stapel – bitte weniger Produkte oder Models wählen.',
+  'studio.progressTitle': 'Fortschritt',
+  'studio.progress': '{done} von {total} fertig · {failed} fehlgeschlagen · {queued} wartend',
+  'studio.eta': 'Restdauer ca. {minutes} Min.',
+  'studio.start': 'Starten',
+  'studio.pause': 'Pausieren',
+  'studio.retryFailed': 'Fehlgeschlagene wiederholen',
+  'studio.retry': 'Wiederholen',
+  'studio.clear': 'Stapel löschen',
+  'studio.confirmClear': 'Alle Models, Ergebnisse und Bewertungen im Studio löschen?',
+  'studio.review': 'Prüfen',
+  'studio.filter.all': 'Alle',
+  'studio.filter.pending': 'Offen',
+  'studio.filter.approved': 'Freigegeben',
+  'studio.filter.rejected': 'Abgelehnt',
+  'studio.empty': 'Noch keine Ergebnisse.',
+  'studio.approve': 'Freigeben',
+  'studio.reject': 'Ablehnen',
+  'studio.export': '{count} freigegebene Bilder als ZIP',
+
+  'settings.issue.required': 'Pflichtfeld fehlt.',
+  'settings.issue.invalid': 'Ungültiger Wert.',
+  'settings.issue.tooLong': 'Höchstens {max} Zeichen.',
+  'settings.issue.color': 'Nur Farben wie #4f46e5, rgb(…) oder Farbnamen.',
+  'settings.issue.range': 'Minimum darf nicht größer als Maximum sein.',
+  'settings.issue.duplicate': 'Kommt doppelt vor.',
+  'settings.issue.productId': 'Nur Buchstaben, Ziffern, Punkt, Binde- und Unterstrich.',
+  'settings.issue.price': 'Preis muss eine Zahl ab 0 sein.',
+  'settings.issue.url': 'Nur http(s)-Adressen oder Pfade ab /.',
+  'settings.issue.currency': 'Währung als dreistelliger Code, z. B. EUR.',
+  'settings.issue.tooMany': 'Höchstens {max} Einträge.',
+  'settings.issue.noProducts': 'Die Produktliste ist leer.',
+  'settings.issue.language': 'Unbekannte Sprache.',
+  'settings.issue.unknownKey': 'Unbekannter Text-Schlüssel.',
+  'settings.issue.placeholder': 'Platzhalter fehlen: {names}.',
+  'settings.issue.limit': 'Ganze Zahl zwischen 1 und {max} oder leer.',
+  'settings.issue.version': 'Unbekannte Version – erwartet wird {version}.',
+
+  'error.QUOTA_EXCEEDED': 'Die KI ist gerade ausgelastet. Bitte versuche es in einer Minute noch einmal.',
+  'error.RATE_LIMITED': 'Zu viele Anfragen in kurzer Zeit. Bitte warte einen Moment.',
+  'error.SAFETY_BLOCKED': 'Das Foto wurde blockiert. Bitte nutze ein Bild mit neutralerer Pose.',
+  'error.MODEL_REFUSED': 'Das Bild konnte nicht generiert werden. Bitte nutze ein schärferes Foto mit weniger Falten in der Kleidung.',
+  'error.NO_IMAGE': 'Die KI hat kein Bild erzeugt. Bitte versuche es mit einem anderen Foto.',
+  'error.NO_RESPONSE': 'Die KI hat keine gültige Antwort geliefert. Bitte versuche es noch einmal.',
+  'error.NO_BODY_DETECTED': 'Wir konnten deine Proportionen nicht erkennen. Bitte gib deine Maße an.',
+  'error.INVALID_KEY': 'Der Dienst ist gerade nicht korrekt eingerichtet. Bitte versuche es später noch einmal.',
+  'error.MODEL_UNAVAILABLE': 'Die KI ist gerade nicht erreichbar. Bitte versuche es gleich noch einmal.',
+  'error.MODEL_ERROR': 'Bei der Anprobe ist ein Fehler aufgetreten. Bitte versuche es noch einmal.',
+  'error.BAD_REQUEST': 'Die Anfrage war ungültig. Bitte lade die Seite neu.',
+  'error.INVALID_REQUEST': 'Die Anfrage war unvollständig. Bitte lade die Seite neu.',
+  'error.PAYLOAD_TOO_LARGE': 'Das Bild ist zu groß. Bitte nutze ein kleineres Foto.',
+  'error.NETWORK': 'Keine Verbindung zum Server. Bitte prüfe deine Internetverbindung.',
+  'error.TIMEOUT': 'Die Anprobe hat zu lange gedauert. Bitte versuche es noch einmal.',
+  'error.CANCELLED': 'Die Anprobe wurde abgebrochen.',
+  'error.PRODUCT_IMAGE_FAILED': 'Das Produktbild konnte nicht geladen werden.',
+  'error.IMAGE_READ_FAILED': 'Fehler beim Lesen der Bilddatei.',
+  'error.IMAGE_PROCESSING_FAILED': 'Fehler bei der Bildverarbeitung.',
+  'error.HEIC_UNSUPPORTED': 'HEIC-Fotos kann dein Browser nicht öffnen. Bitte stelle die Kamera auf „Maximale Kompatibilität“ oder nutze ein JPEG.',
+  'error.CATALOG_UNAVAILABLE': 'Die Produkte konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'error.NO_SIZE_CHART': 'Für dieses Produkt ist keine Größentabelle hinterlegt.',
+  'error.FACE_NOT_DETECTED': 'Wir konnten kein Gesicht erkennen – das Bild wurde nicht verändert.',
+  'error.STORAGE_UNAVAILABLE': 'Dein Browser erlaubt gerade keine lokale Speicherung – „Meine Looks“ ist nicht verfügbar.',
+  'error.STORAGE_FULL': 'Der Speicher auf diesem Gerät ist voll. Lösche ältere Looks.',
+  'error.DAILY_LIMIT_REACHED': 'Für heute sind keine Anproben mehr möglich. Bitte versuche es morgen wieder.',
+  'error.UNAUTHORIZED': 'Das Passwort ist falsch.',
+  'error.ADMIN_DISABLED': 'Der Admin-Bereich ist nicht eingerichtet (ADMIN_PASSWORD fehlt).',
+  'error.INVALID_SETTINGS': 'Die Einstellungen sind ungültig und wurden nicht gespeichert.',
+  'error.SETTINGS_READ_ONLY': 'Dieser Server kann nicht speichern. Richte einen gemeinsamen Speicher ein (KV_REST_API_URL und KV_REST_API_TOKEN).',
+  'error.SHARED_STORE_UNAVAILABLE': 'Der Speicher des Servers ist gerade nicht erreichbar. Bitte versuche es gleich noch einmal.',
+  'error.HOST_NOT_CONNECTED': 'Das Widget ist nicht in einen Shop eingebettet – du kannst den Artikel direkt im Shop bestellen.',
+  'error.HOST_TIMEOUT': 'Der Shop hat nicht rechtzeitig geantwortet – du kannst den Artikel direkt im Shop bestellen.',
+  'error.UNKNOWN': 'Ein technischer Fehler ist aufgetreten.',
+};
+
+export type MessageKey = keyof typeof de;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,394 @@
+import type { Messages } from './de';
+
+export const en: Messages = {
+  'header.reset': 'Reset',
+  'header.language': 'Language',
+  'footer.tagline': 'Better Future AI Engine v3.0 • High Fidelity Release',
+
+  'step.select': 'Choose set',
+  'step.photo': 'Upload photo',
+  'step.result': 'Result',
+  'step.navigation': 'Steps',
+
+  'common.back': 'Back',
+  'common.cancel': 'Cancel',
+  'common.retry': 'Try again',
+
+  'select.title': 'SELECT OUTFIT',
+  'select.subtitleSet': 'Choose your set for the high-resolution rendering.',
+  'select.subtitleCombine': 'Mix pieces from different sets into your outfit.',
+  'select.modeSet': 'Complete set',
+  'select.modeCombine': 'Build an outfit',
+  'select.next': 'NEXT STEP',
+  'select.pickerLabel': 'Choose a product',
+  'select.loading': 'Loading products...',
+
+  'product.imageMissing': 'Image not found',
+  'product.soldOut': 'Sold out',
+
+  'garment.bra': 'Sports bra',
+  'garment.top': 'Top',
+  'garment.bottom': 'Leggings',
+  'garment.jacket': 'Jacket',
+  'outfit.none': 'None',
+  'outfit.fromSet': '{garment} from the set',
+
+  'photo.title': 'YOUR PHOTO',
+  'photo.subtitle': 'A full-body photo works best with the Pro model.',
+  'photo.preview': 'Preview',
+  'photo.remove': 'Remove photo',
+  'photo.choose': 'Choose photo',
+  'photo.camera': 'Use camera',
+  'photo.dropHint': 'Or drag a photo here or paste it with Ctrl+V (Cmd+V).',
+  'photo.dropActive': 'Release to upload',
+  'photo.checking': 'Checking your photo...',
+  'photo.status.pass': 'OK',
+  'photo.status.warn': 'Note',
+  'photo.status.fail': 'Problem',
+  'photo.start': 'START TRY-ON ✨',
+
+  'check.singlePerson.none': 'No person detected. Stand in the centre of the frame and stay clearly visible.',
+  'check.singlePerson.multiple': 'Several people detected. Please make sure only one person is in the photo.',
+  'check.singlePerson.pass': 'One person detected.',
+  'check.fullBody.pass': 'Full body visible.',
+  'check.fullBody.fail': 'Your body is not fully visible. Step a little further away from the camera.',
+  'check.feet.pass': 'Feet in frame.',
+  'check.feet.fail': 'Your feet are not in the photo. For leggings we need the full leg length.',
+  'check.resolution.pass': 'Resolution {width}×{height} px.',
+  'check.resolution.fail': 'The photo is too small ({width}×{height} px). Please use at least {min} px on the short side.',
+  'check.brightness.dark': 'The photo is too dark. Please add more light.',
+  'check.brightness.dim': 'The photo is rather dark – more light will improve the result.',
+  'check.brightness.bright': 'The photo is very bright. Avoid direct backlight.',
+  'check.brightness.pass': 'Good exposure.',
+  'check.poseUnavailable': 'The pose check is currently unavailable. Make sure the photo shows your full body including your feet.',
+  'quality.title': 'About this result',
+  'quality.retried': 'We regenerated the image automatically, but the deviation remains. A photo with a plain background and good lighting helps.',
+  'quality.aspect.pass': 'Framing matches your photo.',
+  'quality.aspect.fail': 'The result is framed differently from your photo.',
+  'quality.resolution.pass': 'Resolution {width}×{height} px.',
+  'quality.resolution.warn': 'At {width}×{height} px the result is fairly small.',
+  'quality.background.pass': 'Background unchanged.',
+  'quality.background.warn': 'The background was changed slightly.',
+  'quality.background.fail': 'The background was changed noticeably.',
+  'quality.face.pass': 'Face unchanged.',
+  'quality.face.warn': 'Your face looks slightly different in the result.',
+  'quality.face.fail': 'Your face was changed in the result.',
+  'quality.colour.pass': 'Colours match the product photo.',
+  'quality.colour.warn': 'The colour of “{product}” differs slightly from the product photo.',
+  'quality.colour.fail': 'The colour of “{product}” differs noticeably from the product photo.',
+
+  'consent.title': 'Before you upload your photo',
+  'consent.intro': 'For the virtual try-on we process a full-body photo of you. Please take a moment to read what happens to it.',
+  'consent.processing': 'Your photo is first checked and cropped only in your browser. Only when you start the try-on is it sent encrypted to our server and from there to Google Gemini, which creates the result image and estimates your body measurements.',
+  'consent.provider': 'Google processes the images solely to generate the response. This may involve a transfer to the USA.',
+  'consent.retention': 'We do not store your photo, your measurements or the results on our servers. Results you save to "My looks" stay on this device together with the matching photo until you delete them; everything else only until you reset the try-on or close the page.',
+  'consent.rights': 'You can withdraw your consent at any time and remove your data via "Delete my data".',
+  'consent.version': 'Consent text version {version}',
+  'consent.checkbox': 'I consent to my photo being processed for the virtual try-on as described.',
+  'consent.analytics': 'Optional: I allow anonymous usage statistics (which steps are used and whether the try-on succeeds) – without photos, measurements or names.',
+  'consent.accept': 'Consent and continue',
+  'consent.decline': 'Decline',
+  'consent.privacyPolicy': 'Privacy policy',
+
+  'privacy.title': 'Privacy',
+  'privacy.consentedAt': 'Consent given on {date} (version {version})',
+  'privacy.noConsent': 'No consent given',
+  'privacy.deleteData': 'Delete my data',
+  'privacy.deleted': 'Your photos, measurements and results have been deleted.',
+  'privacy.revoke': 'Withdraw consent',
+  'privacy.revoked': 'Your consent has been withdrawn and your data has been deleted.',
+  'privacy.exportLog': 'Export consent log',
+  'privacy.analytics': 'Allow anonymous usage statistics',
+
+  'camera.denied': 'No camera access. Please allow the camera in your browser or upload a photo.',
+  'camera.failed': 'The camera could not be started. Please upload a photo instead.',
+  'camera.ready': 'Perfect – hold that pose!',
+  'camera.hint': 'Position yourself so that you fit inside the silhouette.',
+  'camera.timer': 'Timer',
+  'camera.switch': 'Switch camera',
+  'camera.capture': 'Capture',
+
+  'measurements.toggle': 'Add measurements (optional) – for a more accurate size',
+  'measurements.heightCm': 'Height',
+  'measurements.weightKg': 'Weight',
+  'measurements.waistCm': 'Waist',
+  'measurements.hipCm': 'Hips',
+  'measurements.inseamCm': 'Inseam',
+
+  'loading.size': 'Analysing proportions...',
+  'loading.render': 'Generating photo realism...',
+  'loading.hint': 'The Pro engine is computing every pixel...',
+
+  'result.errorTitle': 'PROCESSING FAILED',
+  'result.alt': 'Generated try-on: you wearing {outfit}',
+  'result.badge': 'High-Res Render',
+  'result.badgeWarning': 'With deviations',
+  'result.save': 'DOWNLOAD IMAGE',
+  'result.compare': 'Compare colours',
+  'result.anonymize': 'Hide my face',
+  'result.anonymizing': 'Pixelating face...',
+  'result.newSet': 'YOUR NEW SET',
+  'result.newOutfit': 'YOUR NEW OUTFIT',
+  'result.otherSet': 'Choose another set',
+
+  'share.open': 'Share & export',
+  'share.title': 'Share look',
+  'share.layout': 'Layout',
+  'share.story': 'Story 9:16',
+  'share.square': 'Square',
+  'share.fileType': 'File type',
+  'share.width': 'Width',
+  'share.qr': 'QR code to the product',
+  'share.preview': 'Share card preview',
+  'share.rendering': 'Creating card...',
+  'share.share': 'Share',
+  'share.download': 'Download',
+  'share.shared': 'Shared!',
+  'share.downloaded': 'Downloaded.',
+  'share.close': 'Close',
+  'share.size': 'Recommended size {size}',
+  'share.text': 'My look with {product} from Better Future',
+
+  'size.title': 'Your recommendation',
+  'size.confidence': '{percent} confidence',
+  'size.noData': 'No body measurements detected – we recommend the middle size. Add your measurements for a more accurate recommendation.',
+  'size.measurement': '{dimension} approx. {value} cm ({source})',
+  'size.dimension.waist': 'Waist',
+  'size.dimension.hip': 'Hips',
+  'size.dimension.inseam': 'Inseam',
+  'size.source.user': 'your input',
+  'size.source.photo': 'photo estimate',
+  'size.bestFit': '{details} – according to the size chart, {size} fits best.',
+  'size.outOfChart': 'Your measurements are outside the size chart, {size} is the closest size.',
+  'size.addMeasurements': 'Adding your own measurements makes the recommendation more accurate.',
+  'size.between': 'You are between {lower} and {upper}: {lower} for more compression, {upper} for a more relaxed fit.',
+
+  'fit.title': 'Fit preview',
+  'fit.subtitle': 'See how {product} would fit you in {size} and the neighbouring sizes.',
+  'fit.open': 'View neighbouring sizes',
+  'fit.close': 'Close preview',
+  'fit.sizes': 'Size for the preview',
+  'fit.recommended': 'Recommended',
+  'fit.rendering': 'Rendering size {size}...',
+  'fit.imageAlt': 'Generated preview: you wearing {outfit} in size {size}',
+  'fit.noHints': 'Without body measurements we cannot estimate the fit.',
+  'fit.disclaimer': 'Simulation based on the size chart and your measurements – fabric and cut may differ in reality.',
+  'fit.area.waist': 'Waistband',
+  'fit.area.hip': 'Hips',
+  'fit.area.inseam': 'Length',
+  'fit.level.tight': 'Tight',
+  'fit.level.snug': 'Snug',
+  'fit.level.regular': 'Regular',
+  'fit.level.relaxed': 'Relaxed',
+  'fit.level.loose': 'Loose',
+  'fit.hint.waist.tight': 'The waistband digs in slightly.',
+  'fit.hint.waist.snug': 'The waistband sits firmly and supports.',
+  'fit.hint.waist.regular': 'The waistband lies flat.',
+  'fit.hint.waist.relaxed': 'The waistband sits a little loose.',
+  'fit.hint.waist.loose': 'The waistband gaps and may slip.',
+  'fit.hint.hip.tight': 'The fabric is stretched hard over hips and seat.',
+  'fit.hint.hip.snug': 'Noticeable compression over hips and seat.',
+  'fit.hint.hip.regular': 'Fits like a second skin.',
+  'fit.hint.hip.relaxed': 'A little room, light folds.',
+  'fit.hint.hip.loose': 'Excess fabric creases at hips and seat.',
+  'fit.hint.inseam.tight': 'Ends well above the ankle.',
+  'fit.hint.inseam.snug': 'Ends just at the ankle.',
+  'fit.hint.inseam.regular': 'The length is right.',
+  'fit.hint.inseam.relaxed': 'Slightly long, bunches a little at the ankle.',
+  'fit.hint.inseam.loose': 'Too long, the fabric stacks at the ankle.',
+
+  'cart.setOnly': '{product} is only sold as a set – the whole set goes into the cart.',
+  'cart.add': 'Add to cart',
+  'cart.addWithSize': 'Add to cart · {size}',
+  'cart.adding': 'Adding...',
+  'cart.openCart': 'View cart',
+  'cart.openShop': 'Open in shop',
+  'cart.added': '{product} in {size} is in your cart.',
+  'cart.chooseInShop': 'Choose your size directly in the shop.',
+  'cart.soldOut': 'Size {size} is currently sold out – check the shop for alternatives.',
+  'cart.hostFailed': 'The shop could not add the item.',
+  'cart.unavailable': 'The cart is currently unavailable – you can order the item directly in the shop.',
+  'cart.preselected': 'Size {size} is already preselected in the shop.',
+
+  'compare.title': 'Compare colours',
+  'compare.subtitle': 'Choose {min} to {max} products – your photo is kept.',
+  'compare.pickerLabel': 'Products to compare',
+  'compare.start': 'Render {count} looks',
+  'compare.progress': '{done} of {total} done',
+  'compare.grid': 'Grid',
+  'compare.swipe': 'Swipe',
+  'compare.rendering': 'Rendering...',
+  'compare.queued': 'Queued',
+  'compare.cached': 'From cache',
+  'compare.changeSelection': 'Change selection',
+  'compare.toResult': 'Back to result',
+  'compare.lookAlt': 'Look in {product}',
+
+  'gallery.title': 'My looks',
+  'gallery.open': 'My looks ({count})',
+  'gallery.notice': 'Looks are only stored on this device. When storage runs low, the oldest are removed first, favourites last.',
+  'gallery.empty': 'No saved looks yet. After a try-on you can save your result here.',
+  'gallery.favouritesOnly': 'Favourites only',
+  'gallery.favourite': 'Mark as favourite',
+  'gallery.unfavourite': 'Remove favourite',
+  'gallery.delete': 'Delete look',
+  'gallery.clearAll': 'Delete all',
+  'gallery.clearNonFavourites': 'Delete all except favourites',
+  'gallery.confirmClear': 'Really delete all looks?',
+  'gallery.reopen': 'Open',
+  'gallery.size': 'Size {size}',
+  'gallery.close': 'Back to try-on',
+  'gallery.saved': 'Saved to "My looks".',
+  'gallery.save': 'Save to "My looks"',
+  'gallery.saving': 'Saving...',
+
+  'slider.before': 'Before',
+  'slider.after': 'After',
+  'slider.label': 'Compare before and after',
+
+  'admin.title': 'Store settings',
+  'admin.login': 'Sign in',
+  'admin.password': 'Admin password',
+  'admin.signIn': 'Log in',
+  'admin.logout': 'Log out',
+  'admin.usageToday': '{count} try-ons today',
+  'admin.brand': 'Brand & colours',
+  'admin.brandName': 'Brand name',
+  'admin.brandSuffix': 'Suffix',
+  'admin.theme.primary': 'Primary colour',
+  'admin.theme.primaryHover': 'Primary colour (hover)',
+  'admin.theme.background': 'Background',
+  'admin.limits': 'Daily limits',
+  'admin.limitsHint': 'Leave empty for unlimited. Counters reset daily at midnight UTC and apply per server instance.',
+  'admin.limits.perDay': 'Try-ons per day (total)',
+  'admin.limits.perClientPerDay': 'Try-ons per day and visitor',
+  'admin.unlimited': 'unlimited',
+  'admin.products': 'Products',
+  'admin.products.fromCatalog': 'Products come from the shop or the bundled catalogue. Create your own list to manage them here.',
+  'admin.products.replacesCatalog': 'This list replaces the catalogue in the widget – including products from Shopware.',
+  'admin.products.create': 'Create own product list',
+  'admin.products.add': 'Add product',
+  'admin.products.useCatalog': 'Use the catalogue again',
+  'admin.products.name': 'Name',
+  'admin.products.id': 'Product ID',
+  'admin.products.category': 'Category',
+  'admin.products.price': 'Price',
+  'admin.products.currency': 'Currency',
+  'admin.products.setSlots': 'Set consists of',
+  'admin.products.imageUrl': 'Image URL',
+  'admin.products.description': 'Description',
+  'admin.products.sizeChart': 'Size chart',
+  'admin.products.size': 'Size',
+  'admin.products.removeSize': 'Remove size',
+  'admin.products.addSize': '+ Size',
+  'admin.products.up': 'Move up',
+  'admin.products.down': 'Move down',
+  'admin.products.remove': 'Remove product',
+  'admin.category.set': 'Set',
+  'admin.category.bra': 'Bra',
+  'admin.category.top': 'Top',
+  'admin.category.bottom': 'Bottom',
+  'admin.category.jacket': 'Jacket',
+  'admin.copy': 'Copy',
+  'admin.copy.language': 'Language',
+  'admin.copy.key': 'Text key',
+  'admin.copy.add': 'Override text',
+  'admin.copy.original': 'Original: {text}',
+  'admin.copy.empty': 'No custom copy yet – the default texts apply.',
+  'admin.copy.remove': 'Reset',
+  'admin.issues': 'Check {count} entries before saving',
+  'admin.importIssues': '{count} invalid entries were dropped during import',
+  'admin.save': 'Save',
+  'admin.saved': 'Settings saved. New visitors see them right away.',
+  'admin.export': 'Export as JSON',
+  'admin.import': 'Import JSON',
+  'admin.imported': 'File loaded – please review and save.',
+  'admin.updatedAt': 'Last saved: {date}',
+
+  'admin.views': 'Sections',
+  'admin.view.settings': 'Settings',
+  'admin.view.studio': 'Studio',
+
+  'studio.storageHint': 'Studio: generates catalogue images for every combination of model photo and product. Photos and results stay in this browser; an interrupted run can be resumed.',
+  'studio.models': 'Models',
+  'studio.modelsHint': 'Upload full-body photos, up to {max}. The name is used in the exported file names.',
+  'studio.modelName': 'Model name',
+  'studio.removeModel': 'Remove',
+  'studio.addModels': 'Add photos',
+  'studio.products': 'Products',
+  'studio.selectAll': 'All',
+  'studio.selectNone': 'None',
+  'studio.queue': 'Queue {count} combinations',
+  'studio.tooMany': 'At most {max} images per batch – please select fewer products or models.',
+  'studio.progressTitle': 'Progress',
+  'studio.progress': '{done} of {total} done · {failed} failed · {queued} waiting',
+  'studio.eta': 'About {minutes} min remaining',
+  'studio.start': 'Start',
+  'studio.pause': 'Pause',
+  'studio.retryFailed': 'Retry failed',
+  'studio.retry': 'Retry',
+  'studio.clear': 'Clear batch',
+  'studio.confirmClear': 'Delete all models, results and reviews in the studio?',
+  'studio.review': 'Review',
+  'studio.filter.all': 'All',
+  'studio.filter.pending': 'Pending',
+  'studio.filter.approved': 'Approved',
+  'studio.filter.rejected': 'Rejected',
+  'studio.empty': 'No results yet.',
+  'studio.approve': 'Approve',
+  'studio.reject': 'Reject',
+  'studio.export': 'Export {count} approved images as ZIP',
+
+  'settings.issue.required': 'Required field is missing.',
+  'settings.issue.invalid': 'Invalid value.',
+  'settings.issue.tooLong': 'At most {max} characters.',
+  'settings.issue.color': 'Only colours like #4f46e5, rgb(…) or colour names.',
+  'settings.issue.range': 'Minimum must not exceed maximum.',
+  'settings.issue.duplicate': 'Appears more than once.',
+  'settings.issue.productId': 'Only letters, digits, dots, hyphens and underscores.',
+  'settings.issue.price': 'Price must be a number of 0 or more.',
+  'settings.issue.url': 'Only http(s) addresses or paths starting with /.',
+  'settings.issue.currency': 'Currency as a three-letter code, e.g. EUR.',
+  'settings.issue.tooMany': 'At most {max} entries.',
+  'settings.issue.noProducts': 'The product list is empty.',
+  'settings.issue.language': 'Unknown language.',
+  'settings.issue.unknownKey': 'Unknown text key.',
+  'settings.issue.placeholder': 'Missing placeholders: {names}.',
+  'settings.issue.limit': 'Whole number between 1 and {max}, or empty.',
+  'settings.issue.version': 'Unknown version – expected {version}.',
+
+  'error.QUOTA_EXCEEDED': 'The AI is busy right now. Please try again in a minute.',
+  'error.RATE_LIMITED': 'Too many requests in a short time. Please wait a moment.',
+  'error.SAFETY_BLOCKED': 'The photo was blocked. Please use a picture with a more neutral pose.',
+  'error.MODEL_REFUSED': 'The image could not be generated. Please use a sharper photo with fewer wrinkles in the clothing.',
+  'error.NO_IMAGE': 'The AI did not create an image. Please try a different photo.',
+  'error.NO_RESPONSE': 'The AI did not return a valid response. Please try again.',
+  'error.NO_BODY_DETECTED': 'We could not detect your proportions. Please enter your measurements.',
+  'error.INVALID_KEY': 'The service is not set up correctly right now. Please try again later.',
+  'error.MODEL_UNAVAILABLE': 'The AI is currently unreachable. Please try again shortly.',
+  'error.MODEL_ERROR': 'Something went wrong during the try-on. Please try again.',
+  'error.BAD_REQUEST': 'The request was invalid. Please reload the page.',
+  'error.INVALID_REQUEST': 'The request was incomplete. Please reload the page.',
+  'error.PAYLOAD_TOO_LARGE': 'The image is too large. Please use a smaller photo.',
+  'error.NETWORK': 'No connection to the server. Please check your internet connection.',
+  'error.TIMEOUT': 'The try-on took too long. Please try again.',
+  'error.CANCELLED': 'The try-on was cancelled.',
+  'error.PRODUCT_IMAGE_FAILED': 'The product image could not be loaded.',
+  'error.IMAGE_READ_FAILED': 'The image file could not be read.',
+  'error.IMAGE_PROCESSING_FAILED': 'The image could not be processed.',
+  'error.HEIC_UNSUPPORTED': 'Your browser cannot open HEIC photos. Please set your camera to "Most Compatible" or use a JPEG.',
+  'error.CATALOG_UNAVAILABLE': 'The products could not be loaded. Please try again later.',
+  'error.NO_SIZE_CHART': 'There is no size chart for this product.',
+  'error.FACE_NOT_DETECTED': 'We could not detect a face – the image was not changed.',
+  'error.STORAGE_UNAVAILABLE': 'Your browser does not allow local storage right now – "My looks" is unavailable.',
+  'error.STORAGE_FULL': 'The storage on this device is full. Please delete older looks.',
+  'error.DAILY_LIMIT_REACHED': 'No more try-ons are available today. Please come back tomorrow.',
+  'error.UNAUTHORIZED': 'The password is incorrect.',
+  'error.ADMIN_DISABLED': 'The admin area is not set up (ADMIN_PASSWORD is missing).',
+  'error.INVALID_SETTINGS': 'The settings are invalid and were not saved.',
+  'error.SETTINGS_READ_ONLY': 'This server cannot save. Set up shared storage (KV_REST_API_URL and KV_REST_API_TOKEN).',
+  'error.SHARED_STORE_UNAVAILABLE': 'The server’s storage is unreachable right now. Please try again in a moment.',
+  'error.HOST_NOT_CONNECTED': 'The widget is not embedded in a shop – you can order the item directly in the shop.',
+  'error.HOST_TIMEOUT': 'The shop did not respond in time – you can order the item directly in the shop.',
+  'error.UNKNOWN': 'A technical error occurred.',
+};
@@ -0,0 +1,394 @@
+import type { Messages } from './de';
+
+export const fr: Messages = {
+  'header.reset': 'Réinitialiser',
+  'header.language': 'Langue',
+  'footer.tagline': 'Moteur IA Better Future v3.0 • Version haute fidélité',
+
+  'step.select': 'Choisir un set',
+  'step.photo': 'Importer une photo',
+  'step.result': 'Résultat',
+  'step.navigation': 'Étapes',
+
+  'common.back': 'Retour',
+  'common.cancel': 'Annuler',
+  'common.retry': 'Réessayer',
+
+  'select.title': 'CHOISIS TA TENUE',
+  'select.subtitleSet': 'Choisis ton set pour le rendu haute résolution.',
+  'select.subtitleCombine': 'Combine des pièces de différents sets pour créer ta tenue.',
+  'select.modeSet': 'Set complet',
+  'select.modeCombine': 'Composer une tenue',
+  'select.next': 'ÉTAPE SUIVANTE',
+  'select.pickerLabel': 'Choisir un produit',
+  'select.loading': 'Chargement des produits...',
+
+  'product.imageMissing': 'Image introuvable',
+  'product.soldOut': 'Épuisé',
+
+  'garment.bra': 'Brassière',
+  'garment.top': 'Haut',
+  'garment.bottom': 'Legging',
+  'garment.jacket': 'Veste',
+  'outfit.none': 'Aucun',
+  'outfit.fromSet': '{garment} du set',
+
+  'photo.title': 'TA PHOTO',
+  'photo.subtitle': 'Une photo en pied donne les meilleurs résultats avec le modèle Pro.',
+  'photo.preview': 'Aperçu',
+  'photo.remove': 'Supprimer la photo',
+  'photo.choose': 'Choisir une photo',
+  'photo.camera': 'Prendre avec la caméra',
+  'photo.dropHint': 'Ou glisse une photo ici ou colle-la avec Ctrl+V (Cmd+V).',
+  'photo.dropActive': 'Relâche pour importer',
+  'photo.checking': 'Vérification de ta photo...',
+  'photo.status.pass': 'OK',
+  'photo.status.warn': 'Remarque',
+  'photo.status.fail': 'Problème',
+  'photo.start': 'LANCER L’ESSAYAGE ✨',
+
+  'check.singlePerson.none': 'Aucune personne détectée. Place-toi au centre de l’image, bien visible.',
+  'check.singlePerson.multiple': 'Plusieurs personnes détectées. Une seule personne doit figurer sur la photo.',
+  'check.singlePerson.pass': 'Une personne détectée.',
+  'check.fullBody.pass': 'Corps entier visible.',
+  'check.fullBody.fail': 'Ton corps n’est pas entièrement visible. Éloigne-toi un peu de la caméra.',
+  'check.feet.pass': 'Pieds visibles.',
+  'check.feet.fail': 'Tes pieds ne sont pas sur la photo. Pour un legging, il nous faut toute la longueur des jambes.',
+  'check.resolution.pass': 'Résolution {width}×{height} px.',
+  'check.resolution.fail': 'La photo est trop petite ({width}×{height} px). Il faut au moins {min} px sur le petit côté.',
+  'check.brightness.dark': 'La photo est trop sombre. Ajoute plus de lumière.',
+  'check.brightness.dim': 'La photo est assez sombre – plus de lumière améliorera le résultat.',
+  'check.brightness.bright': 'La photo est très claire. Évite le contre-jour direct.',
+  'check.brightness.pass': 'Bonne exposition.',
+  'check.poseUnavailable': 'La vérification de la pose est indisponible pour le moment. Veille à prendre une photo en pied, pieds compris.',
+  'quality.title': 'À propos de ce résultat',
+  'quality.retried': 'Nous avons régénéré l’image automatiquement, mais l’écart persiste. Une photo sur fond uni et bien éclairée aide.',
+  'quality.aspect.pass': 'Cadrage identique à ta photo.',
+  'quality.aspect.fail': 'Le résultat n’a pas le même cadrage que ta photo.',
+  'quality.resolution.pass': 'Résolution {width}×{height} px.',
+  'quality.resolution.warn': 'Avec {width}×{height} px, le résultat est assez petit.',
+  'quality.background.pass': 'Arrière-plan inchangé.',
+  'quality.background.warn': 'L’arrière-plan a été légèrement modifié.',
+  'quality.background.fail': 'L’arrière-plan a été nettement modifié.',
+  'quality.face.pass': 'Visage inchangé.',
+  'quality.face.warn': 'Ton visage paraît légèrement différent dans le résultat.',
+  'quality.face.fail': 'Ton visage a été modifié dans le résultat.',
+  'quality.colour.pass': 'Couleurs conformes à la photo produit.',
+  'quality.colour.warn': 'La couleur de « {product} » diffère légèrement de la photo produit.',
+  'quality.colour.fail': 'La couleur de « {product} » diffère nettement de la photo produit.',
+
+  'consent.title': 'Avant d’importer ta photo',
+  'consent.intro': 'Pour l’essayage virtuel, nous traitons une photo de toi en pied. Prends un instant pour lire ce qu’il en advient.',
+  'consent.processing': 'Ta photo est d’abord vérifiée et recadrée uniquement dans ton navigateur. Ce n’est qu’au lancement de l’essayage qu’elle est envoyée de manière chiffrée à notre serveur, puis à Google Gemini, qui génère l’image et estime tes mensurations.',
+  'consent.provider': 'Google traite les images uniquement pour générer la réponse. Un transfert vers les États-Unis peut avoir lieu.',
+  'consent.retention': 'Nous ne conservons ni ta photo, ni tes mensurations, ni les résultats sur nos serveurs. Les résultats que tu enregistres dans « Mes looks » restent sur cet appareil avec la photo associée jusqu’à ce que tu les supprimes ; tout le reste seulement jusqu’à la réinitialisation de l’essayage ou la fermeture de la page.',
+  'consent.rights': 'Tu peux retirer ton consentement à tout moment et supprimer tes données via « Supprimer mes données ».',
+  'consent.version': 'Texte de consentement version {version}',
+  'consent.checkbox': 'J’accepte que ma photo soit traitée pour l’essayage virtuel comme décrit.',
+  'consent.analytics': 'Facultatif : j’autorise des statistiques d’utilisation anonymes (étapes utilisées, réussite de l’essayage) – sans photos, mensurations ni noms.',
+  'consent.accept': 'Accepter et continuer',
+  'consent.decline': 'Refuser',
+  'consent.privacyPolicy': 'Politique de confidentialité',
+
+  'privacy.title': 'Confidentialité',
+  'privacy.consentedAt': 'Consentement donné le {date} (version {version})',
+  'privacy.noConsent': 'Aucun consentement donné',
+  'privacy.deleteData': 'Supprimer mes données',
+  'privacy.deleted': 'Tes photos, mensurations et résultats ont été supprimés.',
+  'privacy.revoke': 'Retirer le consentement',
+  'privacy.revoked': 'Ton consentement a été retiré et tes données ont été supprimées.',
+  'privacy.exportLog': 'Exporter le journal de consentement',
+  'privacy.analytics': 'Autoriser les statistiques d’utilisation anonymes',
+
+  'camera.denied': 'Pas d’accès à la caméra. Autorise la caméra dans ton navigateur ou importe une photo.',
+  'camera.failed': 'La caméra n’a pas pu démarrer. Importe plutôt une photo.',
+  'camera.ready': 'Parfait – ne bouge plus !',
+  'camera.hint': 'Place-toi de façon à tenir dans la silhouette.',
+  'camera.timer': 'Minuteur',
+  'camera.switch': 'Changer de caméra',
+  'camera.capture': 'Prendre la photo',
+
+  'measurements.toggle': 'Indiquer tes mensurations (facultatif) – pour une taille plus précise',
+  'measurements.heightCm': 'Taille',
+  'measurements.weightKg': 'Poids',
+  'measurements.waistCm': 'Tour de taille',
+  'measurements.hipCm': 'Tour de hanches',
+  'measurements.inseamCm': 'Entrejambe',
+
+  'loading.size': 'Analyse des proportions...',
+  'loading.render': 'Génération du rendu photoréaliste...',
+  'loading.hint': 'Le moteur Pro calcule chaque pixel...',
+
+  'result.errorTitle': 'ÉCHEC DU TRAITEMENT',
+  'result.alt': 'Essayage généré : toi avec {outfit}',
+  'result.badge': 'Rendu haute résolution',
+  'result.badgeWarning': 'Avec écarts',
+  'result.save': 'TÉLÉCHARGER L’IMAGE',
+  'result.compare': 'Comparer les coloris',
+  'result.anonymize': 'Masquer mon visage',
+  'result.anonymizing': 'Pixellisation du visage...',
+  'result.newSet': 'TON NOUVEAU SET',
+  'result.newOutfit': 'TA NOUVELLE TENUE',
+  'result.otherSet': 'Choisir un autre set',
+
+  'share.open': 'Partager & exporter',
+  'share.title': 'Partager le look',
+  'share.layout': 'Mise en page',
+  'share.story': 'Story 9:16',
+  'share.square': 'Carré',
+  'share.fileType': 'Type de fichier',
+  'share.width': 'Largeur',
+  'share.qr': 'QR code vers le produit',
+  'share.preview': 'Aperçu de la carte',
+  'share.rendering': 'Création de la carte...',
+  'share.share': 'Partager',
+  'share.download': 'Télécharger',
+  'share.shared': 'Partagé !',
+  'share.downloaded': 'Téléchargé.',
+  'share.close': 'Fermer',
+  'share.size': 'Taille recommandée {size}',
+  'share.text': 'Mon look avec {product} de Better Future',
+
+  'size.title': 'Notre recommandation',
+  'size.confidence': '{percent} de fiabilité',
+  'size.noData': 'Aucune mensuration détectée – nous recommandons la taille intermédiaire. Indique tes mensurations pour une recommandation plus précise.',
+  'size.measurement': '{dimension} env. {value} cm ({source})',
+  'size.dimension.waist': 'Tour de taille',
+  'size.dimension.hip': 'Tour de hanches',
+  'size.dimension.inseam': 'Entrejambe',
+  'size.source.user': 'ta saisie',
+  'size.source.photo': 'estimation photo',
+  'size.bestFit': '{details} – selon le guide des tailles, {size} te va le mieux.',
+  'size.outOfChart': 'Tes mensurations sont en dehors du guide des tailles, {size} est la taille la plus proche.',
+  'size.addMeasurements': 'Avec tes propres mensurations, la recommandation sera plus précise.',
+  'size.between': 'Tu es entre {lower} et {upper} : {lower} pour plus de compression, {upper} pour plus d’aisance.',
+
+  'fit.title': 'Aperçu du tombé',
+  'fit.subtitle': 'Vois comment {product} t’irait en {size} et dans les tailles voisines.',
+  'fit.open': 'Voir les tailles voisines',
+  'fit.close': 'Fermer l’aperçu',
+  'fit.sizes': 'Taille pour l’aperçu',
+  'fit.recommended': 'Recommandée',
+  'fit.rendering': 'Rendu de la taille {size}...',
+  'fit.imageAlt': 'Aperçu généré : toi avec {outfit} en taille {size}',
+  'fit.noHints': 'Sans mensurations, nous ne pouvons pas estimer le tombé.',
+  'fit.disclaimer': 'Simulation basée sur le guide des tailles et tes mensurations – la matière et la coupe peuvent différer en réalité.',
+  'fit.area.waist': 'Ceinture',
+  'fit.area.hip': 'Hanches',
+  'fit.area.inseam': 'Longueur',
+  'fit.level.tight': 'Serré',
+  'fit.level.snug': 'Ajusté',
+  'fit.level.regular': 'Parfait',
+  'fit.level.relaxed': 'Ample',
+  'fit.level.loose': 'Large',
+  'fit.hint.waist.tight': 'La ceinture serre un peu.',
+  'fit.hint.waist.snug': 'La ceinture tient bien et maintient.',
+  'fit.hint.waist.regular': 'La ceinture est bien à plat.',
+  'fit.hint.waist.relaxed': 'La ceinture est un peu lâche.',
+  'fit.hint.waist.loose': 'La ceinture bâille et peut glisser.',
+  'fit.hint.hip.tight': 'Le tissu est très tendu sur les hanches et les fesses.',
+  'fit.hint.hip.snug': 'Compression sensible sur les hanches et les fesses.',
+  'fit.hint.hip.regular': 'Comme une seconde peau.',
+  'fit.hint.hip.relaxed': 'Un peu d’aisance, de légers plis.',
+  'fit.hint.hip.loose': 'Le surplus de tissu fait des plis aux hanches et aux fesses.',
+  'fit.hint.inseam.tight': 'S’arrête nettement au-dessus de la cheville.',
+  'fit.hint.inseam.snug': 'S’arrête juste à la cheville.',
+  'fit.hint.inseam.regular': 'La longueur est parfaite.',
+  'fit.hint.inseam.relaxed': 'Un peu long, plisse légèrement à la cheville.',
+  'fit.hint.inseam.loose': 'Trop long, le tissu s’accumule à la cheville.',
+
+  'cart.setOnly': '{product} n’est vendu qu’en set – c’est le set complet qui sera ajouté au panier.',
+  'cart.add': 'Ajouter au panier',
+  'cart.addWithSize': 'Ajouter au panier · {size}',
+  'cart.adding': 'Ajout en cours...',
+  'cart.openCart': 'Voir le panier',
+  'cart.openShop': 'Ouvrir dans la boutique',
+  'cart.added': '{product} en {size} est dans ton panier.',
+  'cart.chooseInShop': 'Choisis ta taille directement dans la boutique.',
+  'cart.soldOut': 'La taille {size} est épuisée pour le moment – découvre les alternatives dans la boutique.',
+  'cart.hostFailed': 'La boutique n’a pas pu ajouter l’article.',
+  'cart.unavailable': 'Le panier est indisponible pour le moment – tu peux commander l’article directement dans la boutique.',
+  'cart.preselected': 'La taille {size} est déjà présélectionnée dans la boutique.',
+
+  'compare.title': 'Comparer les coloris',
+  'compare.subtitle': 'Choisis entre {min} et {max} produits – ta photo est conservée.',
+  'compare.pickerLabel': 'Produits à comparer',
+  'compare.start': 'Générer {count} looks',
+  'compare.progress': '{done} sur {total} terminés',
+  'compare.grid': 'Grille',
+  'compare.swipe': 'Défiler',
+  'compare.rendering': 'Génération...',
+  'compare.queued': 'En attente',
+  'compare.cached': 'Depuis le cache',
+  'compare.changeSelection': 'Modifier la sélection',
+  'compare.toResult': 'Retour au résultat',
+  'compare.lookAlt': 'Look en {product}',
+
+  'gallery.title': 'Mes looks',
+  'gallery.open': 'Mes looks ({count})',
+  'gallery.notice': 'Les looks sont enregistrés uniquement sur cet appareil. Si l’espace manque, les plus anciens sont supprimés en premier, les favoris en dernier.',
+  'gallery.empty': 'Aucun look enregistré pour le moment. Après un essayage, tu peux enregistrer ton résultat ici.',
+  'gallery.favouritesOnly': 'Favoris uniquement',
+  'gallery.favourite': 'Ajouter aux favoris',
+  'gallery.unfavourite': 'Retirer des favoris',
+  'gallery.delete': 'Supprimer le look',
+  'gallery.clearAll': 'Tout supprimer',
+  'gallery.clearNonFavourites': 'Tout supprimer sauf les favoris',
+  'gallery.confirmClear': 'Vraiment supprimer tous les looks ?',
+  'gallery.reopen': 'Ouvrir',
+  'gallery.size': 'Taille {size}',
+  'gallery.close': 'Retour à l’essayage',
+  'gallery.saved': 'Enregistré dans « Mes looks ».',
+  'gallery.save': 'Enregistrer dans « Mes looks »',
+  'gallery.saving': 'Enregistrement...',
+
+  'slider.before': 'Avant',
+  'slider.after': 'Après',
+  'slider.label': 'Comparer avant et après',
+
+  'admin.title': 'Paramètres de la boutique',
+  'admin.login': 'Connexion',
+  'admin.password': 'Mot de passe admin',
+  'admin.signIn': 'Se connecter',
+  'admin.logout': 'Se déconnecter',
+  'admin.usageToday': '{count} essayages aujourd’hui',
+  'admin.brand': 'Marque & couleurs',
+  'admin.brandName': 'Nom de la marque',
+  'admin.brandSuffix': 'Complément',
+  'admin.theme.primary': 'Couleur principale',
+  'admin.theme.primaryHover': 'Couleur principale (survol)',
+  'admin.theme.background': 'Arrière-plan',
+  'admin.limits': 'Limites journalières',
+  'admin.limitsHint': 'Laisser vide pour illimité. Les compteurs repartent chaque jour à minuit UTC et s’appliquent par instance de serveur.',
+  'admin.limits.perDay': 'Essayages par jour (total)',
+  'admin.limits.perClientPerDay': 'Essayages par jour et par visiteur',
+  'admin.unlimited': 'illimité',
+  'admin.products': 'Produits',
+  'admin.products.fromCatalog': 'Les produits proviennent de la boutique ou du catalogue fourni. Créez votre propre liste pour les gérer ici.',
+  'admin.products.replacesCatalog': 'Cette liste remplace le catalogue du widget – y compris les produits de Shopware.',
+  'admin.products.create': 'Créer une liste de produits',
+  'admin.products.add': 'Ajouter un produit',
+  'admin.products.useCatalog': 'Revenir au catalogue',
+  'admin.products.name': 'Nom',
+  'admin.products.id': 'ID produit',
+  'admin.products.category': 'Catégorie',
+  'admin.products.price': 'Prix',
+  'admin.products.currency': 'Devise',
+  'admin.products.setSlots': 'L’ensemble comprend',
+  'admin.products.imageUrl': 'URL de l’image',
+  'admin.products.description': 'Description',
+  'admin.products.sizeChart': 'Guide des tailles',
+  'admin.products.size': 'Taille',
+  'admin.products.removeSize': 'Supprimer la taille',
+  'admin.products.addSize': '+ Taille',
+  'admin.products.up': 'Monter',
+  'admin.products.down': 'Descendre',
+  'admin.products.remove': 'Supprimer le produit',
+  'admin.category.set': 'Ensemble',
+  'admin.category.bra': 'Soutien-gorge',
+  'admin.category.top': 'Haut',
+  'admin.category.bottom': 'Bas',
+  'admin.category.jacket': 'Veste',
+  'admin.copy': 'Textes',
+  'admin.copy.language': 'Langue',
+  'admin.copy.key': 'Clé de texte',
+  'admin.copy.add': 'Remplacer le texte',
+  'admin.copy.original': 'Original : {text}',
+  'admin.copy.empty': 'Aucun texte personnalisé – les textes par défaut s’appliquent.',
+  'admin.copy.remove': 'Réinitialiser',
+  'admin.issues': 'Vérifiez {count} entrées avant d’enregistrer',
+  'admin.importIssues': '{count} entrées invalides ont été ignorées à l’import',
+  'admin.save': 'Enregistrer',
+  'admin.saved': 'Paramètres enregistrés. Les nouveaux visiteurs les voient immédiatement.',
+  'admin.export': 'Exporter en JSON',
+  'admin.import': 'Importer un JSON',
+  'admin.imported': 'Fichier chargé – vérifiez puis enregistrez.',
+  'admin.updatedAt': 'Dernier enregistrement : {date}',
+
+  'admin.views': 'Sections',
+  'admin.view.settings': 'Paramètres',
+  'admin.view.studio': 'Studio',
+
+  'studio.storageHint': 'Studio : génère des visuels catalogue pour chaque combinaison photo de mannequin et produit. Photos et résultats restent dans ce navigateur ; une session interrompue peut reprendre.',
+  'studio.models': 'Mannequins',
+  'studio.modelsHint': 'Importez des photos en pied, {max} au maximum. Le nom apparaît dans les fichiers exportés.',
+  'studio.modelName': 'Nom du mannequin',
+  'studio.removeModel': 'Supprimer',
+  'studio.addModels': 'Ajouter des photos',
+  'studio.products': 'Produits',
+  'studio.selectAll': 'Tous',
+  'studio.selectNone': 'Aucun',
+  'studio.queue': 'Planifier {count} combinaisons',
+  'studio.tooMany': '{max} images au maximum par lot – sélectionnez moins de produits ou de mannequins.',
+  'studio.progressTitle': 'Progression',
+  'studio.progress': '{done} sur {total} terminées · {failed} en échec · {queued} en attente',
+  'studio.eta': 'Environ {minutes} min restantes',
+  'studio.start': 'Démarrer',
+  'studio.pause': 'Mettre en pause',
+  'studio.retryFailed': 'Relancer les échecs',
+  'studio.retry': 'Relancer',
+  'studio.clear': 'Vider le lot',
+  'studio.confirmClear': 'Supprimer tous les mannequins, résultats et validations du studio ?',
+  'studio.review': 'Validation',
+  'studio.filter.all': 'Toutes',
+  'studio.filter.pending': 'À valider',
+  'studio.filter.approved': 'Validées',
+  'studio.filter.rejected': 'Refusées',
+  'studio.empty': 'Aucun résultat pour l’instant.',
+  'studio.approve': 'Valider',
+  'studio.reject': 'Refuser',
+  'studio.export': 'Exporter {count} images validées en ZIP',
+
+  'settings.issue.required': 'Champ obligatoire manquant.',
+  'settings.issue.invalid': 'Valeur invalide.',
+  'settings.issue.tooLong': '{max} caractères au maximum.',
+  'settings.issue.color': 'Uniquement des couleurs comme #4f46e5, rgb(…) ou des noms de couleur.',
+  'settings.issue.range': 'Le minimum ne doit pas dépasser le maximum.',
+  'settings.issue.duplicate': 'Apparaît plusieurs fois.',
+  'settings.issue.productId': 'Uniquement lettres, chiffres, points, tirets et tirets bas.',
+  'settings.issue.price': 'Le prix doit être un nombre supérieur ou égal à 0.',
+  'settings.issue.url': 'Uniquement des adresses http(s) ou des chemins commençant par /.',
+  'settings.issue.currency': 'Devise en code à trois lettres, p. ex. EUR.',
+  'settings.issue.tooMany': '{max} entrées au maximum.',
+  'settings.issue.noProducts': 'La liste de produits est vide.',
+  'settings.issue.language': 'Langue inconnue.',
+  'settings.issue.unknownKey': 'Clé de texte inconnue.',
+  'settings.issue.placeholder': 'Espaces réservés manquants : {names}.',
+  'settings.issue.limit': 'Nombre entier entre 1 et {max}, ou vide.',
+  'settings.issue.version': 'Version inconnue – {version} attendue.',
+
+  'error.QUOTA_EXCEEDED': 'L’IA est très sollicitée en ce moment. Réessaie dans une minute.',
+  'error.RATE_LIMITED': 'Trop de demandes en peu de temps. Patiente un instant.',
+  'error.SAFETY_BLOCKED': 'La photo a été bloquée. Utilise une image avec une pose plus neutre.',
+  'error.MODEL_REFUSED': 'L’image n’a pas pu être générée. Utilise une photo plus nette avec moins de plis dans les vêtements.',
+  'error.NO_IMAGE': 'L’IA n’a pas généré d’image. Essaie avec une autre photo.',
+  'error.NO_RESPONSE': 'L’IA n’a pas fourni de réponse valide. Réessaie.',
+  'error.NO_BODY_DETECTED': 'Nous n’avons pas pu détecter tes proportions. Indique tes mensurations.',
+  'error.INVALID_KEY': 'Le service n’est pas correctement configuré pour le moment. Réessaie plus tard.',
+  'error.MODEL_UNAVAILABLE': 'L’IA est injoignable pour le moment. Réessaie dans un instant.',
+  'error.MODEL_ERROR': 'Une erreur est survenue pendant l’essayage. Réessaie.',
+  'error.BAD_REQUEST': 'La requête n’était pas valide. Recharge la page.',
+  'error.INVALID_REQUEST': 'La requête était incomplète. Recharge la page.',
+  'error.PAYLOAD_TOO_LARGE': 'L’image est trop lourde. Utilise une photo plus petite.',
+  'error.NETWORK': 'Pas de connexion au serveur. Vérifie ta connexion internet.',
+  'error.TIMEOUT': 'L’essayage a pris trop de temps. Réessaie.',
+  'error.CANCELLED': 'L’essayage a été annulé.',
+  'error.PRODUCT_IMAGE_FAILED': 'L’image du produit n’a pas pu être chargée.',
+  'error.IMAGE_READ_FAILED': 'Le fichier image n’a pas pu être lu.',
+  'error.IMAGE_PROCESSING_FAILED': 'L’image n’a pas pu être traitée.',
+  'error.HEIC_UNSUPPORTED': 'Ton navigateur ne peut pas ouvrir les photos HEIC. Règle ton appareil photo sur « Le plus compatible » ou utilise un JPEG.',
+  'error.CATALOG_UNAVAILABLE': 'Les produits n’ont pas pu être chargés. Réessaie plus tard.',
+  'error.NO_SIZE_CHART': 'Aucun guide des tailles n’est disponible pour ce produit.',
+  'error.FACE_NOT_DETECTED': 'Aucun visage détecté – l’image n’a pas été modifiée.',
+  'error.STORAGE_UNAVAILABLE': 'Ton navigateur n’autorise pas le stockage local pour le moment – « Mes looks » est indisponible.',
+  'error.STORAGE_FULL': 'L’espace de stockage de cet appareil est plein. Supprime des looks plus anciens.',
+  'error.DAILY_LIMIT_REACHED': 'Plus aucun essayage n’est possible aujourd’hui. Revenez demain.',
+  'error.UNAUTHORIZED': 'Le mot de passe est incorrect.',
+  'error.ADMIN_DISABLED': 'L’espace admin n’est pas configuré (ADMIN_PASSWORD manquant).',
+  'error.INVALID_SETTINGS': 'Les paramètres sont invalides et n’ont pas été enregistrés.',
+  'error.SETTINGS_READ_ONLY': 'Ce serveur ne peut pas enregistrer. Configurez un stockage partagé (KV_REST_API_URL et KV_REST_API_TOKEN).',
+  'error.SHARED_STORE_UNAVAILABLE': 'Le stockage du serveur est momentanément inaccessible. Veuillez réessayer dans un instant.',
+  'error.HOST_NOT_CONNECTED': 'Le widget n’est pas intégré dans une boutique – tu peux commander l’article directement dans la boutique.',
+  'error.HOST_TIMEOUT': 'La boutique n’a pas répondu à temps – tu peux commander l’article directement dans la boutique.',
+  'error.UNKNOWN': 'Une erreur technique est survenue.',
+};
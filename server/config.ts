@@ -0,0 +1,96 @@
+import { COMPARE_CONFIG, QUALITY_CONFIG } from "../constants";
+
+function hostFromUrl(value: string | undefined): string | null {
+  if (!value) return null;
+  try {
+    return new URL(value).hostname;
+  } catch {
+    return null;
+  }
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const SERVER_CONFIG = {
+  get GEMINI_API_KEY() {
+    return process.env.GEMINI_API_KEY || process.env.API_KEY || '';
+  },
+  // 'mock' erlaubt den kompletten Flow offline ohne Modell-Aufruf
+  get MODEL_ADAPTER() {
+    return process.env.MODEL_ADAPTER === 'mock' ? 'mock' : 'gemini';
+  },
+  // ID eines Experiments aus server/promptRegistry.ts; ohne Angabe (oder 'off') nutzen alle Sitzungen die Standard-Einstellungen.
+  // Experimente verteilen echten Traffic auf andere Parameter und müssen deshalb bewusst eingeschaltet werden
+  get PROMPT_EXPERIMENT() {
+    return process.env.PROMPT_EXPERIMENT || 'off';
+  },
+  // Modelle für Anprobe und Größenschätzung; Experiment-Arme können für die Anprobe ein eigenes festlegen
+  get TRY_ON_MODEL() {
+    return process.env.TRY_ON_MODEL || 'gemini-2.5-flash-image';
+  },
+  get SIZE_MODEL() {
+    return process.env.SIZE_MODEL || 'gemini-2.5-flash';
+  },
+  // Vercel setzt VERCEL=1; nur dann stammen x-vercel-forwarded-for/x-real-ip sicher von der Plattform
+  get ON_VERCEL() {
+    return !!process.env.VERCEL;
+  },
+  // Ohne Passwort ist der Admin-Bereich gesperrt
+  get ADMIN_PASSWORD() {
+    return process.env.ADMIN_PASSWORD || '';
+  },
+  // JSON mit den Händler-Einstellungen, wenn kein KV-Speicher eingerichtet ist; muss für den Admin-Bereich beschreibbar sein
+  get SETTINGS_FILE() {
+    return process.env.SETTINGS_FILE || 'data/settings.json';
+  },
+  // Gemeinsamer Speicher (Vercel KV / Upstash Redis) für Einstellungen und Tageszähler. Auf Serverless-Hosting
+  // nötig: ohne ihn gelten die Zähler pro Instanz und Speichern scheitert am schreibgeschützten Dateisystem
+  get KV_REST_API_URL() {
+    return process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL || '';
+  },
+  get KV_REST_API_TOKEN() {
+    return process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN || '';
+  },
+  // Hosts, von denen /api/product-image Bilder lädt (inkl. Subdomains). Standard: Storefront und Shopware
+  get IMAGE_ALLOWED_HOSTS() {
+    const configured = (process.env.IMAGE_ALLOWED_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+    if (configured.length > 0) return configured;
+    return [hostFromUrl(process.env.SHOP_URL || 'https://superbeautiful.de'), hostFromUrl(process.env.SHOPWARE_URL)]
+      .filter((host): host is string => !!host);
+  },
+  get IMAGE_MAX_BYTES() {
+    return numberFromEnv('IMAGE_MAX_BYTES', 10 * 1024 * 1024);
+  },
+  get IMAGE_TIMEOUT_MS() {
+    return numberFromEnv('IMAGE_TIMEOUT_MS', 10_000);
+  },
+  get IMAGE_RATE_LIMIT() {
+    return numberFromEnv('IMAGE_RATE_LIMIT', 60);
+  },
+  get MAX_BODY_BYTES() {
+    // Wie das Request-Limit von Vercel; der Client hält Try-On-Anfragen darunter (REQUEST_CONFIG.MAX_TRY_ON_BYTES)
+    return numberFromEnv('MAX_BODY_BYTES', 4.5 * 1024 * 1024);
+  },
+  get RATE_LIMIT_WINDOW_MS() {
+    return numberFromEnv('RATE_LIMIT_WINDOW_MS', 60_000);
+  },
+  // Schlimmster Fall der App selbst: Farbvergleich mit allen Produkten plus Anpassungsvorschau,
+  // jeweils mit Qualitäts-Wiederholung – sonst trifft das Limit Anfragen, die die App selbst startet
+  get TRY_ON_RATE_LIMIT() {
+    return numberFromEnv('TRY_ON_RATE_LIMIT', (COMPARE_CONFIG.MAX_PRODUCTS + 1) * QUALITY_CONFIG.MAX_ATTEMPTS);
+  },
+  get SIZE_RATE_LIMIT() {
+    return numberFromEnv('SIZE_RATE_LIMIT', 20);
+  },
+  // Fehlversuche beim Admin-Login bremsen
+  get ADMIN_RATE_LIMIT() {
+    return numberFromEnv('ADMIN_RATE_LIMIT', 10);
+  },
+  // Muss unter dem Client-Timeout liegen, damit der Client einen sauberen TIMEOUT-Fehler bekommt
+  get MODEL_TIMEOUT_MS() {
+    return numberFromEnv('MODEL_TIMEOUT_MS', 90_000);
+  },
+};
@@ -0,0 +1,21 @@
+import type { Plugin } from 'vite';
+import { API_ROUTES } from './routes';
+
+// Bindet die API-Handler lokal in den Vite-Dev-Server ein – dieselben Handler, die auf Vercel unter /api laufen.
+export function apiDevServer(env: Record<string, string>): Plugin {
+  return {
+    name: 'try-on-api',
+    configureServer(server) {
+      for (const [key, value] of Object.entries(env)) {
+        if (process.env[key] === undefined) process.env[key] = value;
+      }
+
+      server.middlewares.use((req, res, next) => {
+        const path = (req.url || '').split('?')[0];
+        const handler = API_ROUTES[path];
+        if (!handler) return next();
+        handler(req, res).catch(next);
+      });
+    },
+  };
+}
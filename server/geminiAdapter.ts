@@ -0,0 +1,178 @@
+import { ApiError, GoogleGenAI, Type } from "@google/genai";
+import type { BodyEstimate } from "../types";
+import { SERVER_CONFIG } from "./config";
+import { HttpError } from "./http";
+import type { ModelAdapter } from "./modelAdapter";
+import { resolveSizeModel } from "./promptRegistry";
+
+function getMimeType(dataUrl: string): string {
+  if (dataUrl.startsWith('data:')) {
+    const match = dataUrl.match(/^data:([^;]+);base64,/);
+    return match ? match[1] : "image/png";
+  }
+  return "image/png";
+}
+
+function getCleanBase64(dataUrl: string): string {
+  return dataUrl.replace(/^data:[^;]+;base64,/, "");
+}
+
+function buildBodyEstimatePrompt(known: string): string {
+  return `
+    Estimate the body measurements of the person in the photo for fitting sportswear leggings.
+    ${known ? `Known facts about the person: ${known}. Use them to calibrate the scale.` : 'No height is known; assume an average adult height for scale.'}
+    Return waist circumference, hip circumference and inseam length in centimeters,
+    plus a confidence between 0 and 1 reflecting how well the body is visible (loose clothing, cropped legs or unusual poses lower it).
+  `;
+}
+
+function parseBodyEstimate(text: string): BodyEstimate {
+  let data: Partial<BodyEstimate>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new HttpError(502, 'NO_RESPONSE', "Die Größenschätzung der KI war ungültig.");
+  }
+  const valid = (value: unknown, min: number, max: number) => typeof value === 'number' && value >= min && value <= max;
+  if (!valid(data.waistCm, 40, 200) || !valid(data.hipCm, 50, 220) || !valid(data.inseamCm, 40, 110)) {
+    throw new HttpError(422, 'NO_BODY_DETECTED', "Wir konnten deine Proportionen nicht erkennen. Bitte gib deine Maße an.");
+  }
+  return {
+    waistCm: data.waistCm!,
+    hipCm: data.hipCm!,
+    inseamCm: data.inseamCm!,
+    confidence: Math.min(1, Math.max(0, Number(data.confidence) || 0.5)),
+  };
+}
+
+// Fehler des SDKs in HTTP-Fehler übersetzen, damit der Client Quota/Key-Probleme erkennt
+function toHttpError(error: any, signal?: AbortSignal): HttpError {
+  if (error instanceof HttpError) return error;
+  if (signal?.aborted) {
+    return new HttpError(499, 'CANCELLED', "Die Anfrage wurde abgebrochen.");
+  }
+  const status = error instanceof ApiError ? error.status : Number(error?.status);
+  const message: string = error?.message || "";
+  if (error?.name === 'AbortError' || /timed? ?out|deadline/i.test(message)) {
+    return new HttpError(504, 'TIMEOUT', "Die KI hat zu lange gebraucht.");
+  }
+  if (status === 429 || message.includes("RESOURCE_EXHAUSTED")) {
+    return new HttpError(429, 'QUOTA_EXCEEDED', "Die KI ist gerade ausgelastet. Bitte warte einen Moment.");
+  }
+  if (status === 401 || status === 403 || message.includes("API key not valid")) {
+    return new HttpError(502, 'INVALID_KEY', "Der Server ist nicht korrekt konfiguriert.");
+  }
+  if (status >= 500) {
+    return new HttpError(503, 'MODEL_UNAVAILABLE', "Die KI ist gerade nicht erreichbar.");
+  }
+  if (message.includes("IMAGE_OTHER")) {
+    return new HttpError(422, 'MODEL_REFUSED', "Das Bild konnte nicht generiert werden. Bitte nutze ein schärferes Foto mit weniger Falten in der Kleidung.");
+  }
+  // Rohtext des SDKs nur ins Log (siehe Aufrufer) – an den Client geht eine feste Meldung
+  return new HttpError(502, 'MODEL_ERROR', "Fehler bei der Anprobe.");
+}
+
+export function createGeminiAdapter(apiKey: string): ModelAdapter {
+  const getClient = () => {
+    if (!apiKey) {
+      throw new HttpError(500, 'INVALID_KEY', "Der Server ist nicht korrekt konfiguriert.");
+    }
+    return new GoogleGenAI({ apiKey });
+  };
+
+  return {
+    async tryOn({ userImage, garments, prompt, signal }) {
+      const ai = getClient();
+
+      try {
+        const response = await ai.models.generateContent({
+          model: prompt.model,
+          contents: {
+            parts: [
+              { inlineData: { data: getCleanBase64(userImage), mimeType: getMimeType(userImage) } },
+              ...garments.map(garment => ({ inlineData: { data: getCleanBase64(garment.image), mimeType: getMimeType(garment.image) } })),
+              { text: prompt.text },
+            ],
+          },
+          config: {
+            ...prompt.generation,
+            abortSignal: signal,
+            httpOptions: { timeout: SERVER_CONFIG.MODEL_TIMEOUT_MS },
+          }
+        });
+
+        if (!response || !response.candidates || response.candidates.length === 0) {
+          throw new HttpError(502, 'NO_RESPONSE', "Die KI hat keine Antwort geliefert.");
+        }
+
+        const candidate = response.candidates[0];
+
+        if (candidate.finishReason) {
+          if (candidate.finishReason === 'SAFETY') {
+            throw new HttpError(422, 'SAFETY_BLOCKED', "Das Foto wurde blockiert. Bitte nutze ein Bild mit neutralerer Pose.");
+          } else if (candidate.finishReason === 'OTHER' || (candidate.finishReason as string) === 'IMAGE_OTHER') {
+            throw new HttpError(422, 'MODEL_REFUSED', "Die KI konnte das Bild aufgrund technischer Einschränkungen nicht bearbeiten.");
+          }
+        }
+
+        if (!candidate.content || !candidate.content.parts) {
+          throw new HttpError(502, 'NO_RESPONSE', "Ungültige Antwortstruktur der KI.");
+        }
+
+        for (const part of candidate.content.parts) {
+          if (part.inlineData && part.inlineData.data) {
+            return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+          }
+        }
+
+        // Die Textantwort des Modells hilft bei der Fehlersuche, gehört aber nicht zum Kunden
+        if (response.text) console.warn("Gemini returned text instead of an image:", response.text);
+        throw new HttpError(422, 'NO_IMAGE', "Kein Bild generiert. Bitte anderes Foto versuchen.");
+      } catch (error: any) {
+        console.error("Gemini Try-On Detail Error:", error);
+        throw toHttpError(error, signal);
+      }
+    },
+
+    async estimateBody({ userImage, heightCm, weightKg, signal }) {
+      const ai = getClient();
+      const known = [
+        heightCm ? `height ${heightCm} cm` : null,
+        weightKg ? `weight ${weightKg} kg` : null,
+      ].filter(Boolean).join(', ');
+
+      try {
+        const response = await ai.models.generateContent({
+          model: resolveSizeModel(),
+          contents: {
+            parts: [
+              { inlineData: { data: getCleanBase64(userImage), mimeType: getMimeType(userImage) } },
+              { text: buildBodyEstimatePrompt(known) },
+            ],
+          },
+          config: {
+            temperature: 0,
+            abortSignal: signal,
+            httpOptions: { timeout: SERVER_CONFIG.MODEL_TIMEOUT_MS },
+            responseMimeType: 'application/json',
+            responseSchema: {
+              type: Type.OBJECT,
+              properties: {
+                waistCm: { type: Type.NUMBER },
+                hipCm: { type: Type.NUMBER },
+                inseamCm: { type: Type.NUMBER },
+                confidence: { type: Type.NUMBER },
+              },
+              required: ['waistCm', 'hipCm', 'inseamCm', 'confidence'],
+            },
+          },
+        });
+
+        return parseBodyEstimate(response.text || '');
+      } catch (error: any) {
+        console.error("Gemini Size Detail Error:", error);
+        throw toHttpError(error, signal);
+      }
+    },
+  };
+}
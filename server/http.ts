@@ -0,0 +1,107 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { SERVER_CONFIG } from './config';
+
+export type ApiHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+export class HttpError extends Error {
+  constructor(public status: number, public code: string, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  for (const [key, value] of Object.entries(headers)) {
+    res.setHeader(key, value);
+  }
+  res.end(JSON.stringify(body));
+}
+
+export function sendError(res: ServerResponse, error: unknown) {
+  if (error instanceof HttpError) {
+    sendJson(res, error.status, { error: { code: error.code, message: error.message } }, error.headers);
+    return;
+  }
+  // Details nur ins Log – interne Meldungen (Pfade, Antworten von Drittanbietern) gehen nicht an den Client
+  console.error('Unhandled API error:', error);
+  sendJson(res, 500, { error: { code: 'INTERNAL', message: 'Ein technischer Fehler ist aufgetreten.' } });
+}
+
+export function sendBinary(res: ServerResponse, status: number, body: Buffer, contentType: string, headers: Record<string, string> = {}) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Length', String(body.length));
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  for (const [key, value] of Object.entries(headers)) {
+    res.setHeader(key, value);
+  }
+  res.end(body);
+}
+
+// Vercel & Co. liefern den Body teilweise schon geparst – sonst lesen wir den Stream selbst mit hartem Limit.
+export async function readJsonBody<T>(req: IncomingMessage, maxBytes: number): Promise<T> {
+  const declared = Number(req.headers['content-length'] || 0);
+  if (declared > maxBytes) {
+    throw new HttpError(413, 'PAYLOAD_TOO_LARGE', 'Das Bild ist zu groß. Bitte nutze ein kleineres Foto.');
+  }
+
+  const preParsed = (req as IncomingMessage & { body?: unknown }).body;
+  if (preParsed !== undefined) {
+    const raw = typeof preParsed === 'string' ? preParsed : JSON.stringify(preParsed);
+    if (Buffer.byteLength(raw) > maxBytes) {
+      throw new HttpError(413, 'PAYLOAD_TOO_LARGE', 'Das Bild ist zu groß. Bitte nutze ein kleineres Foto.');
+    }
+    return requireObject(typeof preParsed === 'string' ? parseJson(preParsed) : preParsed) as T;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, 'PAYLOAD_TOO_LARGE', 'Das Bild ist zu groß. Bitte nutze ein kleineres Foto.');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return requireObject(parseJson(Buffer.concat(chunks).toString('utf8'))) as T;
+}
+
+// Alle Handler lesen Felder aus dem Body – null, Arrays oder Zahlen wären sonst ein TypeError und damit ein 500
+function requireObject(body: unknown): Record<string, unknown> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, 'INVALID_REQUEST', 'Die Anfrage muss ein JSON-Objekt sein.');
+  }
+  return body as Record<string, unknown>;
+}
+
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'BAD_REQUEST', 'Ungültige Anfrage.');
+  }
+}
+
+function header(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+}
+
+/**
+ * Adresse für Rate- und Tageslimits. X-Forwarded-For kann jeder Client selbst setzen – vertraut wird nur
+ * der Adresse, die Vercel am Edge einträgt, sonst der TCP-Verbindung.
+ */
+export function getClientId(req: IncomingMessage): string {
+  const platform = SERVER_CONFIG.ON_VERCEL ? header(req, 'x-vercel-forwarded-for') || header(req, 'x-real-ip') : undefined;
+  return platform || req.socket?.remoteAddress || 'unknown';
+}
+
+export function assertMethod(req: IncomingMessage, method: string) {
+  if (req.method !== method) {
+    throw new HttpError(405, 'METHOD_NOT_ALLOWED', `Nur ${method} ist erlaubt.`);
+  }
+}
@@ -0,0 +1,93 @@
+import { SERVER_CONFIG } from './config';
+import { HttpError } from './http';
+
+export interface FetchedImage {
+  body: Buffer;
+  contentType: string;
+}
+
+// SVG bewusst nicht: same-origin ausgeliefert könnte es Skripte enthalten
+const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif'];
+const MAX_REDIRECTS = 3;
+
+export function isAllowedHost(hostname: string, allowed: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return allowed.some(entry => host === entry || host.endsWith(`.${entry}`));
+}
+
+function requireAllowedUrl(raw: string): URL {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new HttpError(400, 'BAD_REQUEST', 'Parameter "url" ist ungültig.');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new HttpError(400, 'BAD_REQUEST', 'Nur http(s)-Adressen sind erlaubt.');
+  }
+  if (!isAllowedHost(url.hostname, SERVER_CONFIG.IMAGE_ALLOWED_HOSTS)) {
+    throw new HttpError(403, 'IMAGE_HOST_NOT_ALLOWED', `Bilder von ${url.hostname} sind nicht freigegeben.`);
+  }
+  return url;
+}
+
+async function readLimited(response: Response, maxBytes: number): Promise<Buffer> {
+  const declared = Number(response.headers.get('content-length') || 0);
+  if (declared > maxBytes) {
+    throw new HttpError(413, 'PAYLOAD_TOO_LARGE', 'Das Produktbild ist zu groß.');
+  }
+  if (!response.body) {
+    throw new HttpError(502, 'PRODUCT_IMAGE_FAILED', 'Das Produktbild konnte nicht geladen werden.');
+  }
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new HttpError(413, 'PAYLOAD_TOO_LARGE', 'Das Produktbild ist zu groß.');
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Lädt ein Produktbild von einem freigegebenen Host. Weiterleitungen werden selbst verfolgt,
+ * damit auch deren Ziel gegen die Allowlist geprüft wird.
+ */
+export async function fetchProductImage(raw: string): Promise<FetchedImage> {
+  let url = requireAllowedUrl(raw);
+  const signal = AbortSignal.timeout(SERVER_CONFIG.IMAGE_TIMEOUT_MS);
+
+  for (let redirects = 0; ; redirects++) {
+    let response: Response;
+    try {
+      response = await fetch(url, { redirect: 'manual', signal, headers: { Accept: ALLOWED_TYPES.join(', ') } });
+    } catch (error) {
+      console.error('Product image fetch failed:', url.href, error);
+      throw new HttpError(502, 'PRODUCT_IMAGE_FAILED', 'Das Produktbild konnte nicht geladen werden.');
+    }
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) {
+        throw new HttpError(502, 'PRODUCT_IMAGE_FAILED', 'Zu viele Weiterleitungen beim Produktbild.');
+      }
+      url = requireAllowedUrl(new URL(location, url).href);
+      continue;
+    }
+    if (!response.ok) {
+      throw new HttpError(502, 'PRODUCT_IMAGE_FAILED', `Das Produktbild konnte nicht geladen werden (HTTP ${response.status}).`);
+    }
+
+    const contentType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+    if (!ALLOWED_TYPES.includes(contentType)) {
+      throw new HttpError(415, 'PRODUCT_IMAGE_FAILED', 'Die Adresse liefert kein unterstütztes Bildformat.');
+    }
+    return { body: await readLimited(response, SERVER_CONFIG.IMAGE_MAX_BYTES), contentType };
+  }
+}
@@ -0,0 +1,67 @@
+import { SERVER_CONFIG } from './config';
+import { HttpError } from './http';
+
+// Befehle im Redis-Format, z.B. ['INCR', 'key']
+export type KvCommand = (string | number)[];
+
+export interface KvStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  // Mehrere Befehle in einem Request; Ergebnisse in derselben Reihenfolge
+  pipeline(commands: KvCommand[]): Promise<unknown[]>;
+}
+
+const KV_TIMEOUT_MS = 5_000;
+
+const unavailable = () => new HttpError(503, 'SHARED_STORE_UNAVAILABLE', 'Der gemeinsame Speicher ist gerade nicht erreichbar.');
+
+/**
+ * Gemeinsamer Speicher aller Function-Instanzen über die REST-API von Vercel KV bzw. Upstash Redis
+ * (`KV_REST_API_URL`/`KV_REST_API_TOKEN`). Ohne Konfiguration null – dann gilt nur der Speicher
+ * der einzelnen Instanz, was nur auf einem dauerhaft laufenden Server trägt.
+ */
+export function getKvStore(): KvStore | null {
+  const url = SERVER_CONFIG.KV_REST_API_URL.replace(/\/+$/, '');
+  const token = SERVER_CONFIG.KV_REST_API_TOKEN;
+  if (!url || !token) return null;
+
+  const request = async (path: string, body: unknown): Promise<any> => {
+    let response: Response;
+    try {
+      response = await fetch(`${url}${path}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(KV_TIMEOUT_MS),
+      });
+    } catch (error) {
+      console.error('KV store unreachable:', error);
+      throw unavailable();
+    }
+    const payload: any = await response.json().catch(() => null);
+    if (!response.ok || payload === null) {
+      console.error('KV store error:', response.status, payload?.error);
+      throw unavailable();
+    }
+    return payload;
+  };
+
+  return {
+    async get(key) {
+      const { result } = await request('', ['GET', key]);
+      return typeof result === 'string' ? result : null;
+    },
+    async set(key, value) {
+      await request('', ['SET', key, value]);
+    },
+    async pipeline(commands) {
+      const results: { result?: unknown; error?: string }[] = await request('/pipeline', commands);
+      const failed = results.find(entry => entry.error);
+      if (failed) {
+        console.error('KV store error:', failed.error);
+        throw unavailable();
+      }
+      return results.map(entry => entry.result);
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import { HttpError } from './http';
+import type { ModelAdapter } from './modelAdapter';
+
+// Offline-Adapter: liefert das Nutzerfoto unverändert zurück und durchschnittliche Körpermaße.
+export function createMockAdapter(delayMs = 800): ModelAdapter {
+  const wait = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, delayMs);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new HttpError(499, 'CANCELLED', "Die Anfrage wurde abgebrochen."));
+    });
+  });
+
+  return {
+    async tryOn({ userImage, signal }) {
+      await wait(signal);
+      return userImage;
+    },
+    async estimateBody({ signal }) {
+      await wait(signal);
+      return { waistCm: 71, hipCm: 97, inseamCm: 70, confidence: 0.6 };
+    },
+  };
+}
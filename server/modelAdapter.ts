@@ -0,0 +1,49 @@
+import type { BodyEstimate, GarmentCategory } from '../types';
+import { SERVER_CONFIG } from './config';
+import { createGeminiAdapter } from './geminiAdapter';
+import { createMockAdapter } from './mockAdapter';
+import type { ResolvedPrompt } from './promptRegistry';
+
+// Ein Produktbild – zeigt es ein Set, werden nur die genannten Slots übernommen
+export interface GarmentInput {
+  productName: string;
+  image: string;
+  slots: GarmentCategory[];
+  isSet: boolean;
+}
+
+export interface TryOnInput {
+  userImage: string;
+  garments: GarmentInput[];
+  // Vorlage, Modell und Parameter der Variante, der die Sitzung zugeordnet ist
+  prompt: ResolvedPrompt;
+  // Wird ausgelöst, wenn der Client die Verbindung schließt
+  signal?: AbortSignal;
+}
+
+export interface BodyEstimateInput {
+  userImage: string;
+  heightCm?: number;
+  weightKg?: number;
+  signal?: AbortSignal;
+}
+
+export interface ModelAdapter {
+  tryOn(input: TryOnInput): Promise<string>;
+  estimateBody(input: BodyEstimateInput): Promise<BodyEstimate>;
+}
+
+let adapter: ModelAdapter | null = null;
+
+export function getModelAdapter(): ModelAdapter {
+  if (!adapter) {
+    adapter = SERVER_CONFIG.MODEL_ADAPTER === 'mock'
+      ? createMockAdapter()
+      : createGeminiAdapter(SERVER_CONFIG.GEMINI_API_KEY);
+  }
+  return adapter;
+}
+
+export function setModelAdapter(next: ModelAdapter | null) {
+  adapter = next;
+}
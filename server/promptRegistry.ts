@@ -0,0 +1,292 @@
+import type { FitLevel, FitSpec, GarmentCategory, MeasurementDimension, RenderVariant } from '../types';
+import { SERVER_CONFIG } from './config';
+import type { GarmentInput } from './modelAdapter';
+
+export interface GenerationParams {
+  temperature: number;
+  topP?: number;
+}
+
+export interface PromptTemplate {
+  id: string;
+  // Bei jeder inhaltlichen Änderung erhöhen – alte Versionen bleiben für laufende Experimente erhalten
+  version: number;
+  // Fehlt die Bedingung, gilt die Vorlage für jedes Outfit
+  appliesTo?: (slots: GarmentCategory[]) => boolean;
+  build: (garments: GarmentInput[]) => string;
+}
+
+export interface ExperimentArm {
+  name: string;
+  weight: number;
+  // Ohne Angabe gilt SERVER_CONFIG.TRY_ON_MODEL
+  model?: string;
+  generation: GenerationParams;
+  // Version je Vorlagen-ID; ohne Eintrag gilt die neueste Version
+  promptVersions?: Record<string, number>;
+}
+
+export interface Experiment {
+  id: string;
+  arms: ExperimentArm[];
+}
+
+export interface ResolvedPrompt {
+  text: string;
+  model: string;
+  generation: GenerationParams;
+  variant: RenderVariant;
+}
+
+const SLOT_DESCRIPTIONS: Record<GarmentCategory, string> = {
+  bra: 'the sports bra (upper body, worn directly on the skin)',
+  top: 'the top (upper body)',
+  bottom: 'the leggings (from the waist down to the ankles)',
+  jacket: 'the jacket (outermost layer on the upper body, worn over everything else)',
+};
+
+// Lagen von innen nach außen – der Prompt nennt die Teile in dieser Reihenfolge
+const LAYER_ORDER: GarmentCategory[] = ['bra', 'top', 'bottom', 'jacket'];
+
+const MAX_NAME_LENGTH = 80;
+
+// Produktnamen kommen vom Client: ohne Zeilenumbrüche, Steuerzeichen und Anführungszeichen können sie
+// keine eigenen Anweisungen in den Prompt schreiben
+function quoteName(name: string): string {
+  const clean = name.replace(/[\u0000-\u001f\u007f-\u009f"]+/g, ' ').replace(/\s+/g, ' ').trim();
+  return `"${clean.slice(0, MAX_NAME_LENGTH).trim() || 'product'}"`;
+}
+
+function describeGarment(garment: GarmentInput, imageNumber: number): string {
+  const slots = LAYER_ORDER.filter(slot => garment.slots.includes(slot));
+  const parts = slots.map(slot => SLOT_DESCRIPTIONS[slot]).join(' and ');
+  return garment.isSet
+    ? `Image ${imageNumber} shows the set ${quoteName(garment.productName)}. Use ONLY ${parts} from this image and ignore all other pieces in it.`
+    : `Image ${imageNumber} shows ${quoteName(garment.productName)}. Apply it as ${parts}.`;
+}
+
+function listGarments(garments: GarmentInput[]): string {
+  return garments.map((garment, index) => `- ${describeGarment(garment, index + 2)}`).join('\n    ');
+}
+
+const DESIGN_CONSTRAINTS = `
+    STRICT DESIGN CONSTRAINTS (ZERO HALLUCINATION POLICY):
+    1. NO ADDITIONS: Do NOT add pockets, zippers, buttons, drawstrings, or logos that are not clearly visible in the product images. If a product is seamless/clean, the output MUST be seamless/clean.
+    2. SEAM ACCURACY: Replicate the exact seam lines, waist band height, and stitching patterns shown in each product image.
+    3. FABRIC INTEGRITY: The texture, opacity, and color saturation of every piece must match its product image exactly. Do not blend colors between pieces.
+    4. ANATOMICAL FIT: The clothing must fit the person in the first image perfectly like a second skin, following their leg and torso shape without distorting the products' design.`;
+
+const OUTPUT_RULES = `
+    OUTPUT:
+    Return ONLY the image. No textual response.`;
+
+// Maximal restriktiver Prompt für absolute Design-Treue
+function buildOutfitPrompt(garments: GarmentInput[]): string {
+  const covered = garments.flatMap(garment => garment.slots);
+  const coversUpperBody = covered.some(slot => slot !== 'bottom');
+  const layering = LAYER_ORDER.filter(slot => slot !== 'bottom' && covered.includes(slot));
+
+  return `
+    CRITICAL TASK: Absolute High-Fidelity Virtual Try-On.
+
+    Image 1 shows the person. The following images show the products to apply:
+    ${listGarments(garments)}
+
+    OUTFIT COMPOSITION:
+    - Combine all listed pieces into ONE outfit on the person, each piece taken only from its own image.
+    ${layering.length > 1 ? `- Layer the upper body from inside to outside: ${layering.join(' under ')}. Inner layers stay visible only where the outer layer leaves them open.` : ''}
+    ${!coversUpperBody ? "- Keep the person's current upper-body clothing unchanged." : ''}
+    ${!covered.includes('bottom') ? "- Keep the person's current clothing below the waist unchanged." : ''}
+    ${DESIGN_CONSTRAINTS}
+
+    PRESERVATION RULES:
+    - Keep the user's face, hair, hands, feet, and original background 100% identical.
+    - Only replace the clothing named above. Ensure a clean transition at the waist, neck, and ankles.
+
+    FINAL CHECK: Compare each generated piece to its product image. They must be identical in structure and features.
+    ${OUTPUT_RULES}
+  `;
+}
+
+// Nur Leggings: Bund, Länge und Blickdichte sind die häufigsten Abweichungen
+function buildLeggingsPrompt(garments: GarmentInput[]): string {
+  return `
+    CRITICAL TASK: Absolute High-Fidelity Virtual Try-On of leggings.
+
+    Image 1 shows the person. The following image shows the leggings to apply:
+    ${listGarments(garments)}
+
+    LEGGINGS RULES:
+    - Reproduce the waistband exactly: height relative to the navel, width, and any fold or seam on it.
+    - Keep the exact leg length of the product (full length, 7/8 or capri) measured against the person's ankles.
+    - Keep the fabric opaque wherever the product image is opaque; do not add sheerness at the knees or seat.
+    - Keep the person's current upper-body clothing unchanged.
+    ${DESIGN_CONSTRAINTS}
+
+    PRESERVATION RULES:
+    - Keep the user's face, hair, hands, feet, shoes, and original background 100% identical.
+    - Ensure a clean transition at the waist and ankles.
+    ${OUTPUT_RULES}
+  `;
+}
+
+// Nur Oberteile: Saumhöhe und Träger entscheiden, ob ein Crop-Top als solches erkennbar bleibt
+function buildCropTopPrompt(garments: GarmentInput[]): string {
+  const covered = garments.flatMap(garment => garment.slots);
+  const layering = LAYER_ORDER.filter(slot => covered.includes(slot));
+
+  return `
+    CRITICAL TASK: Absolute High-Fidelity Virtual Try-On of upper-body sportswear.
+
+    Image 1 shows the person. The following images show the products to apply:
+    ${listGarments(garments)}
+
+    UPPER-BODY RULES:
+    - Keep the exact hem height of every piece: cropped pieces MUST end at the same point of the torso as in the product image and leave the midriff visible.
+    - Reproduce straps, racerback cut-outs and neckline shape exactly.
+    ${layering.length > 1 ? `- Layer from inside to outside: ${layering.join(' under ')}.` : ''}
+    - Keep the person's current clothing below the waist unchanged.
+    ${DESIGN_CONSTRAINTS}
+
+    PRESERVATION RULES:
+    - Keep the user's face, hair, hands, visible skin, and original background 100% identical.
+    - Ensure a clean transition at the neck, shoulders and hem.
+    ${OUTPUT_RULES}
+  `;
+}
+
+// Sitz je Maß für die Anpassungsvorschau – beschreibt die sichtbare Spannung, nicht die Zahl
+const FIT_DESCRIPTIONS: Record<MeasurementDimension, Record<FitLevel, string>> = {
+  waist: {
+    tight: 'the waistband is too small: it presses visibly into the waist and the fabric above it bulges slightly',
+    snug: 'the waistband hugs the waist firmly with a little compression',
+    regular: 'the waistband lies flat and smooth against the waist',
+    relaxed: 'the waistband sits slightly loose with a hint of slack',
+    loose: 'the waistband is too big: it gaps away from the waist and may roll or slide down',
+  },
+  hip: {
+    tight: 'the fabric is stretched hard over hips and seat, seams are pulled and the fabric looks thinner there',
+    snug: 'a close, compressive fit over hips and seat without visible strain',
+    regular: 'a smooth second-skin fit over hips and seat',
+    relaxed: 'a little ease over hips and seat with a few soft folds',
+    loose: 'visible excess fabric with wrinkles and sagging at hips and seat',
+  },
+  inseam: {
+    tight: 'the legs are too short and end clearly above the ankle bone',
+    snug: 'the hem ends just at the ankle bone',
+    regular: 'the hem ends at the ankle exactly as in the product image',
+    relaxed: 'the legs are slightly long with light bunching at the ankle',
+    loose: 'the legs are too long with clear fabric stacking over the ankles',
+  },
+};
+
+const FIT_AREAS: Record<MeasurementDimension, string> = {
+  waist: 'Waistband',
+  hip: 'Hips and seat',
+  inseam: 'Length',
+};
+
+// Wird an jede Vorlage angehängt, damit die Vorschau in allen Vorlagen gleich funktioniert
+function describeFit(fit: FitSpec): string {
+  const target = fit.productName ? quoteName(fit.productName) : 'the products';
+  const others = fit.productName ? `\n    - Only ${target} changes size. Render every other garment exactly as in a regular try-on.` : '';
+  return `
+    SIZE AND FIT:
+    - Show ${target} in size ${fit.size}. Keep the design identical; change only how the fabric sits on the body.${others}
+    ${fit.hints.map(hint => `- ${FIT_AREAS[hint.dimension]}: ${FIT_DESCRIPTIONS[hint.dimension][hint.level]}.`).join('\n    ')}
+    - Render the fit realistically, but never distort the person's body shape.
+  `;
+}
+
+const UPPER_BODY: GarmentCategory[] = ['bra', 'top'];
+
+// Spezifische Vorlagen zuerst – die erste passende ID gewinnt
+const TEMPLATES: PromptTemplate[] = [
+  { id: 'leggings', version: 1, appliesTo: slots => slots.every(slot => slot === 'bottom'), build: buildLeggingsPrompt },
+  { id: 'crop-top', version: 1, appliesTo: slots => slots.every(slot => UPPER_BODY.includes(slot)), build: buildCropTopPrompt },
+  { id: 'outfit', version: 1, build: buildOutfitPrompt },
+];
+
+// Ohne aktives Experiment erhalten alle Sitzungen diese Einstellungen
+const DEFAULT_ARM: ExperimentArm = {
+  name: 'default',
+  weight: 1,
+  // Minimum temperature to ensure consistent, non-creative reproduction
+  generation: { temperature: 0.1 },
+};
+
+const EXPERIMENTS: Experiment[] = [
+  {
+    id: 'tryon-temperature',
+    arms: [
+      { ...DEFAULT_ARM, name: 'control', weight: 50 },
+      { ...DEFAULT_ARM, name: 'zero-temperature', weight: 50, generation: { temperature: 0, topP: 0.8 } },
+    ],
+  },
+];
+
+// FNV-1a: schnell, ohne Abhängigkeiten und auf jeder Plattform gleich
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+export function getActiveExperiment(): Experiment | null {
+  const id = SERVER_CONFIG.PROMPT_EXPERIMENT;
+  return EXPERIMENTS.find(experiment => experiment.id === id) || null;
+}
+
+/**
+ * Ordnet eine Sitzung deterministisch einem Arm zu: dieselbe Sitzung landet im selben Experiment
+ * immer im selben Arm, verschiedene Experimente verteilen unabhängig voneinander.
+ */
+export function assignArm(experiment: Experiment, sessionId: string): ExperimentArm {
+  const total = experiment.arms.reduce((sum, arm) => sum + arm.weight, 0);
+  let bucket = hash(`${experiment.id}:${sessionId}`) % total;
+  for (const arm of experiment.arms) {
+    if (bucket < arm.weight) return arm;
+    bucket -= arm.weight;
+  }
+  return experiment.arms[experiment.arms.length - 1];
+}
+
+function selectTemplate(slots: GarmentCategory[], versions: Record<string, number> = {}): PromptTemplate {
+  const match = TEMPLATES.find(template => !template.appliesTo || template.appliesTo(slots))!;
+  const candidates = TEMPLATES.filter(template => template.id === match.id);
+  const pinned = versions[match.id];
+  const template = pinned
+    ? candidates.find(candidate => candidate.version === pinned)
+    : candidates.reduce((latest, candidate) => candidate.version > latest.version ? candidate : latest);
+  if (!template) {
+    throw new Error(`Prompt-Vorlage ${match.id}@${pinned} ist nicht registriert.`);
+  }
+  return template;
+}
+
+export function resolveTryOnPrompt(garments: GarmentInput[], sessionId: string, fit?: FitSpec): ResolvedPrompt {
+  const experiment = getActiveExperiment();
+  const arm = experiment ? assignArm(experiment, sessionId) : DEFAULT_ARM;
+  const template = selectTemplate(garments.flatMap(garment => garment.slots), arm.promptVersions);
+  const model = arm.model || SERVER_CONFIG.TRY_ON_MODEL;
+  return {
+    text: fit ? template.build(garments) + describeFit(fit) : template.build(garments),
+    model,
+    generation: arm.generation,
+    variant: {
+      promptId: template.id,
+      promptVersion: template.version,
+      model,
+      experiment: experiment?.id || null,
+      arm: arm.name,
+    },
+  };
+}
+
+// Die Größenschätzung hat keine Experimente, ihr Modell kommt trotzdem aus derselben Stelle
+export function resolveSizeModel(): string {
+  return SERVER_CONFIG.SIZE_MODEL;
+}
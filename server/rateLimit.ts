@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import type { KvStore } from './kvStore';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  check(clientId: string): RateLimitResult;
+  // Wie check, zählt aber nicht mit – z.B. um nur Fehlversuche zu zählen
+  peek(clientId: string): RateLimitResult;
+}
+
+// Fixed-Window-Limiter im Speicher. Reicht pro Function-Instanz; für mehrere Instanzen bräuchte es einen Shared Store.
+export function createRateLimiter(options: { windowMs: number; max: number; now?: () => number }): RateLimiter {
+  const { windowMs, max, now = Date.now } = options;
+  const windows = new Map<string, { start: number; count: number }>();
+
+  const evaluate = (clientId: string, count: boolean): RateLimitResult => {
+    const t = now();
+    let entry = windows.get(clientId);
+    if (!entry || t - entry.start >= windowMs) {
+      entry = { start: t, count: 0 };
+      windows.set(clientId, entry);
+    }
+
+    // Abgelaufene Fenster gelegentlich aufräumen, damit die Map nicht unbegrenzt wächst
+    if (windows.size > 5000) {
+      for (const [id, w] of windows) {
+        if (t - w.start >= windowMs) windows.delete(id);
+      }
+    }
+
+    if (entry.count >= max) {
+      return { allowed: false, remaining: 0, retryAfterMs: entry.start + windowMs - t };
+    }
+    if (count) entry.count++;
+    return { allowed: true, remaining: max - entry.count, retryAfterMs: 0 };
+  };
+
+  return {
+    check: clientId => evaluate(clientId, true),
+    peek: clientId => evaluate(clientId, false),
+  };
+}
+
+export interface DailyQuota {
+  used(key: string): Promise<number>;
+  consume(key: string): Promise<void>;
+}
+
+const today = (now: () => number) => new Date(now()).toISOString().slice(0, 10);
+
+/**
+ * Zähler pro Kalendertag (UTC) im Speicher der Instanz. Gilt nur auf einem dauerhaft laufenden Server –
+ * auf Serverless-Hosting zählt jede Function-Instanz für sich, dort createSharedDailyQuota nehmen.
+ */
+export function createDailyQuota(now: () => number = Date.now): DailyQuota {
+  let day = '';
+  let counts = new Map<string, number>();
+
+  const rollOver = () => {
+    if (today(now) !== day) {
+      day = today(now);
+      counts = new Map();
+    }
+  };
+
+  return {
+    async used(key: string) {
+      rollOver();
+      return counts.get(key) || 0;
+    },
+    async consume(key: string) {
+      rollOver();
+      counts.set(key, (counts.get(key) || 0) + 1);
+    },
+  };
+}
+
+// Tageszähler im KV-Speicher, gemeinsam für alle Instanzen; Schlüssel laufen nach zwei Tagen ab
+export function createSharedDailyQuota(kv: KvStore, now: () => number = Date.now): DailyQuota {
+  // Client-IDs (IP-Adressen) nur als Hash ablegen
+  const keyFor = (key: string) => `better-future:quota:${today(now)}:${createHash('sha256').update(key).digest('hex').slice(0, 32)}`;
+
+  return {
+    async used(key: string) {
+      const [value] = await kv.pipeline([['GET', keyFor(key)]]);
+      return Number(value) || 0;
+    },
+    async consume(key: string) {
+      await kv.pipeline([['INCR', keyFor(key)], ['EXPIRE', keyFor(key), 2 * 24 * 60 * 60]]);
+    },
+  };
+}
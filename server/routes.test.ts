@@ -0,0 +1,163 @@
+import { EventEmitter } from 'events';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getClientId } from './http';
+import { createMockAdapter } from './mockAdapter';
+import { setModelAdapter } from './modelAdapter';
+import { handleTryOn } from './routes';
+
+const USER_IMAGE = 'data:image/jpeg;base64,/9j/4AAQ';
+const GARMENT = { productName: 'Sky Blue Yoga Set', image: 'data:image/png;base64,iVBORw0K', slots: ['top', 'bottom'], isSet: true };
+
+interface RequestOptions {
+  method?: string;
+  body?: unknown;
+  // Body, den die Plattform schon gelesen hat (Vercel), statt des Streams
+  preParsed?: unknown;
+  address?: string;
+  headers?: Record<string, string>;
+}
+
+function request({ method = 'POST', body, preParsed, address = '203.0.113.1', headers = {} }: RequestOptions): IncomingMessage {
+  const raw = body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body);
+  const req = Readable.from(raw ? [Buffer.from(raw)] : []) as unknown as IncomingMessage & { body?: unknown };
+  Object.assign(req, { method, url: '/api/try-on', headers, socket: { remoteAddress: address } });
+  if (preParsed !== undefined) req.body = preParsed;
+  return req;
+}
+
+interface CapturedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: any;
+}
+
+async function call(options: RequestOptions): Promise<CapturedResponse> {
+  const captured: CapturedResponse = { status: 0, headers: {}, body: null };
+  const res = Object.assign(new EventEmitter(), {
+    statusCode: 200,
+    writableEnded: false,
+    setHeader: (key: string, value: string) => { captured.headers[key.toLowerCase()] = value; },
+    end(chunk?: string) {
+      this.writableEnded = true;
+      captured.status = this.statusCode;
+      captured.body = chunk ? JSON.parse(chunk) : null;
+    },
+  });
+  await handleTryOn(request(options), res as unknown as ServerResponse);
+  return captured;
+}
+
+const tryOnBody = { userImage: USER_IMAGE, garments: [GARMENT], sessionId: 'session-1234' };
+let settingsDir: string;
+let clients = 0;
+// Jeder Test bekommt eine eigene Adresse, damit Rate- und Tageslimits sich nicht gegenseitig beeinflussen
+const nextAddress = () => `198.51.100.${++clients}`;
+
+beforeAll(() => {
+  settingsDir = mkdtempSync(join(tmpdir(), 'bf-settings-'));
+  writeFileSync(join(settingsDir, 'settings.json'), JSON.stringify({ limits: { perDay: null, perClientPerDay: 1 } }));
+  vi.stubEnv('SETTINGS_FILE', join(settingsDir, 'settings.json'));
+  vi.stubEnv('MODEL_ADAPTER', 'mock');
+  vi.stubEnv('KV_REST_API_URL', '');
+  vi.stubEnv('UPSTASH_REDIS_REST_URL', '');
+  vi.spyOn(console, 'info').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => setModelAdapter(createMockAdapter(0)));
+
+afterAll(() => {
+  setModelAdapter(null);
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  rmSync(settingsDir, { recursive: true, force: true });
+});
+
+describe('handleTryOn mit Mock-Adapter', () => {
+  beforeAll(() => setModelAdapter(createMockAdapter(0)));
+
+  it('liefert das Ergebnis und die Variante', async () => {
+    const response = await call({ body: tryOnBody, address: nextAddress() });
+    expect(response.status).toBe(200);
+    expect(response.body.image).toBe(USER_IMAGE);
+    expect(response.body.variant).toMatchObject({ promptId: expect.any(String), model: expect.any(String) });
+  });
+
+  it('akzeptiert einen von der Plattform schon geparsten Body', async () => {
+    const response = await call({ preParsed: tryOnBody, address: nextAddress() });
+    expect(response.status).toBe(200);
+  });
+
+  it.each([
+    ['Stream', { body: '{"userImage": ' }],
+    ['vorab gelesener String', { preParsed: '{"userImage": ' }],
+  ])('antwortet auf kaputtes JSON (%s) mit 400', async (_, options) => {
+    const response = await call({ ...options, address: nextAddress() });
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe('BAD_REQUEST');
+  });
+
+  it.each([
+    ['null im Stream', { body: 'null' }],
+    ['Array im Stream', { body: '[]' }],
+    ['vorab gelesenes null', { preParsed: null }],
+    ['vorab gelesenes Array', { preParsed: [] }],
+    ['Zahl', { body: '42' }],
+  ])('antwortet auf einen Body ohne JSON-Objekt (%s) mit 400', async (_, options) => {
+    const response = await call({ ...options, address: nextAddress() });
+    expect(response).toMatchObject({ status: 400, body: { error: { code: 'INVALID_REQUEST' } } });
+  });
+
+  it('prüft Methode und Pflichtfelder', async () => {
+    expect((await call({ method: 'GET', address: nextAddress() })).status).toBe(405);
+    const response = await call({ body: { userImage: USER_IMAGE, garments: [] }, address: nextAddress() });
+    expect(response).toMatchObject({ status: 400, body: { error: { code: 'BAD_REQUEST' } } });
+  });
+
+  it('nimmt eine Passform für ein einzelnes Teil an', async () => {
+    const fit = { size: 'M', hints: [{ dimension: 'waist', level: 'snug' }], productName: 'Sky Blue Leggings' };
+    expect((await call({ body: { ...tryOnBody, fit }, address: nextAddress() })).status).toBe(200);
+    const invalid = await call({ body: { ...tryOnBody, fit: { ...fit, productName: '' } }, address: nextAddress() });
+    expect(invalid).toMatchObject({ status: 400, body: { error: { code: 'BAD_REQUEST' } } });
+  });
+
+  it('lehnt zu große Anfragen ab', async () => {
+    const response = await call({ body: tryOnBody, address: nextAddress(), headers: { 'content-length': String(100 * 1024 * 1024) } });
+    expect(response.status).toBe(413);
+  });
+
+  it('gibt interne Fehlermeldungen nicht an den Client weiter', async () => {
+    setModelAdapter({ ...createMockAdapter(0), tryOn: async () => { throw new Error('ENOENT /var/task/secret.json'); } });
+    const response = await call({ body: tryOnBody, address: nextAddress() });
+    expect(response.status).toBe(500);
+    expect(response.body.error.code).toBe('INTERNAL');
+    expect(JSON.stringify(response.body)).not.toContain('secret');
+  });
+
+  it('zählt das Tageslimit pro Verbindung, auch mit wechselndem X-Forwarded-For', async () => {
+    const address = nextAddress();
+    expect((await call({ body: tryOnBody, address, headers: { 'x-forwarded-for': '192.0.2.1' } })).status).toBe(200);
+    const second = await call({ body: tryOnBody, address, headers: { 'x-forwarded-for': '192.0.2.2' } });
+    expect(second).toMatchObject({ status: 429, body: { error: { code: 'DAILY_LIMIT_REACHED' } } });
+  });
+});
+
+describe('getClientId', () => {
+  afterEach(() => vi.stubEnv('VERCEL', ''));
+
+  it('ignoriert X-Forwarded-For außerhalb von Vercel', () => {
+    expect(getClientId(request({ address: '203.0.113.7', headers: { 'x-forwarded-for': '192.0.2.1' } }))).toBe('203.0.113.7');
+  });
+
+  it('nutzt auf Vercel die von der Plattform gesetzte Adresse', () => {
+    vi.stubEnv('VERCEL', '1');
+    const headers = { 'x-forwarded-for': '192.0.2.1', 'x-vercel-forwarded-for': '203.0.113.9', 'x-real-ip': '203.0.113.9' };
+    expect(getClientId(request({ address: '10.0.0.1', headers }))).toBe('203.0.113.9');
+    expect(getClientId(request({ address: '10.0.0.1', headers: { 'x-real-ip': '203.0.113.10' } }))).toBe('203.0.113.10');
+  });
+});
@@ -0,0 +1,269 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { SERVER_CONFIG } from './config';
+import { ApiHandler, HttpError, assertMethod, getClientId, readJsonBody, sendBinary, sendError, sendJson } from './http';
+import { fetchProductImage } from './imageProxy';
+import { getKvStore } from './kvStore';
+import type { FitHint, FitLevel, FitSpec, GarmentCategory, MeasurementDimension, RenderVariant } from '../types';
+import { GarmentInput, getModelAdapter } from './modelAdapter';
+import { resolveTryOnPrompt } from './promptRegistry';
+import { DailyQuota, RateLimitResult, RateLimiter, createDailyQuota, createRateLimiter, createSharedDailyQuota } from './rateLimit';
+import { loadSettings, saveSettings } from './settingsStore';
+
+// Limiter erst beim ersten Request anlegen, damit lokal gesetzte Env-Variablen greifen
+const limiters = new Map<string, RateLimiter>();
+
+function getLimiter(bucket: string, max: number): RateLimiter {
+  let limiter = limiters.get(bucket);
+  if (!limiter) {
+    limiter = createRateLimiter({ windowMs: SERVER_CONFIG.RATE_LIMIT_WINDOW_MS, max });
+    limiters.set(bucket, limiter);
+  }
+  return limiter;
+}
+
+function rejectIfLimited(result: RateLimitResult) {
+  if (!result.allowed) {
+    throw new HttpError(429, 'RATE_LIMITED', "Zu viele Anfragen. Bitte warte einen Moment.", {
+      'Retry-After': String(Math.ceil(result.retryAfterMs / 1000)),
+    });
+  }
+}
+
+function enforceRateLimit(bucket: string, max: number, clientId: string) {
+  rejectIfLimited(getLimiter(bucket, max).check(clientId));
+}
+
+const localTryOns = createDailyQuota();
+const ALL_CLIENTS = '*';
+
+// Mit KV-Speicher zählen alle Instanzen gemeinsam, sonst nur diese (reicht nur auf einem dauerhaft laufenden Server)
+function dailyTryOns(): DailyQuota {
+  const kv = getKvStore();
+  return kv ? createSharedDailyQuota(kv) : localTryOns;
+}
+
+// Tageslimits aus den Händler-Einstellungen: gesamt und je Client, gezählt wird jeder angenommene Auftrag
+async function enforceDailyLimits(clientId: string) {
+  const { limits } = await loadSettings();
+  const quota = dailyTryOns();
+  const exceeded = (limits.perDay !== null && await quota.used(ALL_CLIENTS) >= limits.perDay)
+    || (limits.perClientPerDay !== null && await quota.used(clientId) >= limits.perClientPerDay);
+  if (exceeded) {
+    throw new HttpError(429, 'DAILY_LIMIT_REACHED', 'Das Tageslimit für Anproben ist erreicht. Bitte versuche es morgen wieder.');
+  }
+  await Promise.all([quota.consume(ALL_CLIENTS), quota.consume(clientId)]);
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+// Passwort kommt als Bearer-Token; verglichen werden die Hashes in konstanter Zeit
+function hasAdminToken(req: IncomingMessage): boolean {
+  const password = SERVER_CONFIG.ADMIN_PASSWORD;
+  const header = req.headers.authorization || '';
+  if (!password || !header.startsWith('Bearer ')) return false;
+  return timingSafeEqual(digest(header.slice('Bearer '.length)), digest(password));
+}
+
+function requireAdmin(req: IncomingMessage) {
+  if (!SERVER_CONFIG.ADMIN_PASSWORD) {
+    throw new HttpError(503, 'ADMIN_DISABLED', 'Der Admin-Bereich ist nicht eingerichtet (ADMIN_PASSWORD fehlt).');
+  }
+  // Gezählt werden nur Fehlversuche; wer sie ausgeschöpft hat, wird bis zum Ende des Fensters abgewiesen
+  const failures = getLimiter('admin-failures', SERVER_CONFIG.ADMIN_RATE_LIMIT);
+  const clientId = getClientId(req);
+  rejectIfLimited(failures.peek(clientId));
+  if (!hasAdminToken(req)) {
+    failures.check(clientId);
+    throw new HttpError(401, 'UNAUTHORIZED', 'Falsches Passwort.');
+  }
+}
+
+function requireImage(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !/^data:image\/[a-z0-9.+-]+;base64,/i.test(value)) {
+    throw new HttpError(400, 'BAD_REQUEST', `Feld "${field}" muss ein Bild als Data-URL sein.`);
+  }
+  return value;
+}
+
+function requireString(value: unknown, field: string, maxLength = 200): string {
+  if (typeof value !== 'string' || !value.trim() || value.length > maxLength) {
+    throw new HttpError(400, 'BAD_REQUEST', `Feld "${field}" fehlt oder ist ungültig.`);
+  }
+  return value.trim();
+}
+
+function optionalNumber(value: unknown, field: string, min: number, max: number): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || value < min || value > max) {
+    throw new HttpError(400, 'BAD_REQUEST', `Feld "${field}" ist ungültig.`);
+  }
+  return value;
+}
+
+function optionalSessionId(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' || !/^[a-z0-9-]{8,64}$/i.test(value)) {
+    throw new HttpError(400, 'BAD_REQUEST', 'Feld "sessionId" ist ungültig.');
+  }
+  return value;
+}
+
+const GARMENT_SLOTS: GarmentCategory[] = ['bra', 'top', 'bottom', 'jacket'];
+const MAX_GARMENTS = GARMENT_SLOTS.length;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Jeder Slot darf nur von einem Produktbild belegt werden
+function requireGarments(value: unknown): GarmentInput[] {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_GARMENTS) {
+    throw new HttpError(400, 'BAD_REQUEST', `Feld "garments" muss 1 bis ${MAX_GARMENTS} Kleidungsstücke enthalten.`);
+  }
+  const used = new Set<GarmentCategory>();
+  return value.map((entry: unknown, index) => {
+    if (!isRecord(entry)) {
+      throw new HttpError(400, 'BAD_REQUEST', `Feld "garments[${index}]" ist ungültig.`);
+    }
+    const slots: unknown = entry.slots;
+    const isSlot = (slot: unknown): slot is GarmentCategory => GARMENT_SLOTS.includes(slot as GarmentCategory) && !used.has(slot as GarmentCategory);
+    if (!Array.isArray(slots) || slots.length === 0 || !slots.every(isSlot)) {
+      throw new HttpError(400, 'BAD_REQUEST', `Feld "garments[${index}].slots" ist ungültig.`);
+    }
+    slots.forEach(slot => used.add(slot));
+    return {
+      productName: requireString(entry.productName, `garments[${index}].productName`),
+      image: requireImage(entry.image, `garments[${index}].image`),
+      slots,
+      isSet: entry.isSet === true,
+    };
+  });
+}
+
+const FIT_DIMENSIONS: MeasurementDimension[] = ['waist', 'hip', 'inseam'];
+const FIT_LEVELS: FitLevel[] = ['tight', 'snug', 'regular', 'relaxed', 'loose'];
+
+// Nur für die Anpassungsvorschau: Größe und Sitz je Maß, jedes Maß höchstens einmal
+function optionalFit(value: unknown): FitSpec | undefined {
+  if (value === undefined || value === null) return undefined;
+  const size = isRecord(value) ? value.size : undefined;
+  if (!isRecord(value) || typeof size !== 'string' || !/^[a-z0-9]{1,8}$/i.test(size)) {
+    throw new HttpError(400, 'BAD_REQUEST', 'Feld "fit.size" ist ungültig.');
+  }
+  const hints = value.hints;
+  const valid = (hint: unknown): hint is FitHint => isRecord(hint)
+    && FIT_DIMENSIONS.includes(hint.dimension as MeasurementDimension) && FIT_LEVELS.includes(hint.level as FitLevel);
+  if (!Array.isArray(hints) || hints.length > FIT_DIMENSIONS.length || !hints.every(valid)
+    || new Set(hints.map(hint => hint.dimension)).size !== hints.length) {
+    throw new HttpError(400, 'BAD_REQUEST', 'Feld "fit.hints" ist ungültig.');
+  }
+  const productName = value.productName === undefined ? undefined : requireString(value.productName, 'fit.productName');
+  return { size, hints: hints.map(({ dimension, level }) => ({ dimension, level })), productName };
+}
+
+// Bricht den Modell-Aufruf ab, wenn der Client vor der Antwort aufgibt (Abbrechen-Button, Timeout)
+function abortOnDisconnect(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+}
+
+// Eine Zeile pro Anprobe – Grundlage für Qualitäts- und Fehlerquoten je Variante
+function logTryOn(variant: RenderVariant, outcome: string, startedAt: number) {
+  console.info(JSON.stringify({ event: 'try-on', ...variant, outcome, durationMs: Date.now() - startedAt }));
+}
+
+function withErrors(handler: ApiHandler): ApiHandler {
+  return async (req, res) => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+}
+
+export const handleTryOn: ApiHandler = withErrors(async (req, res) => {
+  assertMethod(req, 'POST');
+  enforceRateLimit('try-on', SERVER_CONFIG.TRY_ON_RATE_LIMIT, getClientId(req));
+
+  const body = await readJsonBody<Record<string, unknown>>(req, SERVER_CONFIG.MAX_BODY_BYTES);
+  const userImage = requireImage(body.userImage, 'userImage');
+  const garments = requireGarments(body.garments);
+  const fit = optionalFit(body.fit);
+  // Studio-Läufe des Händlers zählen nicht gegen die Tageslimits der Kunden
+  if (!hasAdminToken(req)) await enforceDailyLimits(getClientId(req));
+  // Ältere Clients senden keine Sitzung – dann verteilt die Client-IP
+  const prompt = resolveTryOnPrompt(garments, optionalSessionId(body.sessionId) || getClientId(req), fit);
+  const startedAt = Date.now();
+
+  let image: string;
+  try {
+    image = await getModelAdapter().tryOn({ userImage, garments, prompt, signal: abortOnDisconnect(res) });
+  } catch (error) {
+    logTryOn(prompt.variant, error instanceof HttpError ? error.code : 'INTERNAL', startedAt);
+    throw error;
+  }
+  logTryOn(prompt.variant, 'OK', startedAt);
+
+  sendJson(res, 200, { image, variant: prompt.variant });
+});
+
+export const handleSizeEstimate: ApiHandler = withErrors(async (req, res) => {
+  assertMethod(req, 'POST');
+  enforceRateLimit('size-estimate', SERVER_CONFIG.SIZE_RATE_LIMIT, getClientId(req));
+
+  const body = await readJsonBody<Record<string, unknown>>(req, SERVER_CONFIG.MAX_BODY_BYTES);
+  const estimate = await getModelAdapter().estimateBody({
+    userImage: requireImage(body.userImage, 'userImage'),
+    heightCm: optionalNumber(body.heightCm, 'heightCm', 100, 230),
+    weightKg: optionalNumber(body.weightKg, 'weightKg', 30, 250),
+    signal: abortOnDisconnect(res),
+  });
+
+  sendJson(res, 200, { estimate });
+});
+
+// Produktbilder über die eigene Domain – ersetzt den externen Bild-Proxy, nur für freigegebene Hosts
+export const handleProductImage: ApiHandler = withErrors(async (req, res) => {
+  assertMethod(req, 'GET');
+  enforceRateLimit('image', SERVER_CONFIG.IMAGE_RATE_LIMIT, getClientId(req));
+  const url = new URL(req.url || '', 'http://localhost').searchParams.get('url');
+  if (!url) throw new HttpError(400, 'BAD_REQUEST', 'Parameter "url" fehlt.');
+  const image = await fetchProductImage(url);
+  sendBinary(res, 200, image.body, image.contentType, {
+    'Cache-Control': 'public, max-age=86400, s-maxage=604800',
+    'Content-Security-Policy': "default-src 'none'",
+  });
+});
+
+// Öffentlich: die App lädt die Einstellungen beim Start
+export const handleSettings: ApiHandler = withErrors(async (req, res) => {
+  assertMethod(req, 'GET');
+  sendJson(res, 200, { settings: await loadSettings() });
+});
+
+export const handleAdminSettings: ApiHandler = withErrors(async (req, res) => {
+  requireAdmin(req);
+  if (req.method === 'PUT') {
+    const body = await readJsonBody<Record<string, unknown>>(req, SERVER_CONFIG.MAX_BODY_BYTES);
+    const settings = await saveSettings(body.settings);
+    sendJson(res, 200, { settings, usage: { today: await dailyTryOns().used(ALL_CLIENTS) } });
+    return;
+  }
+  assertMethod(req, 'GET');
+  sendJson(res, 200, { settings: await loadSettings(), usage: { today: await dailyTryOns().used(ALL_CLIENTS) } });
+});
+
+export const API_ROUTES: Record<string, ApiHandler> = {
+  '/api/try-on': handleTryOn,
+  '/api/size-estimate': handleSizeEstimate,
+  '/api/product-image': handleProductImage,
+  '/api/settings': handleSettings,
+  '/api/admin/settings': handleAdminSettings,
+};
@@ -0,0 +1,95 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import type { StoreSettings } from '../types';
+import { DEFAULT_SETTINGS, validateSettings } from '../services/settingsSchema';
+import { SERVER_CONFIG } from './config';
+import { HttpError } from './http';
+import { getKvStore } from './kvStore';
+
+const SETTINGS_KEY = 'better-future:settings';
+// Mit gemeinsamem Speicher sehen andere Instanzen Änderungen spätestens nach dieser Zeit
+const SHARED_CACHE_MS = 30_000;
+
+// Gelesene Einstellungen bleiben im Speicher; aus der Datei bis zum nächsten Kaltstart, aus dem KV-Speicher für SHARED_CACHE_MS
+let cached: { settings: StoreSettings; expiresAt: number } | null = null;
+
+function settingsPath(): string {
+  return resolve(process.cwd(), SERVER_CONFIG.SETTINGS_FILE);
+}
+
+function remember(settings: StoreSettings, shared: boolean): StoreSettings {
+  cached = { settings, expiresAt: shared ? Date.now() + SHARED_CACHE_MS : Infinity };
+  return settings;
+}
+
+// Rohdaten aus dem KV-Speicher, sonst aus SETTINGS_FILE; null, wenn noch nichts gespeichert ist
+async function readRaw(): Promise<string | null> {
+  const kv = getKvStore();
+  if (kv) return kv.get(SETTINGS_KEY);
+  try {
+    return await readFile(settingsPath(), 'utf8');
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') console.error('Settings file unreadable:', error);
+    return null;
+  }
+}
+
+/**
+ * Liest die Einstellungen. Fehlen sie, gelten die Standardwerte; sind sie kaputt oder
+ * teilweise ungültig, werden nur die gültigen Teile übernommen – der Shop bleibt erreichbar.
+ */
+export async function loadSettings(): Promise<StoreSettings> {
+  if (cached && cached.expiresAt > Date.now()) return cached.settings;
+  const shared = !!getKvStore();
+  let raw: string | null;
+  try {
+    raw = await readRaw();
+  } catch (error) {
+    // Speicher kurz nicht erreichbar: mit dem letzten Stand weiterarbeiten
+    if (cached) return cached.settings;
+    throw error;
+  }
+  if (raw === null) return remember(DEFAULT_SETTINGS, shared);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    console.error('Settings are not valid JSON, using defaults:', error);
+    return remember(DEFAULT_SETTINGS, shared);
+  }
+  const { settings, issues } = validateSettings(parsed);
+  if (issues.length > 0) {
+    console.warn(JSON.stringify({ event: 'settings-issues', issues: issues.map(issue => `${issue.path}: ${issue.message.key}`) }));
+  }
+  return remember(settings, shared);
+}
+
+// Speichert nur vollständig gültige Einstellungen – im KV-Speicher, sonst in SETTINGS_FILE
+export async function saveSettings(input: unknown): Promise<StoreSettings> {
+  const { settings, issues } = validateSettings(input);
+  if (issues.length > 0) {
+    const summary = issues.slice(0, 5).map(issue => `${issue.path}: ${issue.message.key}`).join('; ');
+    throw new HttpError(400, 'INVALID_SETTINGS', `Die Einstellungen sind ungültig (${summary}).`);
+  }
+
+  const next: StoreSettings = { ...settings, updatedAt: new Date().toISOString() };
+  const kv = getKvStore();
+  if (kv) {
+    await kv.set(SETTINGS_KEY, JSON.stringify(next));
+    return remember(next, true);
+  }
+
+  // Ohne KV-Speicher in die Datei: erst temporär schreiben, dann umbenennen
+  const path = settingsPath();
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(`${path}.tmp`, `${JSON.stringify(next, null, 2)}\n`, 'utf8');
+    await rename(`${path}.tmp`, path);
+  } catch (error: any) {
+    console.error('Settings file not writable:', error);
+    // Typisch für Serverless-Hosting: Dateisystem nur lesbar, dort braucht es den KV-Speicher
+    throw new HttpError(503, 'SETTINGS_READ_ONLY', 'Die Einstellungen können auf diesem Server nicht gespeichert werden (KV_REST_API_URL fehlt).');
+  }
+  return remember(next, false);
+}
@@ -0,0 +1,56 @@
+interface RadioKeyEvent {
+  key: string;
+  currentTarget: HTMLElement;
+  preventDefault: () => void;
+}
+
+const NEXT_KEYS = ['ArrowRight', 'ArrowDown'];
+const PREVIOUS_KEYS = ['ArrowLeft', 'ArrowUp'];
+
+/**
+ * Tastatursteuerung einer Radiogruppe nach WAI-ARIA, am Container registriert: Pfeiltasten springen
+ * zum nächsten bzw. vorigen Eintrag (mit Umlauf), Pos1/Ende zum ersten bzw. letzten. Der neue Eintrag
+ * bekommt den Fokus und wird per Klick ausgewählt, damit die Auswahl denselben Weg nimmt wie mit der Maus.
+ */
+export function handleRadioGroupKeyDown(event: RadioKeyEvent) {
+  const radios = Array.from(event.currentTarget.querySelectorAll<HTMLElement>('[role="radio"]'));
+  if (radios.length === 0) return;
+  const current = radios.findIndex(radio => radio === document.activeElement);
+  let next: number;
+  if (NEXT_KEYS.includes(event.key)) next = (current + 1) % radios.length;
+  else if (PREVIOUS_KEYS.includes(event.key)) next = (Math.max(current, 0) - 1 + radios.length) % radios.length;
+  else if (event.key === 'Home') next = 0;
+  else if (event.key === 'End') next = radios.length - 1;
+  else return;
+  event.preventDefault();
+  radios[next].focus();
+  radios[next].click();
+}
+
+// Nur der ausgewählte Eintrag ist per Tab erreichbar; ohne Auswahl der erste
+export function rovingTabIndex(isSelected: boolean, index: number, hasSelection: boolean): 0 | -1 {
+  return isSelected || (!hasSelection && index === 0) ? 0 : -1;
+}
+
+// Leertaste und Enter lösen bei Elementen mit Rolle (statt nativem Button) die Auswahl aus
+export function isActivationKey(key: string): boolean {
+  return key === ' ' || key === 'Enter';
+}
+
+/**
+ * Setzt den Fokus auf die mit data-step-heading markierte Überschrift im Container, damit Screenreader
+ * einen Schritt- oder Ansichtswechsel ansagen und die Tastatur dort weitermacht.
+ */
+export function focusStepHeading(container: HTMLElement | null) {
+  const heading = container?.querySelector<HTMLElement>('[data-step-heading]');
+  if (!heading) return;
+  if (!heading.hasAttribute('tabindex')) heading.setAttribute('tabindex', '-1');
+  heading.focus();
+}
+
+// Erstes Bild aus einer Zwischenablage oder einem Drop; bei Drops zählt auch eine Nicht-Bilddatei,
+// damit die Foto-Prüfung einen verständlichen Fehler anzeigen kann
+export function pickImageFile(files: FileList | null | undefined, imagesOnly: boolean): File | null {
+  const list = Array.from<File>(files || []);
+  return list.find(file => file.type.startsWith('image/')) || (imagesOnly ? null : list[0] || null);
+}
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalyticsEvent } from '../types';
+import { createAnalytics, createTestSink } from './analytics';
+
+const selected = (productId: string): AnalyticsEvent => ({ name: 'product-selected', props: { productId, category: 'set', source: 'catalog' } });
+
+function setup(options: { batchSize?: number; flushIntervalMs?: number; maxPending?: number } = {}) {
+  const sink = createTestSink();
+  const analytics = createAnalytics({ sinks: [sink], getLocale: () => 'de-DE', batchSize: 3, flushIntervalMs: 1000, maxPending: 5, ...options });
+  return { sink, analytics };
+}
+
+describe('createAnalytics', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Kein Browser: weder eingebettet noch sessionStorage
+    vi.stubGlobal('window', { self: 1, top: 1 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('bündelt Events und sendet bei BATCH_SIZE sofort', async () => {
+    const { sink, analytics } = setup();
+    analytics.setConsent('granted');
+    ['a', 'b'].forEach(id => analytics.track(selected(id)));
+    expect(sink.batches).toBe(0);
+    analytics.track(selected('c'));
+    await vi.runAllTimersAsync();
+    expect(sink.batches).toBe(1);
+    expect(sink.named('product-selected').map(event => event.props.productId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('sendet kleinere Batches nach dem Intervall', async () => {
+    const { sink, analytics } = setup();
+    analytics.setConsent('granted');
+    analytics.track(selected('a'));
+    await vi.advanceTimersByTimeAsync(999);
+    expect(sink.batches).toBe(0);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sink.events).toHaveLength(1);
+    expect(sink.events[0]).toMatchObject({ locale: 'de-DE', embedded: false });
+  });
+
+  it('hält Events bis zur Einwilligung zurück', async () => {
+    const { sink, analytics } = setup();
+    ['a', 'b', 'c', 'd'].forEach(id => analytics.track(selected(id)));
+    await vi.runAllTimersAsync();
+    expect(sink.batches).toBe(0);
+    analytics.setConsent('granted');
+    await analytics.flush();
+    expect(sink.events).toHaveLength(4);
+  });
+
+  it('verwirft bei Ablehnung gesammelte und spätere Events', async () => {
+    const { sink, analytics } = setup();
+    ['a', 'b'].forEach(id => analytics.track(selected(id)));
+    analytics.setConsent('denied');
+    ['c', 'd', 'e'].forEach(id => analytics.track(selected(id)));
+    await vi.runAllTimersAsync();
+    await analytics.flush();
+    expect(sink.events).toEqual([]);
+    // Auch eine spätere Einwilligung bringt die verworfenen Events nicht zurück
+    analytics.setConsent('granted');
+    await analytics.flush();
+    expect(sink.events).toEqual([]);
+  });
+
+  it('behält vor der Einwilligung höchstens maxPending Events, die neuesten', async () => {
+    const { sink, analytics } = setup({ batchSize: 100 });
+    ['a', 'b', 'c', 'd', 'e', 'f', 'g'].forEach(id => analytics.track(selected(id)));
+    analytics.setConsent('granted');
+    await analytics.flush();
+    expect(sink.named('product-selected').map(event => event.props.productId)).toEqual(['c', 'd', 'e', 'f', 'g']);
+  });
+
+  it('lässt einen fehlerhaften Sink die anderen nicht stören', async () => {
+    const sink = createTestSink();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const analytics = createAnalytics({
+      sinks: [{ name: 'broken', send: () => { throw new Error('offline'); } }, sink],
+      getLocale: () => 'de-DE',
+      batchSize: 1,
+    });
+    analytics.setConsent('granted');
+    analytics.track(selected('a'));
+    await vi.runAllTimersAsync();
+    expect(sink.events).toHaveLength(1);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
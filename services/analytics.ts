@@ -0,0 +1,201 @@
+import { ANALYTICS_CONFIG } from "../constants";
+import { AnalyticsEvent, TrackedEvent, WidgetConfig } from "../types";
+import { emitToHost, isEmbedded } from "./embedService";
+import { getSessionId } from "./session";
+
+export type AnalyticsConsent = 'granted' | 'denied' | 'pending';
+
+export interface AnalyticsSink {
+  name: string;
+  send(events: TrackedEvent[]): void | Promise<void>;
+}
+
+export interface Analytics {
+  track(event: AnalyticsEvent): void;
+  setConsent(consent: AnalyticsConsent): void;
+  flush(): Promise<void>;
+}
+
+export interface AnalyticsOptions {
+  sinks: AnalyticsSink[];
+  getLocale: () => string;
+  batchSize?: number;
+  flushIntervalMs?: number;
+  maxPending?: number;
+}
+
+/**
+ * Sammelt Events und gibt sie gebündelt an alle Sinks weiter – erst nach Einwilligung.
+ * Bis dahin bleiben sie nur im Speicher; eine Ablehnung verwirft sie.
+ */
+export function createAnalytics({
+  sinks,
+  getLocale,
+  batchSize = ANALYTICS_CONFIG.BATCH_SIZE,
+  flushIntervalMs = ANALYTICS_CONFIG.FLUSH_INTERVAL_MS,
+  maxPending = ANALYTICS_CONFIG.MAX_PENDING,
+}: AnalyticsOptions): Analytics {
+  let consent: AnalyticsConsent = 'pending';
+  let queue: TrackedEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const cancelTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  // Ein fehlerhafter Sink darf weder die App noch die anderen Sinks stören
+  const deliver = (events: TrackedEvent[]) => Promise.all(sinks.map(async sink => {
+    try {
+      await sink.send(events);
+    } catch (error) {
+      console.warn(`Analytics sink "${sink.name}" failed:`, error);
+    }
+  }));
+
+  const flush = async () => {
+    cancelTimer();
+    if (consent !== 'granted' || queue.length === 0) return;
+    const batch = queue;
+    queue = [];
+    await deliver(batch);
+  };
+
+  const schedule = () => {
+    if (consent !== 'granted' || queue.length === 0) return;
+    if (queue.length >= batchSize) {
+      void flush();
+    } else if (!timer) {
+      timer = setTimeout(() => void flush(), flushIntervalMs);
+    }
+  };
+
+  return {
+    track(event) {
+      if (consent === 'denied') return;
+      queue.push({ ...event, sessionId: getSessionId(), locale: getLocale(), embedded: isEmbedded(), timestamp: new Date().toISOString() } as TrackedEvent);
+      if (consent === 'pending' && queue.length > maxPending) queue = queue.slice(-maxPending);
+      schedule();
+    },
+    setConsent(next) {
+      consent = next;
+      if (next === 'denied') {
+        cancelTimer();
+        queue = [];
+      }
+      schedule();
+    },
+    flush,
+  };
+}
+
+export function createConsoleSink(): AnalyticsSink {
+  return {
+    name: 'console',
+    send: events => events.forEach(event => console.info('[analytics]', event.name, event.props)),
+  };
+}
+
+export function createHttpSink(endpoint: string): AnalyticsSink {
+  return {
+    name: 'http',
+    async send(events) {
+      const body = JSON.stringify({ events });
+      // sendBeacon kommt auch beim Schließen der Seite noch an
+      if (navigator.sendBeacon?.(endpoint, new Blob([body], { type: 'application/json' }))) return;
+      const response = await fetch(endpoint, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, keepalive: true });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    },
+  };
+}
+
+// Die Shop-Seite bekommt die Events als `analytics`-Nachricht und kann sie in ihr eigenes Tracking geben
+export function createHostSink(getWidget: () => WidgetConfig): AnalyticsSink {
+  return {
+    name: 'host',
+    send: events => emitToHost(getWidget(), { type: 'analytics', payload: { events } }),
+  };
+}
+
+const toSnakeCase = (value: string) => value.replace(/[A-Z]/g, char => `_${char.toLowerCase()}`).replace(/-/g, '_');
+
+// GA4 erlaubt nur flache Parameter: verschachtelte Objekte werden zu prefix_key, Listen zu Text
+function flattenParams(props: object, prefix = ''): Record<string, string | number | boolean | null> {
+  const params: Record<string, string | number | boolean | null> = {};
+  for (const [key, value] of Object.entries(props)) {
+    const name = `${prefix}${toSnakeCase(key)}`;
+    if (Array.isArray(value)) {
+      params[name] = value.join(',');
+    } else if (value && typeof value === 'object') {
+      Object.assign(params, flattenParams(value, `${name}_`));
+    } else {
+      params[name] = value;
+    }
+  }
+  return params;
+}
+
+interface DataLayerTarget {
+  dataLayer?: Record<string, unknown>[];
+}
+
+// GA4 über den Google Tag Manager: ein dataLayer-Eintrag je Event, z.B. bf_tryon_completed
+export function createDataLayerSink(target: DataLayerTarget = window as DataLayerTarget): AnalyticsSink {
+  return {
+    name: 'ga4',
+    send(events) {
+      target.dataLayer = target.dataLayer || [];
+      for (const event of events) {
+        target.dataLayer.push({ event: `bf_${toSnakeCase(event.name)}`, ...flattenParams(event.props), session_id: event.sessionId, locale: event.locale });
+      }
+    },
+  };
+}
+
+export interface TestSink extends AnalyticsSink {
+  events: TrackedEvent[];
+  batches: number;
+  named<N extends AnalyticsEvent['name']>(name: N): Extract<TrackedEvent, { name: N }>[];
+  clear(): void;
+}
+
+// Für Tests: merkt sich alle zugestellten Events und die Anzahl der Batches
+export function createTestSink(): TestSink {
+  const sink: TestSink = {
+    name: 'test',
+    events: [],
+    batches: 0,
+    send(events) {
+      sink.events.push(...events);
+      sink.batches++;
+    },
+    named: <N extends AnalyticsEvent['name']>(name: N) =>
+      sink.events.filter((event): event is Extract<TrackedEvent, { name: N }> => event.name === name),
+    clear() {
+      sink.events = [];
+      sink.batches = 0;
+    },
+  };
+  return sink;
+}
+
+/**
+ * Baut die Sinks aus ANALYTICS_CONFIG.SINKS. Unbekannte Namen und `http` ohne Endpoint werden
+ * mit einer Warnung übersprungen.
+ */
+export function createSinks(names: string[], { endpoint, getWidget }: { endpoint: string; getWidget: () => WidgetConfig }): AnalyticsSink[] {
+  return names.flatMap((name): AnalyticsSink[] => {
+    switch (name) {
+      case 'console': return [createConsoleSink()];
+      case 'http':
+        if (endpoint) return [createHttpSink(endpoint)];
+        console.warn("Analytics sink \"http\" needs ANALYTICS_ENDPOINT.");
+        return [];
+      case 'host': return [createHostSink(getWidget)];
+      case 'ga4': return [createDataLayerSink()];
+      default:
+        console.warn(`Unknown analytics sink "${name}".`);
+        return [];
+    }
+  });
+}
@@ -0,0 +1,105 @@
+import { APP_CONFIG, REQUEST_CONFIG } from "../constants";
+import { CancelledError, NetworkError, QuotaError, TimeoutError, TryOnError, fromApiError } from "./errors";
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  headers?: Record<string, string>;
+}
+
+export type RequestMethod = 'GET' | 'POST' | 'PUT';
+
+// Exponentieller Backoff mit Jitter; ein Retry-After des Servers ist die Untergrenze
+export function backoffDelay(attempt: number, retryAfterMs: number | null = null): number {
+  const exponential = Math.min(REQUEST_CONFIG.RETRY_MAX_DELAY_MS, REQUEST_CONFIG.RETRY_BASE_DELAY_MS * 2 ** attempt);
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
+
+// Abbrechbare Wartezeit – auch für Warteschlangen außerhalb dieses Moduls (Studio)
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function parseRetryAfter(header: string | null): number | null {
+  const seconds = Number(header);
+  return header && Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+async function attemptRequest<T>(method: RequestMethod, path: string, body: string | undefined, { signal, timeoutMs, headers }: RequestOptions): Promise<T> {
+  if (signal?.aborted) throw new CancelledError();
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = timeoutMs ? setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs) : null;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(`${APP_CONFIG.API_BASE_URL}${path}`, {
+        method,
+        headers: body === undefined ? headers : { 'Content-Type': 'application/json', ...headers },
+        body,
+        signal: controller.signal,
+      });
+    } catch (error: any) {
+      if (signal?.aborted) throw new CancelledError();
+      if (timedOut) throw new TimeoutError();
+      throw new NetworkError(error?.message);
+    }
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw fromApiError(response.status, data?.error?.code, data?.error?.message, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    return data as T;
+  } finally {
+    if (timer) clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Anfrage gegen unsere API mit Timeout, Abbruch über signal und Wiederholung bei 429/5xx/Netzwerkfehlern.
+ * Wirft immer einen TryOnError (bzw. eine Unterklasse).
+ */
+export async function requestJson<T>(method: RequestMethod, path: string, body?: unknown, options: RequestOptions = {}): Promise<T> {
+  const payload = body === undefined ? undefined : JSON.stringify(body);
+  const retries = options.retries ?? REQUEST_CONFIG.MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await attemptRequest<T>(method, path, payload, options);
+    } catch (error) {
+      const tryOnError = error instanceof TryOnError ? error : new NetworkError(String(error));
+      const retryAfterMs = tryOnError instanceof QuotaError ? tryOnError.retryAfterMs : null;
+      // Längere Wartezeiten als unser Maximum lohnen nicht – dann lieber sofort Bescheid geben
+      if (!tryOnError.retryable || attempt >= retries || (retryAfterMs ?? 0) > REQUEST_CONFIG.RETRY_MAX_DELAY_MS) {
+        throw tryOnError;
+      }
+      console.warn(`Request ${path} failed (${tryOnError.code}), retry ${attempt + 1}/${retries}`);
+      await sleep(backoffDelay(attempt, retryAfterMs), options.signal);
+    }
+  }
+}
+
+export function postJson<T>(path: string, body: unknown, options: RequestOptions = {}): Promise<T> {
+  return requestJson<T>('POST', path, body, options);
+}
@@ -0,0 +1,104 @@
+import { CART_CONFIG, CATALOG_CONFIG } from "../constants";
+import { CartResult, Product, ProductVariant, WidgetConfig } from "../types";
+import { findVariant, getShopwareConnection } from "./catalogService";
+import { requestAddToCart } from "./embedService";
+import { TryOnError } from "./errors";
+import { addLineItem } from "./shopwareStoreApi";
+
+const SHOPWARE_ID = /^[0-9a-f]{32}$/i;
+
+/**
+ * Deep-Link auf die Variante im Shop. Shopware löst /detail/{id} auch für Varianten auf,
+ * d.h. die Größe ist auf der Produktseite direkt vorausgewählt. Ohne echte ID bleibt nur die Suche.
+ */
+export function buildVariantUrl(product: Product, variant: ProductVariant | null): string {
+  const shopUrl = CART_CONFIG.SHOP_URL.replace(/\/$/, '');
+  const id = variant?.id || product.id;
+  if (SHOPWARE_ID.test(id)) {
+    return `${shopUrl}/detail/${id}`;
+  }
+  const term = variant?.productNumber || product.productNumber || product.name;
+  return `${shopUrl}/search?search=${encodeURIComponent(term)}`;
+}
+
+export function buildCartUrl(): string {
+  return `${CART_CONFIG.SHOP_URL.replace(/\/$/, '')}/checkout/cart`;
+}
+
+function redirect(product: Product, variant: ProductVariant | null, message: CartResult['message']): CartResult {
+  return { status: 'redirected', via: 'link', variant, url: buildVariantUrl(product, variant), message };
+}
+
+function addedMessage(product: Product, variant: ProductVariant): CartResult['message'] {
+  return { key: 'cart.added', params: { product: product.name, size: variant.size || '' } };
+}
+
+// Der Warenkorb lässt sich nur über die Shop-Seite oder die Store API mit Context Token des Kunden füllen
+function canAddDirectly(widget: WidgetConfig): boolean {
+  return (widget.cartMode === 'host' && !!widget.hostOrigin) || (widget.cartMode === 'store-api' && !!widget.contextToken && !!getShopwareConnection());
+}
+
+/**
+ * Ergebnis, das ohne Anfrage an den Shop feststeht (keine Variante, ausverkauft, kein Warenkorb-Zugang) –
+ * null, wenn erst Shop-Seite oder Store API gefragt werden. So kann die Oberfläche den Shop noch im Klick öffnen.
+ */
+export function resolveCartLocally(product: Product, size: string | null, widget: WidgetConfig): CartResult | null {
+  const variant = findVariant(product, size);
+
+  if (!variant) {
+    return redirect(product, null, { key: 'cart.chooseInShop' });
+  }
+  if (!variant.available) {
+    return redirect(product, variant, { key: 'cart.soldOut', params: { size: variant.size || '' } });
+  }
+  if (!canAddDirectly(widget)) {
+    return redirect(product, variant, { key: 'cart.preselected', params: { size: variant.size || '' } });
+  }
+  return null;
+}
+
+/**
+ * Legt Produkt + Größe in den Warenkorb – je nach Einbettung über die Shop-Seite (postMessage)
+ * oder direkt über die Store API mit dem Context Token des Kunden. Klappt beides nicht,
+ * gibt es den Deep-Link auf die Variante als Fallback.
+ */
+export async function addToCart(product: Product, size: string | null, widget: WidgetConfig): Promise<CartResult> {
+  const local = resolveCartLocally(product, size, widget);
+  if (local) return local;
+  // Ohne lokales Ergebnis gibt es immer eine verfügbare Variante
+  const variant = findVariant(product, size)!;
+
+  if (widget.cartMode === 'host') {
+    try {
+      const result = await requestAddToCart(widget, {
+        productId: product.id,
+        variantId: variant.id,
+        productNumber: variant.productNumber,
+        size: variant.size,
+        quantity: 1,
+      }, CART_CONFIG.HOST_RESPONSE_TIMEOUT_MS);
+      if (result.ok) {
+        return { status: 'added', via: 'host', variant, url: buildCartUrl(), message: result.message || addedMessage(product, variant) };
+      }
+      return redirect(product, variant, result.message || { key: 'cart.hostFailed' });
+    } catch (error) {
+      console.warn("Host cart failed, falling back to deep link:", error);
+      return redirect(product, variant, error instanceof TryOnError ? { key: `error.${error.code}` } : { key: 'cart.unavailable' });
+    }
+  }
+
+  const connection = getShopwareConnection();
+  if (widget.cartMode === 'store-api' && widget.contextToken && connection) {
+    try {
+      const result = await addLineItem({ ...connection, currency: CATALOG_CONFIG.DEFAULT_CURRENCY }, widget.contextToken, variant.id);
+      if (result.errors.length === 0) {
+        return { status: 'added', via: 'store-api', variant, url: buildCartUrl(), message: addedMessage(product, variant) };
+      }
+      return redirect(product, variant, result.errors[0]);
+    } catch (error) {
+      console.warn("Store API cart failed, falling back to deep link:", error);
+    }
+  }
+
+  return redirect(product, variant, { key: 'cart.unavailable' });
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CATALOG_CONFIG, DEFAULT_SIZE_CHART } from '../constants';
+import { Product } from '../types';
+import { CatalogProvider, createSettingsProvider, createShopwareProvider, getDefaultProviders, loadCatalog } from './catalogService';
+import { FAKE_ACCESS_KEY, createFakeStoreApi } from './fakeShopwareStoreApi';
+
+function product(id: string): Product {
+  return {
+    id,
+    category: 'set',
+    name: id,
+    price: 59.99,
+    currency: 'EUR',
+    imageUrl: `https://example.com/${id}.png`,
+    images: [],
+    description: '',
+    sizeChart: DEFAULT_SIZE_CHART,
+    variants: [],
+  };
+}
+
+function provider(name: string, products: Product[] | Error): CatalogProvider & { calls: number } {
+  return {
+    name,
+    calls: 0,
+    async listProducts() {
+      this.calls++;
+      if (products instanceof Error) throw products;
+      return products;
+    },
+  };
+}
+
+const shopware = (options: Parameters<typeof createFakeStoreApi>[0] = {}) => createShopwareProvider({
+  baseUrl: 'http://fake.local',
+  accessKey: FAKE_ACCESS_KEY,
+  fetchImpl: createFakeStoreApi(options),
+});
+
+describe('loadCatalog', () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('lädt den Katalog aus Shopware und cacht ihn', async () => {
+    const result = await loadCatalog([shopware(), provider('static', [product('static')])]);
+    expect(result).toMatchObject({ source: 'shopware', stale: false });
+    expect(result.products.map(p => p.productNumber)).toEqual(['BF-SKY', 'BF-MAROON', 'BF-BLACK']);
+    const cached = JSON.parse(storage.get(CATALOG_CONFIG.CACHE_KEY)!);
+    expect(cached.source).toBe('shopware');
+    expect(cached.products.map((p: Product) => p.id)).toEqual(result.products.map(p => p.id));
+  });
+
+  it('liefert einen frischen Cache ohne Netzwerk-Aufruf', async () => {
+    await loadCatalog([shopware(), provider('static', [product('static')])]);
+    const primary = provider('shopware', new Error('darf nicht aufgerufen werden'));
+    const result = await loadCatalog([primary]);
+    expect(result).toMatchObject({ source: 'shopware', stale: false });
+    expect(primary.calls).toBe(0);
+  });
+
+  it('lädt nach Ablauf der TTL neu', async () => {
+    await loadCatalog([provider('shopware', [product('alt')])]);
+    const result = await loadCatalog([provider('shopware', [product('neu')])], 0);
+    expect(result.products.map(p => p.id)).toEqual(['neu']);
+  });
+
+  it('fällt ohne Cache auf den statischen Katalog zurück, ohne ihn zu cachen', async () => {
+    const result = await loadCatalog([shopware({ failWithStatus: 503 }), provider('static', [product('static')])]);
+    expect(result).toEqual({ products: [product('static')], source: 'static', stale: false });
+    expect(storage.has(CATALOG_CONFIG.CACHE_KEY)).toBe(false);
+  });
+
+  it('zieht veraltete Shop-Daten dem statischen Katalog vor', async () => {
+    await loadCatalog([shopware()]);
+    const result = await loadCatalog([shopware({ failWithStatus: 503 }), provider('static', [product('static')])], 0);
+    expect(result).toMatchObject({ source: 'shopware', stale: true });
+    expect(result.products).toHaveLength(3);
+  });
+
+  it('behandelt leere Kataloge wie einen Fehler', async () => {
+    const result = await loadCatalog([provider('shopware', []), provider('static', [product('static')])]);
+    expect(result.source).toBe('static');
+  });
+
+  it('cacht die Produktliste aus dem Admin-Bereich nicht', async () => {
+    await loadCatalog([provider('shopware', [product('shop')])]);
+    const result = await loadCatalog([createSettingsProvider([product('admin')])]);
+    expect(result).toMatchObject({ source: 'settings', stale: false });
+    expect(JSON.parse(storage.get(CATALOG_CONFIG.CACHE_KEY)!).products[0].id).toBe('shop');
+  });
+
+  it('wirft CATALOG_UNAVAILABLE, wenn keine Quelle und kein Cache verfügbar ist', async () => {
+    await expect(loadCatalog([provider('shopware', new Error('offline')), provider('static', new Error('404'))]))
+      .rejects.toMatchObject({ code: 'CATALOG_UNAVAILABLE' });
+  });
+});
+
+describe('getDefaultProviders', () => {
+  it('stellt die Produktliste aus dem Admin-Bereich vor alle anderen Quellen', () => {
+    expect(getDefaultProviders([product('admin')])[0].name).toBe('settings');
+  });
+
+  it('überspringt eine leere Produktliste', () => {
+    expect(getDefaultProviders([]).map(provider => provider.name)).not.toContain('settings');
+  });
+});
@@ -0,0 +1,206 @@
+import { CATALOG_CONFIG, DEFAULT_SET_SLOTS, DEFAULT_SIZE_CHART } from "../constants";
+import { Product, ProductCategory, ProductVariant } from "../types";
+import { TryOnError } from "./errors";
+import { fetchShopwareProducts } from "./shopwareStoreApi";
+
+export interface CatalogProvider {
+  name: string;
+  // Quellen ohne Netzwerk-Aufruf brauchen keinen Cache – Änderungen sollen sofort sichtbar sein
+  cacheable?: boolean;
+  listProducts(): Promise<Product[]>;
+}
+
+export interface CatalogResult {
+  products: Product[];
+  source: string;
+  stale: boolean;
+}
+
+interface CachedCatalog {
+  savedAt: number;
+  source: string;
+  products: Product[];
+}
+
+export function createShopwareProvider(options: ShopwareConnection): CatalogProvider {
+  return {
+    name: 'shopware',
+    listProducts: () => fetchShopwareProducts({ ...options, currency: CATALOG_CONFIG.DEFAULT_CURRENCY }),
+  };
+}
+
+// Produktliste aus dem Admin-Bereich – schon beim Laden der Einstellungen gegen das Schema geprüft
+export function createSettingsProvider(products: Product[]): CatalogProvider {
+  return {
+    name: 'settings',
+    cacheable: false,
+    listProducts: async () => products,
+  };
+}
+
+// Statischer JSON-Katalog als Fallback, falls Shopware nicht konfiguriert oder nicht erreichbar ist
+export function createStaticProvider(url: string = CATALOG_CONFIG.STATIC_CATALOG_URL): CatalogProvider {
+  return {
+    name: 'static',
+    async listProducts() {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Statischer Katalog nicht erreichbar (${response.status}).`);
+      const data = await response.json() as { products: Partial<Product>[] };
+      return data.products.map(normalizeProduct);
+    },
+  };
+}
+
+function normalizeProduct(product: Partial<Product>): Product {
+  if (!product.id || !product.name || !product.imageUrl) {
+    throw new Error(`Ungültiger Katalogeintrag: ${JSON.stringify(product).slice(0, 80)}`);
+  }
+  const category: ProductCategory = product.category || 'set';
+  return {
+    id: product.id,
+    category,
+    setSlots: category === 'set' ? (product.setSlots?.length ? product.setSlots : DEFAULT_SET_SLOTS) : undefined,
+    setPieces: category === 'set' ? product.setPieces : undefined,
+    photoShowsSet: category !== 'set' && product.photoShowsSet ? true : undefined,
+    productNumber: product.productNumber,
+    name: product.name,
+    price: product.price ?? 0,
+    currency: product.currency || CATALOG_CONFIG.DEFAULT_CURRENCY,
+    imageUrl: product.imageUrl,
+    images: product.images?.length ? product.images : [product.imageUrl],
+    description: product.description || '',
+    sizeChart: product.sizeChart?.length ? product.sizeChart : DEFAULT_SIZE_CHART,
+    variants: product.variants || [],
+  };
+}
+
+function readCache(): CachedCatalog | null {
+  try {
+    const raw = localStorage.getItem(CATALOG_CONFIG.CACHE_KEY);
+    return raw ? JSON.parse(raw) as CachedCatalog : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeCache(entry: CachedCatalog) {
+  try {
+    localStorage.setItem(CATALOG_CONFIG.CACHE_KEY, JSON.stringify(entry));
+  } catch {
+    // Quota oder Private Mode – der Katalog funktioniert auch ohne Cache
+  }
+}
+
+export function clearCatalogCache() {
+  try {
+    localStorage.removeItem(CATALOG_CONFIG.CACHE_KEY);
+  } catch {
+    // ignorieren
+  }
+}
+
+export interface ShopwareConnection {
+  baseUrl: string;
+  accessKey: string;
+  categoryId?: string;
+  fetchImpl?: typeof fetch;
+}
+
+const FAKE_CONNECTION_KEY = 'fake-access-key';
+
+// Fake-API und Fixture erst beim ersten Aufruf nachladen – so landen sie nicht im Produktions-Bundle
+function lazyFakeStoreApi(accessKey: string): typeof fetch {
+  let fake: Promise<typeof fetch> | null = null;
+  return (input, init) => {
+    if (!fake) {
+      fake = import("./fakeShopwareStoreApi").then(module => module.createFakeStoreApi({ accessKey, latencyMs: 300 }));
+    }
+    return fake.then(fetchImpl => fetchImpl(input, init));
+  };
+}
+
+// Verbindungsdaten zur Store API aus der Konfiguration – null, wenn kein Shop angebunden ist
+export function getShopwareConnection(): ShopwareConnection | null {
+  if (CATALOG_CONFIG.SHOPWARE_URL === 'fake') {
+    return { baseUrl: 'http://fake.local', accessKey: FAKE_CONNECTION_KEY, fetchImpl: lazyFakeStoreApi(FAKE_CONNECTION_KEY) };
+  }
+  if (CATALOG_CONFIG.SHOPWARE_URL && CATALOG_CONFIG.SHOPWARE_ACCESS_KEY) {
+    return {
+      baseUrl: CATALOG_CONFIG.SHOPWARE_URL,
+      accessKey: CATALOG_CONFIG.SHOPWARE_ACCESS_KEY,
+      categoryId: CATALOG_CONFIG.SHOPWARE_CATEGORY_ID || undefined,
+    };
+  }
+  return null;
+}
+
+// Eine im Admin-Bereich gespeicherte Produktliste ist eine bewusste Entscheidung des Händlers und geht
+// deshalb auch Shopware vor; danach Shopware, zuletzt der statische Katalog
+export function getDefaultProviders(settingsProducts: Product[] | null = null): CatalogProvider[] {
+  const providers: CatalogProvider[] = [];
+  if (settingsProducts?.length) {
+    providers.push(createSettingsProvider(settingsProducts));
+  }
+  const connection = getShopwareConnection();
+  if (connection) {
+    providers.push(createShopwareProvider(connection));
+  }
+  providers.push(createStaticProvider());
+  return providers;
+}
+
+/**
+ * Lädt den Katalog: frischer Cache → Provider in Reihenfolge (Admin-Produktliste, Shopware, statisch) → veralteter Cache.
+ * Nur Ergebnisse des ersten (primären) Providers werden gecacht, damit der Fallback Shopware-Daten nicht überschreibt.
+ */
+export async function loadCatalog(providers: CatalogProvider[] = getDefaultProviders(), ttlMs: number = CATALOG_CONFIG.CACHE_TTL_MS): Promise<CatalogResult> {
+  const cached = providers[0]?.cacheable === false ? null : readCache();
+  const primary = providers[0]?.name;
+  if (cached && cached.source === primary && Date.now() - cached.savedAt < ttlMs) {
+    return { products: cached.products, source: cached.source, stale: false };
+  }
+
+  for (const provider of providers) {
+    try {
+      const products = await provider.listProducts();
+      if (products.length === 0) throw new Error(`Katalog "${provider.name}" ist leer.`);
+      if (provider.name === primary && provider.cacheable !== false) {
+        writeCache({ savedAt: Date.now(), source: provider.name, products });
+      } else if (cached?.source === primary) {
+        // Lieber veraltete Shop-Daten als der statische Notfall-Katalog
+        return { products: cached.products, source: cached.source, stale: true };
+      }
+      return { products, source: provider.name, stale: false };
+    } catch (error) {
+      console.warn(`Catalog provider "${provider.name}" failed:`, error);
+    }
+  }
+
+  if (cached) {
+    return { products: cached.products, source: cached.source, stale: true };
+  }
+  throw new TryOnError('CATALOG_UNAVAILABLE');
+}
+
+// Findet ein Produkt über ID, Produktnummer oder die Nummer einer seiner Varianten (SKU)
+export function findProduct(products: Product[], ref: string): Product | null {
+  const needle = ref.trim().toLowerCase();
+  return products.find(p =>
+    p.id.toLowerCase() === needle ||
+    p.productNumber?.toLowerCase() === needle ||
+    p.variants.some(v => v.id.toLowerCase() === needle || v.productNumber.toLowerCase() === needle)
+  ) || null;
+}
+
+export function findVariant(product: Product, size: string | null): ProductVariant | null {
+  if (!size) return null;
+  return product.variants.find(v => v.size?.toUpperCase() === size.toUpperCase()) || null;
+}
+
+export function formatPrice(amount: number, currency: string, locale: string = 'de-DE'): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    return new Intl.NumberFormat('de-DE', { style: 'currency', currency }).format(amount);
+  }
+}
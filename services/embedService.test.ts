@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { emitToHost, listenToHost, mergeWidgetConfig, readWidgetConfig, requestAddToCart } from './embedService';
+
+const SHOP = 'https://superbeautiful.de';
+const OTHER = 'https://evil.example';
+
+// iframe auf einer Seite mit der Origin parent; ancestorOrigins meldet der Browser, nicht die Seite
+function embedIn(parent: string | null) {
+  const listeners: ((event: unknown) => void)[] = [];
+  const posted: { message: unknown; targetOrigin: string }[] = [];
+  const parentWindow = { postMessage: (message: unknown, targetOrigin: string) => posted.push({ message, targetOrigin }) };
+  vi.stubGlobal('window', {
+    self: {},
+    top: parentWindow,
+    parent: parentWindow,
+    location: { search: '', ancestorOrigins: parent ? [parent] : [] },
+    addEventListener: (_type: string, listener: (event: unknown) => void) => listeners.push(listener),
+    removeEventListener: () => undefined,
+  });
+  vi.stubGlobal('document', { referrer: '' });
+  const dispatch = (origin: string, data: unknown) => listeners.forEach(listener => listener({ origin, source: parentWindow, data }));
+  return { posted, dispatch };
+}
+
+describe('Einwilligung durch die Shop-Seite', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('übernimmt analytics=1 nur von der vertrauenswürdigen Shop-Seite', () => {
+    embedIn(SHOP);
+    expect(readWidgetConfig(`?hostOrigin=${SHOP}&analytics=1`).analyticsConsent).toBe(true);
+  });
+
+  it('ignoriert analytics=1 von fremden Seiten, auch wenn sie sich als Shop ausgeben', () => {
+    embedIn(OTHER);
+    expect(readWidgetConfig(`?hostOrigin=${OTHER}&analytics=1`).analyticsConsent).toBeNull();
+    expect(readWidgetConfig(`?hostOrigin=${SHOP}&analytics=1`).analyticsConsent).toBeNull();
+  });
+
+  it('ignoriert analyticsConsent per configure von einer fremden hostOrigin', () => {
+    embedIn(OTHER);
+    const config = readWidgetConfig(`?hostOrigin=${OTHER}`);
+    expect(mergeWidgetConfig(config, { analyticsConsent: true }).analyticsConsent).toBeNull();
+    expect(mergeWidgetConfig({ ...config, hostOrigin: SHOP }, { analyticsConsent: false }).analyticsConsent).toBe(false);
+  });
+});
+
+describe('Nachrichten an die Shop-Seite', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('sendet nur an die hostOrigin und ohne sie gar nicht', () => {
+    const { posted } = embedIn(null);
+    const config = readWidgetConfig('');
+    expect(config.hostOrigin).toBeNull();
+    emitToHost(config, { type: 'ready', payload: { version: 1 } });
+    expect(posted).toEqual([]);
+    emitToHost({ ...config, hostOrigin: SHOP }, { type: 'ready', payload: { version: 1 } });
+    expect(posted.map(entry => entry.targetOrigin)).toEqual([SHOP]);
+  });
+
+  it('nimmt configure nur von der hostOrigin an', () => {
+    const { dispatch } = embedIn(SHOP);
+    const commands: unknown[] = [];
+    const config = readWidgetConfig('');
+    expect(config.hostOrigin).toBe(SHOP);
+    listenToHost({ ...config, hostOrigin: null }, command => commands.push(command));
+    listenToHost(config, command => commands.push(command));
+    const message = { source: 'better-future-tryon', type: 'configure', payload: { cartMode: 'host' } };
+    dispatch(OTHER, message);
+    expect(commands).toEqual([]);
+    dispatch(SHOP, message);
+    expect(commands).toEqual([{ type: 'configure', payload: { cartMode: 'host' } }]);
+  });
+
+  it('bricht den Warenkorb-Auftrag ohne Shop bzw. ohne Antwort mit übersetzbaren Codes ab', async () => {
+    embedIn(SHOP);
+    const config = readWidgetConfig('');
+    const payload = { productId: 'p', variantId: 'v', productNumber: 'BF-SKY-M', size: 'M', quantity: 1 };
+    await expect(requestAddToCart({ ...config, hostOrigin: null }, payload, 10)).rejects.toMatchObject({ code: 'HOST_NOT_CONNECTED' });
+    await expect(requestAddToCart(config, payload, 10)).rejects.toMatchObject({ code: 'HOST_TIMEOUT' });
+  });
+});
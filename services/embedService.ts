@@ -0,0 +1,201 @@
+import { ANALYTICS_CONFIG } from "../constants";
+import { CartMode, WidgetConfig, WidgetEvent, WidgetTheme } from "../types";
+import { TryOnError } from "./errors";
+import { detectLocale } from "./i18n";
+import { THEME_KEYS, sanitizeColor } from "./settingsSchema";
+
+// Alle Nachrichten zwischen Widget und Shop tragen diese Kennung, damit fremde postMessages ignoriert werden
+export const WIDGET_MESSAGE_SOURCE = 'better-future-tryon';
+export const WIDGET_PROTOCOL_VERSION = 1;
+
+export type HostCommand =
+  | { type: 'configure'; payload: Partial<WidgetConfig> }
+  | { type: 'select-product'; payload: { productRef: string } }
+  | { type: 'cart-result'; payload: { requestId: string; ok: boolean; message?: string } };
+
+const CART_MODES: CartMode[] = ['host', 'store-api', 'link'];
+
+function parseCartMode(value: unknown): CartMode | undefined {
+  return CART_MODES.includes(value as CartMode) ? value as CartMode : undefined;
+}
+
+function parseFlag(value: string | null): boolean | null {
+  if (value === null) return null;
+  if (['1', 'true'].includes(value)) return true;
+  if (['0', 'false'].includes(value)) return false;
+  return null;
+}
+
+function originOf(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+// Origin der einbettenden Seite, wie der Browser sie meldet – anders als der Parameter hostOrigin nicht frei wählbar
+function parentOrigin(): string | null {
+  const ancestors = window.location.ancestorOrigins;
+  if (ancestors && ancestors.length > 0) return ancestors[0];
+  return originOf(document.referrer);
+}
+
+/**
+ * Darf diese Shop-Seite die Einwilligung zur Nutzungsstatistik vorgeben? Nur Origins aus
+ * ANALYTICS_CONFIG.TRUSTED_HOST_ORIGINS – sonst könnte jede Seite, die das Widget einbettet,
+ * die Entscheidung des Kunden überschreiben.
+ */
+export function isTrustedHost(origin: string | null): boolean {
+  return !!origin && ANALYTICS_CONFIG.TRUSTED_HOST_ORIGINS.includes(origin);
+}
+
+export function isEmbedded(): boolean {
+  try {
+    return window.self !== window.top;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Liest die Widget-Konfiguration aus den Query-Parametern des iframes, z.B.
+ * `?product=BF-SKY&locale=de-DE&primary=%23e11d48&skipCatalog=1&hostOrigin=https://superbeautiful.de&analytics=1`
+ */
+export function readWidgetConfig(search: string = window.location.search): WidgetConfig {
+  const params = new URLSearchParams(search);
+  const theme: WidgetTheme = {
+    primary: sanitizeColor(params.get('primary')),
+    primaryHover: sanitizeColor(params.get('primaryHover')),
+    background: sanitizeColor(params.get('background')),
+  };
+  const productRef = params.get('product') || params.get('sku');
+  const hostOrigin = originOf(params.get('hostOrigin')) || (isEmbedded() ? parentOrigin() : null);
+  // Der Parameter selbst ist nicht geprüft – gelten lassen nur, wenn der Browser die vertrauenswürdige Seite als Eltern meldet
+  const verifiedHost = isEmbedded() && isTrustedHost(hostOrigin) && parentOrigin() === hostOrigin;
+
+  return {
+    productRef: productRef?.trim() || null,
+    locale: params.get('locale') || detectLocale(),
+    theme,
+    skipCatalog: !!productRef && ['1', 'true'].includes(params.get('skipCatalog') || ''),
+    hostOrigin,
+    cartMode: parseCartMode(params.get('cart')) || 'link',
+    // Der Context Token kommt bewusst nur per postMessage, nicht über die URL
+    contextToken: null,
+    analyticsConsent: verifiedHost ? parseFlag(params.get('analytics')) : null,
+  };
+}
+
+// update stammt aus einem `configure` der hostOrigin (geprüft in listenToHost)
+export function mergeWidgetConfig(current: WidgetConfig, update: Partial<WidgetConfig>): WidgetConfig {
+  const theme: WidgetTheme = { ...current.theme };
+  for (const key of Object.keys(update.theme || {}) as (keyof WidgetTheme)[]) {
+    theme[key] = sanitizeColor(update.theme?.[key]) || theme[key];
+  }
+  const productRef = typeof update.productRef === 'string' ? update.productRef : current.productRef;
+  return {
+    ...current,
+    productRef,
+    locale: typeof update.locale === 'string' ? update.locale : current.locale,
+    theme,
+    skipCatalog: typeof update.skipCatalog === 'boolean' ? update.skipCatalog && !!productRef : current.skipCatalog,
+    cartMode: parseCartMode(update.cartMode) || current.cartMode,
+    contextToken: typeof update.contextToken === 'string' ? update.contextToken : current.contextToken,
+    analyticsConsent: typeof update.analyticsConsent === 'boolean' && isTrustedHost(current.hostOrigin) ? update.analyticsConsent : current.analyticsConsent,
+  };
+}
+
+/**
+ * Sendet ein Event an die Host-Seite. Events enthalten Produkt, Größe und Nutzungsdaten – ohne bekannte
+ * hostOrigin wird nichts gesendet, statt an jede beliebige einbettende Seite ('*').
+ */
+export function emitToHost(config: WidgetConfig, event: WidgetEvent) {
+  if (!isEmbedded() || !config.hostOrigin) return;
+  window.parent.postMessage(
+    { source: WIDGET_MESSAGE_SOURCE, version: WIDGET_PROTOCOL_VERSION, ...event },
+    config.hostOrigin,
+  );
+}
+
+/**
+ * Lauscht auf Befehle der Host-Seite. Akzeptiert werden nur Nachrichten von der hostOrigin – ist sie
+ * unbekannt, nimmt das Widget keine Befehle an. Gibt eine Funktion zum Abmelden zurück.
+ */
+export function listenToHost(config: WidgetConfig, onCommand: (command: HostCommand) => void): () => void {
+  if (!config.hostOrigin) return () => undefined;
+  const handler = (event: MessageEvent) => {
+    if (event.origin !== config.hostOrigin) return;
+    if (event.source !== window.parent) return;
+    const data = event.data;
+    if (!data || data.source !== WIDGET_MESSAGE_SOURCE || typeof data.type !== 'string') return;
+
+    if (data.type === 'configure' && data.payload && typeof data.payload === 'object') {
+      onCommand({ type: 'configure', payload: data.payload });
+    } else if (data.type === 'select-product' && typeof data.payload?.productRef === 'string') {
+      onCommand({ type: 'select-product', payload: { productRef: data.payload.productRef } });
+    } else if (data.type === 'cart-result' && typeof data.payload?.requestId === 'string') {
+      onCommand({ type: 'cart-result', payload: { requestId: data.payload.requestId, ok: !!data.payload.ok, message: data.payload.message } });
+    }
+  };
+  window.addEventListener('message', handler);
+  return () => window.removeEventListener('message', handler);
+}
+
+/**
+ * Bittet die Shop-Seite, einen Artikel in den Warenkorb zu legen, und wartet auf deren `cart-result`.
+ * Antwortet der Host nicht rechtzeitig, wird mit HOST_TIMEOUT abgebrochen.
+ */
+export function requestAddToCart(
+  config: WidgetConfig,
+  payload: Omit<Extract<WidgetEvent, { type: 'add-to-cart' }>['payload'], 'requestId'>,
+  timeoutMs: number,
+): Promise<{ ok: boolean; message?: string }> {
+  if (!isEmbedded() || !config.hostOrigin) return Promise.reject(new TryOnError('HOST_NOT_CONNECTED'));
+
+  const requestId = `cart-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      unsubscribe();
+      reject(new TryOnError('HOST_TIMEOUT', null, true));
+    }, timeoutMs);
+    const unsubscribe = listenToHost(config, command => {
+      if (command.type !== 'cart-result' || command.payload.requestId !== requestId) return;
+      clearTimeout(timer);
+      unsubscribe();
+      resolve({ ok: command.payload.ok, message: command.payload.message });
+    });
+    emitToHost(config, { type: 'add-to-cart', payload: { ...payload, requestId } });
+  });
+}
+
+// Überschreibt die Indigo-Akzentfarben der Oberfläche mit den Farben des Shops
+// Farben der Shop-Seite (Widget-Parameter) haben Vorrang vor den Händler-Einstellungen
+export function resolveTheme(base: WidgetTheme, override: WidgetTheme): WidgetTheme {
+  const theme: WidgetTheme = {};
+  for (const key of THEME_KEYS) {
+    theme[key] = override[key] || base[key];
+  }
+  return theme;
+}
+
+export function buildThemeCss(theme: WidgetTheme): string {
+  const rules: string[] = [];
+  if (theme.primary) {
+    rules.push(`.bg-indigo-600 { background-color: ${theme.primary} !important; }`);
+    rules.push(`.text-indigo-600 { color: ${theme.primary} !important; }`);
+    rules.push(`.border-indigo-600 { border-color: ${theme.primary} !important; }`);
+    rules.push(`.border-t-indigo-600 { border-top-color: ${theme.primary} !important; }`);
+    rules.push(`.ring-indigo-100 { --tw-ring-color: color-mix(in srgb, ${theme.primary} 20%, transparent) !important; }`);
+  }
+  const hover = theme.primaryHover || theme.primary;
+  if (hover) {
+    rules.push(`.hover\\:bg-indigo-700:hover { background-color: ${hover} !important; }`);
+    rules.push(`.hover\\:text-indigo-600:hover { color: ${hover} !important; }`);
+  }
+  if (theme.background) {
+    rules.push(`.bg-slate-50 { background-color: ${theme.background} !important; }`);
+  }
+  return rules.join('\n');
+}
@@ -0,0 +1,145 @@
+// Fehlercodes der eigenen API (server/) plus die rein clientseitigen Codes (Netzwerk, Bilder, Katalog).
+// Die Texte dazu stehen in den Sprachdateien unter error.<CODE>.
+export type ErrorCode =
+  | 'QUOTA_EXCEEDED'
+  | 'RATE_LIMITED'
+  | 'SAFETY_BLOCKED'
+  | 'MODEL_REFUSED'
+  | 'NO_IMAGE'
+  | 'NO_RESPONSE'
+  | 'NO_BODY_DETECTED'
+  | 'INVALID_KEY'
+  | 'MODEL_UNAVAILABLE'
+  | 'MODEL_ERROR'
+  | 'BAD_REQUEST'
+  | 'INVALID_REQUEST'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'NETWORK'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'PRODUCT_IMAGE_FAILED'
+  | 'IMAGE_READ_FAILED'
+  | 'IMAGE_PROCESSING_FAILED'
+  | 'HEIC_UNSUPPORTED'
+  | 'CATALOG_UNAVAILABLE'
+  | 'NO_SIZE_CHART'
+  | 'FACE_NOT_DETECTED'
+  | 'STORAGE_UNAVAILABLE'
+  | 'STORAGE_FULL'
+  | 'DAILY_LIMIT_REACHED'
+  | 'UNAUTHORIZED'
+  | 'ADMIN_DISABLED'
+  | 'INVALID_SETTINGS'
+  | 'SETTINGS_READ_ONLY'
+  | 'SHARED_STORE_UNAVAILABLE'
+  | 'HOST_NOT_CONNECTED'
+  | 'HOST_TIMEOUT'
+  | 'UNKNOWN';
+
+export class TryOnError extends Error {
+  constructor(
+    public code: ErrorCode,
+    public status: number | null = null,
+    public retryable = false,
+    public detail?: string
+  ) {
+    // Die Message ist nur fürs Logging – angezeigt wird immer der übersetzte Code
+    super(detail ? `${code}: ${detail}` : code);
+    this.name = 'TryOnError';
+  }
+}
+
+export class QuotaError extends TryOnError {
+  constructor(code: 'QUOTA_EXCEEDED' | 'RATE_LIMITED', status: number, public retryAfterMs: number | null = null, detail?: string) {
+    super(code, status, true, detail);
+    this.name = 'QuotaError';
+  }
+}
+
+export class SafetyBlockedError extends TryOnError {
+  constructor(status: number | null = null, detail?: string) {
+    super('SAFETY_BLOCKED', status, false, detail);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class NoImageError extends TryOnError {
+  constructor(code: 'NO_IMAGE' | 'NO_RESPONSE' | 'MODEL_REFUSED', status: number | null = null, detail?: string) {
+    super(code, status, false, detail);
+    this.name = 'NoImageError';
+  }
+}
+
+export class InvalidKeyError extends TryOnError {
+  constructor(status: number | null = null, detail?: string) {
+    super('INVALID_KEY', status, false, detail);
+    this.name = 'InvalidKeyError';
+  }
+}
+
+export class NetworkError extends TryOnError {
+  constructor(detail?: string) {
+    super('NETWORK', null, true, detail);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends TryOnError {
+  constructor(status: number | null = null, detail?: string) {
+    super('TIMEOUT', status, false, detail);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CancelledError extends TryOnError {
+  constructor() {
+    super('CANCELLED');
+    this.name = 'CancelledError';
+  }
+}
+
+// Übersetzt eine Fehlerantwort unserer API in die passende Fehlerklasse
+export function fromApiError(status: number, code: string | undefined, detail?: string, retryAfterMs: number | null = null): TryOnError {
+  switch (code) {
+    case 'QUOTA_EXCEEDED':
+    case 'RATE_LIMITED':
+      return new QuotaError(code, status, retryAfterMs, detail);
+    case 'SAFETY_BLOCKED':
+      return new SafetyBlockedError(status, detail);
+    case 'NO_IMAGE':
+    case 'NO_RESPONSE':
+    case 'MODEL_REFUSED':
+      return new NoImageError(code, status, detail);
+    case 'INVALID_KEY':
+      return new InvalidKeyError(status, detail);
+    case 'TIMEOUT':
+      return new TimeoutError(status, detail);
+    case 'CANCELLED':
+      return new CancelledError();
+    case 'NO_BODY_DETECTED':
+    case 'BAD_REQUEST':
+    case 'INVALID_REQUEST':
+    case 'PAYLOAD_TOO_LARGE':
+    case 'MODEL_UNAVAILABLE':
+    case 'MODEL_ERROR':
+    case 'SHARED_STORE_UNAVAILABLE':
+      return new TryOnError(code, status, status >= 500, detail);
+    // Wiederholen ändert nichts – Tageslimit, Passwort oder Einstellungen müssen sich ändern
+    case 'DAILY_LIMIT_REACHED':
+    case 'UNAUTHORIZED':
+    case 'ADMIN_DISABLED':
+    case 'INVALID_SETTINGS':
+    case 'SETTINGS_READ_ONLY':
+      return new TryOnError(code, status, false, detail);
+  }
+  if (status === 429) return new QuotaError('RATE_LIMITED', status, retryAfterMs, detail);
+  return new TryOnError(status >= 500 ? 'MODEL_ERROR' : 'UNKNOWN', status, status >= 500, detail);
+}
+
+export function isCancelled(error: unknown): boolean {
+  return error instanceof CancelledError;
+}
+
+export function errorCode(error: unknown): ErrorCode {
+  return error instanceof TryOnError ? error.code : 'UNKNOWN';
+}
@@ -0,0 +1,71 @@
+import { FAKE_ACCESS_KEY, SHOPWARE_PRODUCTS_FIXTURE } from "./fixtures/shopwareProducts";
+import type { StoreApiProductListResponse } from "./shopwareStoreApi";
+
+export interface FakeStoreApiOptions {
+  fixture?: StoreApiProductListResponse;
+  accessKey?: string;
+  latencyMs?: number;
+  // Erzwingt einen HTTP-Fehler, um Fallback und Cache durchzuspielen
+  failWithStatus?: number;
+}
+
+export { FAKE_ACCESS_KEY };
+
+const json = (status: number, body: unknown) => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'Content-Type': 'application/json' },
+});
+
+/**
+ * fetch-kompatible Fake-Implementierung der Shopware Store API auf Basis einer Fixture.
+ * Kennt nur die Routen, die Katalog und Warenkorb brauchen, und prüft den sw-access-key wie das Original.
+ */
+export function createFakeStoreApi(options: FakeStoreApiOptions = {}): typeof fetch {
+  const { fixture = SHOPWARE_PRODUCTS_FIXTURE, accessKey = FAKE_ACCESS_KEY, latencyMs = 0, failWithStatus } = options;
+
+  return async (input, init) => {
+    if (latencyMs) await new Promise(r => setTimeout(r, latencyMs));
+
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const headers = new Headers(init?.headers);
+
+    if (failWithStatus) {
+      return json(failWithStatus, { errors: [{ status: String(failWithStatus), title: 'Fake failure' }] });
+    }
+    if (headers.get('sw-access-key') !== accessKey) {
+      return json(401, { errors: [{ status: '401', code: 'FRAMEWORK__API_INVALID_ACCESS_KEY', title: 'Unauthorized' }] });
+    }
+
+    const path = new URL(url, 'http://fake.local').pathname;
+
+    if (path.endsWith('/store-api/checkout/cart/line-item') && init?.method === 'POST') {
+      const contextToken = headers.get('sw-context-token');
+      if (!contextToken) {
+        return json(403, { errors: [{ status: '403', code: 'CHECKOUT__CUSTOMER_NOT_LOGGED_IN', title: 'Forbidden' }] });
+      }
+      const body = init.body ? JSON.parse(String(init.body)) : {};
+      const variants = fixture.elements.flatMap(element => element.children || []);
+      const errors: Record<string, { message: string; level: number }> = {};
+      for (const item of body.items || []) {
+        const variant = variants.find(v => v.id === item.referencedId);
+        if (!variant) {
+          errors[`product-not-found${item.referencedId}`] = { message: `Das Produkt ${item.referencedId} wurde nicht gefunden.`, level: 20 };
+        } else if (!variant.available) {
+          errors[`product-stock-reached${variant.id}`] = { message: `${variant.productNumber} ist leider ausverkauft.`, level: 20 };
+        }
+      }
+      const response = json(200, { token: contextToken, errors });
+      response.headers.set('sw-context-token', contextToken);
+      return response;
+    }
+
+    if (path.endsWith('/store-api/product') && init?.method === 'POST') {
+      const body = init.body ? JSON.parse(String(init.body)) : {};
+      const limit = typeof body.limit === 'number' ? body.limit : fixture.elements.length;
+      const elements = fixture.elements.slice(0, limit);
+      return json(200, { elements, total: elements.length });
+    }
+
+    return json(404, { errors: [{ status: '404', title: 'Not Found' }] });
+  };
+}
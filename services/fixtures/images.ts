@@ -0,0 +1,101 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { PixelData, Rgb } from '../resultChecks';
+
+// Testbilder ohne Dateien und ohne Canvas: JPEG-Header mit EXIF, RGBA-Pixel und Pose-Landmarks
+
+const u16 = (value: number, little: boolean) => (little ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff]);
+const u32 = (value: number, little: boolean) => {
+  const big = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+  return little ? big.reverse() : big;
+};
+
+/**
+ * Minimales JPEG wie aus einer Handykamera: SOI, JFIF-APP0, APP1 mit Exif-IFD0 (ImageWidth vor Orientation,
+ * damit der Parser mehrere Einträge durchläuft), danach SOS mit ein paar Datenbytes und EOI.
+ */
+export function jpegWithOrientation(orientation: number, byteOrder: 'II' | 'MM' = 'MM'): ArrayBuffer {
+  const little = byteOrder === 'II';
+  const tiff = [
+    ...(little ? [0x49, 0x49] : [0x4d, 0x4d]), ...u16(42, little), ...u32(8, little),
+    ...u16(2, little),
+    // ImageWidth (LONG) = 4032
+    ...u16(0x0100, little), ...u16(4, little), ...u32(1, little), ...u32(4032, little),
+    // Orientation (SHORT)
+    ...u16(0x0112, little), ...u16(3, little), ...u32(1, little), ...u16(orientation, little), 0, 0,
+    ...u32(0, little),
+  ];
+  const exif = [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff];
+  const jfif = [0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0];
+  return new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe0, ...u16(jfif.length + 2, false), ...jfif,
+    0xff, 0xe1, ...u16(exif.length + 2, false), ...exif,
+    0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0x56,
+    0xff, 0xd9,
+  ]).buffer;
+}
+
+// JPEG ohne EXIF (z.B. aus einem Screenshot-Tool)
+export function jpegWithoutExif(): ArrayBuffer {
+  return new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0, 0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]).buffer;
+}
+
+export function pngSignature(): ArrayBuffer {
+  return new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]).buffer;
+}
+
+export function solidPixels(width: number, height: number, colour: Rgb): PixelData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = colour.r;
+    data[i + 1] = colour.g;
+    data[i + 2] = colour.b;
+    data[i + 3] = 255;
+  }
+  return { width, height, data };
+}
+
+export function fillRect(pixels: PixelData, x: number, y: number, width: number, height: number, colour: Rgb): PixelData {
+  for (let row = y; row < y + height; row++) {
+    for (let col = x; col < x + width; col++) {
+      const i = (row * pixels.width + col) * 4;
+      pixels.data[i] = colour.r;
+      pixels.data[i + 1] = colour.g;
+      pixels.data[i + 2] = colour.b;
+    }
+  }
+  return pixels;
+}
+
+// Kopie mit gleichmäßig verschobenen Kanälen – ergibt eine exakt bekannte mittlere Abweichung
+export function shiftPixels(pixels: PixelData, delta: number): PixelData {
+  const data = new Uint8ClampedArray(pixels.data);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] += delta;
+    data[i + 1] += delta;
+    data[i + 2] += delta;
+  }
+  return { width: pixels.width, height: pixels.height, data };
+}
+
+/**
+ * 33 MediaPipe-Landmarks einer frontal stehenden Person im Rahmen (normiert, 0–1):
+ * Kopf oben, Füße unten, Schultern und Hüften symmetrisch um die Mitte.
+ */
+export function standingPose({ left = 0.35, top = 0.1, width = 0.3, height = 0.8, visibility = 0.99 } = {}): NormalizedLandmark[] {
+  const at = (x: number, y: number): NormalizedLandmark => ({ x: left + x * width, y: top + y * height, z: 0, visibility });
+  const pose: NormalizedLandmark[] = [];
+  // 0–10: Nase, Augen, Ohren, Mund
+  pose[0] = at(0.5, 0.06);
+  for (let i = 1; i <= 10; i++) pose[i] = at(0.5 + (i % 2 ? -1 : 1) * 0.04 * Math.ceil(i / 2) / 3, 0.04 + (i > 8 ? 0.05 : 0));
+  pose[11] = at(0.2, 0.2); pose[12] = at(0.8, 0.2);
+  pose[13] = at(0.1, 0.35); pose[14] = at(0.9, 0.35);
+  pose[15] = at(0.05, 0.48); pose[16] = at(0.95, 0.48);
+  for (let i = 17; i <= 22; i++) pose[i] = at(i % 2 ? 0.03 : 0.97, 0.52);
+  pose[23] = at(0.35, 0.52); pose[24] = at(0.65, 0.52);
+  pose[25] = at(0.35, 0.75); pose[26] = at(0.65, 0.75);
+  pose[27] = at(0.35, 0.95); pose[28] = at(0.65, 0.95);
+  pose[29] = at(0.33, 0.97); pose[30] = at(0.67, 0.97);
+  pose[31] = at(0.38, 1); pose[32] = at(0.62, 1);
+  return pose;
+}
@@ -0,0 +1,60 @@
+import type { StoreApiProductListResponse } from '../shopwareStoreApi';
+
+// Aufgezeichnete (gekürzte) Antwort von POST /store-api/product eines Shopware 6 Sales Channels
+export const FAKE_ACCESS_KEY = 'SWSCFAKEACCESSKEY0000000000';
+
+const option = (group: string, name: string) => ({ name, translated: { name }, group: { name: group, translated: { name: group } } });
+
+export const SHOPWARE_PRODUCTS_FIXTURE: StoreApiProductListResponse = {
+  total: 3,
+  elements: [
+    {
+      id: '0189a1c2d3e4f5a6b7c8d9e0f1a2b3c4',
+      productNumber: 'BF-SKY',
+      translated: { name: 'Sky Blue Yoga Set', description: '<p>Dein sky-blue Set mit High-Neck Crop Top und perfekt sitzenden Leggings für maximale Bewegungsfreiheit.</p>' },
+      calculatedPrice: { unitPrice: 59.99 },
+      cover: { media: { url: 'https://superbeautiful.de/thumbnail/39/d5/84/1688393421/produktfotoskyblue5_800x800.png' } },
+      media: [{ media: { url: 'https://superbeautiful.de/thumbnail/39/d5/84/1688393421/produktfotoskyblue5_800x800.png' } }],
+      children: [
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c40000', productNumber: 'BF-SKY-XS', calculatedPrice: { unitPrice: 59.99 }, availableStock: 3, available: true, options: [option('Größe', 'XS'), option('Farbe', 'Sky Blue')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c40001', productNumber: 'BF-SKY-S', calculatedPrice: { unitPrice: 59.99 }, availableStock: 12, available: true, options: [option('Größe', 'S'), option('Farbe', 'Sky Blue')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c40002', productNumber: 'BF-SKY-M', calculatedPrice: { unitPrice: 59.99 }, availableStock: 20, available: true, options: [option('Größe', 'M'), option('Farbe', 'Sky Blue')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c40003', productNumber: 'BF-SKY-L', calculatedPrice: { unitPrice: 59.99 }, availableStock: 15, available: true, options: [option('Größe', 'L'), option('Farbe', 'Sky Blue')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c40004', productNumber: 'BF-SKY-XL', calculatedPrice: { unitPrice: 59.99 }, availableStock: 6, available: true, options: [option('Größe', 'XL'), option('Farbe', 'Sky Blue')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c40005', productNumber: 'BF-SKY-XXL', calculatedPrice: { unitPrice: 59.99 }, availableStock: 0, available: false, options: [option('Größe', 'XXL'), option('Farbe', 'Sky Blue')] },
+      ],
+    },
+    {
+      id: '0189a1c2d3e4f5a6b7c8d9e0f1a2b3c5',
+      productNumber: 'BF-MAROON',
+      translated: { name: 'Maroon Performance Set', description: '<p>Das exklusive Maroon Set kombiniert Style mit Performance. Atmungsaktiv und blickdicht.</p>' },
+      calculatedPrice: { unitPrice: 64.95 },
+      cover: { media: { url: 'https://superbeautiful.de/thumbnail/d1/a6/9f/1688394345/produktfotored1_800x800.png' } },
+      media: [{ media: { url: 'https://superbeautiful.de/thumbnail/d1/a6/9f/1688394345/produktfotored1_800x800.png' } }],
+      children: [
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c50000', productNumber: 'BF-MAROON-XS', calculatedPrice: { unitPrice: 64.95 }, availableStock: 0, available: false, options: [option('Größe', 'XS'), option('Farbe', 'Maroon')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c50001', productNumber: 'BF-MAROON-S', calculatedPrice: { unitPrice: 64.95 }, availableStock: 8, available: true, options: [option('Größe', 'S'), option('Farbe', 'Maroon')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c50002', productNumber: 'BF-MAROON-M', calculatedPrice: { unitPrice: 64.95 }, availableStock: 11, available: true, options: [option('Größe', 'M'), option('Farbe', 'Maroon')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c50003', productNumber: 'BF-MAROON-L', calculatedPrice: { unitPrice: 64.95 }, availableStock: 9, available: true, options: [option('Größe', 'L'), option('Farbe', 'Maroon')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c50004', productNumber: 'BF-MAROON-XL', calculatedPrice: { unitPrice: 64.95 }, availableStock: 2, available: true, options: [option('Größe', 'XL'), option('Farbe', 'Maroon')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c50005', productNumber: 'BF-MAROON-XXL', calculatedPrice: { unitPrice: 64.95 }, availableStock: 1, available: true, options: [option('Größe', 'XXL'), option('Farbe', 'Maroon')] },
+      ],
+    },
+    {
+      id: '0189a1c2d3e4f5a6b7c8d9e0f1a2b3c6',
+      productNumber: 'BF-BLACK',
+      translated: { name: 'Midnight Black Set', description: '<p>Der Klassiker in Midnight Black. Zeitloses Design für jedes Workout und den Alltag.</p>' },
+      calculatedPrice: { unitPrice: 62.0 },
+      cover: { media: { url: 'https://superbeautiful.de/thumbnail/b2/e7/77/1688394134/produktfotoblack6_800x800.png' } },
+      media: [{ media: { url: 'https://superbeautiful.de/thumbnail/b2/e7/77/1688394134/produktfotoblack6_800x800.png' } }],
+      children: [
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c60000', productNumber: 'BF-BLACK-XS', calculatedPrice: { unitPrice: 62.0 }, availableStock: 5, available: true, options: [option('Größe', 'XS'), option('Farbe', 'Midnight Black')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c60001', productNumber: 'BF-BLACK-S', calculatedPrice: { unitPrice: 62.0 }, availableStock: 14, available: true, options: [option('Größe', 'S'), option('Farbe', 'Midnight Black')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c60002', productNumber: 'BF-BLACK-M', calculatedPrice: { unitPrice: 62.0 }, availableStock: 25, available: true, options: [option('Größe', 'M'), option('Farbe', 'Midnight Black')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c60003', productNumber: 'BF-BLACK-L', calculatedPrice: { unitPrice: 62.0 }, availableStock: 18, available: true, options: [option('Größe', 'L'), option('Farbe', 'Midnight Black')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c60004', productNumber: 'BF-BLACK-XL', calculatedPrice: { unitPrice: 62.0 }, availableStock: 7, available: true, options: [option('Größe', 'XL'), option('Farbe', 'Midnight Black')] },
+        { id: '0189a1c2d3e4f5a6b7c8d9e0f1c60005', productNumber: 'BF-BLACK-XXL', calculatedPrice: { unitPrice: 62.0 }, availableStock: 3, available: true, options: [option('Größe', 'XXL'), option('Farbe', 'Midnight Black')] },
+      ],
+    },
+  ],
+};
@@ -0,0 +1,98 @@
+import { createContext, useContext } from "react";
+import { I18N_CONFIG } from "../constants";
+import { MessageKey, Messages, de } from "../locales/de";
+import { en } from "../locales/en";
+import { fr } from "../locales/fr";
+import { LocalizedMessage, MessageParams, StoreSettings } from "../types";
+import { formatPrice } from "./catalogService";
+import { errorCode } from "./errors";
+
+export type Language = 'de' | 'en' | 'fr';
+
+export const LANGUAGES: { code: Language; label: string; locale: string }[] = [
+  { code: 'de', label: 'Deutsch', locale: 'de-DE' },
+  { code: 'en', label: 'English', locale: 'en-GB' },
+  { code: 'fr', label: 'Français', locale: 'fr-FR' },
+];
+
+const CATALOGS: Record<Language, Messages> = { de, en, fr };
+
+export function resolveLanguage(locale: string | null | undefined): Language | null {
+  const code = locale?.toLowerCase().split(/[-_]/)[0];
+  return LANGUAGES.find(language => language.code === code)?.code || null;
+}
+
+export function saveLocalePreference(locale: string) {
+  try {
+    localStorage.setItem(I18N_CONFIG.STORAGE_KEY, locale);
+  } catch {
+    // Ohne Storage (z.B. Drittanbieter-iframe) gilt die Auswahl nur für diese Sitzung
+  }
+}
+
+// Gespeicherte Auswahl vor Browser-Sprachen; der Widget-Parameter der Shop-Seite wird vorher in readWidgetConfig geprüft
+export function detectLocale(): string {
+  let stored: string | null = null;
+  try {
+    stored = localStorage.getItem(I18N_CONFIG.STORAGE_KEY);
+  } catch {
+    stored = null;
+  }
+  if (resolveLanguage(stored)) return stored!;
+
+  const browserLocales = typeof navigator !== 'undefined' ? [...(navigator.languages || []), navigator.language] : [];
+  return browserLocales.find(locale => resolveLanguage(locale)) || I18N_CONFIG.DEFAULT_LOCALE;
+}
+
+export interface I18n {
+  locale: string;
+  language: Language;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  message: (message: LocalizedMessage) => string;
+  error: (error: unknown) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatPercent: (value: number) => string;
+  formatPrice: (amount: number, currency: string) => string;
+  formatDate: (value: string | number | Date) => string;
+}
+
+// Texte aus dem Admin-Bereich (`copy`) überschreiben die Sprachdateien
+export function createI18n(requestedLocale: string, copy: StoreSettings['copy'] = {}): I18n {
+  const language = resolveLanguage(requestedLocale) || resolveLanguage(I18N_CONFIG.DEFAULT_LOCALE)!;
+  // Für nicht unterstützte Sprachen formatieren wir passend zur angezeigten Sprache
+  const locale = resolveLanguage(requestedLocale) ? requestedLocale : LANGUAGES.find(l => l.code === language)!.locale;
+  const messages = { ...CATALOGS[language], ...copy[language] };
+
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) => {
+    try {
+      return new Intl.NumberFormat(locale, options).format(value);
+    } catch {
+      return String(value);
+    }
+  };
+
+  const t = (key: MessageKey, params: MessageParams = {}) =>
+    (messages[key] ?? de[key] ?? key).replace(/\{(\w+)\}/g, (match, name) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? formatNumber(value) : value;
+    });
+
+  return {
+    locale,
+    language,
+    t,
+    message: ({ key, params }) => t(key, params),
+    error: error => t(`error.${errorCode(error)}`),
+    formatNumber,
+    formatPercent: value => formatNumber(value, { style: 'percent', maximumFractionDigits: 0 }),
+    formatPrice: (amount, currency) => formatPrice(amount, currency, locale),
+    formatDate: value => new Date(value).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' }),
+  };
+}
+
+export const I18nContext = createContext<I18n>(createI18n(I18N_CONFIG.DEFAULT_LOCALE));
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
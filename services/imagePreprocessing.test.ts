@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { IMAGE_CONFIG } from '../constants';
+import { fillRect, jpegWithOrientation, jpegWithoutExif, pngSignature, solidPixels, standingPose } from './fixtures/images';
+import {
+  computePersonCrop,
+  dataUrlByteSize,
+  encodeUnderBudget,
+  findProductBounds,
+  isRotatedOrientation,
+  orientationTransform,
+  productImageBudget,
+  readExifOrientation,
+} from './imagePreprocessing';
+
+describe('readExifOrientation', () => {
+  it.each([1, 2, 3, 4, 5, 6, 7, 8])('liest Orientierung %i (Big Endian)', orientation => {
+    expect(readExifOrientation(jpegWithOrientation(orientation, 'MM'))).toBe(orientation);
+  });
+
+  it.each([1, 2, 3, 4, 5, 6, 7, 8])('liest Orientierung %i (Little Endian)', orientation => {
+    expect(readExifOrientation(jpegWithOrientation(orientation, 'II'))).toBe(orientation);
+  });
+
+  it('liefert 1 ohne EXIF, für PNG und für ungültige Werte', () => {
+    expect(readExifOrientation(jpegWithoutExif())).toBe(1);
+    expect(readExifOrientation(pngSignature())).toBe(1);
+    expect(readExifOrientation(jpegWithOrientation(9))).toBe(1);
+    expect(readExifOrientation(new ArrayBuffer(2))).toBe(1);
+  });
+
+  it('bricht bei abgeschnittenen Dateien nicht ab', () => {
+    const full = new Uint8Array(jpegWithOrientation(6));
+    for (let length = 0; length < full.length; length++) {
+      expect(() => readExifOrientation(full.slice(0, length).buffer)).not.toThrow();
+    }
+  });
+});
+
+describe('orientationTransform', () => {
+  const WIDTH = 40;
+  const HEIGHT = 30;
+  const apply = ([a, b, c, d, e, f]: number[], x: number, y: number) => [a * x + c * y + e, b * x + d * y + f];
+
+  it.each([1, 2, 3, 4, 5, 6, 7, 8])('bildet das Bild bei Orientierung %i genau auf die Zielfläche ab', orientation => {
+    const transform = orientationTransform(orientation, WIDTH, HEIGHT);
+    const [targetWidth, targetHeight] = isRotatedOrientation(orientation) ? [HEIGHT, WIDTH] : [WIDTH, HEIGHT];
+    const corners = [[0, 0], [WIDTH, 0], [0, HEIGHT], [WIDTH, HEIGHT]].map(([x, y]) => apply(transform, x, y));
+    expect(corners.map(([x]) => x).sort((a, b) => a - b)).toEqual([0, 0, targetWidth, targetWidth]);
+    expect(corners.map(([, y]) => y).sort((a, b) => a - b)).toEqual([0, 0, targetHeight, targetHeight]);
+  });
+
+  // Wohin die linke obere Ecke der gespeicherten Pixel im aufrechten Bild wandert
+  it.each([
+    [1, [0, 0]],
+    [2, [WIDTH, 0]],
+    [3, [WIDTH, HEIGHT]],
+    [4, [0, HEIGHT]],
+    [5, [0, 0]],
+    [6, [HEIGHT, 0]],
+    [7, [HEIGHT, WIDTH]],
+    [8, [0, WIDTH]],
+  ])('Orientierung %i legt den Ursprung auf %j', (orientation, expected) => {
+    expect(apply(orientationTransform(orientation as number, WIDTH, HEIGHT), 0, 0)).toEqual(expected);
+  });
+});
+
+describe('computePersonCrop', () => {
+  const WIDTH = 1000;
+  const HEIGHT = 1500;
+
+  it('schneidet eng um eine kleine Person zu und lässt Luft für Kopf und Füße', () => {
+    const pose = standingPose({ left: 0.4, top: 0.3, width: 0.2, height: 0.4 });
+    const box = computePersonCrop(pose, WIDTH, HEIGHT)!;
+    expect(box).not.toBeNull();
+    for (const point of pose) {
+      expect(point.x * WIDTH).toBeGreaterThanOrEqual(box.x);
+      expect(point.x * WIDTH).toBeLessThanOrEqual(box.x + box.width);
+      expect(point.y * HEIGHT).toBeGreaterThan(box.y);
+      expect(point.y * HEIGHT).toBeLessThan(box.y + box.height);
+    }
+    expect(box.width * box.height).toBeLessThan(WIDTH * HEIGHT * 0.85);
+    // Höchstens Hochformat 1:2
+    expect(box.width).toBeGreaterThanOrEqual(Math.floor(box.height / 2));
+  });
+
+  it('bleibt innerhalb des Bildes, wenn die Person am Rand steht', () => {
+    const box = computePersonCrop(standingPose({ left: 0, top: 0.05, width: 0.15, height: 0.5 }), WIDTH, HEIGHT)!;
+    expect(box.x).toBe(0);
+    expect(box.y).toBeGreaterThanOrEqual(0);
+    expect(box.x + box.width).toBeLessThanOrEqual(WIDTH);
+    expect(box.y + box.height).toBeLessThanOrEqual(HEIGHT);
+  });
+
+  it('lässt Bilder unverändert, in denen die Person fast alles füllt', () => {
+    expect(computePersonCrop(standingPose({ left: 0.05, top: 0.05, width: 0.9, height: 0.9 }), WIDTH, HEIGHT)).toBeNull();
+  });
+
+  it('schneidet ohne genügend sichtbare Landmarks nicht zu', () => {
+    expect(computePersonCrop(standingPose({ left: 0.4, top: 0.3, width: 0.2, height: 0.4, visibility: 0.2 }), WIDTH, HEIGHT)).toBeNull();
+  });
+});
+
+describe('dataUrlByteSize', () => {
+  it.each([0, 1, 2, 3, 4, 5, 1000])('entspricht der Dateigröße bei %i Bytes', length => {
+    const payload = Buffer.alloc(length, 7).toString('base64');
+    expect(dataUrlByteSize(`data:image/jpeg;base64,${payload}`)).toBe(length);
+  });
+});
+
+// Canvas-Ersatz: Dateigröße wächst linear mit Pixelzahl und Qualität, WebP nur wenn unterstützt
+function fakeCanvas(width: number, height: number, supported: string[]) {
+  return {
+    width,
+    height,
+    getContext: () => ({ drawImage: () => undefined }),
+    toDataURL(type = 'image/png', quality = 0.92) {
+      const mimeType = supported.includes(type) ? type : 'image/png';
+      const bytes = Math.ceil(this.width * this.height * quality / 3) * 3;
+      return `data:${mimeType};base64,${'A'.repeat(bytes / 3 * 4)}`;
+    },
+  };
+}
+
+function stubCanvas(supported: string[]) {
+  vi.stubGlobal('document', { createElement: () => fakeCanvas(1, 1, supported) });
+  return (width: number, height: number) => fakeCanvas(width, height, supported) as unknown as HTMLCanvasElement;
+}
+
+describe('encodeUnderBudget', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('nimmt die höchste Qualität, wenn sie ins Budget passt', () => {
+    const canvas = stubCanvas(['image/webp', 'image/jpeg']);
+    const result = encodeUnderBudget(canvas(100, 100), 'image/webp', 100_000);
+    expect(result).toMatchObject({ mimeType: 'image/webp', quality: IMAGE_CONFIG.MAX_QUALITY, width: 100, height: 100 });
+  });
+
+  it('weicht auf JPEG aus, wenn der Browser kein WebP kodiert', () => {
+    const canvas = stubCanvas(['image/jpeg']);
+    expect(encodeUnderBudget(canvas(100, 100), 'image/webp', 100_000).mimeType).toBe('image/jpeg');
+  });
+
+  it('sucht die höchste Qualität unter dem Budget', () => {
+    const canvas = stubCanvas(['image/jpeg']);
+    const budget = 7_000;
+    const result = encodeUnderBudget(canvas(100, 100), 'image/jpeg', budget);
+    expect(dataUrlByteSize(result.dataUrl)).toBeLessThanOrEqual(budget);
+    expect(result.quality).toBeGreaterThan(IMAGE_CONFIG.MIN_QUALITY);
+    expect(result.quality).toBeLessThan(IMAGE_CONFIG.MAX_QUALITY);
+    // Binärsuche mit 6 Schritten liegt höchstens ~1 % unter dem Optimum von 0,7
+    expect(result.quality).toBeGreaterThan(0.69);
+    expect(result.width).toBe(100);
+  });
+
+  it('verkleinert das Bild, wenn selbst die Mindestqualität zu groß ist', () => {
+    const canvas = stubCanvas(['image/jpeg']);
+    const budget = 2_000;
+    const result = encodeUnderBudget(canvas(100, 100), 'image/jpeg', budget);
+    expect(dataUrlByteSize(result.dataUrl)).toBeLessThanOrEqual(budget);
+    expect(result.width).toBeLessThan(100);
+    expect(result.height).toBeLessThan(100);
+  });
+});
+
+describe('productImageBudget', () => {
+  const dataUrl = (bytes: number) => `data:image/jpeg;base64,${'A'.repeat(Math.ceil(bytes / 3) * 4)}`;
+
+  it('lässt Anfragen unter dem Limit unverändert', () => {
+    expect(productImageBudget(dataUrl(1_000), [dataUrl(1_000), dataUrl(1_000)], 10_000)).toBe(Infinity);
+  });
+
+  it('teilt den Rest nach dem Foto gleichmäßig auf die Produktbilder auf', () => {
+    const user = dataUrl(IMAGE_CONFIG.USER_MAX_BYTES);
+    const products = Array.from({ length: 4 }, () => dataUrl(IMAGE_CONFIG.PRODUCT_MAX_BYTES));
+    const budget = productImageBudget(user, products, 4_000_000)!;
+    expect(budget).toBeLessThan(IMAGE_CONFIG.PRODUCT_MAX_BYTES);
+    expect(budget).toBeGreaterThanOrEqual(IMAGE_CONFIG.PRODUCT_MIN_BYTES);
+    const total = user.length + products.map(() => dataUrl(budget).length).reduce((a, b) => a + b, 0);
+    expect(total).toBeLessThanOrEqual(4_000_000);
+  });
+
+  it('liefert null, wenn für die Produktbilder zu wenig bleibt', () => {
+    expect(productImageBudget(dataUrl(1_400_000), [dataUrl(600_000), dataUrl(600_000)], 2_000_000)).toBeNull();
+  });
+});
+
+describe('findProductBounds', () => {
+  const WHITE = { r: 255, g: 255, b: 255 };
+  const RED = { r: 200, g: 30, b: 40 };
+
+  it('findet den Rahmen eines Produkts auf weißem Studiohintergrund', () => {
+    const pixels = fillRect(solidPixels(60, 80, WHITE), 12, 20, 30, 40, RED);
+    expect(findProductBounds(pixels.data, pixels.width, pixels.height, 24)).toEqual({
+      box: { x: 12, y: 20, width: 30, height: 40 },
+      background: [255, 255, 255],
+    });
+  });
+
+  it('ignoriert Rauschen im Hintergrund innerhalb der Toleranz', () => {
+    const pixels = fillRect(solidPixels(60, 80, WHITE), 12, 20, 30, 40, RED);
+    fillRect(pixels, 2, 2, 5, 5, { r: 240, g: 244, b: 238 });
+    expect(findProductBounds(pixels.data, pixels.width, pixels.height, 24)?.box).toEqual({ x: 12, y: 20, width: 30, height: 40 });
+  });
+
+  it('erkennt farbige Hintergründe', () => {
+    const grey = { r: 230, g: 230, b: 228 };
+    const pixels = fillRect(solidPixels(50, 50, grey), 10, 10, 5, 5, RED);
+    expect(findProductBounds(pixels.data, pixels.width, pixels.height, 24)?.background).toEqual([230, 230, 228]);
+  });
+
+  it('liefert null für Szenen mit unterschiedlichen Ecken', () => {
+    const pixels = fillRect(solidPixels(50, 50, WHITE), 0, 0, 10, 10, RED);
+    expect(findProductBounds(pixels.data, pixels.width, pixels.height, 24)).toBeNull();
+  });
+
+  it('liefert null für leere Bilder', () => {
+    const pixels = solidPixels(20, 20, WHITE);
+    expect(findProductBounds(pixels.data, pixels.width, pixels.height, 24)).toBeNull();
+  });
+});
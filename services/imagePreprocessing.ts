@@ -0,0 +1,397 @@
+import type { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { IMAGE_CONFIG, PHOTO_CHECK_CONFIG, PRODUCT_IMAGE_CONFIG } from "../constants";
+import { TryOnError } from "./errors";
+import { loadPoseLandmarker } from "./photoChecks";
+
+export interface PreprocessOptions {
+  maxEdge: number;
+  maxBytes: number;
+  cropToPerson: boolean;
+  preferredType: 'image/webp' | 'image/jpeg';
+}
+
+export interface PreprocessResult {
+  dataUrl: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;
+  quality: number;
+  cropped: boolean;
+}
+
+export interface CropBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const USER_IMAGE_OPTIONS: PreprocessOptions = {
+  maxEdge: IMAGE_CONFIG.USER_MAX_EDGE,
+  maxBytes: IMAGE_CONFIG.USER_MAX_BYTES,
+  cropToPerson: true,
+  preferredType: 'image/webp',
+};
+
+export const PRODUCT_IMAGE_OPTIONS: PreprocessOptions = {
+  maxEdge: IMAGE_CONFIG.PRODUCT_MAX_EDGE,
+  maxBytes: IMAGE_CONFIG.PRODUCT_MAX_BYTES,
+  cropToPerson: false,
+  preferredType: 'image/jpeg',
+};
+
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+/**
+ * Liest das EXIF-Orientation-Tag (1–8) aus einem JPEG. 1 = keine Drehung, auch für Nicht-JPEGs.
+ */
+export function readExifOrientation(buffer: ArrayBuffer): number {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 mit "Exif\0\0"
+    if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const value = view.getUint16(entry + 8, little);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+      return 1;
+    }
+    if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) break;
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+// Orientierungen 5–8 vertauschen Breite und Höhe
+export function isRotatedOrientation(orientation: number): boolean {
+  return orientation >= 5 && orientation <= 8;
+}
+
+// Canvas-Transformation, die ein Bild mit gegebener EXIF-Orientierung aufrecht zeichnet
+export function orientationTransform(orientation: number, width: number, height: number): [number, number, number, number, number, number] {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, height, 0];
+    case 7: return [0, -1, -1, 0, height, width];
+    case 8: return [0, -1, 1, 0, 0, width];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+}
+
+export function fitWithin(width: number, height: number, maxEdge: number): { width: number; height: number } {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * Ausschnitt um die erkannte Person (normierte Landmarks) mit Rand für Kopf und Füße.
+ * Liefert null, wenn die Person schon fast das ganze Bild füllt – dann lohnt kein Zuschnitt.
+ */
+export function computePersonCrop(landmarks: NormalizedLandmark[], width: number, height: number): CropBox | null {
+  const visible = landmarks.filter(point => point.visibility >= PHOTO_CHECK_CONFIG.MIN_VISIBILITY);
+  if (visible.length < 8) return null;
+
+  const xs = visible.map(point => Math.min(1, Math.max(0, point.x)) * width);
+  const ys = visible.map(point => Math.min(1, Math.max(0, point.y)) * height);
+  const bodyHeight = Math.max(...ys) - Math.min(...ys);
+  const bodyWidth = Math.max(...xs) - Math.min(...xs);
+
+  // Landmarks enden an Nase und Zehen – Haare, Arme und Schatten brauchen Luft
+  let top = Math.min(...ys) - bodyHeight * 0.15;
+  let bottom = Math.max(...ys) + bodyHeight * 0.06;
+  let left = Math.min(...xs) - Math.max(bodyWidth * 0.35, bodyHeight * 0.12);
+  let right = Math.max(...xs) + Math.max(bodyWidth * 0.35, bodyHeight * 0.12);
+
+  // Höchstens Hochformat 1:2, damit genug Hintergrund für eine saubere Anprobe bleibt
+  const minWidth = (bottom - top) / 2;
+  if (right - left < minWidth) {
+    const grow = (minWidth - (right - left)) / 2;
+    left -= grow;
+    right += grow;
+  }
+
+  top = Math.max(0, top);
+  bottom = Math.min(height, bottom);
+  left = Math.max(0, left);
+  right = Math.min(width, right);
+
+  const box = { x: Math.round(left), y: Math.round(top), width: Math.round(right - left), height: Math.round(bottom - top) };
+  if (box.width * box.height > width * height * 0.85) return null;
+  return box;
+}
+
+export interface ProductBounds {
+  box: CropBox;
+  background: [number, number, number];
+}
+
+/**
+ * Rahmen um das Produkt auf einfarbigem Hintergrund (Farbe aus den vier Ecken, RGBA-Pixel ohne Transparenz).
+ * Liefert null, wenn die Ecken nicht zusammenpassen – dann ist es eher eine Szene als ein Studiofoto.
+ */
+export function findProductBounds(data: Uint8ClampedArray, width: number, height: number, tolerance: number): ProductBounds | null {
+  const pixelAt = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return [data[i], data[i + 1], data[i + 2]];
+  };
+  const corners = [pixelAt(0, 0), pixelAt(width - 1, 0), pixelAt(0, height - 1), pixelAt(width - 1, height - 1)];
+  const background = [0, 1, 2].map(channel => Math.round(corners.reduce((sum, pixel) => sum + pixel[channel], 0) / corners.length)) as [number, number, number];
+  const differs = (r: number, g: number, b: number) =>
+    Math.abs(r - background[0]) > tolerance || Math.abs(g - background[1]) > tolerance || Math.abs(b - background[2]) > tolerance;
+  if (corners.some(pixel => differs(pixel[0], pixel[1], pixel[2]))) return null;
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (!differs(data[i], data[i + 1], data[i + 2])) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return null;
+  return { box: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 }, background };
+}
+
+export function dataUrlByteSize(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+}
+
+function supportsType(type: string): boolean {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 1;
+  return canvas.toDataURL(type).startsWith(`data:${type}`);
+}
+
+/**
+ * Kodiert ein Canvas als JPEG/WebP mit der höchsten Qualität, die ins Byte-Budget passt (Binärsuche).
+ * Reicht selbst die Mindestqualität nicht, wird das Bild schrittweise verkleinert.
+ */
+export function encodeUnderBudget(
+  canvas: HTMLCanvasElement,
+  preferredType: PreprocessOptions['preferredType'],
+  maxBytes: number,
+): { dataUrl: string; mimeType: string; quality: number; width: number; height: number } {
+  const mimeType = preferredType === 'image/webp' && supportsType('image/webp') ? 'image/webp' : 'image/jpeg';
+  let source = canvas;
+
+  for (let attempt = 0; attempt < 4; attempt++) {
+    let low = IMAGE_CONFIG.MIN_QUALITY;
+    let high = IMAGE_CONFIG.MAX_QUALITY;
+    let best: { dataUrl: string; quality: number } | null = null;
+
+    const atMax = source.toDataURL(mimeType, high);
+    if (dataUrlByteSize(atMax) <= maxBytes) {
+      return { dataUrl: atMax, mimeType, quality: high, width: source.width, height: source.height };
+    }
+    for (let i = 0; i < 6; i++) {
+      const quality = (low + high) / 2;
+      const dataUrl = source.toDataURL(mimeType, quality);
+      if (dataUrlByteSize(dataUrl) <= maxBytes) {
+        best = { dataUrl, quality };
+        low = quality;
+      } else {
+        high = quality;
+      }
+    }
+    if (best) {
+      return { ...best, mimeType, width: source.width, height: source.height };
+    }
+
+    const smaller = document.createElement('canvas');
+    smaller.width = Math.max(1, Math.round(source.width * 0.8));
+    smaller.height = Math.max(1, Math.round(source.height * 0.8));
+    smaller.getContext('2d')!.drawImage(source, 0, 0, smaller.width, smaller.height);
+    source = smaller;
+  }
+
+  const dataUrl = source.toDataURL(mimeType, IMAGE_CONFIG.MIN_QUALITY);
+  return { dataUrl, mimeType, quality: IMAGE_CONFIG.MIN_QUALITY, width: source.width, height: source.height };
+}
+
+async function decode(blob: Blob): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(blob);
+  } catch {
+    if (HEIC_TYPES.includes(blob.type) || /\.hei[cf]$/i.test((blob as File).name || '')) {
+      throw new TryOnError('HEIC_UNSUPPORTED');
+    }
+    throw new TryOnError('IMAGE_READ_FAILED');
+  }
+}
+
+// Moderne Browser wenden die EXIF-Orientierung beim Dekodieren selbst an – ältere nicht
+function browserAppliesOrientation(): boolean {
+  return typeof CSS !== 'undefined' && CSS.supports?.('image-orientation', 'from-image');
+}
+
+async function detectPersonCrop(canvas: HTMLCanvasElement): Promise<CropBox | null> {
+  const landmarker = await loadPoseLandmarker('IMAGE');
+  if (!landmarker) return null;
+  const { landmarks } = landmarker.detect(canvas);
+  // Bei mehreren Personen nicht raten – die Foto-Prüfung meldet das ohnehin
+  return landmarks.length === 1 ? computePersonCrop(landmarks[0], canvas.width, canvas.height) : null;
+}
+
+/**
+ * Bereitet ein Bild für den Upload vor: EXIF-Orientierung anwenden, Metadaten (inkl. GPS) entfernen
+ * – das Neu-Kodieren über Canvas schreibt keine EXIF-Daten –, auf die Person zuschneiden,
+ * verkleinern und so komprimieren, dass das Byte-Budget eingehalten wird.
+ */
+export async function preprocessImage(input: Blob, overrides: Partial<PreprocessOptions> = {}): Promise<PreprocessResult> {
+  const options = { ...USER_IMAGE_OPTIONS, ...overrides };
+  const orientation = browserAppliesOrientation() ? 1 : readExifOrientation(await input.arrayBuffer());
+  const bitmap = await decode(input);
+
+  try {
+    // Zuerst aufrecht drehen, damit Pose-Erkennung und Zuschnitt im richtigen Koordinatensystem arbeiten
+    const rotated = isRotatedOrientation(orientation);
+    const upright = document.createElement('canvas');
+    upright.width = rotated ? bitmap.height : bitmap.width;
+    upright.height = rotated ? bitmap.width : bitmap.height;
+    const uprightCtx = upright.getContext('2d');
+    if (!uprightCtx) throw new TryOnError('IMAGE_PROCESSING_FAILED');
+    uprightCtx.setTransform(...orientationTransform(orientation, bitmap.width, bitmap.height));
+    uprightCtx.drawImage(bitmap, 0, 0);
+    uprightCtx.setTransform(1, 0, 0, 1, 0, 0);
+
+    let crop: CropBox = { x: 0, y: 0, width: upright.width, height: upright.height };
+    let cropped = false;
+    if (options.cropToPerson) {
+      const personCrop = await detectPersonCrop(upright).catch(() => null);
+      if (personCrop) {
+        crop = personCrop;
+        cropped = true;
+      }
+    }
+
+    const target = fitWithin(crop.width, crop.height, options.maxEdge);
+    const output = document.createElement('canvas');
+    output.width = target.width;
+    output.height = target.height;
+    const ctx = output.getContext('2d');
+    if (!ctx) throw new TryOnError('IMAGE_PROCESSING_FAILED');
+    // JPEG kennt keine Transparenz – weiß statt schwarz hinterlegen
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, output.width, output.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(upright, crop.x, crop.y, crop.width, crop.height, 0, 0, output.width, output.height);
+
+    const encoded = encodeUnderBudget(output, options.preferredType, options.maxBytes);
+    return { ...encoded, bytes: dataUrlByteSize(encoded.dataUrl), cropped };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Normalisiert ein Produktfoto für das Modell: einfarbigen Hintergrund abschneiden und das Produkt
+ * zentriert auf eine feste Fläche setzen (PRODUCT_IMAGE_CONFIG), damit jedes Modell-Input gleich aufgebaut ist.
+ */
+export async function normalizeProductShot(input: Blob): Promise<string> {
+  const bitmap = await decode(input);
+
+  try {
+    const size = fitWithin(bitmap.width, bitmap.height, IMAGE_CONFIG.PRODUCT_MAX_EDGE);
+    const source = document.createElement('canvas');
+    source.width = size.width;
+    source.height = size.height;
+    const sourceCtx = source.getContext('2d', { willReadFrequently: true });
+    if (!sourceCtx) throw new TryOnError('IMAGE_PROCESSING_FAILED');
+    // Transparente PNGs erst auf Weiß legen, dann zählt Transparenz als Hintergrund
+    sourceCtx.fillStyle = '#ffffff';
+    sourceCtx.fillRect(0, 0, size.width, size.height);
+    sourceCtx.drawImage(bitmap, 0, 0, size.width, size.height);
+
+    const bounds = findProductBounds(sourceCtx.getImageData(0, 0, size.width, size.height).data, size.width, size.height, PRODUCT_IMAGE_CONFIG.TRIM_TOLERANCE);
+    const crop = bounds?.box || { x: 0, y: 0, width: size.width, height: size.height };
+
+    const output = document.createElement('canvas');
+    output.width = PRODUCT_IMAGE_CONFIG.WIDTH;
+    output.height = PRODUCT_IMAGE_CONFIG.HEIGHT;
+    const ctx = output.getContext('2d');
+    if (!ctx) throw new TryOnError('IMAGE_PROCESSING_FAILED');
+    // Rand in der Hintergrundfarbe des Fotos, damit keine Kante entsteht
+    ctx.fillStyle = bounds ? `rgb(${bounds.background.join(',')})` : '#ffffff';
+    ctx.fillRect(0, 0, output.width, output.height);
+    const padding = Math.round(Math.min(output.width, output.height) * PRODUCT_IMAGE_CONFIG.PADDING);
+    const scale = Math.min((output.width - padding * 2) / crop.width, (output.height - padding * 2) / crop.height);
+    const width = Math.round(crop.width * scale);
+    const height = Math.round(crop.height * scale);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, Math.round((output.width - width) / 2), Math.round((output.height - height) / 2), width, height);
+
+    return encodeUnderBudget(output, PRODUCT_IMAGE_OPTIONS.preferredType, PRODUCT_IMAGE_OPTIONS.maxBytes).dataUrl;
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Byte-Budget je Produktbild, damit Foto und Produktbilder als Data-URLs zusammen unter maxRequestBytes
+ * bleiben (Infinity, wenn schon alles passt). Das Foto wird nicht angetastet; reicht der Rest nicht für
+ * PRODUCT_MIN_BYTES je Bild, gibt es null.
+ */
+export function productImageBudget(userImage: string, productImages: string[], maxRequestBytes: number): number | null {
+  const total = productImages.reduce((sum, image) => sum + image.length, userImage.length);
+  if (total <= maxRequestBytes) return Infinity;
+  // Base64 braucht 4 Zeichen für 3 Bytes; dazu der Data-URL-Header
+  const perImage = Math.floor((maxRequestBytes - userImage.length) / productImages.length * 3 / 4) - 64;
+  return perImage >= IMAGE_CONFIG.PRODUCT_MIN_BYTES ? perImage : null;
+}
+
+// Kodiert ein fertiges Bild neu, falls es größer als maxBytes ist
+export async function reencodeUnderBudget(dataUrl: string, maxBytes: number): Promise<string> {
+  if (dataUrlByteSize(dataUrl) <= maxBytes) return dataUrl;
+  const bitmap = await decode(await dataUrlToBlob(dataUrl));
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new TryOnError('IMAGE_PROCESSING_FAILED');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0);
+    return encodeUnderBudget(canvas, PRODUCT_IMAGE_OPTIONS.preferredType, maxBytes).dataUrl;
+  } finally {
+    bitmap.close();
+  }
+}
+
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const response = await fetch(dataUrl);
+  return response.blob();
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new TryOnError('IMAGE_READ_FAILED'));
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,184 @@
+import { GALLERY_CONFIG } from "../constants";
+import { OutfitItem, RenderVariant, SavedLook, SizeRecommendation } from "../types";
+import { TryOnError } from "./errors";
+import { blobToDataUrl, dataUrlToBlob } from "./imagePreprocessing";
+import { loadImage } from "./photoChecks";
+
+const LOOKS = 'looks';
+const IMAGES = 'images';
+
+interface LookImages {
+  id: string;
+  result: Blob;
+  userImage: Blob;
+}
+
+export interface NewLook {
+  userImage: string;
+  resultImage: string;
+  outfit: OutfitItem[];
+  recommendedSize: SizeRecommendation | null;
+  variant: RenderVariant;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function toStorageError(error: DOMException | null): TryOnError {
+  return new TryOnError(error?.name === 'QuotaExceededError' ? 'STORAGE_FULL' : 'STORAGE_UNAVAILABLE', null, false, error?.message);
+}
+
+// Privater Modus oder blockiertes IndexedDB: Fehler wird geworfen, beim nächsten Aufruf neu versucht
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new TryOnError('STORAGE_UNAVAILABLE'));
+        return;
+      }
+      const request = indexedDB.open(GALLERY_CONFIG.DB_NAME, GALLERY_CONFIG.DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(LOOKS)) db.createObjectStore(LOOKS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(IMAGES)) db.createObjectStore(IMAGES, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(toStorageError(request.error));
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// Eine Transaktion über beide Stores; aufgelöst wird erst nach dem Commit
+async function transact<T = void>(
+  mode: IDBTransactionMode,
+  fn: (looks: IDBObjectStore, images: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction([LOOKS, IMAGES], mode);
+    const request = fn(tx.objectStore(LOOKS), tx.objectStore(IMAGES));
+    tx.oncomplete = () => resolve(request ? request.result : undefined as T);
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+  });
+}
+
+async function createThumbnail(dataUrl: string): Promise<string> {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = GALLERY_CONFIG.THUMBNAIL_WIDTH;
+  canvas.height = Math.round(GALLERY_CONFIG.THUMBNAIL_WIDTH * img.naturalHeight / img.naturalWidth);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new TryOnError('IMAGE_PROCESSING_FAILED');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', GALLERY_CONFIG.THUMBNAIL_QUALITY);
+}
+
+// Neueste zuerst
+export async function listLooks(): Promise<SavedLook[]> {
+  const looks = await transact<SavedLook[]>('readonly', looks => looks.getAll());
+  return looks.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getLookImages(id: string): Promise<{ resultImage: string; userImage: string }> {
+  const images = await transact<LookImages | undefined>('readonly', (_, images) => images.get(id));
+  if (!images) throw new TryOnError('IMAGE_READ_FAILED', null, false, id);
+  const [resultImage, userImage] = await Promise.all([blobToDataUrl(images.result), blobToDataUrl(images.userImage)]);
+  return { resultImage, userImage };
+}
+
+export function setFavourite(id: string, favourite: boolean): Promise<void> {
+  return transact('readwrite', looks => {
+    const request = looks.get(id);
+    request.onsuccess = () => {
+      if (request.result) looks.put({ ...request.result, favourite });
+    };
+  });
+}
+
+export function deleteLooks(ids: string[]): Promise<void> {
+  return transact('readwrite', (looks, images) => {
+    for (const id of ids) {
+      looks.delete(id);
+      images.delete(id);
+    }
+  });
+}
+
+export async function clearLooks(options: { keepFavourites?: boolean } = {}): Promise<void> {
+  if (options.keepFavourites) {
+    const looks = await listLooks();
+    await deleteLooks(looks.filter(look => !look.favourite).map(look => look.id));
+    return;
+  }
+  await transact('readwrite', (looks, images) => {
+    looks.clear();
+    images.clear();
+  });
+}
+
+/**
+ * Hält Anzahl und Größe der Galerie ein – gemessen an den eigenen bytes, nicht an der Nutzung der ganzen
+ * Origin (dazu zählt z.B. der Produktbild-Cache). Gelöscht werden die ältesten Looks, Favoriten erst
+ * wenn sonst nichts mehr bleibt; keepId (der gerade gespeicherte Look) nie.
+ * Mit force wird mindestens ein Look gelöscht, z.B. nach einem QuotaExceededError.
+ */
+export async function enforceQuota(keepId?: string, force = false): Promise<string[]> {
+  const looks = await listLooks();
+  let count = looks.length;
+  let bytes = looks.reduce((sum, look) => sum + look.bytes, 0);
+  let overQuota = force;
+  const candidates = looks
+    .filter(look => look.id !== keepId)
+    .reverse()
+    .sort((a, b) => Number(a.favourite) - Number(b.favourite));
+
+  const evicted: string[] = [];
+  for (const look of candidates) {
+    if (count <= GALLERY_CONFIG.MAX_LOOKS && bytes <= GALLERY_CONFIG.MAX_BYTES && !overQuota) break;
+    await deleteLooks([look.id]);
+    evicted.push(look.id);
+    count -= 1;
+    bytes -= look.bytes;
+    overQuota = false;
+  }
+  return evicted;
+}
+
+export async function saveLook(input: NewLook): Promise<SavedLook> {
+  const [result, userImage, thumbnail] = await Promise.all([
+    dataUrlToBlob(input.resultImage),
+    dataUrlToBlob(input.userImage),
+    createThumbnail(input.resultImage),
+  ]);
+  const look: SavedLook = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    favourite: false,
+    thumbnail,
+    outfit: input.outfit,
+    recommendedSize: input.recommendedSize,
+    variant: input.variant,
+    bytes: result.size + userImage.size + thumbnail.length,
+  };
+  const images: LookImages = { id: look.id, result, userImage };
+  const write = () => transact('readwrite', (looks, imageStore) => {
+    looks.put(look);
+    imageStore.put(images);
+  });
+
+  try {
+    await write();
+  } catch (error) {
+    // Quota des Browsers erreicht: alte Looks räumen und einmal neu versuchen
+    if (!(error instanceof TryOnError) || error.code !== 'STORAGE_FULL') throw error;
+    const evicted = await enforceQuota(undefined, true);
+    if (evicted.length === 0) throw error;
+    await write();
+  }
+  await enforceQuota(look.id);
+  return look;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SIZE_CHART } from '../constants';
+import { Product, ProductCategory } from '../types';
+import { cartLines, outfitFromProduct, setOutfitSlot } from './outfitService';
+
+function product(id: string, category: ProductCategory, extra: Partial<Product> = {}): Product {
+  return {
+    id,
+    category,
+    productNumber: id.toUpperCase(),
+    name: id,
+    price: 30,
+    currency: 'EUR',
+    imageUrl: `https://example.com/${id}.png`,
+    images: [],
+    description: '',
+    sizeChart: DEFAULT_SIZE_CHART,
+    variants: [],
+    ...extra,
+  };
+}
+
+const skyTop = product('sky-top', 'top', { photoShowsSet: true });
+const skyLeggings = product('sky-leggings', 'bottom', { photoShowsSet: true });
+const skySet = product('sky-set', 'set', { setSlots: ['top', 'bottom'], setPieces: { top: 'SKY-TOP', bottom: 'SKY-LEGGINGS' } });
+const blackSet = product('black-set', 'set', { setSlots: ['top', 'bottom'], setPieces: { bottom: 'black-leggings' } });
+const blackLeggings = product('black-leggings', 'bottom');
+const maroonSet = product('maroon-set', 'set', { setSlots: ['top', 'bottom'] });
+const catalog = [skySet, skyTop, skyLeggings, blackSet, blackLeggings, maroonSet];
+
+describe('cartLines', () => {
+  it('legt ein komplett getragenes Set als Set in den Warenkorb', () => {
+    expect(cartLines(outfitFromProduct(skySet), catalog)).toEqual([{ product: skySet, setOnly: false }]);
+  });
+
+  it('nimmt aus kombinierten Sets nur die gewählten Teile', () => {
+    const outfit = setOutfitSlot(outfitFromProduct(skySet), 'bottom', blackSet);
+    expect(cartLines(outfit, catalog)).toEqual([
+      { product: skyTop, setOnly: false },
+      { product: blackLeggings, setOnly: false },
+    ]);
+  });
+
+  it('übernimmt Einzelteile unverändert', () => {
+    expect(cartLines(setOutfitSlot(outfitFromProduct(skyTop), 'bottom', blackLeggings), catalog).map(line => line.product)).toEqual([skyTop, blackLeggings]);
+  });
+
+  it('markiert Teile, die es nur im Set gibt', () => {
+    const outfit = setOutfitSlot(outfitFromProduct(maroonSet), 'bottom', blackLeggings);
+    expect(cartLines(outfit, catalog)).toEqual([
+      { product: maroonSet, setOnly: true },
+      { product: blackLeggings, setOnly: false },
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { DEFAULT_SET_SLOTS, GARMENT_SLOTS } from "../constants";
+import { GarmentCategory, OutfitItem, Product } from "../types";
+import { findProduct } from "./catalogService";
+
+// Ein Produktbild samt der Slots, die daraus übernommen werden sollen
+export interface OutfitGarment {
+  product: Product;
+  slots: GarmentCategory[];
+}
+
+export function productCoversSlot(product: Product, slot: GarmentCategory): boolean {
+  return product.category === slot || (product.category === 'set' && (product.setSlots || DEFAULT_SET_SLOTS).includes(slot));
+}
+
+export function productsForSlot(products: Product[], slot: GarmentCategory): Product[] {
+  return products.filter(product => productCoversSlot(product, slot));
+}
+
+// Ein einzelnes Produkt als Outfit: ein Set belegt alle seine Slots
+export function outfitFromProduct(product: Product): OutfitItem[] {
+  const slots = product.category === 'set' ? product.setSlots || DEFAULT_SET_SLOTS : [product.category];
+  return slots.map(slot => ({ slot, product }));
+}
+
+// Belegt einen Slot neu (oder leert ihn mit null) und hält die Reihenfolge von innen nach außen
+export function setOutfitSlot(outfit: OutfitItem[], slot: GarmentCategory, product: Product | null): OutfitItem[] {
+  const next = outfit.filter(item => item.slot !== slot);
+  if (product) next.push({ slot, product });
+  return next.sort((a, b) => GARMENT_SLOTS.indexOf(a.slot) - GARMENT_SLOTS.indexOf(b.slot));
+}
+
+// Fasst Slots desselben Produkts zusammen, damit jedes Produktbild nur einmal an das Modell geht
+export function groupOutfit(outfit: OutfitItem[]): OutfitGarment[] {
+  const garments: OutfitGarment[] = [];
+  for (const item of outfit) {
+    const existing = garments.find(garment => garment.product.id === item.product.id);
+    if (existing) {
+      existing.slots.push(item.slot);
+    } else {
+      garments.push({ product: item.product, slots: [item.slot] });
+    }
+  }
+  return garments;
+}
+
+export interface CartLine {
+  product: Product;
+  // Teil eines Sets, das es nicht einzeln gibt – in den Warenkorb kommt dann das ganze Set
+  setOnly: boolean;
+}
+
+/**
+ * Was in den Warenkorb kommt: ein vollständig getragenes Set als Set, von einem nur teilweise
+ * getragenen Set die gewählten Teile als eigene Produkte (setPieces, aufgelöst im Katalog).
+ */
+export function cartLines(outfit: OutfitItem[], catalog: Product[]): CartLine[] {
+  const lines: CartLine[] = [];
+  const add = (product: Product, setOnly: boolean) => {
+    if (!lines.some(line => line.product.id === product.id)) lines.push({ product, setOnly });
+  };
+  for (const { product, slots } of groupOutfit(outfit)) {
+    const setSlots = product.category === 'set' ? product.setSlots || DEFAULT_SET_SLOTS : null;
+    if (!setSlots || setSlots.every(slot => slots.includes(slot))) {
+      add(product, false);
+      continue;
+    }
+    for (const slot of slots) {
+      const ref = product.setPieces?.[slot];
+      const piece = ref ? findProduct(catalog, ref) : null;
+      if (piece) add(piece, false);
+      else add(product, true);
+    }
+  }
+  return lines;
+}
+
+// Die Größentabelle bezieht sich auf die Leggings – daher bestimmt das Unterteil die Empfehlung
+export function primaryOutfitProduct(outfit: OutfitItem[]): Product | null {
+  return (outfit.find(item => item.slot === 'bottom') || outfit[0])?.product || null;
+}
+
+export function describeOutfit(outfit: OutfitItem[]): string {
+  return groupOutfit(outfit).map(garment => garment.product.name).join(' + ');
+}
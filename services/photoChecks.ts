@@ -0,0 +1,204 @@
+import type { NormalizedLandmark, PoseLandmarker } from "@mediapipe/tasks-vision";
+import { PHOTO_CHECK_CONFIG } from "../constants";
+import { LocalizedMessage } from "../types";
+import { TryOnError } from "./errors";
+
+export type PhotoCheckId = 'resolution' | 'brightness' | 'single-person' | 'full-body' | 'feet' | 'pose-unavailable';
+
+export interface PhotoCheck {
+  id: PhotoCheckId;
+  status: 'pass' | 'warn' | 'fail';
+  message: LocalizedMessage;
+}
+
+export interface PhotoCheckReport {
+  checks: PhotoCheck[];
+  passed: boolean;
+}
+
+// Indizes der MediaPipe Pose Landmarks
+export const LANDMARK = {
+  NOSE: 0,
+  LEFT_SHOULDER: 11, RIGHT_SHOULDER: 12,
+  LEFT_ELBOW: 13, RIGHT_ELBOW: 14,
+  LEFT_HIP: 23, RIGHT_HIP: 24,
+  LEFT_KNEE: 25, RIGHT_KNEE: 26,
+  LEFT_ANKLE: 27, RIGHT_ANKLE: 28,
+  LEFT_HEEL: 29, RIGHT_HEEL: 30,
+  LEFT_FOOT: 31, RIGHT_FOOT: 32,
+};
+
+// Nase, Augen, Ohren, Mund
+const FACE_POINTS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+const BODY_POINTS = [
+  LANDMARK.NOSE, LANDMARK.LEFT_SHOULDER, LANDMARK.RIGHT_SHOULDER,
+  LANDMARK.LEFT_HIP, LANDMARK.RIGHT_HIP, LANDMARK.LEFT_KNEE, LANDMARK.RIGHT_KNEE,
+];
+const FEET_POINTS = [
+  LANDMARK.LEFT_ANKLE, LANDMARK.RIGHT_ANKLE, LANDMARK.LEFT_HEEL, LANDMARK.RIGHT_HEEL,
+  LANDMARK.LEFT_FOOT, LANDMARK.RIGHT_FOOT,
+];
+
+const landmarkers = new Map<'IMAGE' | 'VIDEO', Promise<PoseLandmarker | null>>();
+
+// Modell und WASM werden erst bei Bedarf geladen; ohne Netz/GPU liefern wir null und überspringen die Pose-Prüfung
+export function loadPoseLandmarker(mode: 'IMAGE' | 'VIDEO' = 'IMAGE'): Promise<PoseLandmarker | null> {
+  let landmarker = landmarkers.get(mode);
+  if (!landmarker) {
+    landmarker = (async () => {
+      try {
+        const { FilesetResolver, PoseLandmarker } = await import("@mediapipe/tasks-vision");
+        const vision = await FilesetResolver.forVisionTasks(PHOTO_CHECK_CONFIG.POSE_WASM_URL);
+        return await PoseLandmarker.createFromOptions(vision, {
+          baseOptions: { modelAssetPath: PHOTO_CHECK_CONFIG.POSE_MODEL_URL, delegate: 'GPU' },
+          runningMode: mode,
+          numPoses: 2,
+        });
+      } catch (error) {
+        console.warn("Pose landmarker unavailable:", error);
+        landmarkers.delete(mode);
+        return null;
+      }
+    })();
+    landmarkers.set(mode, landmarker);
+  }
+  return landmarker;
+}
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Rahmen um den Kopf in Pixeln. Die Breite richtet sich nach den Schultern (mal scale),
+ * weil die Gesichtspunkte bei Seitenansicht eng zusammenliegen.
+ */
+export function faceBox(pose: NormalizedLandmark[], width: number, height: number, scale: number): Box | null {
+  const points = FACE_POINTS.map(index => pose[index]).filter(Boolean);
+  if (points.length === 0) return null;
+  const xs = points.map(point => point.x * width);
+  const ys = points.map(point => point.y * height);
+  const centerX = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const centerY = (Math.min(...ys) + Math.max(...ys)) / 2;
+
+  const left = pose[LANDMARK.LEFT_SHOULDER];
+  const right = pose[LANDMARK.RIGHT_SHOULDER];
+  const shoulderWidth = left && right ? Math.hypot((left.x - right.x) * width, (left.y - right.y) * height) : 0;
+  const boxWidth = Math.max(shoulderWidth * scale, (Math.max(...xs) - Math.min(...xs)) * 2);
+  const boxHeight = boxWidth * 1.35;
+  return { x: centerX - boxWidth / 2, y: centerY - boxHeight * 0.55, width: boxWidth, height: boxHeight };
+}
+
+const isInFrame = (point: NormalizedLandmark | undefined) =>
+  !!point && point.visibility >= PHOTO_CHECK_CONFIG.MIN_VISIBILITY && point.x >= 0 && point.x <= 1 && point.y >= 0 && point.y <= 0.99;
+
+// Bewertet erkannte Posen: genau eine Person, Körper vollständig, Füße im Bild
+export function evaluatePoses(poses: NormalizedLandmark[][]): PhotoCheck[] {
+  if (poses.length === 0) {
+    return [{ id: 'single-person', status: 'fail', message: { key: 'check.singlePerson.none' } }];
+  }
+  if (poses.length > 1) {
+    return [{ id: 'single-person', status: 'fail', message: { key: 'check.singlePerson.multiple' } }];
+  }
+
+  const pose = poses[0];
+  const checks: PhotoCheck[] = [{ id: 'single-person', status: 'pass', message: { key: 'check.singlePerson.pass' } }];
+
+  const bodyVisible = BODY_POINTS.every(index => isInFrame(pose[index]));
+  checks.push(bodyVisible
+    ? { id: 'full-body', status: 'pass', message: { key: 'check.fullBody.pass' } }
+    : { id: 'full-body', status: 'fail', message: { key: 'check.fullBody.fail' } });
+
+  const feetVisible = FEET_POINTS.filter(index => isInFrame(pose[index])).length >= 4;
+  checks.push(feetVisible
+    ? { id: 'feet', status: 'pass', message: { key: 'check.feet.pass' } }
+    : { id: 'feet', status: 'fail', message: { key: 'check.feet.fail' } });
+
+  return checks;
+}
+
+export function checkResolution(width: number, height: number): PhotoCheck {
+  const shortEdge = Math.min(width, height);
+  return shortEdge >= PHOTO_CHECK_CONFIG.MIN_SHORT_EDGE
+    ? { id: 'resolution', status: 'pass', message: { key: 'check.resolution.pass', params: { width, height } } }
+    : { id: 'resolution', status: 'fail', message: { key: 'check.resolution.fail', params: { width, height, min: PHOTO_CHECK_CONFIG.MIN_SHORT_EDGE } } };
+}
+
+// Mittlere Helligkeit (0–255) auf einer verkleinerten Kopie
+export function measureBrightness(source: CanvasImageSource, width: number, height: number): number {
+  const size = 64;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = Math.max(1, Math.round(size * height / width));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return 128;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    sum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return sum / (data.length / 4);
+}
+
+export function checkBrightness(brightness: number): PhotoCheck {
+  if (brightness < PHOTO_CHECK_CONFIG.MIN_BRIGHTNESS) {
+    return { id: 'brightness', status: 'fail', message: { key: 'check.brightness.dark' } };
+  }
+  if (brightness < PHOTO_CHECK_CONFIG.LOW_BRIGHTNESS) {
+    return { id: 'brightness', status: 'warn', message: { key: 'check.brightness.dim' } };
+  }
+  if (brightness > PHOTO_CHECK_CONFIG.MAX_BRIGHTNESS) {
+    return { id: 'brightness', status: 'warn', message: { key: 'check.brightness.bright' } };
+  }
+  return { id: 'brightness', status: 'pass', message: { key: 'check.brightness.pass' } };
+}
+
+export function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new TryOnError('IMAGE_READ_FAILED'));
+    img.src = dataUrl;
+  });
+}
+
+function toReport(checks: PhotoCheck[]): PhotoCheckReport {
+  return { checks, passed: checks.every(check => check.status !== 'fail') };
+}
+
+/**
+ * Prüft ein Foto lokal im Browser, bevor es an das Modell geht.
+ * So fallen typische SAFETY/IMAGE_OTHER-Ursachen (Ausschnitt, mehrere Personen, Dunkelheit) vor dem Modell-Aufruf auf.
+ */
+export async function checkPhoto(dataUrl: string): Promise<PhotoCheckReport> {
+  const img = await loadImage(dataUrl);
+  const checks: PhotoCheck[] = [
+    checkResolution(img.naturalWidth, img.naturalHeight),
+    checkBrightness(measureBrightness(img, img.naturalWidth, img.naturalHeight)),
+  ];
+
+  const landmarker = await loadPoseLandmarker('IMAGE');
+  if (landmarker) {
+    checks.push(...evaluatePoses(landmarker.detect(img).landmarks));
+  } else {
+    checks.push({ id: 'pose-unavailable', status: 'warn', message: { key: 'check.poseUnavailable' } });
+  }
+
+  return toReport(checks);
+}
+
+// Schnelle Prüfung eines Kamera-Frames für die Live-Hinweise
+export async function checkVideoFrame(video: HTMLVideoElement, timestamp: number): Promise<PhotoCheckReport | null> {
+  if (!video.videoWidth || video.readyState < 2) return null;
+  const checks: PhotoCheck[] = [checkBrightness(measureBrightness(video, video.videoWidth, video.videoHeight))];
+  const landmarker = await loadPoseLandmarker('VIDEO');
+  if (landmarker) {
+    checks.push(...evaluatePoses(landmarker.detectForVideo(video, timestamp).landmarks));
+  }
+  return toReport(checks);
+}
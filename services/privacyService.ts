@@ -0,0 +1,154 @@
+import { PRIVACY_CONFIG } from "../constants";
+import { ConsentAction, ConsentEvent, ConsentRecord } from "../types";
+import { TryOnError } from "./errors";
+import { clearLooks } from "./lookStore";
+import { clearWizardSnapshot } from "./session";
+import { faceBox, loadImage, loadPoseLandmarker } from "./photoChecks";
+import { clearRenderCache } from "./tryOnService";
+
+// Ohne Storage (z.B. Drittanbieter-iframe) gilt die Einwilligung nur für diese Sitzung
+const memoryStore = new Map<string, string>();
+
+function readStored<T>(key: string): T | null {
+  let raw: string | null | undefined;
+  try {
+    raw = localStorage.getItem(key);
+  } catch {
+    raw = memoryStore.get(key);
+  }
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+function writeStored(key: string, value: unknown) {
+  const raw = JSON.stringify(value);
+  try {
+    localStorage.setItem(key, raw);
+  } catch {
+    memoryStore.set(key, raw);
+  }
+}
+
+function removeStored(key: string) {
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // Storage nicht verfügbar – dann gibt es nur die Kopie im Speicher
+  }
+  memoryStore.delete(key);
+}
+
+export function getConsentLog(): ConsentEvent[] {
+  const log = readStored<ConsentEvent[]>(PRIVACY_CONFIG.LOG_KEY);
+  return Array.isArray(log) ? log : [];
+}
+
+function logConsentEvent(action: ConsentAction, locale: string, details: Partial<ConsentEvent> = {}): ConsentEvent {
+  const event: ConsentEvent = { action, version: PRIVACY_CONFIG.CONSENT_VERSION, locale, timestamp: new Date().toISOString(), ...details };
+  writeStored(PRIVACY_CONFIG.LOG_KEY, [...getConsentLog(), event].slice(-PRIVACY_CONFIG.MAX_LOG_ENTRIES));
+  return event;
+}
+
+// Nur eine Einwilligung zur aktuellen Textversion zählt – nach einer Änderung wird neu gefragt
+export function getConsent(): ConsentRecord | null {
+  const record = readStored<ConsentRecord>(PRIVACY_CONFIG.CONSENT_KEY);
+  return record?.version === PRIVACY_CONFIG.CONSENT_VERSION ? record : null;
+}
+
+export function grantConsent(locale: string, analytics = false): { record: ConsentRecord; event: ConsentEvent } {
+  const event = logConsentEvent('granted', locale, { analytics });
+  const record: ConsentRecord = { version: event.version, locale, grantedAt: event.timestamp, analytics };
+  writeStored(PRIVACY_CONFIG.CONSENT_KEY, record);
+  return { record, event };
+}
+
+// Die Statistik ist freiwillig und lässt sich unabhängig von der Foto-Einwilligung ändern
+export function setAnalyticsConsent(record: ConsentRecord, allowed: boolean): { record: ConsentRecord; event: ConsentEvent } {
+  const event = logConsentEvent(allowed ? 'analytics-granted' : 'analytics-revoked', record.locale);
+  const next: ConsentRecord = { ...record, analytics: allowed };
+  writeStored(PRIVACY_CONFIG.CONSENT_KEY, next);
+  return { record: next, event };
+}
+
+export function declineConsent(locale: string): ConsentEvent {
+  return logConsentEvent('declined', locale);
+}
+
+async function clearStoredImages() {
+  clearRenderCache();
+  clearWizardSnapshot();
+  try {
+    await clearLooks();
+  } catch {
+    // Ohne IndexedDB wurde auch nichts gespeichert
+  }
+}
+
+export async function revokeConsent(locale: string): Promise<ConsentEvent> {
+  removeStored(PRIVACY_CONFIG.CONSENT_KEY);
+  await clearStoredImages();
+  return logConsentEvent('revoked', locale);
+}
+
+/**
+ * Löscht alle im Browser gehaltenen Fotos und Ergebnisse: Render-Cache, Sitzungsstand und "Meine Looks".
+ * Den React-State leert der Aufrufer; das Protokoll bleibt als Nachweis erhalten.
+ */
+export async function deleteUserData(locale: string): Promise<ConsentEvent> {
+  await clearStoredImages();
+  return logConsentEvent('data-deleted', locale);
+}
+
+// Export für Audits: alle Ereignisse plus die aktuell gültige Textversion
+export function exportConsentLog(): Blob {
+  const payload = {
+    exportedAt: new Date().toISOString(),
+    currentVersion: PRIVACY_CONFIG.CONSENT_VERSION,
+    consent: getConsent(),
+    events: getConsentLog(),
+  };
+  return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Verpixelt alle erkannten Gesichter lokal im Browser, z.B. vor Download oder Teilen.
+ * Wird kein Gesicht gefunden, schlägt die Funktion fehl statt ein unverändertes Bild zurückzugeben.
+ */
+export async function anonymizeFaces(dataUrl: string): Promise<string> {
+  const img = await loadImage(dataUrl);
+  const landmarker = await loadPoseLandmarker('IMAGE');
+  const poses = landmarker ? landmarker.detect(img).landmarks : [];
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const boxes = poses.map(pose => faceBox(pose, width, height, PRIVACY_CONFIG.FACE_BOX_SCALE)).filter((box): box is NonNullable<typeof box> => !!box);
+  if (boxes.length === 0) throw new TryOnError('FACE_NOT_DETECTED');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new TryOnError('IMAGE_PROCESSING_FAILED');
+  ctx.drawImage(img, 0, 0);
+
+  // Verkleinern und ohne Glättung wieder vergrößern ergibt Blöcke – funktioniert auch ohne ctx.filter (Safari)
+  const small = document.createElement('canvas');
+  const smallCtx = small.getContext('2d');
+  if (!smallCtx) throw new TryOnError('IMAGE_PROCESSING_FAILED');
+  for (const box of boxes) {
+    small.width = PRIVACY_CONFIG.FACE_PIXEL_BLOCKS;
+    small.height = Math.ceil(PRIVACY_CONFIG.FACE_PIXEL_BLOCKS * box.height / box.width);
+    smallCtx.drawImage(img, box.x, box.y, box.width, box.height, 0, 0, small.width, small.height);
+    ctx.save();
+    ctx.beginPath();
+    ctx.ellipse(box.x + box.width / 2, box.y + box.height / 2, box.width / 2, box.height / 2, 0, 0, Math.PI * 2);
+    ctx.clip();
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(small, 0, 0, small.width, small.height, box.x, box.y, box.width, box.height);
+    ctx.restore();
+  }
+  return canvas.toDataURL('image/jpeg', 0.92);
+}
@@ -0,0 +1,110 @@
+import { APP_CONFIG, PRODUCT_IMAGE_CONFIG } from "../constants";
+import { Product } from "../types";
+import { TryOnError } from "./errors";
+import { blobToDataUrl, dataUrlToBlob, normalizeProductShot } from "./imagePreprocessing";
+
+// Normalisierte Bilder im Speicher (LRU über die Einfügereihenfolge der Map). Laufende Ladevorgänge
+// stehen als Promise darin, damit Vorladen und Anprobe dasselbe Bild nicht doppelt holen.
+const memory = new Map<string, Promise<string>>();
+
+function cacheName(): string {
+  return `${PRODUCT_IMAGE_CONFIG.CACHE_NAME}-v${PRODUCT_IMAGE_CONFIG.CACHE_VERSION}`;
+}
+
+// Schlüssel je Produkt-ID; die Bild-URL hängt als Query dran, damit ein neues Foto den alten Eintrag ersetzt
+function cacheKey(product: Product): string {
+  return `/product-images/${encodeURIComponent(product.id)}?src=${encodeURIComponent(product.imageUrl)}`;
+}
+
+// Cache Storage gibt es nur in sicheren Kontexten – ohne ihn bleibt es beim Speicher-Cache
+async function openCache(): Promise<Cache | null> {
+  if (typeof caches === 'undefined') return null;
+  try {
+    return await caches.open(cacheName());
+  } catch {
+    return null;
+  }
+}
+
+async function readCached(product: Product): Promise<string | null> {
+  const cache = await openCache();
+  const response = await cache?.match(cacheKey(product)).catch(() => undefined);
+  return response ? blobToDataUrl(await response.blob()) : null;
+}
+
+async function writeCached(product: Product, dataUrl: string) {
+  const cache = await openCache();
+  if (!cache) return;
+  try {
+    const key = cacheKey(product);
+    await cache.delete(key, { ignoreSearch: true });
+    await cache.put(key, new Response(await dataUrlToBlob(dataUrl)));
+    // Älteste Einträge zuerst entfernen – keys() liefert die Einfügereihenfolge
+    const keys = await cache.keys();
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - PRODUCT_IMAGE_CONFIG.MAX_CACHE_ENTRIES)).map(request => cache.delete(request)));
+  } catch (error) {
+    console.warn("Product image cache not writable:", error);
+  }
+}
+
+// Fremde Hosts laufen über unseren eigenen Bild-Endpunkt (Allowlist auf dem Server), eigene Pfade direkt
+function sourceUrl(url: string): string {
+  if (url.startsWith('data:')) return url;
+  const absolute = new URL(url, window.location.href);
+  if (absolute.origin === window.location.origin) return absolute.href;
+  return `${APP_CONFIG.API_BASE_URL}/product-image?url=${encodeURIComponent(absolute.href)}`;
+}
+
+async function fetchAndNormalize(product: Product): Promise<string> {
+  let blob: Blob;
+  try {
+    const response = await fetch(sourceUrl(product.imageUrl));
+    if (!response.ok) throw new TryOnError('PRODUCT_IMAGE_FAILED', response.status, false, product.imageUrl);
+    blob = await response.blob();
+  } catch (error) {
+    if (error instanceof TryOnError) throw error;
+    throw new TryOnError('PRODUCT_IMAGE_FAILED', null, false, product.imageUrl);
+  }
+  const dataUrl = await normalizeProductShot(blob).catch(() => {
+    throw new TryOnError('PRODUCT_IMAGE_FAILED', null, false, product.imageUrl);
+  });
+  void writeCached(product, dataUrl);
+  return dataUrl;
+}
+
+function remember(key: string, entry: Promise<string>) {
+  memory.delete(key);
+  memory.set(key, entry);
+  while (memory.size > PRODUCT_IMAGE_CONFIG.MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value!);
+  }
+}
+
+/**
+ * Liefert das normalisierte Produktbild als Data-URL: erst aus dem Speicher, dann aus Cache Storage,
+ * sonst vom Shop (bzw. /api/product-image). Fehlgeschlagene Ladevorgänge werden nicht gemerkt.
+ */
+export function loadProductImage(product: Product): Promise<string> {
+  const key = cacheKey(product);
+  const known = memory.get(key);
+  if (known) {
+    remember(key, known);
+    return known;
+  }
+
+  const loading = readCached(product)
+    .catch(() => null)
+    .then(cached => cached || fetchAndNormalize(product));
+  remember(key, loading);
+  loading.catch(() => {
+    if (memory.get(key) === loading) memory.delete(key);
+  });
+  return loading;
+}
+
+// Vorladen, während der Kunde noch sein Foto auswählt – Fehler zeigen sich erst bei der Anprobe
+export function preloadProductImages(products: Product[]) {
+  for (const product of products) {
+    loadProductImage(product).catch(error => console.warn("Product image preload failed:", product.id, error));
+  }
+}
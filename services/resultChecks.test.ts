@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { QUALITY_CONFIG } from '../constants';
+import { fillRect, shiftPixels, solidPixels, standingPose } from './fixtures/images';
+import {
+  Mask,
+  PixelData,
+  backgroundMask,
+  checkAspect,
+  checkGarmentColours,
+  checkOutputResolution,
+  checkPreservation,
+  colourDistance,
+  extractPalette,
+  faceMask,
+  meanDifference,
+} from './resultChecks';
+
+const WIDTH = 120;
+const HEIGHT = 160;
+const GREY = { r: 120, g: 120, b: 120 };
+const everywhere: Mask = () => true;
+
+// Verschiebt nur die Pixel innerhalb der Maske – so ändert sich gezielt Hintergrund oder Gesicht
+function shiftWhere(pixels: PixelData, mask: Mask, delta: number): PixelData {
+  const shifted = shiftPixels(pixels, delta);
+  for (let y = 0; y < pixels.height; y++) {
+    for (let x = 0; x < pixels.width; x++) {
+      if (mask(x, y)) continue;
+      const i = (y * pixels.width + x) * 4;
+      shifted.data.set(pixels.data.subarray(i, i + 4), i);
+    }
+  }
+  return shifted;
+}
+
+// Größte ganzzahlige Kanalverschiebung unter bzw. kleinste ab einer Schwelle (Anteil von 255)
+const below = (threshold: number) => Math.ceil(threshold * 255) - 1;
+const atOrAbove = (threshold: number) => Math.ceil(threshold * 255);
+
+describe('checkAspect', () => {
+  it('akzeptiert gleiches Seitenverhältnis in anderer Auflösung', () => {
+    expect(checkAspect({ width: 768, height: 1024 }, { width: 1536, height: 2048 }).status).toBe('pass');
+  });
+
+  it('toleriert Abweichungen bis MAX_ASPECT_DEVIATION', () => {
+    expect(checkAspect({ width: 1000, height: 1000 }, { width: 1025, height: 1000 }).status).toBe('pass');
+    expect(checkAspect({ width: 1000, height: 1000 }, { width: 1035, height: 1000 }).status).toBe('fail');
+  });
+
+  it('lehnt ein quadratisches Ergebnis für ein Hochformat-Foto ab', () => {
+    expect(checkAspect({ width: 768, height: 1024 }, { width: 1024, height: 1024 })).toMatchObject({ id: 'aspect', status: 'fail' });
+  });
+});
+
+describe('checkOutputResolution', () => {
+  it('warnt nur, wenn das Ergebnis kleiner als Foto und MIN_SHORT_EDGE ist', () => {
+    expect(checkOutputResolution({ width: 768, height: 1024 }, { width: 768, height: 1024 }).status).toBe('pass');
+    expect(checkOutputResolution({ width: 768, height: 1024 }, { width: 384, height: 512 }).status).toBe('warn');
+    // Kleine Fotos dürfen auch kleine Ergebnisse liefern
+    expect(checkOutputResolution({ width: 300, height: 400 }, { width: 300, height: 400 }).status).toBe('pass');
+  });
+});
+
+describe('meanDifference', () => {
+  const base = solidPixels(WIDTH, HEIGHT, GREY);
+
+  it('ist 0 für identische Bilder und misst gleichmäßige Verschiebungen exakt', () => {
+    expect(meanDifference(base, base, everywhere)).toBe(0);
+    expect(meanDifference(base, shiftPixels(base, 51), everywhere)).toBeCloseTo(0.2, 10);
+  });
+
+  it('liefert null bei unterschiedlicher Größe oder zu kleiner Maske', () => {
+    expect(meanDifference(base, solidPixels(WIDTH, HEIGHT + 1, GREY), everywhere)).toBeNull();
+    expect(meanDifference(base, base, (x, y) => x < 5 && y < 5)).toBeNull();
+  });
+});
+
+describe('backgroundMask und faceMask', () => {
+  const pose = standingPose();
+  const background = backgroundMask(pose, WIDTH, HEIGHT);
+  const face = faceMask(pose, WIDTH, HEIGHT)!;
+  const nose = { x: Math.round(pose[0].x * WIDTH), y: Math.round(pose[0].y * HEIGHT) };
+  const hips = { x: Math.round(WIDTH / 2), y: Math.round(pose[23].y * HEIGHT) };
+
+  it('trennt Person und Hintergrund', () => {
+    expect(background(2, 2)).toBe(true);
+    expect(background(WIDTH - 2, HEIGHT / 2)).toBe(true);
+    expect(background(hips.x, hips.y)).toBe(false);
+    expect(background(nose.x, nose.y)).toBe(false);
+  });
+
+  it('umfasst das Gesicht, aber nicht Körper oder Hintergrund', () => {
+    expect(face(nose.x, nose.y)).toBe(true);
+    expect(face(hips.x, hips.y)).toBe(false);
+    expect(face(2, 2)).toBe(false);
+  });
+
+  it('erkennt einen veränderten Hintergrund, ohne das Gesicht zu beanstanden', () => {
+    const before = solidPixels(WIDTH, HEIGHT, GREY);
+    const after = shiftWhere(before, background, 60);
+    expect(meanDifference(before, after, background)).toBeCloseTo(60 / 255, 10);
+    expect(meanDifference(before, after, face, 10)).toBe(0);
+  });
+
+  it('liefert ohne Gesichtspunkte keine Maske', () => {
+    expect(faceMask([], WIDTH, HEIGHT)).toBeNull();
+  });
+});
+
+describe('Schwellen für Hintergrund und Gesicht', () => {
+  const pose = standingPose();
+  const before = solidPixels(WIDTH, HEIGHT, GREY);
+
+  it.each([
+    ['background', backgroundMask(pose, WIDTH, HEIGHT), QUALITY_CONFIG.BACKGROUND_WARN, QUALITY_CONFIG.BACKGROUND_FAIL],
+    ['face', faceMask(pose, WIDTH, HEIGHT)!, QUALITY_CONFIG.FACE_WARN, QUALITY_CONFIG.FACE_FAIL],
+  ] as const)('%s: pass unter WARN, warn ab WARN, fail ab FAIL', (id, mask, warnAt, failAt) => {
+    const status = (delta: number) => {
+      const difference = meanDifference(before, shiftWhere(before, mask, delta), mask, 10);
+      return checkPreservation(id, difference, warnAt, failAt)?.status;
+    };
+    expect(status(0)).toBe('pass');
+    expect(status(below(warnAt))).toBe('pass');
+    expect(status(atOrAbove(warnAt))).toBe('warn');
+    expect(status(below(failAt))).toBe('warn');
+    expect(status(atOrAbove(failAt))).toBe('fail');
+  });
+
+  it('überspringt die Prüfung ohne aussagekräftigen Bereich', () => {
+    expect(checkPreservation('face', null, QUALITY_CONFIG.FACE_WARN, QUALITY_CONFIG.FACE_FAIL)).toBeNull();
+  });
+});
+
+describe('extractPalette', () => {
+  const WHITE = { r: 255, g: 255, b: 255 };
+  const RED = { r: 200, g: 30, b: 40 };
+  const NAVY = { r: 20, g: 30, b: 90 };
+
+  it('findet die Produktfarbe und ignoriert den weißen Hintergrund', () => {
+    const photo = fillRect(solidPixels(100, 100, WHITE), 30, 20, 40, 60, RED);
+    expect(extractPalette(photo)).toEqual([RED]);
+  });
+
+  it('sortiert nach Häufigkeit und begrenzt die Anzahl', () => {
+    const photo = fillRect(fillRect(solidPixels(100, 100, WHITE), 20, 10, 60, 80, RED), 40, 40, 20, 20, NAVY);
+    expect(extractPalette(photo)).toEqual([RED, NAVY]);
+    expect(extractPalette(photo, 1)).toEqual([RED]);
+  });
+
+  it('ignoriert Farben am Bildrand', () => {
+    const photo = fillRect(solidPixels(100, 100, WHITE), 0, 0, 15, 100, NAVY);
+    expect(extractPalette(photo)).toEqual([]);
+  });
+});
+
+describe('checkGarmentColours', () => {
+  const palette = [{ r: 200, g: 30, b: 40 }, { r: 245, g: 245, b: 245 }];
+  const check = (colour: { r: number; g: number; b: number } | null) =>
+    checkGarmentColours([{ productName: 'Top', palette, colour }]);
+
+  it('akzeptiert Schatten und Falten in der Produktfarbe', () => {
+    expect(colourDistance(palette[0], { r: 170, g: 25, b: 34 })).toBeLessThan(QUALITY_CONFIG.COLOUR_WARN);
+    expect(check({ r: 170, g: 25, b: 34 })?.status).toBe('pass');
+  });
+
+  it('warnt ab COLOUR_WARN und schlägt ab COLOUR_FAIL fehl', () => {
+    const orange = { r: 200, g: 90, b: 40 };
+    const raspberry = { r: 200, g: 30, b: 100 };
+    expect(colourDistance(palette[0], orange)).toBeGreaterThanOrEqual(QUALITY_CONFIG.COLOUR_WARN);
+    expect(colourDistance(palette[0], orange)).toBeLessThan(QUALITY_CONFIG.COLOUR_FAIL);
+    expect(colourDistance(palette[0], raspberry)).toBeGreaterThanOrEqual(QUALITY_CONFIG.COLOUR_FAIL);
+    expect(check(orange)?.status).toBe('warn');
+    expect(check(raspberry)).toMatchObject({ status: 'fail', message: { params: { product: 'Top' } } });
+  });
+
+  it('bewertet das Teil mit der größten Abweichung', () => {
+    const result = checkGarmentColours([
+      { productName: 'Top', palette, colour: { r: 200, g: 30, b: 40 } },
+      { productName: 'Leggings', palette: [{ r: 20, g: 20, b: 20 }], colour: { r: 135, g: 206, b: 235 } },
+    ]);
+    expect(result).toMatchObject({ status: 'fail', message: { params: { product: 'Leggings' } } });
+  });
+
+  it('überspringt Teile ohne Probe oder Palette', () => {
+    expect(check(null)).toBeNull();
+    expect(checkGarmentColours([{ productName: 'Top', palette: [], colour: { r: 0, g: 0, b: 0 } }])).toBeNull();
+  });
+});
@@ -0,0 +1,280 @@
+import type { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { QUALITY_CONFIG } from "../constants";
+import { GarmentCategory, LocalizedMessage } from "../types";
+import { TryOnError } from "./errors";
+import { LANDMARK, faceBox, loadImage, loadPoseLandmarker } from "./photoChecks";
+
+export type QualityCheckId = 'aspect' | 'resolution' | 'background' | 'face' | 'garment-colour';
+
+export interface QualityCheck {
+  id: QualityCheckId;
+  status: 'pass' | 'warn' | 'fail';
+  message: LocalizedMessage;
+}
+
+export interface QualityReport {
+  checks: QualityCheck[];
+  passed: boolean;
+}
+
+// Entspricht ImageData, lässt sich in Tests aber auch ohne Canvas erzeugen
+export interface PixelData {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Bildbereich für den Vergleich, in Pixeln des Arbeitsbildes
+export type Mask = (x: number, y: number) => boolean;
+
+export interface QualityGarment {
+  productName: string;
+  image: string;
+  slots: GarmentCategory[];
+}
+
+export interface GarmentColourSample {
+  productName: string;
+  palette: Rgb[];
+  colour: Rgb | null;
+}
+
+export function checkAspect(input: Size, output: Size): QualityCheck {
+  const expected = input.width / input.height;
+  const deviation = Math.abs(output.width / output.height - expected) / expected;
+  return deviation <= QUALITY_CONFIG.MAX_ASPECT_DEVIATION
+    ? { id: 'aspect', status: 'pass', message: { key: 'quality.aspect.pass' } }
+    : { id: 'aspect', status: 'fail', message: { key: 'quality.aspect.fail' } };
+}
+
+// Kleinere Ergebnisse sind nutzbar, aber einen Hinweis wert
+export function checkOutputResolution(input: Size, output: Size): QualityCheck {
+  const shortEdge = Math.min(output.width, output.height);
+  const minEdge = Math.min(QUALITY_CONFIG.MIN_SHORT_EDGE, Math.min(input.width, input.height));
+  const params = { width: output.width, height: output.height };
+  return shortEdge >= minEdge
+    ? { id: 'resolution', status: 'pass', message: { key: 'quality.resolution.pass', params } }
+    : { id: 'resolution', status: 'warn', message: { key: 'quality.resolution.warn', params } };
+}
+
+/**
+ * Mittlere Farbabweichung (0–1) zweier gleich großer Bilder innerhalb der Maske.
+ * Zu wenige Pixel in der Maske ergeben null – der Bereich ist dann nicht aussagekräftig.
+ */
+export function meanDifference(a: PixelData, b: PixelData, mask: Mask, minPixels = 50): number | null {
+  if (a.width !== b.width || a.height !== b.height) return null;
+  let sum = 0;
+  let count = 0;
+  for (let y = 0; y < a.height; y++) {
+    for (let x = 0; x < a.width; x++) {
+      if (!mask(x, y)) continue;
+      const i = (y * a.width + x) * 4;
+      sum += Math.abs(a.data[i] - b.data[i]) + Math.abs(a.data[i + 1] - b.data[i + 1]) + Math.abs(a.data[i + 2] - b.data[i + 2]);
+      count++;
+    }
+  }
+  return count >= minPixels ? sum / (count * 3 * 255) : null;
+}
+
+export function checkPreservation(id: 'background' | 'face', difference: number | null, warnAt: number, failAt: number): QualityCheck | null {
+  if (difference === null) return null;
+  const status = difference >= failAt ? 'fail' : difference >= warnAt ? 'warn' : 'pass';
+  return { id, status, message: { key: `quality.${id}.${status}` } };
+}
+
+// Alles außerhalb des erweiterten Körperrahmens; Haare und Arme liegen oft knapp außerhalb der Landmarks
+export function backgroundMask(pose: NormalizedLandmark[], width: number, height: number): Mask {
+  const xs = pose.map(point => point.x * width);
+  const ys = pose.map(point => point.y * height);
+  const padX = (Math.max(...xs) - Math.min(...xs)) * 0.2;
+  const padY = (Math.max(...ys) - Math.min(...ys)) * 0.08;
+  const left = Math.min(...xs) - padX;
+  const right = Math.max(...xs) + padX;
+  const top = Math.min(...ys) - padY;
+  const bottom = Math.max(...ys) + padY;
+  return (x, y) => x < left || x > right || y < top || y > bottom;
+}
+
+export function faceMask(pose: NormalizedLandmark[], width: number, height: number): Mask | null {
+  const box = faceBox(pose, width, height, QUALITY_CONFIG.FACE_BOX_SCALE);
+  if (!box) return null;
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+  return (x, y) => ((x - centerX) / (box.width / 2)) ** 2 + ((y - centerY) / (box.height / 2)) ** 2 <= 1;
+}
+
+function between(a: Point, b: Point, t: number, width: number, height: number): Point {
+  return { x: (a.x + (b.x - a.x) * t) * width, y: (a.y + (b.y - a.y) * t) * height };
+}
+
+// Stellen, an denen das jeweilige Teil sicher zu sehen ist: Oberschenkel/Schienbein, Brust, Bauch, Oberarme
+export function garmentPoints(pose: NormalizedLandmark[], slots: GarmentCategory[], width: number, height: number): Point[] {
+  // Körpermitte noch normalisiert, skaliert wird erst beim Interpolieren
+  const shoulders = between(pose[LANDMARK.LEFT_SHOULDER], pose[LANDMARK.RIGHT_SHOULDER], 0.5, 1, 1);
+  const hips = between(pose[LANDMARK.LEFT_HIP], pose[LANDMARK.RIGHT_HIP], 0.5, 1, 1);
+  const points: Record<GarmentCategory, () => Point[]> = {
+    bottom: () => [
+      between(pose[LANDMARK.LEFT_HIP], pose[LANDMARK.LEFT_KNEE], 0.5, width, height),
+      between(pose[LANDMARK.RIGHT_HIP], pose[LANDMARK.RIGHT_KNEE], 0.5, width, height),
+      between(pose[LANDMARK.LEFT_KNEE], pose[LANDMARK.LEFT_ANKLE], 0.4, width, height),
+      between(pose[LANDMARK.RIGHT_KNEE], pose[LANDMARK.RIGHT_ANKLE], 0.4, width, height),
+    ],
+    bra: () => [between(shoulders, hips, 0.3, width, height)],
+    top: () => [between(shoulders, hips, 0.55, width, height)],
+    jacket: () => [
+      between(pose[LANDMARK.LEFT_SHOULDER], pose[LANDMARK.LEFT_ELBOW], 0.5, width, height),
+      between(pose[LANDMARK.RIGHT_SHOULDER], pose[LANDMARK.RIGHT_ELBOW], 0.5, width, height),
+    ],
+  };
+  return slots.flatMap(slot => points[slot]());
+}
+
+// Median je Kanal – robust gegen Falten, Schatten und einzelne Logos
+export function sampleColour(pixels: PixelData, points: Point[], radius = 3): Rgb | null {
+  const channels: number[][] = [[], [], []];
+  for (const point of points) {
+    for (let y = Math.round(point.y) - radius; y <= Math.round(point.y) + radius; y++) {
+      for (let x = Math.round(point.x) - radius; x <= Math.round(point.x) + radius; x++) {
+        if (x < 0 || y < 0 || x >= pixels.width || y >= pixels.height) continue;
+        const i = (y * pixels.width + x) * 4;
+        channels[0].push(pixels.data[i]);
+        channels[1].push(pixels.data[i + 1]);
+        channels[2].push(pixels.data[i + 2]);
+      }
+    }
+  }
+  if (channels[0].length === 0) return null;
+  const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+  return { r: median(channels[0]), g: median(channels[1]), b: median(channels[2]) };
+}
+
+/**
+ * Häufigste Farben eines Produktfotos (4 Bit je Kanal). Der weiße Hintergrund, den die
+ * Vorverarbeitung einfügt, und der Bildrand werden ignoriert.
+ */
+export function extractPalette(pixels: PixelData, size = QUALITY_CONFIG.PALETTE_SIZE): Rgb[] {
+  const buckets = new Map<number, { r: number; g: number; b: number; count: number }>();
+  const marginX = Math.floor(pixels.width * 0.2);
+  const marginY = Math.floor(pixels.height * 0.1);
+  for (let y = marginY; y < pixels.height - marginY; y++) {
+    for (let x = marginX; x < pixels.width - marginX; x++) {
+      const i = (y * pixels.width + x) * 4;
+      const [r, g, b, a] = [pixels.data[i], pixels.data[i + 1], pixels.data[i + 2], pixels.data[i + 3]];
+      if (a < 128 || (r > 235 && g > 235 && b > 235)) continue;
+      const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+      const bucket = buckets.get(key) || { r: 0, g: 0, b: 0, count: 0 };
+      bucket.r += r;
+      bucket.g += g;
+      bucket.b += b;
+      bucket.count++;
+      buckets.set(key, bucket);
+    }
+  }
+  return [...buckets.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, size)
+    .map(bucket => ({ r: bucket.r / bucket.count, g: bucket.g / bucket.count, b: bucket.b / bucket.count }));
+}
+
+function toLab({ r, g, b }: Rgb): [number, number, number] {
+  const linear = (channel: number) => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const fx = f((lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047);
+  const fy = f(lr * 0.2126 + lg * 0.7152 + lb * 0.0722);
+  const fz = f((lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+// ΔE (CIE76): ab etwa 20 sieht man einen deutlichen Farbunterschied
+export function colourDistance(a: Rgb, b: Rgb): number {
+  const [l1, a1, b1] = toLab(a);
+  const [l2, a2, b2] = toLab(b);
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+}
+
+// Bewertet das Teil mit der größten Abweichung zur nächstgelegenen Farbe seiner Produktpalette
+export function checkGarmentColours(samples: GarmentColourSample[]): QualityCheck | null {
+  let worst: { productName: string; distance: number } | null = null;
+  for (const sample of samples) {
+    if (!sample.colour || sample.palette.length === 0) continue;
+    const distance = Math.min(...sample.palette.map(colour => colourDistance(colour, sample.colour!)));
+    if (!worst || distance > worst.distance) worst = { productName: sample.productName, distance };
+  }
+  if (!worst) return null;
+  const status = worst.distance >= QUALITY_CONFIG.COLOUR_FAIL ? 'fail' : worst.distance >= QUALITY_CONFIG.COLOUR_WARN ? 'warn' : 'pass';
+  return { id: 'garment-colour', status, message: { key: `quality.colour.${status}`, params: { product: worst.productName } } };
+}
+
+function readPixels(source: HTMLImageElement, width: number, height = Math.max(1, Math.round(width * source.naturalHeight / source.naturalWidth))): PixelData {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new TryOnError('IMAGE_PROCESSING_FAILED');
+  // Transparente Produktbilder auf Weiß, wie in der Vorverarbeitung
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+}
+
+function toReport(checks: (QualityCheck | null)[]): QualityReport {
+  const valid = checks.filter((check): check is QualityCheck => !!check);
+  return { checks: valid, passed: valid.every(check => check.status !== 'fail') };
+}
+
+/**
+ * Prüft ein Modell-Ergebnis lokal gegen Foto und Produktbilder: Seitenverhältnis und Auflösung,
+ * unveränderter Hintergrund und Gesicht sowie die Farbe jedes Teils. Ohne Pose-Erkennung
+ * bleiben nur die Bildmaße geprüft.
+ */
+export async function checkResult(userImage: string, resultImage: string, garments: QualityGarment[]): Promise<QualityReport> {
+  const [input, output] = await Promise.all([loadImage(userImage), loadImage(resultImage)]);
+  const inputSize = { width: input.naturalWidth, height: input.naturalHeight };
+  const outputSize = { width: output.naturalWidth, height: output.naturalHeight };
+  const aspect = checkAspect(inputSize, outputSize);
+  const checks: (QualityCheck | null)[] = [aspect, checkOutputResolution(inputSize, outputSize)];
+  // Bei anderem Bildausschnitt passen die Regionen des Fotos nicht mehr auf das Ergebnis
+  if (aspect.status === 'fail') return toReport(checks);
+
+  const landmarker = await loadPoseLandmarker('IMAGE');
+  const pose = landmarker?.detect(input).landmarks[0];
+  if (!pose) return toReport(checks);
+
+  const before = readPixels(input, QUALITY_CONFIG.WORK_WIDTH);
+  const after = readPixels(output, before.width, before.height);
+  const face = faceMask(pose, before.width, before.height);
+  checks.push(
+    checkPreservation('background', meanDifference(before, after, backgroundMask(pose, before.width, before.height)), QUALITY_CONFIG.BACKGROUND_WARN, QUALITY_CONFIG.BACKGROUND_FAIL),
+    face ? checkPreservation('face', meanDifference(before, after, face), QUALITY_CONFIG.FACE_WARN, QUALITY_CONFIG.FACE_FAIL) : null,
+  );
+
+  const samples = await Promise.all(garments.map(async garment => ({
+    productName: garment.productName,
+    palette: extractPalette(readPixels(await loadImage(garment.image), QUALITY_CONFIG.PALETTE_WIDTH)),
+    colour: sampleColour(after, garmentPoints(pose, garment.slots, before.width, before.height)),
+  })));
+  checks.push(checkGarmentColours(samples));
+
+  return toReport(checks);
+}
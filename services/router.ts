@@ -0,0 +1,95 @@
+export type RouteName = 'catalog' | 'photo' | 'result' | 'try' | 'admin';
+
+export interface Route {
+  name: RouteName;
+  // Nur bei /try/:productId – ID oder Bestellnummer wie beim Widget-Parameter `product`
+  productRef: string | null;
+}
+
+// Was der Assistent gerade hat – entscheidet, welche Schritte erreichbar sind
+export interface StepGuard {
+  hasOutfit: boolean;
+  hasImage: boolean;
+  // Ergebnis, laufende Anprobe oder Fehlermeldung
+  hasResult: boolean;
+  // Im Widget auf der Produktseite gibt es keinen Katalog-Schritt
+  skipCatalog: boolean;
+}
+
+const STEP_PATHS: Record<number, string> = {
+  1: '/',
+  2: '/photo',
+  3: '/result',
+};
+
+// Verwaltung der Shop-Einstellungen – eigene Oberfläche außerhalb des Assistenten
+const ADMIN_PATH = '/admin';
+
+export function parseRoute(pathname: string): Route {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const tryMatch = /^\/try\/([^/]+)$/.exec(path);
+  if (tryMatch) {
+    try {
+      return { name: 'try', productRef: decodeURIComponent(tryMatch[1]) };
+    } catch {
+      return { name: 'catalog', productRef: null };
+    }
+  }
+  if (path === STEP_PATHS[2]) return { name: 'photo', productRef: null };
+  if (path === STEP_PATHS[3]) return { name: 'result', productRef: null };
+  if (path === ADMIN_PATH) return { name: 'admin', productRef: null };
+  // Unbekannte Pfade landen im Katalog statt auf einer leeren Seite
+  return { name: 'catalog', productRef: null };
+}
+
+// Der geteilte Produktlink führt nach der Auswahl direkt zum Foto
+export function stepForRoute(route: Route): number {
+  switch (route.name) {
+    case 'photo':
+    case 'try':
+      return 2;
+    case 'result':
+      return 3;
+    default:
+      return 1;
+  }
+}
+
+export function pathForStep(step: number): string {
+  return STEP_PATHS[step] || STEP_PATHS[1];
+}
+
+/**
+ * Höchster erlaubter Schritt bis einschließlich `requested`: ohne Outfit kein Foto-Schritt,
+ * ohne Foto und Ergebnis kein Ergebnis-Schritt.
+ */
+export function allowedStep(requested: number, guard: StepGuard): number {
+  if (requested >= 3 && guard.hasOutfit && guard.hasImage && guard.hasResult) return 3;
+  if (requested >= 2 && guard.hasOutfit) return 2;
+  return guard.skipCatalog && guard.hasOutfit ? 2 : 1;
+}
+
+export function currentRoute(): Route {
+  return parseRoute(window.location.pathname);
+}
+
+/**
+ * Schreibt den Schritt in die Adresszeile. Query-Parameter (Widget-Konfiguration) und Hash
+ * bleiben erhalten; ist der Pfad schon richtig, entsteht kein neuer History-Eintrag.
+ */
+export function navigateToPath(path: string, options: { replace?: boolean } = {}) {
+  if (window.location.pathname === path) return;
+  const url = `${path}${window.location.search}${window.location.hash}`;
+  if (options.replace) {
+    window.history.replaceState(null, '', url);
+  } else {
+    window.history.pushState(null, '', url);
+  }
+}
+
+// Zurück/Vorwärts im Browser; liefert eine Funktion zum Abmelden
+export function listenToRoute(handler: (route: Route) => void): () => void {
+  const listener = () => handler(currentRoute());
+  window.addEventListener('popstate', listener);
+  return () => window.removeEventListener('popstate', listener);
+}
@@ -0,0 +1,95 @@
+import { APP_CONFIG } from "../constants";
+import { BodyMeasurements, GarmentCategory } from "../types";
+
+let fallbackId: string | null = null;
+
+/**
+ * Zufällige ID für die Dauer des Tabs. Sie enthält keine Nutzerdaten und dient nur dazu,
+ * dass der Server eine Sitzung stabil derselben Prompt-Variante zuordnet.
+ */
+export function getSessionId(): string {
+  try {
+    let id = sessionStorage.getItem(APP_CONFIG.SESSION_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      sessionStorage.setItem(APP_CONFIG.SESSION_KEY, id);
+    }
+    return id;
+  } catch {
+    // Ohne Storage (z.B. Drittanbieter-iframe) gilt die ID bis zum Neuladen
+    fallbackId = fallbackId || crypto.randomUUID();
+    return fallbackId;
+  }
+}
+
+// Nur Referenzen und Eingaben – Produkte kommen beim Wiederherstellen aus dem aktuellen Katalog
+export interface WizardSnapshot {
+  outfit: { slot: GarmentCategory; productId: string }[];
+  outfitMode: 'set' | 'combine';
+  measurements: BodyMeasurements;
+  // Ergebnis in "Meine Looks" – Bilder bleiben in IndexedDB statt im sessionStorage
+  lookId: string | null;
+}
+
+function isSnapshot(value: any): value is WizardSnapshot {
+  return !!value
+    && Array.isArray(value.outfit)
+    && value.outfit.every((item: any) => typeof item?.slot === 'string' && typeof item?.productId === 'string')
+    && (value.outfitMode === 'set' || value.outfitMode === 'combine')
+    && typeof value.measurements === 'object' && value.measurements !== null
+    && (value.lookId === null || typeof value.lookId === 'string');
+}
+
+export function loadWizardSnapshot(): WizardSnapshot | null {
+  try {
+    const parsed = JSON.parse(sessionStorage.getItem(APP_CONFIG.WIZARD_KEY) || 'null');
+    return isSnapshot(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveWizardSnapshot(snapshot: WizardSnapshot) {
+  try {
+    sessionStorage.setItem(APP_CONFIG.WIZARD_KEY, JSON.stringify(snapshot));
+  } catch {
+    // Ohne Storage geht beim Neuladen nur der Fortschritt verloren
+  }
+}
+
+export function loadSessionPhoto(): string | null {
+  try {
+    return sessionStorage.getItem(APP_CONFIG.PHOTO_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hält das aufbereitete Foto für ein Neuladen im selben Tab. Passt es nicht in die Quota,
+ * muss der Kunde es nach dem Neuladen erneut wählen – alles andere wird trotzdem wiederhergestellt.
+ */
+export function saveSessionPhoto(dataUrl: string | null) {
+  try {
+    if (dataUrl) {
+      sessionStorage.setItem(APP_CONFIG.PHOTO_KEY, dataUrl);
+    } else {
+      sessionStorage.removeItem(APP_CONFIG.PHOTO_KEY);
+    }
+  } catch {
+    try {
+      sessionStorage.removeItem(APP_CONFIG.PHOTO_KEY);
+    } catch {
+      // Storage nicht verfügbar
+    }
+  }
+}
+
+export function clearWizardSnapshot() {
+  try {
+    sessionStorage.removeItem(APP_CONFIG.WIZARD_KEY);
+    sessionStorage.removeItem(APP_CONFIG.PHOTO_KEY);
+  } catch {
+    // Storage nicht verfügbar
+  }
+}
@@ -0,0 +1,328 @@
+import { CATALOG_CONFIG, DEFAULT_SET_SLOTS, DEFAULT_SIZE_CHART, GARMENT_SLOTS, SETTINGS_CONFIG, SHARE_CONFIG } from "../constants";
+import { MessageKey, de } from "../locales/de";
+import { GarmentCategory, MeasurementRange, MessageParams, Product, ProductCategory, ProductVariant, SettingsIssue, SizeChartEntry, StoreSettings, TryOnLimits, WidgetTheme } from "../types";
+import type { Language } from "./i18n";
+
+// Reines Modul ohne Browser-APIs – Server (Speichern) und App (Laden) prüfen mit denselben Regeln
+
+export const DEFAULT_SETTINGS: StoreSettings = {
+  version: SETTINGS_CONFIG.SCHEMA_VERSION,
+  brand: { name: SHARE_CONFIG.BRAND_NAME, suffix: 'PRO' },
+  theme: {},
+  products: null,
+  copy: {},
+  limits: { perDay: null, perClientPerDay: null },
+  updatedAt: null,
+};
+
+export const PRODUCT_CATEGORIES: ProductCategory[] = ['set', ...GARMENT_SLOTS];
+export const THEME_KEYS: (keyof WidgetTheme)[] = ['primary', 'primaryHover', 'background'];
+export const COPY_LANGUAGES: Language[] = ['de', 'en', 'fr'];
+const MEASUREMENT_KEYS: ('waist' | 'hip' | 'inseam')[] = ['waist', 'hip', 'inseam'];
+
+const COLOR = /^(#[0-9a-f]{3,8}|rgba?\([\d\s.,%]+\)|[a-z]+)$/i;
+const PRODUCT_ID = /^[\w.-]{1,64}$/;
+const CURRENCY = /^[A-Z]{3}$/;
+// Absolute URL oder Pfad auf derselben Domain, z.B. /products/sky.png
+const IMAGE_URL = /^(https?:\/\/|\/)\S+$/;
+
+export function sanitizeColor(value: string | null | undefined): string | undefined {
+  return value && COLOR.test(value.trim()) ? value.trim() : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function placeholders(text: string): string[] {
+  return [...text.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+}
+
+function addIssue(issues: SettingsIssue[], path: string, key: MessageKey, params?: MessageParams) {
+  issues.push({ path, message: { key, params } });
+}
+
+function readText(value: unknown, path: string, issues: SettingsIssue[], options: { max: number; required?: boolean }): string | null {
+  if (value === undefined || value === null || value === '') {
+    if (options.required) addIssue(issues, path, 'settings.issue.required');
+    return null;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    addIssue(issues, path, 'settings.issue.invalid');
+    return null;
+  }
+  if (value.length > options.max) {
+    addIssue(issues, path, 'settings.issue.tooLong', { max: options.max });
+    return null;
+  }
+  return value.trim();
+}
+
+function readBrand(value: unknown, issues: SettingsIssue[]): StoreSettings['brand'] {
+  if (value === undefined) return DEFAULT_SETTINGS.brand;
+  if (!isObject(value)) {
+    addIssue(issues, 'brand', 'settings.issue.invalid');
+    return DEFAULT_SETTINGS.brand;
+  }
+  return {
+    name: readText(value.name, 'brand.name', issues, { max: SETTINGS_CONFIG.MAX_NAME_LENGTH, required: true }) || DEFAULT_SETTINGS.brand.name,
+    suffix: readText(value.suffix, 'brand.suffix', issues, { max: SETTINGS_CONFIG.MAX_NAME_LENGTH }) || '',
+  };
+}
+
+function readTheme(value: unknown, issues: SettingsIssue[]): WidgetTheme {
+  if (value === undefined) return {};
+  if (!isObject(value)) {
+    addIssue(issues, 'theme', 'settings.issue.invalid');
+    return {};
+  }
+  const theme: WidgetTheme = {};
+  for (const key of THEME_KEYS) {
+    if (value[key] === undefined || value[key] === '') continue;
+    const color = typeof value[key] === 'string' ? sanitizeColor(value[key]) : undefined;
+    if (color) {
+      theme[key] = color;
+    } else {
+      addIssue(issues, `theme.${key}`, 'settings.issue.color');
+    }
+  }
+  return theme;
+}
+
+function readRange(value: unknown, path: string, issues: SettingsIssue[]): MeasurementRange | null {
+  const valid = isObject(value)
+    && typeof value.min === 'number' && typeof value.max === 'number'
+    && value.min > 0 && value.max <= 300 && value.min < value.max;
+  if (!valid) {
+    addIssue(issues, path, 'settings.issue.range');
+    return null;
+  }
+  return { min: value.min, max: value.max };
+}
+
+function readSizeChart(value: unknown, path: string, issues: SettingsIssue[]): SizeChartEntry[] {
+  if (value === undefined || (Array.isArray(value) && value.length === 0)) return DEFAULT_SIZE_CHART;
+  if (!Array.isArray(value)) {
+    addIssue(issues, path, 'settings.issue.invalid');
+    return DEFAULT_SIZE_CHART;
+  }
+  const sizes = new Set<string>();
+  const chart = value.flatMap((entry, index): SizeChartEntry[] => {
+    const entryPath = `${path}[${index}]`;
+    const size = readText(entry?.size, `${entryPath}.size`, issues, { max: 10, required: true });
+    if (size && sizes.has(size)) addIssue(issues, `${entryPath}.size`, 'settings.issue.duplicate');
+    const ranges = MEASUREMENT_KEYS.map(key => readRange(entry?.[key], `${entryPath}.${key}`, issues));
+    if (!size || sizes.has(size) || ranges.some(range => !range)) return [];
+    sizes.add(size);
+    const [waist, hip, inseam] = ranges as MeasurementRange[];
+    return [{ size, waist, hip, inseam }];
+  });
+  // Ohne gültige Zeile wäre keine Größenempfehlung möglich
+  return chart.length > 0 ? chart : DEFAULT_SIZE_CHART;
+}
+
+function readSetSlots(value: unknown, path: string, issues: SettingsIssue[]): GarmentCategory[] {
+  if (value === undefined) return DEFAULT_SET_SLOTS;
+  const valid = Array.isArray(value) && value.length > 0
+    && value.every(slot => GARMENT_SLOTS.includes(slot))
+    && new Set(value).size === value.length;
+  if (!valid) {
+    addIssue(issues, path, 'settings.issue.invalid');
+    return DEFAULT_SET_SLOTS;
+  }
+  return value as GarmentCategory[];
+}
+
+// Einzeln erhältliche Teile eines Sets: Slot → Produkt-ID oder -nummer
+function readSetPieces(value: unknown, path: string, issues: SettingsIssue[]): Partial<Record<GarmentCategory, string>> | undefined {
+  if (value === undefined) return undefined;
+  const valid = isObject(value) && Object.entries(value)
+    .every(([slot, ref]) => GARMENT_SLOTS.includes(slot as GarmentCategory) && typeof ref === 'string' && ref.trim().length > 0 && ref.length <= 64);
+  if (!valid) {
+    addIssue(issues, path, 'settings.issue.invalid');
+    return undefined;
+  }
+  return value as Partial<Record<GarmentCategory, string>>;
+}
+
+// Varianten pflegt der Shop – hier werden sie nur unverändert durchgereicht, wenn sie plausibel sind
+function readVariants(value: unknown, path: string, issues: SettingsIssue[]): ProductVariant[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    addIssue(issues, path, 'settings.issue.invalid');
+    return [];
+  }
+  return value.flatMap((variant, index): ProductVariant[] => {
+    if (!isObject(variant) || typeof variant.id !== 'string' || typeof variant.productNumber !== 'string') {
+      addIssue(issues, `${path}[${index}]`, 'settings.issue.invalid');
+      return [];
+    }
+    return [{
+      id: variant.id,
+      productNumber: variant.productNumber,
+      size: typeof variant.size === 'string' ? variant.size : null,
+      color: typeof variant.color === 'string' ? variant.color : null,
+      stock: typeof variant.stock === 'number' ? variant.stock : 0,
+      available: variant.available !== false,
+    }];
+  });
+}
+
+function readProduct(value: unknown, path: string, issues: SettingsIssue[]): Product | null {
+  if (!isObject(value)) {
+    addIssue(issues, path, 'settings.issue.invalid');
+    return null;
+  }
+  const id = readText(value.id, `${path}.id`, issues, { max: 64, required: true });
+  if (id && !PRODUCT_ID.test(id)) addIssue(issues, `${path}.id`, 'settings.issue.productId');
+  const name = readText(value.name, `${path}.name`, issues, { max: SETTINGS_CONFIG.MAX_NAME_LENGTH, required: true });
+  const category = PRODUCT_CATEGORIES.includes(value.category) ? value.category as ProductCategory : null;
+  if (!category) addIssue(issues, `${path}.category`, 'settings.issue.invalid');
+  const price = typeof value.price === 'number' && Number.isFinite(value.price) && value.price >= 0 ? value.price : null;
+  if (price === null) addIssue(issues, `${path}.price`, 'settings.issue.price');
+  const imageUrl = typeof value.imageUrl === 'string' && IMAGE_URL.test(value.imageUrl.trim()) ? value.imageUrl.trim() : null;
+  if (!imageUrl) addIssue(issues, `${path}.imageUrl`, 'settings.issue.url');
+  let currency: string = CATALOG_CONFIG.DEFAULT_CURRENCY;
+  if (value.currency !== undefined) {
+    if (typeof value.currency === 'string' && CURRENCY.test(value.currency)) {
+      currency = value.currency;
+    } else {
+      addIssue(issues, `${path}.currency`, 'settings.issue.currency');
+    }
+  }
+  const images = Array.isArray(value.images)
+    ? value.images.filter((url: unknown): url is string => typeof url === 'string' && IMAGE_URL.test(url))
+    : [];
+  const description = readText(value.description, `${path}.description`, issues, { max: SETTINGS_CONFIG.MAX_TEXT_LENGTH }) || '';
+  const productNumber = readText(value.productNumber, `${path}.productNumber`, issues, { max: 64 }) || undefined;
+  const sizeChart = readSizeChart(value.sizeChart, `${path}.sizeChart`, issues);
+  const variants = readVariants(value.variants, `${path}.variants`, issues);
+
+  // Ohne diese Felder lässt sich das Produkt weder anzeigen noch anprobieren
+  if (!id || !PRODUCT_ID.test(id) || !name || !category || price === null || !imageUrl) return null;
+  return {
+    id,
+    category,
+    setSlots: category === 'set' ? readSetSlots(value.setSlots, `${path}.setSlots`, issues) : undefined,
+    setPieces: category === 'set' ? readSetPieces(value.setPieces, `${path}.setPieces`, issues) : undefined,
+    photoShowsSet: category !== 'set' && value.photoShowsSet === true ? true : undefined,
+    productNumber,
+    name,
+    price,
+    currency,
+    imageUrl,
+    images: images.length > 0 ? images : [imageUrl],
+    description,
+    sizeChart,
+    variants,
+  };
+}
+
+function readProducts(value: unknown, issues: SettingsIssue[]): Product[] | null {
+  if (value === undefined || value === null) return null;
+  if (!Array.isArray(value)) {
+    addIssue(issues, 'products', 'settings.issue.invalid');
+    return null;
+  }
+  if (value.length > SETTINGS_CONFIG.MAX_PRODUCTS) {
+    addIssue(issues, 'products', 'settings.issue.tooMany', { max: SETTINGS_CONFIG.MAX_PRODUCTS });
+  }
+  const ids = new Set<string>();
+  const products = value.slice(0, SETTINGS_CONFIG.MAX_PRODUCTS).flatMap((entry, index) => {
+    const product = readProduct(entry, `products[${index}]`, issues);
+    if (!product) return [];
+    if (ids.has(product.id)) {
+      addIssue(issues, `products[${index}].id`, 'settings.issue.duplicate');
+      return [];
+    }
+    ids.add(product.id);
+    return [product];
+  });
+  // Eine leere Liste würde den Katalog leeren – dann lieber die Standardquelle
+  if (products.length === 0) {
+    addIssue(issues, 'products', 'settings.issue.noProducts');
+    return null;
+  }
+  return products;
+}
+
+function readCopy(value: unknown, issues: SettingsIssue[]): StoreSettings['copy'] {
+  if (value === undefined) return {};
+  if (!isObject(value)) {
+    addIssue(issues, 'copy', 'settings.issue.invalid');
+    return {};
+  }
+  const copy: StoreSettings['copy'] = {};
+  for (const [language, overrides] of Object.entries(value)) {
+    if (!COPY_LANGUAGES.includes(language as Language) || !isObject(overrides)) {
+      addIssue(issues, `copy.${language}`, 'settings.issue.language');
+      continue;
+    }
+    const accepted: Partial<Record<MessageKey, string>> = {};
+    for (const [key, text] of Object.entries(overrides)) {
+      const path = `copy.${language}.${key}`;
+      if (!(key in de)) {
+        addIssue(issues, path, 'settings.issue.unknownKey');
+        continue;
+      }
+      const checked = readText(text, path, issues, { max: SETTINGS_CONFIG.MAX_TEXT_LENGTH, required: true });
+      if (!checked) continue;
+      // Fehlt ein Platzhalter, stünde im Text z.B. eine leere Größe
+      const missing = placeholders(de[key as MessageKey]).filter(name => !placeholders(checked).includes(name));
+      if (missing.length > 0) {
+        addIssue(issues, path, 'settings.issue.placeholder', { names: missing.map(name => `{${name}}`).join(', ') });
+        continue;
+      }
+      accepted[key as MessageKey] = checked;
+    }
+    copy[language as Language] = accepted;
+  }
+  return copy;
+}
+
+function readLimit(value: unknown, path: string, issues: SettingsIssue[]): number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > SETTINGS_CONFIG.MAX_DAILY_LIMIT) {
+    addIssue(issues, path, 'settings.issue.limit', { max: SETTINGS_CONFIG.MAX_DAILY_LIMIT });
+    return null;
+  }
+  return value;
+}
+
+function readLimits(value: unknown, issues: SettingsIssue[]): TryOnLimits {
+  if (value === undefined) return DEFAULT_SETTINGS.limits;
+  if (!isObject(value)) {
+    addIssue(issues, 'limits', 'settings.issue.invalid');
+    return DEFAULT_SETTINGS.limits;
+  }
+  return {
+    perDay: readLimit(value.perDay, 'limits.perDay', issues),
+    perClientPerDay: readLimit(value.perClientPerDay, 'limits.perClientPerDay', issues),
+  };
+}
+
+/**
+ * Prüft eine Einstellungsdatei gegen das Schema. Ungültige Teile werden durch Standardwerte ersetzt
+ * bzw. weggelassen und als Befund gemeldet – die App startet also immer mit einer brauchbaren
+ * Konfiguration. Der Server speichert nur Dateien ohne Befunde.
+ */
+export function validateSettings(input: unknown): { settings: StoreSettings; issues: SettingsIssue[] } {
+  const issues: SettingsIssue[] = [];
+  if (!isObject(input)) {
+    addIssue(issues, '', 'settings.issue.invalid');
+    return { settings: DEFAULT_SETTINGS, issues: issues };
+  }
+  if (typeof input.version === 'number' && input.version > SETTINGS_CONFIG.SCHEMA_VERSION) {
+    addIssue(issues, 'version', 'settings.issue.version', { version: SETTINGS_CONFIG.SCHEMA_VERSION });
+  }
+  const settings: StoreSettings = {
+    version: SETTINGS_CONFIG.SCHEMA_VERSION,
+    brand: readBrand(input.brand, issues),
+    theme: readTheme(input.theme, issues),
+    products: readProducts(input.products, issues),
+    copy: readCopy(input.copy, issues),
+    limits: readLimits(input.limits, issues),
+    updatedAt: typeof input.updatedAt === 'string' ? input.updatedAt : null,
+  };
+  return { settings, issues: issues };
+}
@@ -0,0 +1,39 @@
+import { SETTINGS_CONFIG } from "../constants";
+import { StoreSettings } from "../types";
+import { requestJson } from "./apiClient";
+import { DEFAULT_SETTINGS, validateSettings } from "./settingsSchema";
+
+export interface AdminSettingsResponse {
+  settings: StoreSettings;
+  // Anproben heute (UTC) auf dieser Server-Instanz
+  usage: { today: number };
+}
+
+/**
+ * Lädt die Händler-Einstellungen beim Start. Ist die API nicht erreichbar oder die Datei ungültig,
+ * startet die App mit den Standardwerten bzw. nur den gültigen Teilen – das Widget bleibt benutzbar.
+ */
+export async function loadSettings(): Promise<StoreSettings> {
+  try {
+    const data = await requestJson<{ settings?: unknown }>('GET', '/settings', undefined, { timeoutMs: SETTINGS_CONFIG.LOAD_TIMEOUT_MS, retries: 0 });
+    const { settings, issues } = validateSettings(data?.settings);
+    if (issues.length > 0) console.warn('Settings contain invalid entries:', issues);
+    return settings;
+  } catch (error) {
+    console.warn('Settings unavailable, using defaults:', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+function adminHeaders(password: string): Record<string, string> {
+  return { Authorization: `Bearer ${password}` };
+}
+
+// Dient zugleich als Login: ein falsches Passwort endet mit UNAUTHORIZED
+export function fetchAdminSettings(password: string): Promise<AdminSettingsResponse> {
+  return requestJson<AdminSettingsResponse>('GET', '/admin/settings', undefined, { headers: adminHeaders(password), retries: 0 });
+}
+
+export function saveAdminSettings(password: string, settings: StoreSettings): Promise<AdminSettingsResponse> {
+  return requestJson<AdminSettingsResponse>('PUT', '/admin/settings', { settings }, { headers: adminHeaders(password), retries: 0 });
+}
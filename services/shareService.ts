@@ -0,0 +1,198 @@
+import { SHARE_CONFIG } from "../constants";
+import { TryOnError } from "./errors";
+import { loadImage } from "./photoChecks";
+
+export type ShareLayout = 'story' | 'square';
+export type ShareFormat = 'image/jpeg' | 'image/webp' | 'image/png';
+
+export interface ShareCardContent {
+  image: string;
+  title: string;
+  // Bereits übersetzte Zeilen unter dem Titel, z.B. Preis und Größe
+  details: string[];
+  url: string | null;
+}
+
+export interface ShareCardOptions {
+  layout: ShareLayout;
+  format: ShareFormat;
+  width: number;
+  includeQr: boolean;
+  accentColor?: string;
+  // Markenname aus den Shop-Einstellungen
+  brandName?: string;
+}
+
+export interface ShareCard {
+  blob: Blob;
+  filename: string;
+  width: number;
+  height: number;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/png': 'png',
+};
+
+export function extensionFor(type: string): string {
+  return EXTENSIONS[type] || 'png';
+}
+
+export function dataUrlMimeType(dataUrl: string): string {
+  return /^data:([^;,]+)/.exec(dataUrl)?.[1] || 'image/png';
+}
+
+function truncate(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+}
+
+async function drawQrCode(ctx: CanvasRenderingContext2D, url: string, x: number, y: number, size: number) {
+  const { default: qrcode } = await import("qrcode-generator");
+  const qr = qrcode(0, 'M');
+  qr.addData(url);
+  qr.make();
+  const count = qr.getModuleCount();
+  // Ruhezone von zwei Modulen, damit Kameras den Code zuverlässig finden
+  const cell = size / (count + 4);
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.roundRect(x, y, size, size, size * 0.08);
+  ctx.fill();
+  ctx.fillStyle = '#0f172a';
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (qr.isDark(row, col)) {
+        ctx.fillRect(x + (col + 2) * cell, y + (row + 2) * cell, Math.ceil(cell), Math.ceil(cell));
+      }
+    }
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, format: ShareFormat): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new TryOnError('IMAGE_PROCESSING_FAILED'))),
+      format,
+      SHARE_CONFIG.QUALITY
+    );
+  });
+}
+
+/**
+ * Setzt die Share-Karte auf einem Canvas zusammen: Logo, Ergebnisbild, Titel, Details und optional
+ * ein QR-Code zum Produkt. Browser ohne WebP-Encoder liefern PNG – Dateiendung folgt dem echten Typ.
+ */
+export async function renderShareCard(content: ShareCardContent, options: ShareCardOptions): Promise<ShareCard> {
+  const img = await loadImage(content.image);
+  const width = options.width;
+  const height = options.layout === 'story' ? Math.round(width * 16 / 9) : width;
+  const pad = Math.round(width * 0.06);
+  const headerHeight = Math.round(width * 0.14);
+  const footerHeight = Math.round(width * (options.layout === 'story' ? 0.34 : 0.24));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new TryOnError('IMAGE_PROCESSING_FAILED');
+
+  ctx.fillStyle = options.accentColor || SHARE_CONFIG.ACCENT_COLOR;
+  ctx.fillRect(0, 0, width, height);
+
+  // Logo wie im Header der App: weißes Quadrat mit Anfangsbuchstaben plus Markenname
+  const brandName = options.brandName || SHARE_CONFIG.BRAND_NAME;
+  const logoSize = Math.round(headerHeight * 0.5);
+  const logoY = Math.round((headerHeight - logoSize) / 2 + pad * 0.3);
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.roundRect(pad, logoY, logoSize, logoSize, logoSize * 0.18);
+  ctx.fill();
+  ctx.fillStyle = options.accentColor || SHARE_CONFIG.ACCENT_COLOR;
+  ctx.font = `900 ${Math.round(logoSize * 0.62)}px system-ui, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(brandName.charAt(0).toUpperCase(), pad + logoSize / 2, logoY + logoSize / 2);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `800 ${Math.round(logoSize * 0.5)}px system-ui, sans-serif`;
+  ctx.textAlign = 'left';
+  ctx.fillText(brandName.toUpperCase(), pad + logoSize * 1.3, logoY + logoSize / 2);
+
+  // Ergebnisbild vollständig (contain) auf hellem Feld, damit die Person nicht angeschnitten wird
+  const frame = { x: pad, y: headerHeight + pad * 0.3, width: width - pad * 2, height: height - headerHeight - footerHeight - pad * 0.3 };
+  ctx.fillStyle = '#f8fafc';
+  ctx.beginPath();
+  ctx.roundRect(frame.x, frame.y, frame.width, frame.height, width * 0.04);
+  ctx.fill();
+  ctx.save();
+  ctx.clip();
+  const scale = Math.min(frame.width / img.naturalWidth, frame.height / img.naturalHeight);
+  const drawWidth = img.naturalWidth * scale;
+  const drawHeight = img.naturalHeight * scale;
+  ctx.drawImage(img, frame.x + (frame.width - drawWidth) / 2, frame.y + (frame.height - drawHeight) / 2, drawWidth, drawHeight);
+  ctx.restore();
+
+  const footerTop = height - footerHeight;
+  const qrSize = options.includeQr && content.url ? Math.round(footerHeight - pad * 1.6) : 0;
+  const textWidth = width - pad * 2 - (qrSize ? qrSize + pad : 0);
+  const titleSize = Math.round(width * 0.055);
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'top';
+  ctx.font = `900 italic ${titleSize}px system-ui, sans-serif`;
+  ctx.fillText(truncate(ctx, content.title.toUpperCase(), textWidth), pad, footerTop + pad * 0.8);
+  ctx.font = `700 ${Math.round(titleSize * 0.55)}px system-ui, sans-serif`;
+  content.details.forEach((line, index) => {
+    ctx.fillText(truncate(ctx, line, textWidth), pad, footerTop + pad * 0.8 + titleSize * (1.4 + index * 0.85));
+  });
+
+  if (qrSize && content.url) {
+    await drawQrCode(ctx, content.url, width - pad - qrSize, footerTop + pad * 0.8, qrSize);
+  }
+
+  const blob = await canvasToBlob(canvas, options.format);
+  return { blob, filename: `${SHARE_CONFIG.FILE_PREFIX}-${options.layout}.${extensionFor(blob.type)}`, width, height };
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Manche Browser starten den Download erst nach dem Klick-Handler
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function canShareFiles(): boolean {
+  try {
+    const probe = new File([new Blob()], 'probe.png', { type: 'image/png' });
+    return typeof navigator.share === 'function' && !!navigator.canShare?.({ files: [probe] });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Teilt die Karte über das native Share-Sheet (mobil), sonst Download.
+ * Schließt der Nutzer das Share-Sheet, ist das kein Fehler.
+ */
+export async function shareOrDownload(card: ShareCard, text: { title: string; text: string; url?: string }): Promise<'shared' | 'downloaded' | 'cancelled'> {
+  const file = new File([card.blob], card.filename, { type: card.blob.type });
+  if (canShareFiles() && navigator.canShare({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title: text.title, text: text.url ? `${text.text} ${text.url}` : text.text });
+      return 'shared';
+    } catch (error) {
+      if ((error as DOMException)?.name === 'AbortError') return 'cancelled';
+      // z.B. NotAllowedError ohne Nutzergeste – dann wenigstens herunterladen
+    }
+  }
+  downloadBlob(card.blob, card.filename);
+  return 'downloaded';
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SET_SLOTS, DEFAULT_SIZE_CHART } from '../constants';
+import { FAKE_ACCESS_KEY, createFakeStoreApi } from './fakeShopwareStoreApi';
+import { SHOPWARE_PRODUCTS_FIXTURE } from './fixtures/shopwareProducts';
+import {
+  GARMENT_CATEGORY_CUSTOM_FIELD,
+  SET_PIECES_CUSTOM_FIELD,
+  SIZE_CHART_CUSTOM_FIELD,
+  ShopwareApiError,
+  ShopwareConfig,
+  StoreApiProduct,
+  addLineItem,
+  fetchShopwareProducts,
+  mapStoreApiProduct,
+} from './shopwareStoreApi';
+
+const [sky] = SHOPWARE_PRODUCTS_FIXTURE.elements;
+const config = (extra: Partial<ShopwareConfig> = {}): ShopwareConfig => ({
+  baseUrl: 'http://fake.local/',
+  accessKey: FAKE_ACCESS_KEY,
+  currency: 'EUR',
+  fetchImpl: createFakeStoreApi(),
+  ...extra,
+});
+
+describe('mapStoreApiProduct', () => {
+  it('übernimmt Name, Preis, Bilder und Varianten aus der Store-API-Antwort', () => {
+    const product = mapStoreApiProduct(sky, 'EUR')!;
+    expect(product).toMatchObject({
+      id: sky.id,
+      productNumber: 'BF-SKY',
+      name: 'Sky Blue Yoga Set',
+      category: 'set',
+      setSlots: DEFAULT_SET_SLOTS,
+      price: 59.99,
+      currency: 'EUR',
+      sizeChart: DEFAULT_SIZE_CHART,
+    });
+    expect(product.description).toMatch(/^Dein sky-blue Set mit High-Neck Crop Top/);
+    expect(product.description).not.toContain('<p>');
+    // Cover und Medien zeigen auf dasselbe Bild – nur einmal übernehmen
+    expect(product.images).toEqual([product.imageUrl]);
+    expect(product.variants).toHaveLength(6);
+    expect(product.variants[0]).toEqual({
+      id: '0189a1c2d3e4f5a6b7c8d9e0f1c40000',
+      productNumber: 'BF-SKY-XS',
+      size: 'XS',
+      color: 'Sky Blue',
+      stock: 3,
+      available: true,
+    });
+    expect(product.variants[5]).toMatchObject({ size: 'XXL', available: false });
+  });
+
+  it('liest Kategorie, Größentabelle und Set-Teile aus den Custom Fields', () => {
+    const sizeChart = [{ size: 'M', waist: { min: 70, max: 76 }, hip: { min: 94, max: 100 }, inseam: { min: 76, max: 80 } }];
+    const element: StoreApiProduct = {
+      ...sky,
+      customFields: {
+        [SIZE_CHART_CUSTOM_FIELD]: JSON.stringify(sizeChart),
+        [SET_PIECES_CUSTOM_FIELD]: { top: 'BF-SKY-TOP', bottom: 'BF-SKY-LEG', hat: 'BF-HAT' },
+      },
+    };
+    expect(mapStoreApiProduct(element, 'EUR')).toMatchObject({
+      sizeChart,
+      setPieces: { top: 'BF-SKY-TOP', bottom: 'BF-SKY-LEG' },
+    });
+    const leggings = mapStoreApiProduct({ ...sky, customFields: { [GARMENT_CATEGORY_CUSTOM_FIELD]: 'bottom' } }, 'EUR')!;
+    expect(leggings).toMatchObject({ category: 'bottom', setSlots: undefined, setPieces: undefined });
+  });
+
+  it('fällt bei ungültigen Custom Fields auf Standardwerte zurück', () => {
+    const product = mapStoreApiProduct({ ...sky, customFields: { [SIZE_CHART_CUSTOM_FIELD]: '{kaputt', [SET_PIECES_CUSTOM_FIELD]: '[]' } }, 'EUR')!;
+    expect(product.sizeChart).toBe(DEFAULT_SIZE_CHART);
+    expect(product.setPieces).toBeUndefined();
+  });
+
+  it('nimmt ohne eigenen Preis den günstigsten Variantenpreis', () => {
+    const children = [
+      { ...sky.children![0], calculatedPrice: { unitPrice: 49 } },
+      { ...sky.children![1], calculatedPrice: { unitPrice: 45 } },
+    ];
+    expect(mapStoreApiProduct({ ...sky, calculatedPrice: null, children }, 'EUR')?.price).toBe(45);
+  });
+
+  it('überspringt Produkte ohne Bild', () => {
+    expect(mapStoreApiProduct({ ...sky, cover: null, media: [] }, 'EUR')).toBeNull();
+  });
+});
+
+describe('fetchShopwareProducts', () => {
+  it('lädt alle Produkte der Fixture über die Fake-API', async () => {
+    const products = await fetchShopwareProducts(config());
+    expect(products.map(p => p.productNumber)).toEqual(['BF-SKY', 'BF-MAROON', 'BF-BLACK']);
+  });
+
+  it('wirft bei falschem Access Key einen ShopwareApiError', async () => {
+    const error = await fetchShopwareProducts(config({ accessKey: 'falsch' })).catch(e => e);
+    expect(error).toBeInstanceOf(ShopwareApiError);
+    expect(error.status).toBe(401);
+  });
+});
+
+describe('addLineItem', () => {
+  const [xs, , , , , xxl] = sky.children!;
+
+  it('legt eine verfügbare Variante ohne Fehler in den Warenkorb', async () => {
+    expect(await addLineItem(config(), 'context-123', xs.id)).toEqual({ contextToken: 'context-123', errors: [] });
+  });
+
+  it('meldet ausverkaufte und unbekannte Varianten als Fehler', async () => {
+    expect((await addLineItem(config(), 'context-123', xxl.id)).errors).toEqual(['BF-SKY-XXL ist leider ausverkauft.']);
+    expect((await addLineItem(config(), 'context-123', 'unbekannt')).errors).toHaveLength(1);
+  });
+
+  it('ignoriert Warnungen und Fehler anderer Positionen im Warenkorb', async () => {
+    const fetchImpl: typeof fetch = async () => new Response(JSON.stringify({
+      errors: {
+        [`product-stock-reached${xxl.id}`]: { message: 'Anderer Artikel ausverkauft', level: 20 },
+        'shipping-method-blocked': { message: 'Versandart blockiert', level: 10 },
+        [`product-quantity-changed${xs.id}`]: { message: 'Menge angepasst', level: 10 },
+        [`product-stock-reached${xs.id}`]: { message: 'XS ausverkauft', level: 20 },
+      },
+    }));
+    expect((await addLineItem(config({ fetchImpl }), 'context-123', xs.id)).errors).toEqual(['XS ausverkauft']);
+  });
+
+  it('wirft ohne Context Token bzw. bei Serverfehlern', async () => {
+    await expect(addLineItem(config(), '', xs.id)).rejects.toMatchObject({ status: 403 });
+    await expect(addLineItem(config({ fetchImpl: createFakeStoreApi({ failWithStatus: 503 }) }), 'context-123', xs.id))
+      .rejects.toMatchObject({ status: 503 });
+  });
+});
@@ -0,0 +1,234 @@
+import { DEFAULT_SET_SLOTS, DEFAULT_SIZE_CHART, GARMENT_SLOTS } from "../constants";
+import { GarmentCategory, Product, ProductCategory, ProductVariant, SizeChartEntry } from "../types";
+
+// Ausschnitt der Store-API-Antwort, den wir tatsächlich nutzen
+interface StoreApiMedia {
+  media?: { url?: string } | null;
+}
+
+interface StoreApiOption {
+  name?: string;
+  translated?: { name?: string };
+  group?: { name?: string; translated?: { name?: string } } | null;
+}
+
+export interface StoreApiProduct {
+  id: string;
+  productNumber: string;
+  name?: string;
+  description?: string;
+  translated?: { name?: string; description?: string; customFields?: Record<string, unknown> };
+  customFields?: Record<string, unknown>;
+  calculatedPrice?: { unitPrice?: number } | null;
+  availableStock?: number;
+  available?: boolean;
+  cover?: StoreApiMedia | null;
+  media?: StoreApiMedia[];
+  options?: StoreApiOption[];
+  children?: StoreApiProduct[];
+}
+
+export interface StoreApiProductListResponse {
+  elements: StoreApiProduct[];
+  total?: number;
+}
+
+export interface ShopwareConfig {
+  baseUrl: string;
+  accessKey: string;
+  categoryId?: string;
+  currency: string;
+  fetchImpl?: typeof fetch;
+}
+
+// Custom Field im Shopware-Admin, in dem die Größentabelle als JSON gepflegt wird
+export const SIZE_CHART_CUSTOM_FIELD = 'better_future_size_chart';
+// Custom Field für die Kategorie des Kleidungsstücks (top, bottom, bra, jacket, set)
+export const GARMENT_CATEGORY_CUSTOM_FIELD = 'better_future_garment_category';
+// Custom Field an Sets: einzeln erhältliche Teile als JSON, z.B. {"top": "BF-SKY-TOP", "bottom": "BF-SKY-LEG"}
+export const SET_PIECES_CUSTOM_FIELD = 'better_future_set_pieces';
+
+const CATEGORY_KEYWORDS: [ProductCategory, RegExp][] = [
+  ['set', /\bset\b/i],
+  ['bra', /\b(bra|bh)\b|sport-?bh/i],
+  ['jacket', /jacke|jacket|hoodie|zip/i],
+  ['bottom', /leggings?|tights|shorts|hose|pants/i],
+  ['top', /\btop\b|shirt|tank|crop/i],
+];
+
+// Ohne gepflegtes Custom Field leiten wir die Kategorie aus dem Produktnamen ab
+function parseCategory(value: unknown, name: string): ProductCategory {
+  if (typeof value === 'string' && ['top', 'bottom', 'bra', 'jacket', 'set'].includes(value)) {
+    return value as ProductCategory;
+  }
+  return CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(name))?.[0] || 'set';
+}
+
+const SIZE_GROUP = /gr(ö|oe)(ß|ss)e|size|taille/i;
+const COLOR_GROUP = /farbe|colou?r|couleur/i;
+
+export class ShopwareApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ShopwareApiError';
+  }
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function optionValue(options: StoreApiOption[] | undefined, group: RegExp): string | null {
+  const option = options?.find(o => group.test(o.group?.translated?.name || o.group?.name || ''));
+  return option ? option.translated?.name || option.name || null : null;
+}
+
+function parseSetPieces(value: unknown): Partial<Record<GarmentCategory, string>> | undefined {
+  let data = value;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return undefined;
+  const pieces = Object.fromEntries(Object.entries(data as Record<string, unknown>)
+    .filter(([slot, ref]) => GARMENT_SLOTS.includes(slot as GarmentCategory) && typeof ref === 'string' && ref.trim()));
+  return Object.keys(pieces).length > 0 ? pieces as Partial<Record<GarmentCategory, string>> : undefined;
+}
+
+function parseSizeChart(value: unknown): SizeChartEntry[] | null {
+  let data = value;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(data)) return null;
+  const isRange = (r: any) => r && typeof r.min === 'number' && typeof r.max === 'number';
+  const valid = data.every(e => e && typeof e.size === 'string' && isRange(e.waist) && isRange(e.hip) && isRange(e.inseam));
+  return valid && data.length > 0 ? data as SizeChartEntry[] : null;
+}
+
+function mapVariant(child: StoreApiProduct): ProductVariant {
+  return {
+    id: child.id,
+    productNumber: child.productNumber,
+    size: optionValue(child.options, SIZE_GROUP),
+    color: optionValue(child.options, COLOR_GROUP),
+    stock: child.availableStock ?? 0,
+    available: child.available ?? (child.availableStock ?? 0) > 0,
+  };
+}
+
+export function mapStoreApiProduct(element: StoreApiProduct, currency: string): Product | null {
+  const images = [element.cover, ...(element.media || [])]
+    .map(m => m?.media?.url)
+    .filter((url): url is string => !!url)
+    .filter((url, index, all) => all.indexOf(url) === index);
+  if (images.length === 0) return null;
+
+  const customFields = element.translated?.customFields || element.customFields || {};
+  const children = element.children || [];
+  const childPrices = children.map(c => c.calculatedPrice?.unitPrice).filter((p): p is number => typeof p === 'number');
+
+  const name = element.translated?.name || element.name || element.productNumber;
+  const category = parseCategory(customFields[GARMENT_CATEGORY_CUSTOM_FIELD], name);
+
+  return {
+    id: element.id,
+    category,
+    setSlots: category === 'set' ? DEFAULT_SET_SLOTS : undefined,
+    setPieces: category === 'set' ? parseSetPieces(customFields[SET_PIECES_CUSTOM_FIELD]) : undefined,
+    productNumber: element.productNumber,
+    name,
+    price: element.calculatedPrice?.unitPrice ?? (childPrices.length ? Math.min(...childPrices) : 0),
+    currency,
+    imageUrl: images[0],
+    images,
+    description: stripHtml(element.translated?.description || element.description || ''),
+    sizeChart: parseSizeChart(customFields[SIZE_CHART_CUSTOM_FIELD]) || DEFAULT_SIZE_CHART,
+    variants: children.map(mapVariant),
+  };
+}
+
+export async function fetchShopwareProducts(config: ShopwareConfig): Promise<Product[]> {
+  const fetchImpl = config.fetchImpl || fetch;
+  const filter: unknown[] = [{ type: 'equals', field: 'parentId', value: null }];
+  if (config.categoryId) {
+    filter.push({ type: 'equals', field: 'categoryIds', value: config.categoryId });
+  }
+
+  const response = await fetchImpl(`${config.baseUrl.replace(/\/$/, '')}/store-api/product`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      'sw-access-key': config.accessKey,
+    },
+    body: JSON.stringify({
+      limit: 100,
+      filter,
+      associations: {
+        cover: {},
+        media: {},
+        children: { associations: { options: { associations: { group: {} } } } },
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    throw new ShopwareApiError(response.status, `Shopware Store API antwortet mit ${response.status}.`);
+  }
+
+  const data = await response.json() as StoreApiProductListResponse;
+  return (data.elements || [])
+    .map(element => mapStoreApiProduct(element, config.currency))
+    .filter((product): product is Product => product !== null);
+}
+
+const CART_ERROR_LEVEL = 20;
+
+export interface AddLineItemResult {
+  contextToken: string;
+  errors: string[];
+}
+
+// Legt eine Variante in den Warenkorb des Kunden, identifiziert über dessen sw-context-token
+export async function addLineItem(
+  config: ShopwareConfig,
+  contextToken: string,
+  variantId: string,
+  quantity = 1,
+): Promise<AddLineItemResult> {
+  const fetchImpl = config.fetchImpl || fetch;
+  const response = await fetchImpl(`${config.baseUrl.replace(/\/$/, '')}/store-api/checkout/cart/line-item`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      'sw-access-key': config.accessKey,
+      'sw-context-token': contextToken,
+    },
+    body: JSON.stringify({ items: [{ type: 'product', id: variantId, referencedId: variantId, quantity }] }),
+  });
+
+  if (!response.ok) {
+    throw new ShopwareApiError(response.status, `Shopware Store API antwortet mit ${response.status}.`);
+  }
+
+  const cart = await response.json() as { errors?: Record<string, { message?: string; level?: number }> };
+  // Shopware-Level: 0 Hinweis, 10 Warnung, 20 Fehler (z.B. ausverkauft). Der Warenkorb meldet auch Probleme
+  // anderer Positionen – zählen nur Fehler, deren Schlüssel auf die eben hinzugefügte Position endet
+  const errors = Object.entries(cart.errors || {})
+    .filter(([key, error]) => (error.level ?? CART_ERROR_LEVEL) >= CART_ERROR_LEVEL && key.endsWith(variantId))
+    .map(([, error]) => error.message || 'Unbekannter Warenkorb-Fehler');
+
+  return {
+    contextToken: response.headers.get('sw-context-token') || contextToken,
+    errors,
+  };
+}
@@ -0,0 +1,164 @@
+import { AVAILABLE_SIZES } from "../constants";
+import { BodyEstimate, BodyMeasurements, FitLevel, FitSpec, MeasurementDimension, MeasurementRange, SizeBasisEntry, SizeChartEntry, SizeRecommendation } from "../types";
+import { TryOnError } from "./errors";
+
+interface DimensionInput {
+  dimension: MeasurementDimension;
+  value: number;
+  source: 'user' | 'photo';
+  weight: number;
+  confidence: number;
+}
+
+// Hüfte und Taille bestimmen den Sitz von Leggings, die Innenbeinlänge nur die Länge
+const DIMENSION_WEIGHTS: Record<MeasurementDimension, number> = {
+  waist: 1,
+  hip: 1.2,
+  inseam: 0.4,
+};
+
+// Bereich um x.5, in dem wir von "zwischen zwei Größen" sprechen
+const BETWEEN_SIZES_BAND = 0.2;
+
+// Abweichung vom Tabellenmittel in halben Bereichsbreiten: ab hier gilt ein Maß als straff bzw. locker
+const FIT_REGULAR_BAND = 0.35;
+
+const center = (range: MeasurementRange) => (range.min + range.max) / 2;
+
+function sortChart(chart: SizeChartEntry[]): SizeChartEntry[] {
+  const order = (size: string) => {
+    const index = AVAILABLE_SIZES.indexOf(size);
+    return index === -1 ? AVAILABLE_SIZES.length : index;
+  };
+  return [...chart].sort((a, b) => order(a.size) - order(b.size));
+}
+
+// Wert auf einen kontinuierlichen Größen-Index abbilden (0 = kleinste Größe) – lineare Interpolation zwischen den Mittelwerten
+function toSizeIndex(chart: SizeChartEntry[], dimension: MeasurementDimension, value: number): number {
+  const centers = chart.map(entry => center(entry[dimension]));
+  if (centers.length === 1) return 0;
+
+  let i = 0;
+  while (i < centers.length - 2 && value > centers[i + 1]) i++;
+  const span = centers[i + 1] - centers[i];
+  if (span <= 0) return value <= centers[i] ? i : i + 1;
+  return i + (value - centers[i]) / span;
+}
+
+function collectInputs(measurements: BodyMeasurements, estimate: BodyEstimate | null): DimensionInput[] {
+  const fromUser: Record<MeasurementDimension, number | undefined> = {
+    waist: measurements.waistCm,
+    hip: measurements.hipCm,
+    inseam: measurements.inseamCm,
+  };
+  const inputs: DimensionInput[] = [];
+
+  for (const dimension of Object.keys(DIMENSION_WEIGHTS) as MeasurementDimension[]) {
+    const userValue = fromUser[dimension];
+    if (userValue && userValue > 0) {
+      inputs.push({ dimension, value: userValue, source: 'user', weight: DIMENSION_WEIGHTS[dimension] * 2, confidence: 0.95 });
+      continue;
+    }
+    const photoValue = estimate?.[`${dimension}Cm` as const];
+    if (estimate && photoValue && photoValue > 0) {
+      inputs.push({ dimension, value: photoValue, source: 'photo', weight: DIMENSION_WEIGHTS[dimension], confidence: estimate.confidence });
+    }
+  }
+  return inputs;
+}
+
+/**
+ * Kombiniert die Modell-Schätzung der Körperproportionen mit den (optionalen) Angaben des Nutzers
+ * und der Größentabelle des Produkts zu einer Empfehlung mit Confidence und den zugrunde liegenden Maßen.
+ */
+export function recommendSize(
+  sizeChart: SizeChartEntry[],
+  estimate: BodyEstimate | null,
+  measurements: BodyMeasurements = {},
+): SizeRecommendation {
+  const chart = sortChart(sizeChart);
+  if (chart.length === 0) {
+    throw new TryOnError('NO_SIZE_CHART');
+  }
+
+  const inputs = collectInputs(measurements, estimate);
+  const fallback = chart[Math.floor((chart.length - 1) / 2)];
+  if (inputs.length === 0) {
+    return {
+      size: fallback.size,
+      confidence: 0.2,
+      basis: [],
+      outOfChart: false,
+      betweenSizes: null,
+    };
+  }
+
+  const indexed = inputs.map(input => ({ ...input, index: toSizeIndex(chart, input.dimension, input.value) }));
+  const totalWeight = indexed.reduce((sum, input) => sum + input.weight, 0);
+  const position = indexed.reduce((sum, input) => sum + input.index * input.weight, 0) / totalWeight;
+  const clamped = Math.min(chart.length - 1, Math.max(0, position));
+  const best = chart[Math.round(clamped)];
+
+  // Confidence: Quelle der Maße, Einigkeit der Maße untereinander, Nähe zur Größenmitte
+  const sourceConfidence = indexed.reduce((sum, input) => sum + input.confidence * input.weight, 0) / totalWeight;
+  const spread = Math.sqrt(indexed.reduce((sum, input) => sum + input.weight * (input.index - position) ** 2, 0) / totalWeight);
+  const distanceFromCenter = Math.abs(clamped - Math.round(clamped));
+  const outOfChart = Math.abs(position - clamped);
+  const confidence = Math.min(0.99, Math.max(0.05,
+    sourceConfidence - 0.2 * spread - 0.3 * distanceFromCenter - 0.4 * outOfChart,
+  ));
+
+  let betweenSizes: SizeRecommendation['betweenSizes'] = null;
+  const fraction = clamped - Math.floor(clamped);
+  if (Math.abs(fraction - 0.5) <= BETWEEN_SIZES_BAND && Math.floor(clamped) < chart.length - 1) {
+    const lower = chart[Math.floor(clamped)].size;
+    const upper = chart[Math.floor(clamped) + 1].size;
+    betweenSizes = { lower, upper };
+  }
+
+  return {
+    size: best.size,
+    confidence,
+    basis: indexed.map(input => ({ dimension: input.dimension, valueCm: Math.round(input.value), source: input.source })),
+    outOfChart: outOfChart > 0.3,
+    betweenSizes,
+  };
+}
+
+function fitLevel(ease: number): FitLevel {
+  if (ease > 1) return 'tight';
+  if (ease > FIT_REGULAR_BAND) return 'snug';
+  if (ease >= -FIT_REGULAR_BAND) return 'regular';
+  if (ease >= -1) return 'relaxed';
+  return 'loose';
+}
+
+// Sitz je Maß in einer Größe; positiv heißt, der Körper ist größer als die Mitte des Tabellenbereichs
+export function assessFit(sizeChart: SizeChartEntry[], size: string, basis: SizeBasisEntry[]): FitSpec {
+  const entry = sizeChart.find(candidate => candidate.size === size);
+  if (!entry) {
+    throw new TryOnError('NO_SIZE_CHART', null, false, size);
+  }
+  return {
+    size,
+    hints: basis.map(({ dimension, valueCm }) => {
+      const range = entry[dimension];
+      const halfWidth = Math.max((range.max - range.min) / 2, 1);
+      return { dimension, level: fitLevel((valueCm - center(range)) / halfWidth) };
+    }),
+  };
+}
+
+/**
+ * Empfohlene Größe und ihre direkten Nachbarn aus der Tabelle (in der Reihenfolge von AVAILABLE_SIZES),
+ * jeweils mit dem erwarteten Sitz für die Anpassungsvorschau.
+ */
+export function fitPreviewSizes(sizeChart: SizeChartEntry[], recommendation: SizeRecommendation): FitSpec[] {
+  const chart = sortChart(sizeChart);
+  const index = chart.findIndex(entry => entry.size === recommendation.size);
+  // Gespeicherte Looks können eine Größe enthalten, die die aktuelle Tabelle nicht mehr führt
+  if (index === -1) return [];
+  return chart
+    .slice(Math.max(0, index - 1), index + 2)
+    .map(entry => assessFit(chart, entry.size, recommendation.basis));
+}
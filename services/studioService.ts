@@ -0,0 +1,167 @@
+import { STUDIO_CONFIG } from "../constants";
+import { Product, StudioItem, StudioModel } from "../types";
+import { sleep } from "./apiClient";
+import { ErrorCode, QuotaError, TryOnError, errorCode, isCancelled } from "./errors";
+import { performVirtualTryOn } from "./geminiService";
+import { groupOutfit, outfitFromProduct } from "./outfitService";
+import { loadProductImage } from "./productImageService";
+import { extensionFor } from "./shareService";
+import { getStudioResult, saveStudioItems, saveStudioResult } from "./studioStore";
+import { ZipEntry, createZip } from "./zipService";
+
+export interface StudioRunOptions {
+  models: StudioModel[];
+  products: Product[];
+  adminToken: string;
+  signal: AbortSignal;
+  onUpdate: (item: StudioItem) => void;
+  intervalMs?: number;
+}
+
+// Diese Fehler betreffen den ganzen Lauf, nicht das einzelne Bild – dann anhalten statt weiterzumachen
+const FATAL_ERRORS: ErrorCode[] = ['UNAUTHORIZED', 'ADMIN_DISABLED', 'STORAGE_FULL', 'STORAGE_UNAVAILABLE'];
+
+export function studioItemId(productId: string, modelId: string): string {
+  return `${productId}__${modelId}`;
+}
+
+// Nur noch nicht geplante Kombinationen – vorhandene behalten Status, Ergebnis und Bewertung
+export function planStudioBatch(models: StudioModel[], products: Product[], existing: StudioItem[]): StudioItem[] {
+  const known = new Set(existing.map(item => item.id));
+  const updatedAt = new Date().toISOString();
+  return models.flatMap(model => products
+    .filter(product => !known.has(studioItemId(product.id, model.id)))
+    .map(product => ({
+      id: studioItemId(product.id, model.id),
+      productId: product.id,
+      modelId: model.id,
+      status: 'queued' as const,
+      attempts: 0,
+      error: null,
+      review: 'pending' as const,
+      variant: null,
+      updatedAt,
+    })));
+}
+
+export function requeueFailed(items: StudioItem[]): StudioItem[] {
+  const updatedAt = new Date().toISOString();
+  return items
+    .filter(item => item.status === 'error')
+    .map(item => ({ ...item, status: 'queued' as const, attempts: 0, error: null, updatedAt }));
+}
+
+async function persist(item: StudioItem, onUpdate: StudioRunOptions['onUpdate']): Promise<StudioItem> {
+  await saveStudioItems([item]);
+  onUpdate(item);
+  return item;
+}
+
+async function renderItem(model: StudioModel, product: Product, adminToken: string, signal: AbortSignal) {
+  const garments = groupOutfit(outfitFromProduct(product));
+  const images = await Promise.all(garments.map(garment => loadProductImage(garment.product)));
+  return performVirtualTryOn(model.image, garments.map((garment, index) => ({ ...garment, image: images[index] })), { signal, adminToken });
+}
+
+/**
+ * Arbeitet alle wartenden Kombinationen nacheinander ab, mit mindestens intervalMs zwischen zwei Aufträgen.
+ * Fehler einzelner Bilder landen im Eintrag; wiederholbare Fehler kommen bis STUDIO_CONFIG.MAX_ATTEMPTS
+ * ans Ende der Warteschlange. Jeder Statuswechsel wird gespeichert, daher lässt sich ein Lauf nach
+ * Pause oder Neuladen fortsetzen. Pausieren (signal) wirft CancelledError.
+ */
+export async function runStudioQueue(items: StudioItem[], options: StudioRunOptions): Promise<void> {
+  const { models, products, adminToken, signal, onUpdate, intervalMs = STUDIO_CONFIG.INTERVAL_MS } = options;
+  const queue = items.filter(item => item.status === 'queued');
+  let lastStart = 0;
+
+  while (queue.length > 0) {
+    const item = queue.shift()!;
+    const model = models.find(entry => entry.id === item.modelId);
+    const product = products.find(entry => entry.id === item.productId);
+    if (!model || !product) {
+      // Produkt nicht mehr im Katalog oder Modelfoto gelöscht
+      await persist({ ...item, status: 'error', error: 'CATALOG_UNAVAILABLE', updatedAt: new Date().toISOString() }, onUpdate);
+      continue;
+    }
+
+    await sleep(Math.max(0, lastStart + intervalMs - Date.now()), signal);
+    lastStart = Date.now();
+    const current = await persist({ ...item, status: 'rendering', error: null, updatedAt: new Date().toISOString() }, onUpdate);
+
+    try {
+      const rendered = await renderItem(model, product, adminToken, signal);
+      const done: StudioItem = { ...current, status: 'done', attempts: current.attempts + 1, variant: rendered.variant, review: 'pending', updatedAt: new Date().toISOString() };
+      await saveStudioResult(done, rendered.image);
+      onUpdate(done);
+    } catch (error) {
+      if (isCancelled(error)) {
+        await persist({ ...current, status: 'queued' }, onUpdate);
+        throw error;
+      }
+      const code = errorCode(error);
+      const attempts = current.attempts + 1;
+      const retry = error instanceof TryOnError && error.retryable && attempts < STUDIO_CONFIG.MAX_ATTEMPTS;
+      const failed = await persist({ ...current, status: retry ? 'queued' : 'error', attempts, error: code, updatedAt: new Date().toISOString() }, onUpdate);
+      if (FATAL_ERRORS.includes(code)) throw error;
+      if (retry) queue.push(failed);
+      // Modell ausgelastet: länger warten, statt die Quota weiter zu belasten
+      if (error instanceof QuotaError) await sleep(Math.max(error.retryAfterMs ?? 0, STUDIO_CONFIG.QUOTA_PAUSE_MS), signal);
+    }
+  }
+}
+
+function slug(value: string): string {
+  return value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase();
+}
+
+function csvField(value: string): string {
+  return /[",;\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Dateiname pro Model: aus dem Namen, bei gleichen Namen mit Zähler
+function modelSlugs(models: StudioModel[]): Map<string, string> {
+  const used = new Set<string>();
+  const slugs = new Map<string, string>();
+  for (const model of models) {
+    const base = slug(model.name) || 'model';
+    let candidate = base;
+    for (let n = 2; used.has(candidate); n++) candidate = `${base}-${n}`;
+    used.add(candidate);
+    slugs.set(model.id, candidate);
+  }
+  return slugs;
+}
+
+/**
+ * ZIP mit allen freigegebenen Bildern (`images/<Produkt-ID>__<Model>.<ext>`) und manifest.csv,
+ * das jede Datei Produkt, Model und Prompt-Variante zuordnet.
+ */
+export async function exportStudioZip(items: StudioItem[], models: StudioModel[], products: Product[]): Promise<Blob> {
+  const slugs = modelSlugs(models);
+  const approved = items.filter(item => item.status === 'done' && item.review === 'approved');
+  const rows = [['file', 'product_id', 'product_name', 'model_id', 'model_name', 'prompt_id', 'prompt_version', 'model', 'created_at']];
+  const entries: ZipEntry[] = [];
+
+  for (const item of approved) {
+    const image = await getStudioResult(item.id);
+    const model = models.find(entry => entry.id === item.modelId);
+    const product = products.find(entry => entry.id === item.productId);
+    const file = `images/${item.productId.replace(/[^\w.-]+/g, '-')}__${slugs.get(item.modelId) || 'model'}.${extensionFor(image.type)}`;
+    entries.push({ name: file, data: new Uint8Array(await image.arrayBuffer()) });
+    rows.push([
+      file,
+      item.productId,
+      product?.name || '',
+      item.modelId,
+      model?.name || '',
+      item.variant?.promptId || '',
+      item.variant ? String(item.variant.promptVersion) : '',
+      item.variant?.model || '',
+      item.updatedAt,
+    ]);
+  }
+
+  const manifest = rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+  entries.push({ name: 'manifest.csv', data: new TextEncoder().encode(manifest) });
+  return createZip(entries);
+}
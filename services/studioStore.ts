@@ -0,0 +1,116 @@
+import { STUDIO_CONFIG } from "../constants";
+import { StudioItem, StudioModel } from "../types";
+import { TryOnError } from "./errors";
+import { dataUrlToBlob } from "./imagePreprocessing";
+
+const MODELS = 'models';
+const ITEMS = 'items';
+const RESULTS = 'results';
+const STORES = [MODELS, ITEMS, RESULTS];
+
+interface StudioResult {
+  id: string;
+  image: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function toStorageError(error: DOMException | null): TryOnError {
+  return new TryOnError(error?.name === 'QuotaExceededError' ? 'STORAGE_FULL' : 'STORAGE_UNAVAILABLE', null, false, error?.message);
+}
+
+// Eigene Datenbank neben „Meine Looks“, damit Aufräumen dort keine Studio-Ergebnisse trifft
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new TryOnError('STORAGE_UNAVAILABLE'));
+        return;
+      }
+      const request = indexedDB.open(STUDIO_CONFIG.DB_NAME, STUDIO_CONFIG.DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of STORES) {
+          if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(toStorageError(request.error));
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function transact<T = void>(
+  mode: IDBTransactionMode,
+  fn: (models: IDBObjectStore, items: IDBObjectStore, results: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORES, mode);
+    const request = fn(tx.objectStore(MODELS), tx.objectStore(ITEMS), tx.objectStore(RESULTS));
+    tx.oncomplete = () => resolve(request ? request.result : undefined as T);
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+  });
+}
+
+// Ein beim Schließen laufender Auftrag kommt wieder in die Warteschlange
+export async function loadStudio(): Promise<{ models: StudioModel[]; items: StudioItem[] }> {
+  const models = await transact<StudioModel[]>('readonly', models => models.getAll());
+  const items = await transact<StudioItem[]>('readonly', (_, items) => items.getAll());
+  return {
+    models,
+    items: items.map(item => (item.status === 'rendering' ? { ...item, status: 'queued' as const } : item)),
+  };
+}
+
+export function saveStudioModel(model: StudioModel): Promise<void> {
+  return transact('readwrite', models => {
+    models.put(model);
+  });
+}
+
+// Entfernt das Modelfoto samt aller Kombinationen und Ergebnisse
+export function deleteStudioModel(id: string, itemIds: string[]): Promise<void> {
+  return transact('readwrite', (models, items, results) => {
+    models.delete(id);
+    for (const itemId of itemIds) {
+      items.delete(itemId);
+      results.delete(itemId);
+    }
+  });
+}
+
+export function saveStudioItems(list: StudioItem[]): Promise<void> {
+  return transact('readwrite', (_, items) => {
+    for (const item of list) items.put(item);
+  });
+}
+
+// Ergebnis und Status in einer Transaktion, damit nach einem Abbruch beides zusammenpasst
+export async function saveStudioResult(item: StudioItem, image: string): Promise<void> {
+  const blob = await dataUrlToBlob(image);
+  await transact('readwrite', (_, items, results) => {
+    items.put(item);
+    const result: StudioResult = { id: item.id, image: blob };
+    results.put(result);
+  });
+}
+
+export async function getStudioResult(id: string): Promise<Blob> {
+  const result = await transact<StudioResult | undefined>('readonly', (_, __, results) => results.get(id));
+  if (!result) throw new TryOnError('IMAGE_READ_FAILED', null, false, id);
+  return result.image;
+}
+
+export function clearStudio(): Promise<void> {
+  return transact('readwrite', (models, items, results) => {
+    models.clear();
+    items.clear();
+    results.clear();
+  });
+}
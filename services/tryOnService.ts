@@ -0,0 +1,153 @@
+import { COMPARE_CONFIG, QUALITY_CONFIG } from "../constants";
+import { ComparisonItem, FitSpec, OutfitItem, Product, RenderVariant } from "../types";
+import { performVirtualTryOn } from "./geminiService";
+import { errorCode, isCancelled } from "./errors";
+import { groupOutfit, outfitFromProduct } from "./outfitService";
+import { loadProductImage } from "./productImageService";
+import { getSessionId } from "./session";
+import { QualityCheckId, QualityGarment, QualityReport, checkResult } from "./resultChecks";
+
+export interface RenderResult {
+  image: string;
+  cached: boolean;
+  variant: RenderVariant;
+  quality: QualityReport;
+}
+
+interface CachedRender {
+  image: string;
+  variant: RenderVariant;
+  quality: QualityReport;
+}
+
+// Gerenderte Looks im Speicher (LRU über die Einfügereihenfolge der Map)
+const renderCache = new Map<string, CachedRender>();
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Zuletzt vom Server gemeldete Prompt-Variante. Ändert sich Version, Experiment oder Arm,
+// treffen Ergebnisse der alten Variante nicht mehr.
+let currentVariant = '';
+
+const variantKey = (variant: RenderVariant) =>
+  `${variant.promptId}@${variant.promptVersion}/${variant.experiment || ''}:${variant.arm}/${variant.model}`;
+
+// Schlüssel aus Sitzung und Prompt-Variante, Foto, Outfit (Produkt + Slots) und ggf. der Vorschaugröße
+export function buildRenderKey(userImage: string, outfit: OutfitItem[], fit?: FitSpec, variant = currentVariant): Promise<string> {
+  const outfitKey = outfit.map(item => `${item.slot}:${item.product.id}`).join(',');
+  const fitKey = fit ? `|${fit.productName || ''}@${fit.size}:${fit.hints.map(hint => `${hint.dimension}=${hint.level}`).join(',')}` : '';
+  return sha256(`${getSessionId()}|${variant}|${outfitKey}${fitKey}|${userImage}`);
+}
+
+function remember(key: string, entry: CachedRender) {
+  renderCache.delete(key);
+  renderCache.set(key, entry);
+  while (renderCache.size > COMPARE_CONFIG.CACHE_SIZE) {
+    renderCache.delete(renderCache.keys().next().value!);
+  }
+}
+
+export function clearRenderCache() {
+  renderCache.clear();
+  currentVariant = '';
+}
+
+const countFailures = (report: QualityReport) => report.checks.filter(check => check.status === 'fail').length;
+
+// Seitenverhältnis und Auflösung bestimmt das Modell selbst – ein zweiter (bezahlter) Aufruf ändert daran nichts.
+// Neu gerendert wird nur, wenn Hintergrund, Gesicht oder Farbe eines Teils abweichen.
+const RETRYABLE_CHECKS: QualityCheckId[] = ['background', 'face', 'garment-colour'];
+
+const shouldRetry = (report: QualityReport) =>
+  report.checks.some(check => check.status === 'fail' && RETRYABLE_CHECKS.includes(check.id));
+
+// Eine fehlgeschlagene Prüfung (z.B. fehlende Pose-Erkennung) darf das Ergebnis nicht verwerfen
+async function checkQuality(userImage: string, resultImage: string, garments: QualityGarment[]): Promise<QualityReport> {
+  try {
+    return await checkResult(userImage, resultImage, garments);
+  } catch (error) {
+    console.warn("Result quality check failed:", error);
+    return { checks: [], passed: true };
+  }
+}
+
+/**
+ * Rendert ein Outfit und prüft das Ergebnis. Fällt eine der RETRYABLE_CHECKS durch, wird bis zu
+ * QUALITY_CONFIG.MAX_ATTEMPTS-mal neu gerendert; zurück kommt das Ergebnis mit den wenigsten Fehlern.
+ * Mit fit zeigt das Ergebnis den Sitz in dieser Größe (Anpassungsvorschau).
+ */
+export async function renderOutfit(userImage: string, outfit: OutfitItem[], signal?: AbortSignal, fit?: FitSpec): Promise<RenderResult> {
+  const key = await buildRenderKey(userImage, outfit, fit);
+  const cached = renderCache.get(key);
+  if (cached) {
+    remember(key, cached);
+    return { ...cached, cached: true };
+  }
+
+  const garments = groupOutfit(outfit);
+  const images = await Promise.all(garments.map(garment => loadProductImage(garment.product)));
+  const inputs = garments.map((garment, index) => ({ ...garment, image: images[index] }));
+  const qualityGarments = inputs.map(input => ({ productName: input.product.name, image: input.image, slots: input.slots }));
+
+  let best: CachedRender | null = null;
+  for (let attempt = 1; attempt <= QUALITY_CONFIG.MAX_ATTEMPTS; attempt++) {
+    const rendered = await performVirtualTryOn(userImage, inputs, { signal, fit });
+    const quality = await checkQuality(userImage, rendered.image, qualityGarments);
+    if (!best || countFailures(quality) < countFailures(best.quality)) best = { ...rendered, quality };
+    if (!shouldRetry(quality)) break;
+  }
+  // Unter der Variante ablegen, die der Server tatsächlich genutzt hat
+  currentVariant = variantKey(best!.variant);
+  remember(await buildRenderKey(userImage, outfit, fit), best!);
+  return { ...best!, cached: false };
+}
+
+// Führt fn für alle Einträge aus, aber nie mehr als limit gleichzeitig
+async function runWithConcurrency<T>(items: T[], limit: number, fn: (item: T) => Promise<void>) {
+  const queue = [...items];
+  const workers = Array.from({ length: Math.min(limit, queue.length) }, async () => {
+    while (queue.length > 0) {
+      await fn(queue.shift()!);
+    }
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * Rendert dasselbe Foto in mehreren Produkten. Fehler einzelner Produkte brechen den Vergleich nicht ab,
+ * sondern landen im jeweiligen Eintrag; onProgress meldet jeden Statuswechsel.
+ */
+export async function renderComparison(
+  userImage: string,
+  products: Product[],
+  onProgress: (item: ComparisonItem) => void,
+  { signal, concurrency = COMPARE_CONFIG.CONCURRENCY }: { signal?: AbortSignal; concurrency?: number } = {}
+): Promise<ComparisonItem[]> {
+  const results = new Map<string, ComparisonItem>();
+  const update = (item: ComparisonItem) => {
+    results.set(item.productId, item);
+    onProgress(item);
+  };
+
+  products.forEach(product => update({ productId: product.id, status: 'queued', image: null, error: null, cached: false, variant: null }));
+
+  await runWithConcurrency(products, concurrency, async product => {
+    if (signal?.aborted) {
+      update({ productId: product.id, status: 'error', image: null, error: 'CANCELLED', cached: false, variant: null });
+      return;
+    }
+    update({ productId: product.id, status: 'rendering', image: null, error: null, cached: false, variant: null });
+    try {
+      const { image, cached, variant } = await renderOutfit(userImage, outfitFromProduct(product), signal);
+      update({ productId: product.id, status: 'done', image, error: null, cached, variant });
+    } catch (err) {
+      if (!isCancelled(err)) console.error(err);
+      update({ productId: product.id, status: 'error', image: null, error: errorCode(err), cached: false, variant: null });
+    }
+  });
+
+  return products.map(product => results.get(product.id)!);
+}
@@ -1,16 +1,296 @@
 
+import type { MessageKey } from './locales/de';
+import type { ErrorCode } from './services/errors';
+import type { QualityReport } from './services/resultChecks';
+import type { Language } from './services/i18n';
+
+export type MessageParams = Record<string, string | number>;
+
+// Text, den ein Service liefert und erst die Oberfläche übersetzt (Schlüssel aus locales/de.ts)
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export interface MeasurementRange {
+  min: number;
+  max: number;
+}
+
+// Körpermaße in cm je Größe laut Hersteller-Größentabelle
+export interface SizeChartEntry {
+  size: string;
+  waist: MeasurementRange;
+  hip: MeasurementRange;
+  inseam: MeasurementRange;
+}
+
+// Kaufbare Variante eines Produkts (Farbe/Größe) aus dem Shop
+export interface ProductVariant {
+  id: string;
+  productNumber: string;
+  size: string | null;
+  color: string | null;
+  stock: number;
+  available: boolean;
+}
+
+export type GarmentCategory = 'top' | 'bottom' | 'bra' | 'jacket';
+
+// Ein Set enthält mehrere Teile (z.B. Top + Leggings) auf einem Produktbild
+export type ProductCategory = GarmentCategory | 'set';
+
 export interface Product {
   id: string;
+  category: ProductCategory;
+  setSlots?: GarmentCategory[];
+  // Nur bei Sets: Einzelteile, die es auch separat gibt (Produkt-ID oder -nummer je Slot)
+  setPieces?: Partial<Record<GarmentCategory, string>>;
+  // Einzelteil ohne eigenes Foto – das Produktbild zeigt das ganze Set
+  photoShowsSet?: boolean;
+  productNumber?: string;
   name: string;
+  price: number;
+  currency: string;
   imageUrl: string;
+  images: string[];
   description: string;
+  sizeChart: SizeChartEntry[];
+  variants: ProductVariant[];
+}
+
+// Optionale Angaben des Nutzers – alles in cm bzw. kg
+export interface BodyMeasurements {
+  heightCm?: number;
+  weightKg?: number;
+  waistCm?: number;
+  hipCm?: number;
+  inseamCm?: number;
+}
+
+// Schätzung der Körperproportionen durch das Modell (confidence 0..1)
+export interface BodyEstimate {
+  waistCm: number;
+  hipCm: number;
+  inseamCm: number;
+  confidence: number;
+}
+
+export type MeasurementDimension = 'waist' | 'hip' | 'inseam';
+
+// Grundlage der Empfehlung – die Begründung formuliert die Oberfläche in der jeweiligen Sprache
+export interface SizeBasisEntry {
+  dimension: MeasurementDimension;
+  valueCm: number;
+  source: 'user' | 'photo';
+}
+
+export interface SizeRecommendation {
+  size: string;
+  confidence: number;
+  basis: SizeBasisEntry[];
+  outOfChart: boolean;
+  betweenSizes: { lower: string; upper: string } | null;
+}
+
+// Sitz eines Maßes in einer Größe: "tight" = Körper größer als die Tabelle, "loose" = kleiner.
+// Bei der Innenbeinlänge heißt "tight" zu kurz, "loose" zu lang.
+export type FitLevel = 'tight' | 'snug' | 'regular' | 'relaxed' | 'loose';
+
+export interface FitHint {
+  dimension: MeasurementDimension;
+  level: FitLevel;
+}
+
+// Größe samt Spannungshinweisen – geht so auch an den Try-On-Prompt
+export interface FitSpec {
+  size: string;
+  hints: FitHint[];
+  // Teil, dessen Größentabelle gilt – in gemischten Outfits ändert sich nur dessen Sitz
+  productName?: string;
+}
+
+export interface FitPreviewItem {
+  size: string;
+  status: 'idle' | 'rendering' | 'done' | 'error';
+  image: string | null;
+  error: ErrorCode | null;
+}
+
+// Ein Teil des kombinierten Outfits – bei Sets wird nur der Teil für den Slot übernommen
+export interface OutfitItem {
+  slot: GarmentCategory;
+  product: Product;
 }
 
 export interface TryOnState {
   userImage: string | null;
   selectedProduct: Product | null;
+  outfit: OutfitItem[];
   resultImage: string | null;
-  recommendedSize: string | null;
+  // Ergebnis der automatischen Prüfung; null bei wieder geöffneten Looks
+  resultQuality: QualityReport | null;
+  recommendedSize: SizeRecommendation | null;
   isLoading: boolean;
-  error: string | null;
+  error: ErrorCode | null;
+}
+
+// Kennzeichnet jedes Rendering mit Prompt-Vorlage, Modell und A/B-Arm, damit sich Varianten vergleichen lassen
+export interface RenderVariant {
+  promptId: string;
+  promptVersion: number;
+  model: string;
+  experiment: string | null;
+  arm: string;
 }
+
+// Fortschritt eines einzelnen Renderings im Farbvergleich
+export interface ComparisonItem {
+  productId: string;
+  status: 'queued' | 'rendering' | 'done' | 'error';
+  image: string | null;
+  error: ErrorCode | null;
+  cached: boolean;
+  variant: RenderVariant | null;
+}
+
+// Studio-Modus: Katalogbilder aus jeder Kombination von Modelfoto und Produkt
+export interface StudioModel {
+  id: string;
+  name: string;
+  // Vorverarbeitetes Foto als Data-URL
+  image: string;
+}
+
+export type StudioReview = 'pending' | 'approved' | 'rejected';
+
+export interface StudioItem {
+  // `${productId}__${modelId}`
+  id: string;
+  productId: string;
+  modelId: string;
+  status: 'queued' | 'rendering' | 'done' | 'error';
+  attempts: number;
+  error: ErrorCode | null;
+  review: StudioReview;
+  variant: RenderVariant | null;
+  updatedAt: string;
+}
+
+export interface WidgetTheme {
+  primary?: string;
+  primaryHover?: string;
+  background?: string;
+}
+
+// 'host': Shop-Seite legt in den Warenkorb, 'store-api': wir selbst mit dem Context Token, 'link': nur Deep-Link
+export type CartMode = 'host' | 'store-api' | 'link';
+
+// Konfiguration, wenn die App als Widget (iframe) im Shop eingebettet ist
+export interface WidgetConfig {
+  productRef: string | null;
+  locale: string;
+  theme: WidgetTheme;
+  skipCatalog: boolean;
+  hostOrigin: string | null;
+  cartMode: CartMode;
+  contextToken: string | null;
+  // Entscheidung aus dem Cookie-Banner des Shops; null = Widget fragt selbst
+  analyticsConsent: boolean | null;
+}
+
+export interface CartResult {
+  status: 'added' | 'redirected';
+  via: CartMode;
+  variant: ProductVariant | null;
+  url: string;
+  // Texte vom Shop (Host-Seite, Store API) kommen bereits übersetzt als string
+  message: LocalizedMessage | string;
+}
+
+// Anproben pro Kalendertag (UTC); null = unbegrenzt
+export interface TryOnLimits {
+  perDay: number | null;
+  perClientPerDay: number | null;
+}
+
+// Vom Händler im Admin-Bereich gepflegte Einstellungen – JSON, das die App beim Start lädt
+export interface StoreSettings {
+  version: number;
+  brand: { name: string; suffix: string };
+  // Basis-Farben; Parameter der Shop-Seite (Widget) haben Vorrang
+  theme: WidgetTheme;
+  // null: Produkte kommen aus Shopware bzw. public/catalog.json
+  products: Product[] | null;
+  // Überschriebene Texte je Sprache, Schlüssel aus locales/de.ts
+  copy: Partial<Record<Language, Partial<Record<MessageKey, string>>>>;
+  limits: TryOnLimits;
+  updatedAt: string | null;
+}
+
+// Ein Befund der Schema-Prüfung, z.B. path "products[2].sizeChart[0].waist"
+export interface SettingsIssue {
+  path: string;
+  message: LocalizedMessage;
+}
+
+// Eintrag der Galerie "Meine Looks" – die Bilder selbst liegen getrennt, damit die Liste schnell lädt
+export interface SavedLook {
+  id: string;
+  createdAt: string;
+  favourite: boolean;
+  thumbnail: string;
+  outfit: OutfitItem[];
+  recommendedSize: SizeRecommendation | null;
+  // Fehlt bei Looks, die vor der Prompt-Registry gespeichert wurden
+  variant?: RenderVariant;
+  bytes: number;
+}
+
+export type ConsentAction = 'granted' | 'declined' | 'revoked' | 'data-deleted' | 'analytics-granted' | 'analytics-revoked';
+
+// Eintrag im lokalen Einwilligungsprotokoll – Version verweist auf den Text in den Sprachdateien
+export interface ConsentEvent {
+  action: ConsentAction;
+  version: string;
+  locale: string;
+  timestamp: string;
+  // Nur bei 'granted': optionale Einwilligung in die Nutzungsstatistik
+  analytics?: boolean;
+}
+
+export interface ConsentRecord {
+  version: string;
+  locale: string;
+  grantedAt: string;
+  analytics?: boolean;
+}
+
+// Funnel-Events ohne personenbezogene Daten: keine Bilder, Maße oder freien Texte
+export type AnalyticsEvent =
+  | { name: 'step-viewed'; props: { step: number; previousStep: number | null } }
+  | { name: 'product-selected'; props: { productId: string; category: ProductCategory; source: 'catalog' | 'host' | 'gallery' | 'link' } }
+  | { name: 'photo-uploaded'; props: { source: 'file' | 'camera'; checksPassed: boolean } }
+  | { name: 'tryon-started'; props: { productIds: string[] } }
+  | { name: 'tryon-completed'; props: { durationMs: number; cached: boolean; qualityPassed: boolean; variant: RenderVariant } }
+  | { name: 'tryon-failed'; props: { durationMs: number; errorCode: ErrorCode } }
+  | { name: 'size-recommended'; props: { productId: string; size: string; confidence: number } }
+  | { name: 'shop-clicked'; props: { productId: string; size: string | null; via: CartMode } }
+  | { name: 'error-shown'; props: { code: ErrorCode; context: 'catalog' | 'photo' | 'fit-preview' } };
+
+export type TrackedEvent = AnalyticsEvent & {
+  sessionId: string;
+  locale: string;
+  embedded: boolean;
+  timestamp: string;
+};
+
+export type WidgetEvent =
+  | { type: 'ready'; payload: { version: number } }
+  | { type: 'tryon-started'; payload: { productId: string } }
+  | { type: 'result-ready'; payload: { productId: string; variant: RenderVariant } }
+  | { type: 'size-recommended'; payload: { productId: string; size: string; confidence: number; variantId: string | null } }
+  | { type: 'add-to-cart-clicked'; payload: { productId: string; size: string | null; variantId: string | null } }
+  | { type: 'add-to-cart'; payload: { requestId: string; productId: string; variantId: string; productNumber: string; size: string | null; quantity: number } }
+  | { type: 'consent'; payload: ConsentEvent }
+  | { type: 'analytics'; payload: { events: TrackedEvent[] } };
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiDevServer } from './server/devServer';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +10,17 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      // Der Gemini Key bleibt auf dem Server – lokal stellt apiDevServer die /api Routen bereit
+      plugins: [react(), apiDevServer(env)],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.SHOPWARE_URL': JSON.stringify(env.SHOPWARE_URL || ''),
+        'process.env.SHOPWARE_ACCESS_KEY': JSON.stringify(env.SHOPWARE_ACCESS_KEY || ''),
+        'process.env.SHOPWARE_CATEGORY_ID': JSON.stringify(env.SHOPWARE_CATEGORY_ID || ''),
+        'process.env.SHOP_URL': JSON.stringify(env.SHOP_URL || ''),
+        'process.env.PRIVACY_URL': JSON.stringify(env.PRIVACY_URL || ''),
+        'process.env.ANALYTICS_SINKS': JSON.stringify(env.ANALYTICS_SINKS || ''),
+        'process.env.ANALYTICS_ENDPOINT': JSON.stringify(env.ANALYTICS_ENDPOINT || ''),
+        'process.env.ANALYTICS_TRUSTED_ORIGINS': JSON.stringify(env.ANALYTICS_TRUSTED_ORIGINS || '')
       },
       resolve: {
         alias: {
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Eigene Konfiguration, damit Tests ohne React-Plugin und lokalen API-Server laufen
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', 'dist/**'],
+  },
+});